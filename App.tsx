@@ -1,17 +1,61 @@
 // This is the main application component. It manages state, context, and view rendering.
-import React, { useState, useEffect, createContext, useMemo } from 'react';
+import React, { useState, useEffect, createContext, useMemo, useRef } from 'react';
 import Sidebar from './components/Sidebar';
 import DashboardView from './components/DashboardView';
 import NewContentView from './components/NewContentView';
 import ContentLibraryView from './components/ContentLibraryView';
 import CalendarView from './components/CalendarView';
 import SettingsView from './components/SettingsView';
+import UsageView from './components/UsageView';
 import Notification from './components/Notification';
 import AuthView from './components/AuthView';
+import InvitationPrompt from './components/InvitationPrompt';
+import Spinner from './components/common/Spinner';
 import { WordPressSite, GeneratedContent, Notification as NotificationType, LanguageContextType, LanguageCode, User, UserRole, ContentStatus } from './types';
 import { getT } from './i18n';
-import { getSiteStats } from './services/wordpressService';
-import { USERS } from './services/backendService';
+import { getSiteStats, clearSiteContextCache } from './services/wordpressService';
+import { restoreSession, getTeamMembers, logout, fetchSites, createSite, patchSite, deleteSite, fetchLibrary, createContent, patchContent, deleteContent } from './services/backendService';
+import { clearPromptTemplateCache } from './services/promptOverrides';
+import { clearVoiceProfileCache } from './services/voiceProfiles';
+
+// How often due scheduled items are reloaded to see whether the server has published them.
+const SCHEDULE_REFRESH_INTERVAL_MS = 60 * 1000;
+
+// Sites saved in localStorage still carry their application password in plaintext.
+type LegacySite = WordPressSite & { appPassword?: string };
+
+// Before the backend existed, sites and the library lived only in this browser's localStorage.
+// Upload anything the team doesn't have yet, then drop the local copy.
+const importLocalData = async (sites: WordPressSite[], library: GeneratedContent[]): Promise<[WordPressSite[], GeneratedContent[]]> => {
+    const localSites: LegacySite[] = JSON.parse(localStorage.getItem('wp-sites') || '[]');
+    const localLibrary: GeneratedContent[] = JSON.parse(localStorage.getItem('content-library') || '[]');
+    if (localSites.length === 0 && localLibrary.length === 0) {
+        return [sites, library];
+    }
+
+    const newSites = localSites.filter(site => !sites.some(s => s.id === site.id));
+    const newItems = localLibrary.filter(item => !library.some(i => i.id === item.id));
+    const importedSites = await Promise.all(newSites.map(({ appPassword, ...site }) => createSite(site, appPassword)));
+    const importedItems = await Promise.all(newItems.map(createContent));
+    localStorage.removeItem('wp-sites');
+    localStorage.removeItem('content-library');
+    return [[...sites, ...importedSites], [...importedItems, ...library]];
+};
+
+// Invite links look like `/?invite=<token>`. The token is kept for the session so it
+// survives logging in or registering first.
+const INVITE_STORAGE_KEY = 'pending-invite';
+
+const takeInviteToken = (): string | null => {
+    const url = new URL(window.location.href);
+    const token = url.searchParams.get('invite');
+    if (token) {
+        sessionStorage.setItem(INVITE_STORAGE_KEY, token);
+        url.searchParams.delete('invite');
+        window.history.replaceState(null, '', url.toString());
+    }
+    return sessionStorage.getItem(INVITE_STORAGE_KEY);
+};
 
 // Create a context for language and translation function
 export const LanguageContext = createContext<LanguageContextType | null>(null);
@@ -26,55 +70,87 @@ const App: React.FC = () => {
     const [language, setLanguage] = useState<LanguageCode>(() => (localStorage.getItem('language') as LanguageCode) || 'en');
     const [editingContent, setEditingContent] = useState<GeneratedContent | null>(null);
 
-    // Load data from localStorage on initial render
+    const [isCheckingSession, setIsCheckingSession] = useState(true);
+    const [teamMembers, setTeamMembers] = useState<User[]>([]);
+    const [inviteToken, setInviteToken] = useState<string | null>(takeInviteToken);
+
+    // The stored session token is only a claim; the server decides who (if anyone) is signed in.
     useEffect(() => {
-        try {
-            const savedUser = localStorage.getItem('currentUser');
-            if (savedUser) {
-                const user: User = JSON.parse(savedUser);
-                setCurrentUser(user);
-            }
+        restoreSession()
+            .then(setCurrentUser)
+            .finally(() => setIsCheckingSession(false));
+    }, []);
+
+    // Sites and the library live on the server, scoped to the signed-in user's team.
+    useEffect(() => {
+        if (!currentUser) return;
+        let isCancelled = false;
+        setIsLoading(true);
 
-            const savedSites = localStorage.getItem('wp-sites');
-            if (savedSites) {
-                const parsedSites: WordPressSite[] = JSON.parse(savedSites);
-                setSites(parsedSites);
-                parsedSites.forEach(site => {
+        Promise.all([fetchSites(), fetchLibrary()])
+            .then(([loadedSites, loadedLibrary]) => importLocalData(loadedSites, loadedLibrary))
+            .then(([loadedSites, loadedLibrary]) => {
+                if (isCancelled) return;
+                setSites(loadedSites);
+                setLibrary(loadedLibrary);
+                loadedSites.forEach(site => {
                     if (!site.isVirtual) {
-                        getSiteStats(site).then(stats => {
-                            updateSite(site.id, { stats });
-                        });
+                        getSiteStats(site)
+                            .then(stats => updateSite(site.id, { stats }))
+                            .catch(error => console.error(`Failed to refresh stats for ${site.url}`, error));
                     }
                 });
-            }
-            const savedLibrary = localStorage.getItem('content-library');
-            if (savedLibrary) {
-                setLibrary(JSON.parse(savedLibrary));
-            }
-        } catch (error) {
-            console.error("Failed to load data from localStorage", error);
-        } finally {
-            setIsLoading(false);
-        }
-    }, []);
+            })
+            .catch(error => {
+                console.error("Failed to load sites and library", error);
+                if (!isCancelled) showNotification({ message: getT(language)('loadDataFailed'), type: 'error' });
+            })
+            .finally(() => {
+                if (!isCancelled) setIsLoading(false);
+            });
 
-    // Save data to localStorage whenever it changes
-    useEffect(() => {
-        if (currentUser) {
-            localStorage.setItem('currentUser', JSON.stringify(currentUser));
-        } else {
-            localStorage.removeItem('currentUser');
-        }
-    }, [currentUser]);
+        // Only used to show authors and per-member usage, so a failure here isn't worth interrupting the user.
+        getTeamMembers(currentUser.teamId)
+            .then(members => { if (!isCancelled) setTeamMembers(members); })
+            .catch(error => console.error("Failed to load team members", error));
 
-    useEffect(() => {
-        localStorage.setItem('wp-sites', JSON.stringify(sites));
-    }, [sites]);
+        return () => { isCancelled = true; };
+    }, [currentUser?.id, currentUser?.teamId]);
 
+    // The refresh runs on an interval, so it reads the latest library through a ref.
+    const libraryRef = useRef(library);
+    libraryRef.current = library;
+
+    // The server publishes due scheduled items (server/scheduler.ts); this picks up what it did to them.
     useEffect(() => {
-        localStorage.setItem('content-library', JSON.stringify(library));
-    }, [library]);
-    
+        if (!currentUser) return;
+        let isRunning = false;
+
+        const refreshScheduled = async () => {
+            const now = Date.now();
+            const due = libraryRef.current.filter(item => item.status === 'scheduled' && item.scheduledFor && new Date(item.scheduledFor).getTime() <= now);
+            if (isRunning || due.length === 0) return;
+            isRunning = true;
+            try {
+                const latest = new Map((await fetchLibrary()).map(item => [item.id, item]));
+                const updated = due.map(item => latest.get(item.id)).filter((item): item is GeneratedContent => !!item);
+                const updatesById = new Map(updated.map(item => [item.id, item]));
+                setLibrary(prev => prev.map(item => updatesById.get(item.id) ?? item));
+                updated
+                    .filter(item => item.status === 'published')
+                    .forEach(item => showNotification({ message: getT(language)('scheduledPublishSuccess', { title: item.title }), type: 'success' }));
+            } catch (error) {
+                console.error("Failed to refresh scheduled content", error);
+            } finally {
+                isRunning = false;
+            }
+        };
+
+        refreshScheduled();
+        const timer = setInterval(refreshScheduled, SCHEDULE_REFRESH_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [currentUser, language]);
+
     useEffect(() => {
         localStorage.setItem('language', language);
         document.documentElement.lang = language;
@@ -93,36 +169,92 @@ const App: React.FC = () => {
     };
 
     const handleLogout = () => {
+        logout();
         setCurrentUser(null);
-        // Also clear other sensitive data if necessary
+        // The data stays on the server; only this browser's copy is dropped.
         setSites([]);
         setLibrary([]);
-        localStorage.removeItem('wp-sites');
-        localStorage.removeItem('content-library');
+        setTeamMembers([]);
+        setEditingContent(null);
+        clearPromptTemplateCache();
+        clearVoiceProfileCache();
+        clearSiteContextCache();
+    };
+
+    // Joining or creating a team switches the user to that team's sites and library.
+    const handleUserChange = (user: User) => {
+        if (user.teamId !== currentUser?.teamId) {
+            setEditingContent(null);
+            setCurrentView('dashboard');
+            clearPromptTemplateCache();
+            clearVoiceProfileCache();
+        }
+        setCurrentUser(user);
+    };
+
+    const closeInvitation = () => {
+        sessionStorage.removeItem(INVITE_STORAGE_KEY);
+        setInviteToken(null);
     };
 
     const showNotification = (notif: NotificationType) => {
         setNotification(notif);
     };
 
-    const addSite = (site: WordPressSite) => {
+    // Changes are applied to state immediately and rolled back if the server rejects them.
+    const notifySaveFailed = (error: unknown) => {
+        console.error("Failed to save changes", error);
+        showNotification({ message: languageContextValue.t('saveFailed'), type: 'error' });
+    };
+
+    const addSite = (site: WordPressSite, appPassword?: string) => {
         if (sites.some(s => s.id === site.id)) {
             showNotification({ message: languageContextValue.t('errorUrlExists'), type: 'error' });
             return;
         }
         setSites(prevSites => [...prevSites, site]);
         showNotification({ message: languageContextValue.t('siteAddedSuccess'), type: 'success' });
+        createSite(site, appPassword)
+            .then(saved => {
+                // Stats go through the proxy, which needs the saved credentials.
+                if (saved.isVirtual) return;
+                getSiteStats(saved)
+                    .then(stats => updateSite(saved.id, { stats }))
+                    .catch(error => console.error(`Failed to load stats for ${saved.url}`, error));
+            })
+            .catch(error => {
+                setSites(prevSites => prevSites.filter(s => s.id !== site.id));
+                notifySaveFailed(error);
+            });
     };
 
     const removeSite = (siteId: string) => {
+        const site = sites.find(s => s.id === siteId);
+        if (!site) return;
         setSites(prevSites => prevSites.filter(s => s.id !== siteId));
         showNotification({ message: languageContextValue.t('siteRemovedSuccess'), type: 'success' });
+        deleteSite(siteId).catch(error => {
+            setSites(prevSites => [...prevSites, site]);
+            notifySaveFailed(error);
+        });
     };
 
     const updateSite = (siteId: string, updates: Partial<WordPressSite>) => {
+        let previous: WordPressSite | undefined;
         setSites(prevSites =>
-            prevSites.map(s => (s.id === siteId ? { ...s, ...updates } : s))
+            prevSites.map(s => {
+                if (s.id !== siteId) return s;
+                previous = s;
+                return { ...s, ...updates };
+            })
         );
+        patchSite(siteId, updates).then(clearVoiceProfileCache).catch(error => {
+            if (previous) {
+                const restored = previous;
+                setSites(prevSites => prevSites.map(s => (s.id === siteId ? restored : s)));
+            }
+            notifySaveFailed(error);
+        });
     };
     
     const addContentToLibrary = (content: GeneratedContent | GeneratedContent[]) => {
@@ -131,6 +263,12 @@ const App: React.FC = () => {
         setLibrary(prev => [...newContent, ...prev]);
         setCurrentView('library');
         showNotification({ message: languageContextValue.t('contentAddedToLibrary'), type: 'success' });
+        newContent.forEach(item => {
+            createContent(item).catch(error => {
+                setLibrary(prev => prev.filter(i => i.id !== item.id));
+                notifySaveFailed(error);
+            });
+        });
     };
     
     const updateLibraryItem = (id: string, updates: Partial<GeneratedContent>) => {
@@ -142,7 +280,7 @@ const App: React.FC = () => {
         
         // Custom Notifications
         if (newStatus && newStatus !== oldStatus) {
-            const author = USERS.find(u => u.id === item.authorId);
+            const author = teamMembers.find(u => u.id === item.authorId);
             const editor = currentUser; // The user making the change is the editor
 
             if (newStatus === 'needs-review') {
@@ -154,12 +292,23 @@ const App: React.FC = () => {
             }
         }
 
-        setLibrary(prev => prev.map(item => item.id === id ? { ...item, ...updates, updatedAt: new Date() } : item));
+        const changes = { ...updates, updatedAt: new Date() };
+        setLibrary(prev => prev.map(i => i.id === id ? { ...i, ...changes } as GeneratedContent : i));
+        patchContent(id, changes).catch(error => {
+            setLibrary(prev => prev.map(i => i.id === id ? item : i));
+            notifySaveFailed(error);
+        });
     };
 
     const removeLibraryItem = (id: string) => {
-        setLibrary(prev => prev.filter(item => item.id !== id));
+        const item = library.find(i => i.id === id);
+        if (!item) return;
+        setLibrary(prev => prev.filter(i => i.id !== id));
         showNotification({ message: languageContextValue.t('contentDeleted'), type: 'success' });
+        deleteContent(id).catch(error => {
+            setLibrary(prev => [item, ...prev]);
+            notifySaveFailed(error);
+        });
     };
     
     const handleEditItem = (content: GeneratedContent) => {
@@ -174,18 +323,32 @@ const App: React.FC = () => {
             case 'new-content':
                 return <NewContentView onContentGenerated={addContentToLibrary} existingContent={editingContent} onClearEditing={() => setEditingContent(null)} onUpdateLibraryItem={updateLibraryItem} sites={sites} showNotification={showNotification}/>;
             case 'library':
-                return <ContentLibraryView library={library} onUpdateItem={updateLibraryItem} onRemoveItem={removeLibraryItem} onEditItem={handleEditItem} sites={sites} showNotification={showNotification} currentUser={currentUser!} />;
+                return <ContentLibraryView library={library} onUpdateItem={updateLibraryItem} onRemoveItem={removeLibraryItem} onEditItem={handleEditItem} sites={sites} showNotification={showNotification} currentUser={currentUser!} teamMembers={teamMembers} />;
             case 'calendar':
                 return <CalendarView library={library} onEditItem={handleEditItem} onUpdateItem={updateLibraryItem} />;
+            case 'usage':
+                return <UsageView currentUser={currentUser!} teamMembers={teamMembers} sites={sites} showNotification={showNotification} />;
             case 'settings':
-                return <SettingsView onLogout={handleLogout}/>;
+                return <SettingsView onLogout={handleLogout} currentUser={currentUser!} sites={sites} onUpdateSite={updateSite} onUserChange={handleUserChange} showAppNotification={showNotification} />;
             default:
                 return <DashboardView sites={sites} onAddSite={addSite} onRemoveSite={removeSite} onUpdateSite={updateSite} showNotification={showNotification} isLoading={isLoading} />;
         }
     };
     
+    if (isCheckingSession) {
+        return (
+            <div className="flex h-screen items-center justify-center bg-gray-900">
+                <Spinner size="lg" />
+            </div>
+        );
+    }
+
     if (!currentUser) {
-        return <AuthView onLogin={handleLogin} />;
+        return (
+            <LanguageContext.Provider value={languageContextValue}>
+                <AuthView onLogin={handleLogin} />
+            </LanguageContext.Provider>
+        );
     }
 
     return (
@@ -196,6 +359,9 @@ const App: React.FC = () => {
                     {renderView()}
                 </main>
                 <Notification notification={notification} onClose={() => setNotification(null)} />
+                {inviteToken && (
+                    <InvitationPrompt token={inviteToken} onAccepted={handleUserChange} onClose={closeInvitation} showNotification={showNotification} />
+                )}
             </div>
         </LanguageContext.Provider>
     );
@@ -0,0 +1,213 @@
+// Outline-first article workflow: edit the generated outline, then write the article section by
+// section from it, regenerating any section on its own.
+import React, { useState, useContext } from 'react';
+import { LanguageContext } from '../App';
+import { ArticleContent, ArticleLength, ArticleOutline, ContentType, LanguageContextType, Notification, OutlineSection, PromptTemplateRef, WritingTone } from '../types';
+import { generateArticleSection } from '../services/geminiService';
+import Spinner from './common/Spinner';
+
+interface ArticleOutlineEditorProps {
+    outline: ArticleOutline;
+    onOutlineChange: (outline: ArticleOutline) => void;
+    keywords: string;
+    tone: WritingTone;
+    articleLength: ArticleLength;
+    // The site the article is for, which decides the voice profile and prompt overrides.
+    siteId?: string;
+    onArticleReady: (article: ArticleContent) => void;
+    onDiscard: () => void;
+    showNotification: (notification: Notification) => void;
+}
+
+const inputClassName = "w-full bg-gray-900 text-white rounded-md px-3 py-2 border border-gray-700 focus:ring-1 focus:ring-blue-500 focus:outline-none";
+
+// Subheadings and key points are edited as one item per line.
+const toLines = (items: string[]) => items.join('\n');
+const fromLines = (text: string) => text.split('\n');
+
+/** Drops blank lines and sections without a heading before the outline is used for writing. */
+const cleanOutline = (outline: ArticleOutline): ArticleOutline => ({
+    ...outline,
+    sections: outline.sections
+        .map(section => ({
+            heading: section.heading.trim(),
+            subheadings: section.subheadings.map(line => line.trim()).filter(Boolean),
+            keyPoints: section.keyPoints.map(line => line.trim()).filter(Boolean),
+        }))
+        .filter(section => section.heading),
+});
+
+const ArticleOutlineEditor: React.FC<ArticleOutlineEditorProps> = ({ outline, onOutlineChange, keywords, tone, articleLength, siteId, onArticleReady, onDiscard, showNotification }) => {
+    const { t, language } = useContext(LanguageContext as React.Context<LanguageContextType>);
+    const [title, setTitle] = useState(outline.titleCandidates[0] || '');
+    // Null until the outline is approved; then one entry per section, null while unwritten.
+    const [sectionBodies, setSectionBodies] = useState<(string | null)[] | null>(null);
+    const [writingIndex, setWritingIndex] = useState<number | null>(null);
+    // Prompt template versions the sections were written with, recorded on the finished article.
+    const [sectionTemplates, setSectionTemplates] = useState<PromptTemplateRef[]>([]);
+
+    const updateSection = (index: number, updates: Partial<OutlineSection>) => {
+        onOutlineChange({ ...outline, sections: outline.sections.map((section, i) => i === index ? { ...section, ...updates } : section) });
+    };
+
+    const moveSection = (index: number, offset: number) => {
+        const sections = [...outline.sections];
+        const [section] = sections.splice(index, 1);
+        sections.splice(index + offset, 0, section);
+        onOutlineChange({ ...outline, sections });
+    };
+
+    const removeSection = (index: number) => {
+        onOutlineChange({ ...outline, sections: outline.sections.filter((_, i) => i !== index) });
+    };
+
+    const addSection = () => {
+        onOutlineChange({ ...outline, sections: [...outline.sections, { heading: '', subheadings: [], keyPoints: [] }] });
+    };
+
+    // Sections are written one after another so each request stays small; stops at the first failure.
+    const writeSections = async (approved: ArticleOutline, indices: number[]) => {
+        for (const index of indices) {
+            setWritingIndex(index);
+            try {
+                const { content, promptTemplate } = await generateArticleSection(approved, title.trim(), index, keywords, tone, language, articleLength, siteId);
+                setSectionBodies(prev => prev && prev.map((body, i) => i === index ? content : body));
+                setSectionTemplates(prev => prev.some(ref => ref.id === promptTemplate.id && ref.version === promptTemplate.version && ref.source === promptTemplate.source)
+                    ? prev
+                    : [...prev, promptTemplate]);
+            } catch (error) {
+                showNotification({ message: error instanceof Error ? error.message : t('errorUnknown'), type: 'error' });
+                break;
+            }
+        }
+        setWritingIndex(null);
+    };
+
+    const handleApprove = () => {
+        const approved = cleanOutline(outline);
+        if (!title.trim() || approved.sections.length === 0) {
+            showNotification({ message: t('outlineIncomplete'), type: 'error' });
+            return;
+        }
+        onOutlineChange(approved);
+        setSectionBodies(approved.sections.map(() => null));
+        writeSections(approved, approved.sections.map((_, index) => index));
+    };
+
+    const handleWriteRemaining = () => {
+        if (!sectionBodies) return;
+        writeSections(outline, sectionBodies.map((body, index) => body === null ? index : -1).filter(index => index !== -1));
+    };
+
+    const handleUseArticle = () => {
+        if (!sectionBodies || sectionBodies.some(body => body === null)) return;
+        onArticleReady({
+            id: `art_${new Date().getTime()}`,
+            type: ContentType.Article,
+            title: title.trim(),
+            metaDescription: outline.metaDescription,
+            body: outline.sections.map((section, index) => `## ${section.heading}\n\n${sectionBodies[index]}`).join('\n\n'),
+            status: 'draft',
+            createdAt: new Date(),
+            promptTemplates: [...(outline.promptTemplate ? [outline.promptTemplate] : []), ...sectionTemplates],
+        });
+    };
+
+    const isWriting = writingIndex !== null;
+
+    if (sectionBodies) {
+        const allWritten = sectionBodies.every(body => body !== null);
+        return (
+            <div className="space-y-4">
+                <h2 className="text-2xl font-bold">{title}</h2>
+                {outline.sections.map((section, index) => (
+                    <div key={index} className="bg-gray-900 rounded-md p-4">
+                        <div className="flex justify-between items-center mb-2 gap-2">
+                            <h3 className="text-lg font-semibold">{section.heading}</h3>
+                            <button type="button" onClick={() => writeSections(outline, [index])} disabled={isWriting} className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50 whitespace-nowrap">
+                                {t('regenerateSection')}
+                            </button>
+                        </div>
+                        {writingIndex === index ? (
+                            <div className="flex justify-center py-4"><Spinner size="sm" /></div>
+                        ) : sectionBodies[index] === null ? (
+                            <p className="text-sm text-gray-500">{t('sectionNotWritten')}</p>
+                        ) : (
+                            <textarea
+                                value={sectionBodies[index] || ''}
+                                onChange={(e) => setSectionBodies(sectionBodies.map((body, i) => i === index ? e.target.value : body))}
+                                rows={8}
+                                className={`${inputClassName} text-sm`}
+                            />
+                        )}
+                    </div>
+                ))}
+                <div className="flex flex-wrap justify-end gap-2">
+                    <button type="button" onClick={() => setSectionBodies(null)} disabled={isWriting} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md disabled:opacity-50">
+                        {t('backToOutline')}
+                    </button>
+                    {!allWritten && (
+                        <button type="button" onClick={handleWriteRemaining} disabled={isWriting} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-md disabled:opacity-50">
+                            {t('writeRemainingSections')}
+                        </button>
+                    )}
+                    <button type="button" onClick={handleUseArticle} disabled={isWriting || !allWritten} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-md disabled:opacity-50">
+                        {t('useArticle')}
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-5">
+            <h2 className="text-xl font-semibold">{t('articleOutline')}</h2>
+
+            <div>
+                <label className="text-sm font-medium text-gray-300 block mb-2">{t('title')}</label>
+                <div className="space-y-1 mb-2">
+                    {outline.titleCandidates.map((candidate, index) => (
+                        <label key={index} className="flex items-center gap-2 text-sm text-gray-300">
+                            <input type="radio" name="title-candidate" checked={title === candidate} onChange={() => setTitle(candidate)} className="text-blue-600 bg-gray-700 border-gray-600" />
+                            {candidate}
+                        </label>
+                    ))}
+                </div>
+                <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} className={inputClassName} />
+            </div>
+
+            <div>
+                <label className="text-sm font-medium text-gray-300 block mb-2">{t('metaDescription')}</label>
+                <textarea value={outline.metaDescription} onChange={(e) => onOutlineChange({ ...outline, metaDescription: e.target.value })} rows={2} className={`${inputClassName} text-sm`} />
+            </div>
+
+            <div className="space-y-3">
+                <h3 className="text-sm font-medium text-gray-300">{t('outlineSections')}</h3>
+                {outline.sections.map((section, index) => (
+                    <div key={index} className="bg-gray-900 rounded-md p-3 space-y-2">
+                        <div className="flex gap-2">
+                            <input type="text" value={section.heading} onChange={(e) => updateSection(index, { heading: e.target.value })} placeholder={t('sectionHeading')} className={`${inputClassName} font-semibold`} />
+                            <button type="button" onClick={() => moveSection(index, -1)} disabled={index === 0} title={t('moveUp')} aria-label={t('moveUp')} className="px-2 text-gray-400 hover:text-white disabled:opacity-30">↑</button>
+                            <button type="button" onClick={() => moveSection(index, 1)} disabled={index === outline.sections.length - 1} title={t('moveDown')} aria-label={t('moveDown')} className="px-2 text-gray-400 hover:text-white disabled:opacity-30">↓</button>
+                            <button type="button" onClick={() => removeSection(index)} className="px-2 text-sm text-red-400 hover:text-red-300">{t('delete')}</button>
+                        </div>
+                        <textarea value={toLines(section.subheadings)} onChange={(e) => updateSection(index, { subheadings: fromLines(e.target.value) })} placeholder={t('sectionSubheadings')} rows={2} className={`${inputClassName} text-sm`} />
+                        <textarea value={toLines(section.keyPoints)} onChange={(e) => updateSection(index, { keyPoints: fromLines(e.target.value) })} placeholder={t('sectionKeyPoints')} rows={3} className={`${inputClassName} text-sm`} />
+                    </div>
+                ))}
+                <button type="button" onClick={addSection} className="text-sm text-blue-400 hover:text-blue-300">+ {t('addSection')}</button>
+            </div>
+
+            <div className="flex justify-end gap-2">
+                <button type="button" onClick={onDiscard} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md">
+                    {t('discardOutline')}
+                </button>
+                <button type="button" onClick={handleApprove} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-md">
+                    {t('approveOutline')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ArticleOutlineEditor;
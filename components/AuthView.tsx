@@ -1,35 +1,64 @@
-import React, { useState } from 'react';
-import { useTranslation } from 'react-i18next';
-import { login } from '../services/backendService';
-import { User } from '../types';
-import Notification from './Notification';
+import React, { useState, useContext } from 'react';
+import { login, register } from '../services/backendService';
+import { User, LanguageContextType } from '../types';
+import { LanguageContext } from '../App';
+import Spinner from './common/Spinner';
 
 interface AuthViewProps {
   onLogin: (user: User) => void;
 }
 
+const inputClassName = "block w-full px-3 py-2 mt-1 text-gray-900 placeholder-gray-500 border border-gray-300 rounded-md shadow-sm appearance-none focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+
 const AuthView: React.FC<AuthViewProps> = ({ onLogin }) => {
-  const { t } = useTranslation();
+  const { t } = useContext(LanguageContext as React.Context<LanguageContextType>);
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [name, setName] = useState('');
+  const [teamName, setTeamName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const handleLogin = async (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setIsSubmitting(true);
     try {
-      const user = await login(email, password);
+      const user = mode === 'login'
+        ? await login(email, password)
+        : await register(name, email, password, teamName || undefined);
       onLogin(user);
     } catch (err) {
-      setError(t('loginError'));
+      // Login failures stay generic; registration errors (e.g. email taken) are worth showing.
+      setError(mode === 'login' || !(err instanceof Error) ? t('loginError') : err.message);
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
+  const switchMode = () => {
+    setMode(mode === 'login' ? 'register' : 'login');
+    setError(null);
+  };
+
   return (
     <div className="flex items-center justify-center h-screen bg-gray-100">
       <div className="w-full max-w-md p-8 space-y-6 bg-white rounded-lg shadow-md">
-        <h1 className="text-2xl font-bold text-center text-gray-900">{t('loginTitle')}</h1>
-        <form className="space-y-6" onSubmit={handleLogin}>
+        <h1 className="text-2xl font-bold text-center text-gray-900">{mode === 'login' ? t('loginTitle') : t('registerTitle')}</h1>
+        <form className="space-y-6" onSubmit={handleSubmit}>
+          {mode === 'register' && (
+            <>
+              <div>
+                <label htmlFor="name" className="text-sm font-medium text-gray-700">{t('nameLabel')}</label>
+                <input id="name" name="name" type="text" autoComplete="name" required value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} />
+              </div>
+              <div>
+                <label htmlFor="team-name" className="text-sm font-medium text-gray-700">{t('teamNameLabel')}</label>
+                <input id="team-name" name="teamName" type="text" value={teamName} onChange={(e) => setTeamName(e.target.value)} className={inputClassName} />
+              </div>
+            </>
+          )}
           <div>
             <label htmlFor="email" className="text-sm font-medium text-gray-700">
               {t('emailLabel')}
@@ -42,8 +71,7 @@ const AuthView: React.FC<AuthViewProps> = ({ onLogin }) => {
               required
               value={email}
               onChange={(e) => setEmail(e.target.value)}
-              className="block w-full px-3 py-2 mt-1 text-gray-900 placeholder-gray-500 border border-gray-300 rounded-md shadow-sm appearance-none focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-              placeholder={'john.doe@example.com'}
+              className={inputClassName}
             />
           </div>
           <div>
@@ -54,24 +82,28 @@ const AuthView: React.FC<AuthViewProps> = ({ onLogin }) => {
               id="password"
               name="password"
               type="password"
-              autoComplete="current-password"
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
               required
+              minLength={mode === 'register' ? 8 : undefined}
               value={password}
               onChange={(e) => setPassword(e.target.value)}
-              className="block w-full px-3 py-2 mt-1 text-gray-900 placeholder-gray-500 border border-gray-300 rounded-md shadow-sm appearance-none focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-              placeholder={'password'}
+              className={inputClassName}
             />
           </div>
           <div>
             <button
               type="submit"
-              className="flex justify-center w-full px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              disabled={isSubmitting}
+              className="flex justify-center w-full px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
             >
-              {t('loginButton')}
+              {isSubmitting ? <Spinner size="sm" /> : (mode === 'login' ? t('loginButton') : t('registerButton'))}
             </button>
           </div>
         </form>
-        {error && <Notification message={error} type="error" onClose={() => setError(null)} />}
+        {error && <p className="text-sm text-center text-red-600">{error}</p>}
+        <button type="button" onClick={switchMode} className="w-full text-sm text-center text-indigo-600 hover:underline">
+          {mode === 'login' ? t('noAccount') : t('haveAccount')}
+        </button>
       </div>
     </div>
   );
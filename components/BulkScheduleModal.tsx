@@ -1,13 +1,16 @@
-import React, { useState, useContext } from 'react';
+import React, { useState, useContext, useMemo } from 'react';
 import Modal from './common/Modal';
+import Spinner from './common/Spinner';
 import { LanguageContext } from '../App';
-import { LanguageContextType } from '../types';
+import { LanguageContextType, WordPressSite } from '../types';
 
 interface BulkScheduleModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: (startDate: string, intervalDays: number) => void;
+  onConfirm: (startDate: string, intervalDays: number, siteId: string) => void;
   itemCount: number;
+  sites: WordPressSite[];
+  isScheduling: boolean;
 }
 
 const toDatetimeLocal = (isoDate?: string) => {
@@ -25,14 +28,16 @@ const getDefaultStartDate = () => {
     return toDatetimeLocal(tomorrow.toISOString());
 };
 
-const BulkScheduleModal: React.FC<BulkScheduleModalProps> = ({ isOpen, onClose, onConfirm, itemCount }) => {
+const BulkScheduleModal: React.FC<BulkScheduleModalProps> = ({ isOpen, onClose, onConfirm, itemCount, sites, isScheduling }) => {
     const { t } = useContext(LanguageContext as React.Context<LanguageContextType>);
+    const availableSites = useMemo(() => sites.filter(s => !s.isVirtual), [sites]);
+    const [siteId, setSiteId] = useState(availableSites[0]?.id || '');
     const [startDate, setStartDate] = useState(getDefaultStartDate());
     const [intervalDays, setIntervalDays] = useState(1);
     
     const handleSubmit = () => {
-        if (startDate && intervalDays > 0) {
-            onConfirm(startDate, intervalDays);
+        if (siteId && startDate && intervalDays > 0) {
+            onConfirm(startDate, intervalDays, siteId);
         }
     };
     
@@ -41,6 +46,18 @@ const BulkScheduleModal: React.FC<BulkScheduleModalProps> = ({ isOpen, onClose,
     return (
         <Modal title={t('bulkScheduleTitle', { count: itemCount })} onClose={onClose}>
             <div className="space-y-4 text-gray-300">
+                <div>
+                    <label htmlFor="schedule-site" className="block text-sm font-medium mb-1">{t('publishToSite')}</label>
+                    <select
+                        id="schedule-site"
+                        value={siteId}
+                        onChange={(e) => setSiteId(e.target.value)}
+                        disabled={isScheduling}
+                        className="mt-1 block w-full bg-gray-600 border-gray-500 rounded-md text-white"
+                    >
+                        {availableSites.length > 0 ? availableSites.map(site => <option key={site.id} value={site.id}>{site.name}</option>) : <option disabled>{t('noConnectedSites')}</option>}
+                    </select>
+                </div>
                 <div>
                     <label htmlFor="start-date" className="block text-sm font-medium mb-1">{t('startDate')}</label>
                     <input
@@ -65,9 +82,9 @@ const BulkScheduleModal: React.FC<BulkScheduleModalProps> = ({ isOpen, onClose,
                 </div>
             </div>
             <div className="mt-6 flex justify-end space-x-3 rtl:space-x-reverse">
-                 <button onClick={onClose} className="bg-gray-500 hover:bg-gray-400 text-white font-bold py-2 px-4 rounded-md transition-colors">{t('cancel')}</button>
-                 <button onClick={handleSubmit} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-md transition-colors">
-                    {t('applySchedule')}
+                 <button onClick={onClose} disabled={isScheduling} className="bg-gray-500 hover:bg-gray-400 text-white font-bold py-2 px-4 rounded-md transition-colors disabled:opacity-50">{t('cancel')}</button>
+                 <button onClick={handleSubmit} disabled={isScheduling || !siteId} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-md transition-colors flex items-center justify-center disabled:bg-blue-800 disabled:cursor-not-allowed">
+                    {isScheduling ? <Spinner size="sm" /> : t('applySchedule')}
                  </button>
             </div>
         </Modal>
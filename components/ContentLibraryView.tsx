@@ -1,11 +1,14 @@
 // This file was created to display and manage the library of generated content.
 import React, { useState, useMemo, useContext } from 'react';
-import { GeneratedContent, WordPressSite, ContentType, Notification, LanguageContextType, PublishingOptions, ContentStatus, User, UserRole } from '../types';
+import { GeneratedContent, WordPressSite, ContentType, Notification, LanguageContextType, PublishingOptions, ContentStatus, User, UserRole, FeaturedImage } from '../types';
 import { LanguageContext } from '../App';
+import { CONTENT_STATUS_LABELS, CONTENT_TYPE_LABELS } from '../constants';
 import PublishModal from './PublishModal';
-import { publishContent } from '../services/wordpressService';
+import { getCachedPostSummaries, publishContent } from '../services/wordpressService';
 import BulkScheduleModal from './BulkScheduleModal';
-import { USERS } from '../services/backendService';
+import { schedulePublish } from '../services/schedulerService';
+import { ContentOverlap, checkContentOverlaps, libraryDocument, libraryDocumentId, loadPostDocuments, postSummaryDocument } from '../services/contentSimilarity';
+import ContentOverlapWarning from './ContentOverlapWarning';
 
 interface ContentLibraryViewProps {
     library: GeneratedContent[];
@@ -15,6 +18,7 @@ interface ContentLibraryViewProps {
     sites: WordPressSite[];
     showNotification: (notification: Notification) => void;
     currentUser: User;
+    teamMembers: User[];
 }
 
 const statusColors: { [key in ContentStatus]: string } = {
@@ -25,7 +29,11 @@ const statusColors: { [key in ContentStatus]: string } = {
     published: 'bg-green-800 text-green-200',
 };
 
-const ContentLibraryView: React.FC<ContentLibraryViewProps> = ({ library, onUpdateItem, onRemoveItem, onEditItem, sites, showNotification, currentUser }) => {
+// Remembers where a featured image was uploaded so the next publish to that site can reuse it.
+const withUploadedImage = (image: FeaturedImage | undefined, siteId: string, mediaId?: number): FeaturedImage | undefined =>
+    image && mediaId ? { ...image, upload: { siteId, mediaId } } : image;
+
+const ContentLibraryView: React.FC<ContentLibraryViewProps> = ({ library, onUpdateItem, onRemoveItem, onEditItem, sites, showNotification, currentUser, teamMembers }) => {
     const { t } = useContext(LanguageContext as React.Context<LanguageContextType>);
     const [typeFilter, setTypeFilter] = useState<'all' | 'article' | 'product'>('all');
     const [statusFilter, setStatusFilter] = useState<ContentStatus | 'all'>('all');
@@ -34,16 +42,40 @@ const ContentLibraryView: React.FC<ContentLibraryViewProps> = ({ library, onUpda
     const [isScheduleModalOpen, setIsScheduleModalOpen] = useState(false);
     const [contentToPublish, setContentToPublish] = useState<GeneratedContent | null>(null);
     const [isPublishing, setIsPublishing] = useState(false);
+    const [isScheduling, setIsScheduling] = useState(false);
     const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
+    const [overlaps, setOverlaps] = useState<Map<string, ContentOverlap[]>>(new Map());
+    const [isCheckingOverlaps, setIsCheckingOverlaps] = useState(false);
+    const [expandedOverlapId, setExpandedOverlapId] = useState<string | null>(null);
 
     const userIsEditor = currentUser.role === UserRole.Editor;
 
     const getAuthorEmail = (authorId?: string) => {
         if (!authorId) return t('authorUnknown');
-        const author = USERS.find(user => user.id === authorId);
+        const author = teamMembers.find(user => user.id === authorId);
         return author ? author.email : t('authorUnknown');
     };
 
+    // Checks library items against each other and against what is already published. Only run on
+    // request, as it downloads the excerpts of every live post and the bodies of close matches.
+    const handleCheckOverlaps = async () => {
+        setIsCheckingOverlaps(true);
+        try {
+            const liveSites = sites.filter(site => !site.isVirtual);
+            const summaries = await Promise.all(liveSites.map(async site => (await getCachedPostSummaries(site)).map(post => postSummaryDocument(site.id, post))));
+            const found = await checkContentOverlaps([...library.map(libraryDocument), ...summaries.flat()], posts => loadPostDocuments(liveSites, posts));
+            setOverlaps(found);
+            if (found.size === 0) {
+                showNotification({ message: t('noOverlapsFound'), type: 'info' });
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : t('errorUnknown');
+            showNotification({ message: t('overlapCheckFailed', { error: errorMessage }), type: 'error' });
+        } finally {
+            setIsCheckingOverlaps(false);
+        }
+    };
+
     const filteredLibrary = useMemo(() => {
         return library
             .filter(item => typeFilter === 'all' || item.type === typeFilter)
@@ -71,13 +103,16 @@ const ContentLibraryView: React.FC<ContentLibraryViewProps> = ({ library, onUpda
             const site = sites.find(s => s.id === options.siteId);
             if (!site) throw new Error("Selected site not found");
 
-            const { postUrl, postId } = await publishContent(site, contentToPublish, options);
+            // The image picked in the modal replaces whatever was attached before.
+            const { featuredImage } = options;
+            const { postUrl, postId, featuredMediaId } = await publishContent(site, { ...contentToPublish, featuredImage }, options);
             
             onUpdateItem(contentToPublish.id, { 
                 status: 'published',
                 siteId: site.id,
                 wordpressId: postId,
-                wordpressUrl: postUrl
+                wordpressUrl: postUrl,
+                featuredImage: withUploadedImage(featuredImage, site.id, featuredMediaId),
             });
 
             showNotification({ message: t('publishSuccess'), type: 'success' });
@@ -110,23 +145,46 @@ const ContentLibraryView: React.FC<ContentLibraryViewProps> = ({ library, onUpda
         }
     };
     
-    const handleBulkSchedule = (startDate: string, intervalDays: number) => {
+    const handleBulkSchedule = async (startDate: string, intervalDays: number, siteId: string) => {
         if (!userIsEditor) return;
-        const selectedIds = Array.from(selectedItems);
-        let currentScheduleDate = new Date(startDate);
+        const site = sites.find(s => s.id === siteId);
+        if (!site) return;
+
+        const items = library.filter(item => selectedItems.has(item.id) && item.status === 'approved');
+        const currentScheduleDate = new Date(startDate);
+        let scheduledCount = 0;
+        let lastError = '';
 
-        selectedIds.forEach(id => {
-            const item = library.find(i => i.id === id);
-            if (item && item.status === 'approved') {
-                 onUpdateItem(id, {
+        setIsScheduling(true);
+        // Sequential on purpose: each item becomes a `future` post on the site, one request chain at a time.
+        for (const item of items) {
+            const scheduledFor = currentScheduleDate.toISOString();
+            try {
+                const { postId, postUrl, featuredMediaId } = await schedulePublish(site, item, scheduledFor, featuredImage => onUpdateItem(item.id, { featuredImage }));
+                onUpdateItem(item.id, {
                     status: 'scheduled',
-                    scheduledFor: currentScheduleDate.toISOString()
+                    scheduledFor,
+                    siteId: site.id,
+                    wordpressId: postId,
+                    wordpressUrl: postUrl,
+                    featuredImage: withUploadedImage(item.featuredImage, site.id, featuredMediaId),
+                    publishAttempts: undefined,
+                    nextPublishAttemptAt: undefined,
+                    publishError: undefined,
                 });
-                currentScheduleDate.setDate(currentScheduleDate.getDate() + intervalDays);
+                scheduledCount++;
+            } catch (error) {
+                lastError = error instanceof Error ? error.message : t('errorUnknown');
             }
-        });
+            currentScheduleDate.setDate(currentScheduleDate.getDate() + intervalDays);
+        }
+        setIsScheduling(false);
 
-        showNotification({ message: t('bulkScheduleSuccess', { count: selectedIds.length }), type: 'success' });
+        if (lastError) {
+            showNotification({ message: t('bulkSchedulePartialFail', { count: items.length - scheduledCount, error: lastError }), type: 'error' });
+        } else {
+            showNotification({ message: t('bulkScheduleSuccess', { count: scheduledCount }), type: 'success' });
+        }
         setSelectedItems(new Set());
         setIsScheduleModalOpen(false);
     };
@@ -165,6 +223,9 @@ const ContentLibraryView: React.FC<ContentLibraryViewProps> = ({ library, onUpda
             <header className="flex justify-between items-center mb-6">
                 <h1 className="text-3xl font-bold">{t('libraryTitle')}</h1>
                  <div>
+                    <button onClick={handleCheckOverlaps} disabled={isCheckingOverlaps || library.length === 0} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition-colors me-2 disabled:opacity-50">
+                        {isCheckingOverlaps ? t('checkingOverlaps') : t('checkOverlaps')}
+                    </button>
                      {userIsEditor && selectedItems.size > 0 && (
                         <button onClick={() => setIsScheduleModalOpen(true)} className="bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-4 rounded-md transition-colors me-2">
                            {t('bulkSchedule')} ({selectedItems.size})
@@ -187,11 +248,9 @@ const ContentLibraryView: React.FC<ContentLibraryViewProps> = ({ library, onUpda
                         <label className="text-xs text-gray-400">{t('status')}</label>
                         <select onChange={(e) => setStatusFilter(e.target.value as ContentStatus | 'all')} value={statusFilter} className="bg-gray-700 text-white rounded-md px-4 py-2 w-full mt-1 border-gray-600 focus:ring-blue-500 focus:border-blue-500">
                             <option value="all">{t('all')}</option>
-                            <option value="draft">{t('draft')}</option>
-                            <option value="needs-review">{t('needsReview')}</option>
-                            <option value="approved">{t('approved')}</option>
-                            <option value="scheduled">{t('scheduled')}</option>
-                            <option value="published">{t('published')}</option>
+                            {(Object.keys(CONTENT_STATUS_LABELS) as ContentStatus[]).map(status => (
+                                <option key={status} value={status}>{t(CONTENT_STATUS_LABELS[status])}</option>
+                            ))}
                         </select>
                     </div>
                     <div>
@@ -217,31 +276,58 @@ const ContentLibraryView: React.FC<ContentLibraryViewProps> = ({ library, onUpda
                         </tr>
                     </thead>
                     <tbody>
-                        {filteredLibrary.map(item => (
-                            <tr key={item.id} className="border-b border-gray-700 hover:bg-gray-600/50">
-                                <td className="w-4 p-4">
-                                    <input type="checkbox" checked={selectedItems.has(item.id)} onChange={() => handleSelectItem(item.id)} className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-600 ring-offset-gray-800 focus:ring-2" disabled={!userIsEditor && item.status !== 'approved'}/>
-                                </td>
-                                <th scope="row" className="px-6 py-4 font-medium text-white whitespace-nowrap">{item.title}</th>
-                                <td className="px-6 py-4">{getAuthorEmail(item.authorId)}</td>
-                                <td className="px-6 py-4">{t(item.type)}</td>
-                                <td className="px-6 py-4">
-                                    <span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColors[item.status]}`}>
-                                        {t(item.status.replace(/-/g, ''))}
-                                    </span>
-                                </td>
-                                <td className="px-6 py-4">{new Date(item.createdAt).toLocaleDateString()}</td>
-                                <td className="px-6 py-4 space-x-2 rtl:space-x-reverse whitespace-nowrap">
-                                    {renderWorkflowActions(item)}
-                                    {canEditOrDelete(item) && (
-                                        <>
-                                            <button onClick={() => onEditItem(item)} className="font-medium text-blue-400 hover:underline">{t('edit')}</button>
-                                            <button onClick={() => onRemoveItem(item.id)} className="font-medium text-red-400 hover:underline">{t('delete')}</button>
-                                        </>
+                        {filteredLibrary.map(item => {
+                            const itemOverlaps = overlaps.get(libraryDocumentId(item.id)) ?? [];
+                            const hasDuplicate = itemOverlaps.some(overlap => overlap.kind === 'duplicate');
+                            return (
+                                <React.Fragment key={item.id}>
+                                    <tr className="border-b border-gray-700 hover:bg-gray-600/50">
+                                        <td className="w-4 p-4">
+                                            <input type="checkbox" checked={selectedItems.has(item.id)} onChange={() => handleSelectItem(item.id)} className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-600 ring-offset-gray-800 focus:ring-2" disabled={!userIsEditor && item.status !== 'approved'}/>
+                                        </td>
+                                        <th scope="row" className="px-6 py-4 font-medium text-white whitespace-nowrap">
+                                            {item.title}
+                                            {itemOverlaps.length > 0 && (
+                                                <button
+                                                    onClick={() => setExpandedOverlapId(expandedOverlapId === item.id ? null : item.id)}
+                                                    className={`ms-2 px-2 py-0.5 text-xs font-semibold rounded-full ${hasDuplicate ? 'bg-red-800 text-red-200' : 'bg-yellow-800 text-yellow-200'}`}
+                                                >
+                                                    {t(hasDuplicate ? 'possibleDuplicate' : 'possibleCannibalization', { count: itemOverlaps.length })}
+                                                </button>
+                                            )}
+                                        </th>
+                                        <td className="px-6 py-4">{getAuthorEmail(item.authorId)}</td>
+                                        <td className="px-6 py-4">{t(CONTENT_TYPE_LABELS[item.type])}</td>
+                                        <td className="px-6 py-4">
+                                            <span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColors[item.status]}`}>
+                                                {t(CONTENT_STATUS_LABELS[item.status])}
+                                            </span>
+                                            {item.status === 'scheduled' && item.publishError && (
+                                                <span className="ms-2 text-red-400 cursor-help" title={t('scheduledPublishFailed', { error: item.publishError })}>⚠</span>
+                                            )}
+                                            {item.status === 'approved' && item.publishError && (
+                                                <span className="ms-2 text-red-400 cursor-help" title={t('scheduledPublishStopped', { error: item.publishError })}>⚠</span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4">{new Date(item.createdAt).toLocaleDateString()}</td>
+                                        <td className="px-6 py-4 space-x-2 rtl:space-x-reverse whitespace-nowrap">
+                                            {renderWorkflowActions(item)}
+                                            {canEditOrDelete(item) && (
+                                                <>
+                                                    <button onClick={() => onEditItem(item)} className="font-medium text-blue-400 hover:underline">{t('edit')}</button>
+                                                    <button onClick={() => onRemoveItem(item.id)} className="font-medium text-red-400 hover:underline">{t('delete')}</button>
+                                                </>
+                                            )}
+                                        </td>
+                                    </tr>
+                                    {expandedOverlapId === item.id && itemOverlaps.length > 0 && (
+                                        <tr className="border-b border-gray-700">
+                                            <td colSpan={7} className="px-6 py-3"><ContentOverlapWarning overlaps={itemOverlaps} /></td>
+                                        </tr>
                                     )}
-                                </td>
-                            </tr>
-                        ))}
+                                </React.Fragment>
+                            );
+                        })}
                     </tbody>
                 </table>
                  {filteredLibrary.length === 0 && (
@@ -253,6 +339,7 @@ const ContentLibraryView: React.FC<ContentLibraryViewProps> = ({ library, onUpda
             {contentToPublish && (
                 <PublishModal
                     content={contentToPublish}
+                    library={library}
                     sites={sites}
                     isOpen={isPublishModalOpen}
                     onClose={() => setIsPublishModalOpen(false)}
@@ -266,6 +353,8 @@ const ContentLibraryView: React.FC<ContentLibraryViewProps> = ({ library, onUpda
                     onClose={() => setIsScheduleModalOpen(false)}
                     onConfirm={handleBulkSchedule}
                     itemCount={selectedItems.size}
+                    sites={sites}
+                    isScheduling={isScheduling}
                 />
             )}
         </div>
@@ -0,0 +1,35 @@
+// Lists the library items and live posts a piece of content duplicates or competes with.
+import React, { useContext } from 'react';
+import { LanguageContext } from '../App';
+import { LanguageContextType } from '../types';
+import { ContentOverlap } from '../services/contentSimilarity';
+
+interface ContentOverlapWarningProps {
+    overlaps: ContentOverlap[];
+}
+
+const ContentOverlapWarning: React.FC<ContentOverlapWarningProps> = ({ overlaps }) => {
+    const { t } = useContext(LanguageContext as React.Context<LanguageContextType>);
+
+    return (
+        <div className="p-3 bg-yellow-900/30 border border-yellow-700 rounded-md text-sm">
+            <p className="text-yellow-300 font-medium">{t('contentOverlapWarning')}</p>
+            <ul className="mt-2 space-y-1">
+                {overlaps.map(({ other, kind, similarity, sharedKeywords }) => (
+                    <li key={other.id} className="text-gray-300">
+                        <span className={`me-2 px-1.5 py-0.5 text-xs rounded ${kind === 'duplicate' ? 'bg-red-800 text-red-200' : 'bg-yellow-800 text-yellow-200'}`}>
+                            {kind === 'duplicate' ? t('overlapDuplicate') : t('overlapCannibalization')}
+                        </span>
+                        {other.url ? <a href={other.url} target="_blank" rel="noopener noreferrer" className="hover:underline">{other.title}</a> : other.title}
+                        <span className="text-gray-500">
+                            {' '}({t(other.contentId ? 'overlapInLibrary' : 'overlapLivePost')}, {t('overlapSimilarity', { percent: Math.round(similarity * 100) })}
+                            {sharedKeywords.length > 0 && `, ${t('overlapSharedKeywords', { keywords: sharedKeywords.join(', ') })}`})
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default ContentOverlapWarning;
@@ -8,7 +8,7 @@ import { LanguageContext } from '../App';
 
 interface DashboardViewProps {
   sites: WordPressSite[];
-  onAddSite: (site: WordPressSite) => void;
+  onAddSite: (site: WordPressSite, appPassword?: string) => void;
   onRemoveSite: (siteId: string) => void;
   onUpdateSite: (siteId: string, updates: Partial<WordPressSite>) => void;
   showNotification: (notification: Notification) => void;
@@ -43,7 +43,7 @@ const DashboardView: React.FC<DashboardViewProps> = ({ sites, onAddSite, onRemov
     setIsAdding(true);
     try {
       const newSite = await addSite(newSiteUrl, newSiteUsername, newSitePassword);
-      onAddSite(newSite);
+      onAddSite(newSite, newSitePassword);
       setNewSiteUrl('');
       setNewSiteUsername('');
       setNewSitePassword('');
@@ -85,7 +85,6 @@ const DashboardView: React.FC<DashboardViewProps> = ({ sites, onAddSite, onRemov
         isVirtual: true,
         stats: { posts: 0, pages: 0, products: 0 },
         username: '', // Not needed
-        appPassword: '' // Not needed
     };
     onAddSite(newVirtualSite);
     setVirtualSiteName('');
@@ -0,0 +1,79 @@
+// Shown after opening an invite link: lets the signed-in user accept or decline the invitation.
+import React, { useState, useContext, useEffect } from 'react';
+import { LanguageContext } from '../App';
+import { InvitationPreview, LanguageContextType, Notification, User } from '../types';
+import { USER_ROLE_LABELS } from '../constants';
+import { previewInvitation, acceptInvitation, declineInvitation } from '../services/backendService';
+import Modal from './common/Modal';
+import Spinner from './common/Spinner';
+
+interface InvitationPromptProps {
+    token: string;
+    onAccepted: (user: User) => void;
+    onClose: () => void;
+    showNotification: (notification: Notification) => void;
+}
+
+const InvitationPrompt: React.FC<InvitationPromptProps> = ({ token, onAccepted, onClose, showNotification }) => {
+    const { t } = useContext(LanguageContext as React.Context<LanguageContextType>);
+    const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isResponding, setIsResponding] = useState(false);
+
+    useEffect(() => {
+        previewInvitation(token)
+            .then(setInvitation)
+            .catch(err => setError(err instanceof Error ? err.message : t('errorUnknown')));
+    }, [token]);
+
+    const respond = async (accept: boolean) => {
+        if (!invitation) return;
+        setIsResponding(true);
+        try {
+            if (accept) {
+                const user = await acceptInvitation(token);
+                showNotification({ message: t('invitationAccepted', { team: invitation.teamName }), type: 'success' });
+                onAccepted(user);
+            } else {
+                await declineInvitation(token);
+                showNotification({ message: t('invitationDeclined'), type: 'info' });
+            }
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('errorUnknown'));
+        } finally {
+            setIsResponding(false);
+        }
+    };
+
+    return (
+        <Modal title={t('invitationTitle')} onClose={onClose}>
+            {error ? (
+                <p className="text-red-400">{error}</p>
+            ) : !invitation ? (
+                <div className="flex justify-center py-6"><Spinner /></div>
+            ) : (
+                <div className="space-y-4 text-gray-300">
+                    <p>
+                        {t('invitationMessage', {
+                            inviter: invitation.inviterName || t('someone'),
+                            team: invitation.teamName,
+                            role: t(USER_ROLE_LABELS[invitation.role]),
+                        })}
+                    </p>
+                    <p className="text-sm text-gray-400">{t('invitationLeaveWarning')}</p>
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => respond(false)} disabled={isResponding} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md transition-colors disabled:opacity-50">
+                            {t('declineInvitation')}
+                        </button>
+                        <button onClick={() => respond(true)} disabled={isResponding} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-md transition-colors disabled:opacity-50">
+                            {isResponding ? <Spinner size="sm" /> : t('acceptInvitation')}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </Modal>
+    );
+};
+
+export default InvitationPrompt;
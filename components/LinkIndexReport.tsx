@@ -0,0 +1,42 @@
+// Link counts for every page in a site's link index, orphan pages (nothing links to them) first.
+import React, { useContext } from 'react';
+import { LanguageContext } from '../App';
+import { LanguageContextType } from '../types';
+import { LinkGraphPage } from '../services/linkGraph';
+
+interface LinkIndexReportProps {
+    pages: LinkGraphPage[];
+}
+
+const LinkIndexReport: React.FC<LinkIndexReportProps> = ({ pages }) => {
+    const { t } = useContext(LanguageContext as React.Context<LanguageContextType>);
+
+    return (
+        <div className="bg-gray-900 rounded-md max-h-72 overflow-y-auto">
+            <table className="w-full text-xs">
+                <thead className="text-gray-400 sticky top-0 bg-gray-900">
+                    <tr>
+                        <th className="text-start font-medium p-2">{t('linkReportPage')}</th>
+                        <th className="text-end font-medium p-2">{t('linkReportInbound')}</th>
+                        <th className="text-end font-medium p-2">{t('linkReportOutbound')}</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800">
+                    {pages.map(({ entry, inbound, outbound }) => (
+                        <tr key={entry.url}>
+                            <td className="p-2">
+                                <a href={entry.url} target="_blank" rel="noopener noreferrer" className="text-gray-200 hover:underline">{entry.title || entry.url}</a>
+                                {inbound === 0 && <span className="ms-2 text-red-400">{t('orphanPage')}</span>}
+                                {entry.source === 'library' && <span className="ms-2 text-gray-500">{t('linkReportFromLibrary')}</span>}
+                            </td>
+                            <td className={`p-2 text-end ${inbound === 0 ? 'text-red-400' : 'text-gray-300'}`}>{inbound}</td>
+                            <td className="p-2 text-end text-gray-300">{outbound}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export default LinkIndexReport;
@@ -1,10 +1,14 @@
 // This file was created to provide the UI for generating new content.
-import React, { useState, useContext, useEffect } from 'react';
+import React, { useState, useContext, useEffect, useMemo, useRef } from 'react';
 import { LanguageContext } from '../App';
-import { LanguageContextType, WordPressSite, WritingTone, ArticleLength, ContentType, ArticleContent, ProductContent, GeneratedContent, Notification } from '../types';
-import { generateArticle, generateProduct, generateContentStrategy, generateFeaturedImage } from '../services/geminiService';
+import { LanguageContextType, WordPressSite, WritingTone, ArticleLength, ArticleOutline, ContentType, ArticleContent, ProductContent, GeneratedContent, Notification, SiteContext, CompetitorAnalysis } from '../types';
+import { streamArticle, generateArticleOutline, generateProduct, generateContentStrategy, generateFeaturedImage } from '../services/geminiService';
+import { getCachedSiteContext } from '../services/wordpressService';
+import { findDuplicatePosts } from '../services/duplicateTopics';
 import Spinner from './common/Spinner';
 import RichTextEditor from './RichTextEditor';
+import ArticleOutlineEditor from './ArticleOutlineEditor';
+import SeoPanel from './SeoPanel';
 
 interface NewContentViewProps {
     onContentGenerated: (content: GeneratedContent | GeneratedContent[]) => void;
@@ -15,11 +19,20 @@ interface NewContentViewProps {
     showNotification: (notification: Notification) => void;
 }
 
-const NewContentView: React.FC<NewContentViewProps> = ({ onContentGenerated, existingContent, onClearEditing, onUpdateLibraryItem }) => {
+const NewContentView: React.FC<NewContentViewProps> = ({ onContentGenerated, existingContent, onClearEditing, onUpdateLibraryItem, sites, showNotification }) => {
     const { t, language } = useContext(LanguageContext as React.Context<LanguageContextType>);
     const [activeTab, setActiveTab] = useState<'article' | 'product' | 'strategy' | 'image'>('article');
     const [isGenerating, setIsGenerating] = useState(false);
     const [generatedContent, setGeneratedContent] = useState<GeneratedContent | GeneratedContent[] | null>(null);
+    // Set while an article is streaming, so it can be cancelled.
+    const articleAbortRef = useRef<AbortController | null>(null);
+
+    // Target site: its voice profile applies to everything generated here, and for connected
+    // sites its posts, categories and tags inform articles.
+    const [targetSiteId, setTargetSiteId] = useState('');
+    const [siteContext, setSiteContext] = useState<SiteContext | null>(null);
+    const [isLoadingContext, setIsLoadingContext] = useState(false);
+    const [contextError, setContextError] = useState('');
 
     // Article State
     const [articleTopic, setArticleTopic] = useState('');
@@ -27,6 +40,10 @@ const NewContentView: React.FC<NewContentViewProps> = ({ onContentGenerated, exi
     const [writingTone, setWritingTone] = useState<WritingTone>('Professional');
     const [articleLength, setArticleLength] = useState<ArticleLength>('Medium (~1000 words)');
     const [useGoogleSearch, setUseGoogleSearch] = useState(false);
+    const [competitor, setCompetitor] = useState<CompetitorAnalysis | null>(null);
+    // 'outline' plans the article first and writes it section by section.
+    const [articleMode, setArticleMode] = useState<'direct' | 'outline'>('direct');
+    const [outline, setOutline] = useState<ArticleOutline | null>(null);
 
     // Product State
     const [productName, setProductName] = useState('');
@@ -43,6 +60,9 @@ const NewContentView: React.FC<NewContentViewProps> = ({ onContentGenerated, exi
 
     useEffect(() => {
         if (existingContent) {
+            if (existingContent.siteId && sites.some(site => site.id === existingContent.siteId)) {
+                setTargetSiteId(existingContent.siteId);
+            }
             if (existingContent.type === ContentType.Article) {
                 setActiveTab('article');
                 setGeneratedContent(existingContent);
@@ -58,30 +78,109 @@ const NewContentView: React.FC<NewContentViewProps> = ({ onContentGenerated, exi
         };
     }, [existingContent, onClearEditing]);
 
+    // Stop streaming when leaving the view.
+    useEffect(() => () => articleAbortRef.current?.abort(), []);
+
+    useEffect(() => {
+        setSiteContext(null);
+        setContextError('');
+        const site = sites.find(s => s.id === targetSiteId);
+        if (!site || site.isVirtual) return;
+
+        let isCurrent = true;
+        setIsLoadingContext(true);
+        getCachedSiteContext(site)
+            .then(context => { if (isCurrent) setSiteContext(context); })
+            .catch(error => {
+                console.error("Failed to load site context", error);
+                if (isCurrent) setContextError(error instanceof Error ? error.message : t('errorUnknown'));
+            })
+            .finally(() => { if (isCurrent) setIsLoadingContext(false); });
+        return () => { isCurrent = false; };
+    }, [targetSiteId]);
+
+    const siteId = targetSiteId || undefined;
+    const duplicatePosts = useMemo(
+        () => siteContext ? findDuplicatePosts(articleTopic, siteContext.posts) : [],
+        [articleTopic, siteContext]
+    );
+
+
+    // The generators already pass budget, rate-limit and timeout errors through in words the user can act on.
+    const showError = (error: unknown) => {
+        console.error(error);
+        showNotification({ message: error instanceof Error ? error.message : t('errorUnknown'), type: 'error' });
+    };
 
     const handleGenerateArticle = async (e: React.FormEvent) => {
         e.preventDefault();
+        // Restored if the new article is cancelled or fails.
+        const previousContent = generatedContent;
+        const controller = new AbortController();
+        articleAbortRef.current = controller;
         setIsGenerating(true);
         setGeneratedContent(null);
+        const startedAt = new Date();
+        try {
+            const result = await streamArticle(
+                articleTopic, articleKeywords, writingTone, language, articleLength, useGoogleSearch, siteContext ?? undefined,
+                draft => setGeneratedContent({
+                    id: 'streaming',
+                    type: ContentType.Article,
+                    title: draft.title ?? '',
+                    metaDescription: draft.metaDescription ?? '',
+                    body: draft.body ?? '',
+                    status: 'draft',
+                    createdAt: startedAt,
+                }),
+                controller.signal,
+                siteId,
+                competitor ?? undefined
+            );
+            setGeneratedContent({ ...result, siteId });
+        } catch (error) {
+            setGeneratedContent(previousContent);
+            if (controller.signal.aborted) {
+                showNotification({ message: t('generationCancelled'), type: 'info' });
+            } else {
+                showError(error);
+            }
+        } finally {
+            articleAbortRef.current = null;
+            setIsGenerating(false);
+        }
+    };
+
+    const handleCancelArticle = () => articleAbortRef.current?.abort();
+
+    const handleGenerateOutline = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsGenerating(true);
         try {
-            const result = await generateArticle(articleTopic, articleKeywords, writingTone, language, articleLength, useGoogleSearch);
-            setGeneratedContent(result);
+            const result = await generateArticleOutline(articleTopic, articleKeywords, writingTone, language, articleLength, siteContext ?? undefined, siteId, competitor ?? undefined);
+            setGeneratedContent(null);
+            setOutline(result);
         } catch (error) {
-            console.error(error);
+            showError(error);
         } finally {
             setIsGenerating(false);
         }
     };
+
+    const handleOutlineArticleReady = (article: ArticleContent) => {
+        setGeneratedContent({ ...article, siteId });
+        setOutline(null);
+    };
     
     const handleGenerateProduct = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsGenerating(true);
         setGeneratedContent(null);
         try {
-            const result = await generateProduct(productName, productFeatures, language);
-            setGeneratedContent(result);
+            const result = await generateProduct(productName, productFeatures, language, siteId);
+            setGeneratedContent({ ...result, siteId });
         } catch (error) {
-            console.error(error);
+            showError(error);
         } finally {
             setIsGenerating(false);
         }
@@ -92,10 +191,10 @@ const NewContentView: React.FC<NewContentViewProps> = ({ onContentGenerated, exi
         setIsGenerating(true);
         setGeneratedContent(null);
         try {
-            const results = await generateContentStrategy(strategyTopic, strategyNumArticles, language);
-            setGeneratedContent(results);
+            const results = await generateContentStrategy(strategyTopic, strategyNumArticles, language, siteId);
+            setGeneratedContent(results.map(article => ({ ...article, siteId })));
         } catch (error) {
-            console.error(error);
+            showError(error);
         } finally {
             setIsGenerating(false);
         }
@@ -106,10 +205,10 @@ const NewContentView: React.FC<NewContentViewProps> = ({ onContentGenerated, exi
         setIsGeneratingImages(true);
         setGeneratedImages([]);
         try {
-            const results = await generateFeaturedImage(imagePrompt);
+            const results = await generateFeaturedImage(imagePrompt, siteId);
             setGeneratedImages(results);
         } catch (error) {
-            console.error(error);
+            showError(error);
         } finally {
             setIsGeneratingImages(false);
         }
@@ -135,8 +234,25 @@ const NewContentView: React.FC<NewContentViewProps> = ({ onContentGenerated, exi
     };
     
     const renderArticleForm = () => (
-        <form onSubmit={handleGenerateArticle} className="space-y-4">
+        <form onSubmit={articleMode === 'outline' ? handleGenerateOutline : handleGenerateArticle} className="space-y-4">
+            <div className="flex rounded-md bg-gray-700 p-1 text-sm">
+                {(['direct', 'outline'] as const).map(mode => (
+                    <button key={mode} type="button" onClick={() => setArticleMode(mode)} disabled={isGenerating} className={`flex-1 py-1.5 rounded ${articleMode === mode ? 'bg-gray-900 text-white' : 'text-gray-400 hover:text-white'}`}>
+                        {mode === 'direct' ? t('articleModeDirect') : t('articleModeOutline')}
+                    </button>
+                ))}
+            </div>
             <input type="text" placeholder={t('articleTopicPlaceholder')} value={articleTopic} onChange={e => setArticleTopic(e.target.value)} required className="w-full bg-gray-700 text-white rounded-md p-3" />
+            {duplicatePosts.length > 0 && (
+                <div className="bg-yellow-900/40 border border-yellow-700 rounded-md p-3 text-sm">
+                    <p className="text-yellow-300">{t('duplicateTopicWarning')}</p>
+                    <ul className="mt-1 list-disc ps-5">
+                        {duplicatePosts.map(({ post }) => (
+                            <li key={post.id}><a href={post.link} target="_blank" rel="noopener noreferrer" className="text-yellow-200 hover:underline">{post.title}</a></li>
+                        ))}
+                    </ul>
+                </div>
+            )}
             <input type="text" placeholder={t('keywordsPlaceholder')} value={articleKeywords} onChange={e => setArticleKeywords(e.target.value)} required className="w-full bg-gray-700 text-white rounded-md p-3" />
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <select value={writingTone} onChange={e => setWritingTone(e.target.value as WritingTone)} className="w-full bg-gray-700 text-white rounded-md p-3">
@@ -152,16 +268,46 @@ const NewContentView: React.FC<NewContentViewProps> = ({ onContentGenerated, exi
                     <option>Long (~2000 words)</option>
                 </select>
             </div>
-             <div className="flex items-center">
-                <input type="checkbox" id="google-search" checked={useGoogleSearch} onChange={e => setUseGoogleSearch(e.target.checked)} className="h-4 w-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500" />
-                <label htmlFor="google-search" className="ms-2 text-sm text-gray-300">{t('useGoogleSearch')}</label>
+            {articleMode === 'direct' && (
+                <div className="flex items-center">
+                    <input type="checkbox" id="google-search" checked={useGoogleSearch} onChange={e => setUseGoogleSearch(e.target.checked)} className="h-4 w-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500" />
+                    <label htmlFor="google-search" className="ms-2 text-sm text-gray-300">{t('useGoogleSearch')}</label>
+                </div>
+            )}
+            <div className="flex gap-2">
+                <button type="submit" disabled={isGenerating} className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-4 rounded-md flex items-center justify-center disabled:bg-blue-800">
+                    {isGenerating ? <Spinner size="sm" /> : articleMode === 'outline' ? t('generateOutline') : (existingContent ? t('regenerate') : t('generate'))}
+                </button>
+                {isGenerating && articleMode === 'direct' && (
+                    <button type="button" onClick={handleCancelArticle} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-3 px-4 rounded-md whitespace-nowrap">
+                        {t('cancelGeneration')}
+                    </button>
+                )}
             </div>
-            <button type="submit" disabled={isGenerating} className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-4 rounded-md flex items-center justify-center disabled:bg-blue-800">
-                {isGenerating ? <Spinner size="sm" /> : (existingContent ? t('regenerate') : t('generate'))}
-            </button>
         </form>
     );
     
+    const renderSiteSelector = () => {
+        const site = sites.find(s => s.id === targetSiteId);
+        return (
+            <div className="mb-4">
+                <label htmlFor="target-site" className="text-sm text-gray-400 mb-2 block">{t('targetSite')}</label>
+                <select id="target-site" value={targetSiteId} onChange={e => setTargetSiteId(e.target.value)} disabled={isGenerating} className="w-full bg-gray-700 text-white rounded-md p-3">
+                    <option value="">{t('noTargetSite')}</option>
+                    {sites.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+                {isLoadingContext && <p className="text-xs text-gray-400 mt-1 flex items-center gap-2"><Spinner size="sm" /> {t('loadingSiteContext')}</p>}
+                {contextError && <p className="text-xs text-red-400 mt-1">{t('siteContextFailed', { error: contextError })}</p>}
+                {siteContext && (
+                    <p className="text-xs text-gray-400 mt-1">
+                        {t('siteContextSummary', { posts: siteContext.posts.length, categories: siteContext.categories.length, tags: siteContext.tags.length })}
+                    </p>
+                )}
+                {site?.isVirtual && <p className="text-xs text-gray-400 mt-1">{t('virtualSiteNoContext')}</p>}
+            </div>
+        );
+    };
+
     const renderProductForm = () => (
          <form onSubmit={handleGenerateProduct} className="space-y-4">
             <input type="text" placeholder={t('productNamePlaceholder')} value={productName} onChange={e => setProductName(e.target.value)} required className="w-full bg-gray-700 text-white rounded-md p-3" />
@@ -215,9 +361,10 @@ const NewContentView: React.FC<NewContentViewProps> = ({ onContentGenerated, exi
             const content = generatedContent as ArticleContent;
             return (
                 <div className="space-y-4">
-                    <input type="text" value={content.title} onChange={(e) => setGeneratedContent({...content, title: e.target.value})} className="w-full bg-gray-900 text-2xl font-bold text-white rounded-md p-2" />
-                    <textarea value={content.metaDescription} onChange={(e) => setGeneratedContent({...content, metaDescription: e.target.value})} className="w-full bg-gray-900 text-sm text-gray-300 rounded-md p-2" rows={3}/>
-                    <RichTextEditor id="article-body" value={content.body} onChange={(newValue) => setGeneratedContent({...content, body: newValue})} className="w-full bg-gray-900 text-white rounded-md p-3 min-h-[50vh]" />
+                    <input type="text" value={content.title} readOnly={isGenerating} onChange={(e) => setGeneratedContent({...content, title: e.target.value})} className="w-full bg-gray-900 text-2xl font-bold text-white rounded-md p-2" />
+                    {renderFeaturedImage(content)}
+                    <textarea value={content.metaDescription} readOnly={isGenerating} onChange={(e) => setGeneratedContent({...content, metaDescription: e.target.value})} className="w-full bg-gray-900 text-sm text-gray-300 rounded-md p-2" rows={3}/>
+                    <RichTextEditor id="article-body" value={content.body} readOnly={isGenerating} onChange={(newValue) => setGeneratedContent({...content, body: newValue})} className="w-full bg-gray-900 text-white rounded-md p-3 min-h-[50vh]" />
                 </div>
             )
         }
@@ -227,6 +374,7 @@ const NewContentView: React.FC<NewContentViewProps> = ({ onContentGenerated, exi
             return (
                 <div className="space-y-4">
                      <input type="text" value={content.title} onChange={(e) => setGeneratedContent({...content, title: e.target.value})} className="w-full bg-gray-900 text-2xl font-bold text-white rounded-md p-2" />
+                    {renderFeaturedImage(content)}
                     <h3 className="text-lg font-semibold text-gray-300 border-b border-gray-600 pb-2">{t('shortDescription')}</h3>
                     <RichTextEditor id="product-short-desc" value={content.shortDescription} onChange={(newValue) => setGeneratedContent({...content, shortDescription: newValue})} rows={4} className="w-full bg-gray-900 text-white rounded-md p-3" />
                     <h3 className="text-lg font-semibold text-gray-300 border-b border-gray-600 pb-2">{t('longDescription')}</h3>
@@ -236,13 +384,46 @@ const NewContentView: React.FC<NewContentViewProps> = ({ onContentGenerated, exi
         }
     };
 
-    const renderGeneratedImages = () => (
-        <div className="grid grid-cols-2 gap-4">
-            {generatedImages.map((base64, index) => (
-                <img key={index} src={`data:image/jpeg;base64,${base64}`} alt={`Generated image ${index + 1}`} className="rounded-lg"/>
-            ))}
+    // Generated images can be attached to the single article/product currently being edited.
+    const attachableContent = generatedContent && !Array.isArray(generatedContent) ? generatedContent : null;
+
+    const handleSelectImage = (base64: string) => {
+        if (!attachableContent) return;
+        setGeneratedContent({
+            ...attachableContent,
+            featuredImage: {
+                base64,
+                mimeType: 'image/jpeg',
+                altText: attachableContent.featuredImage?.altText || attachableContent.title,
+                caption: attachableContent.featuredImage?.caption || '',
+            },
+        });
+    };
+
+    const renderFeaturedImage = (content: GeneratedContent) => content.featuredImage && (
+        <div className="flex items-center gap-3">
+            <img src={`data:${content.featuredImage.mimeType};base64,${content.featuredImage.base64}`} alt={content.featuredImage.altText} className="w-32 h-[4.5rem] object-cover rounded" />
+            <div>
+                <p className="text-sm text-gray-300">{t('featuredImage')}</p>
+                <button type="button" onClick={() => setGeneratedContent({ ...content, featuredImage: undefined })} className="text-xs text-red-400 hover:underline">{t('removeImage')}</button>
+            </div>
         </div>
     );
+
+    const renderGeneratedImages = () => (
+        <>
+            {attachableContent && generatedImages.length > 0 && <p className="text-sm text-gray-400 mt-6 mb-2">{t('useAsFeaturedImage')}</p>}
+            <div className="grid grid-cols-2 gap-4">
+                {generatedImages.map((base64, index) => attachableContent ? (
+                    <button key={index} type="button" onClick={() => handleSelectImage(base64)} className={`rounded-lg overflow-hidden ring-2 ${attachableContent.featuredImage?.base64 === base64 ? 'ring-blue-500' : 'ring-transparent hover:ring-gray-500'}`}>
+                        <img src={`data:image/jpeg;base64,${base64}`} alt={`Generated image ${index + 1}`} />
+                    </button>
+                ) : (
+                    <img key={index} src={`data:image/jpeg;base64,${base64}`} alt={`Generated image ${index + 1}`} className="rounded-lg"/>
+                ))}
+            </div>
+        </>
+    );
     
     const tabs = [
         { id: 'article', label: t('generateArticle') },
@@ -267,26 +448,58 @@ const NewContentView: React.FC<NewContentViewProps> = ({ onContentGenerated, exi
                             </button>
                         ))}
                     </div>
+                    {renderSiteSelector()}
                     {activeTab === 'article' && renderArticleForm()}
                     {activeTab === 'product' && renderProductForm()}
                     {activeTab === 'strategy' && renderStrategyForm()}
                     {activeTab === 'image' && renderImageForm()}
+                    {(activeTab === 'article' || activeTab === 'product') && (
+                        <SeoPanel
+                            contentType={activeTab}
+                            content={attachableContent}
+                            topic={articleTopic}
+                            keywords={articleKeywords}
+                            onKeywordsChange={setArticleKeywords}
+                            competitor={competitor}
+                            onCompetitorChange={setCompetitor}
+                            site={sites.find(site => site.id === targetSiteId)}
+                            onContentChange={setGeneratedContent}
+                            disabled={isGenerating}
+                            showNotification={showNotification}
+                        />
+                    )}
                 </div>
 
                 {/* Right Panel: Output */}
                 <div className="bg-gray-800 p-6 rounded-lg overflow-y-auto">
-                    {isGenerating ? (
+                    {/* A streaming article is shown as it arrives; everything else waits behind the spinner. */}
+                    {isGenerating && !generatedContent ? (
                         <div className="flex justify-center items-center h-full"><Spinner /></div>
                     ) : (
                         <>
                             {generatedContent && (
                                 <>
                                     {renderGeneratedContent()}
-                                    <button onClick={handleAddToLibrary} className="mt-6 w-full bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-4 rounded-md">
-                                        {existingContent ? t('saveChanges') : t('addToLibrary')}
-                                    </button>
+                                    {!isGenerating && (
+                                        <button onClick={handleAddToLibrary} className="mt-6 w-full bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-4 rounded-md">
+                                            {existingContent ? t('saveChanges') : t('addToLibrary')}
+                                        </button>
+                                    )}
                                 </>
                             )}
+                            {!generatedContent && outline && activeTab === 'article' && (
+                                <ArticleOutlineEditor
+                                    outline={outline}
+                                    onOutlineChange={setOutline}
+                                    keywords={articleKeywords}
+                                    tone={writingTone}
+                                    articleLength={articleLength}
+                                    siteId={siteId}
+                                    onArticleReady={handleOutlineArticleReady}
+                                    onDiscard={() => setOutline(null)}
+                                    showNotification={showNotification}
+                                />
+                            )}
                             {isGeneratingImages ? <div className="flex justify-center items-center h-full"><Spinner /></div> : renderGeneratedImages()}
                         </>
                     )}
@@ -0,0 +1,169 @@
+// Prompt templates section of the settings page: editors override the built-in prompts for the
+// whole team or for a single site; writers can see which prompt is in use.
+import React, { useState, useContext, useEffect, useCallback } from 'react';
+import { LanguageContext } from '../App';
+import { LanguageContextType, Notification, PromptTemplateOverride, User, UserRole, WordPressSite } from '../types';
+import { deletePromptTemplate, fetchPromptTemplates, savePromptTemplate } from '../services/backendService';
+import { PROMPT_TEMPLATES, PROMPT_TEMPLATE_IDS, PromptTemplateId, findOverride, findTemplateProblems } from '../services/promptTemplates';
+import { clearPromptTemplateCache } from '../services/promptOverrides';
+import Spinner from './common/Spinner';
+
+interface PromptTemplateSettingsProps {
+    currentUser: User;
+    sites: WordPressSite[];
+    showNotification: (notification: Notification) => void;
+}
+
+const inputClassName = "w-full bg-gray-700 text-white placeholder-gray-400 rounded-md px-4 py-2 border border-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+const PromptTemplateSettings: React.FC<PromptTemplateSettingsProps> = ({ currentUser, sites, showNotification }) => {
+    const { t } = useContext(LanguageContext as React.Context<LanguageContextType>);
+    const isEditor = currentUser.role === UserRole.Editor;
+
+    const [overrides, setOverrides] = useState<PromptTemplateOverride[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isBusy, setIsBusy] = useState(false);
+    const [templateId, setTemplateId] = useState<PromptTemplateId>(PROMPT_TEMPLATE_IDS[0]);
+    // '' edits the team-wide override, otherwise the override for that site.
+    const [scope, setScope] = useState('');
+    const [systemInstruction, setSystemInstruction] = useState('');
+    const [userPrompt, setUserPrompt] = useState('');
+
+    const template = PROMPT_TEMPLATES[templateId];
+    const override = overrides.find(o => o.templateId === templateId && o.siteId === (scope || null));
+    // What generation uses for this scope; a site without its own override falls back to the team's.
+    const effective = findOverride(overrides, templateId, scope || undefined);
+
+    const loadOverrides = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setOverrides(await fetchPromptTemplates());
+        } catch (error) {
+            console.error("Failed to load prompt templates", error);
+            showNotification({ message: t('promptTemplatesLoadFailed'), type: 'error' });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [currentUser.teamId]);
+
+    useEffect(() => {
+        loadOverrides();
+    }, [loadOverrides]);
+
+    // The editor starts from the prompt currently in use for the selected scope.
+    useEffect(() => {
+        setSystemInstruction(effective ? effective.systemInstruction : template.systemInstruction);
+        setUserPrompt(effective ? effective.userPrompt : template.userPrompt);
+    }, [templateId, scope, effective?.siteId, effective?.version]);
+
+    const runAction = async (action: () => Promise<void>) => {
+        setIsBusy(true);
+        try {
+            await action();
+            clearPromptTemplateCache();
+        } catch (error) {
+            showNotification({ message: error instanceof Error ? error.message : t('errorUnknown'), type: 'error' });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleSave = () => {
+        const problems = [...findTemplateProblems(templateId, systemInstruction), ...findTemplateProblems(templateId, userPrompt)];
+        if (!userPrompt.trim()) {
+            showNotification({ message: t('promptTemplateEmpty'), type: 'error' });
+            return;
+        }
+        if (problems.length > 0) {
+            showNotification({ message: t('promptTemplateInvalid', { problems: problems.join('; ') }), type: 'error' });
+            return;
+        }
+        runAction(async () => {
+            const saved = await savePromptTemplate(templateId, scope || null, systemInstruction, userPrompt);
+            setOverrides(prev => [...prev.filter(o => !(o.templateId === saved.templateId && o.siteId === saved.siteId)), saved]);
+            showNotification({ message: t('promptTemplateSaved', { version: saved.version }), type: 'success' });
+        });
+    };
+
+    const handleReset = () => runAction(async () => {
+        await deletePromptTemplate(templateId, scope || null);
+        setOverrides(prev => prev.filter(o => !(o.templateId === templateId && o.siteId === (scope || null))));
+        showNotification({ message: t('promptTemplateReset'), type: 'success' });
+    });
+
+    if (isLoading) {
+        return (
+            <div className="bg-gray-800 p-6 rounded-lg flex justify-center">
+                <Spinner />
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-gray-800 p-6 rounded-lg space-y-4">
+            <div>
+                <h2 className="text-xl font-semibold">{t('promptTemplates')}</h2>
+                <p className="text-sm text-gray-400 mt-1">{t('promptTemplatesDescription')}</p>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="prompt-template" className="block text-sm font-medium text-gray-300 mb-2">{t('promptTemplate')}</label>
+                    <select id="prompt-template" value={templateId} onChange={(e) => setTemplateId(e.target.value as PromptTemplateId)} className={inputClassName}>
+                        {PROMPT_TEMPLATE_IDS.map(id => <option key={id} value={id}>{PROMPT_TEMPLATES[id].name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="prompt-template-scope" className="block text-sm font-medium text-gray-300 mb-2">{t('promptTemplateScope')}</label>
+                    <select id="prompt-template-scope" value={scope} onChange={(e) => setScope(e.target.value)} className={inputClassName}>
+                        <option value="">{t('promptTemplateScopeTeam')}</option>
+                        {sites.map(site => <option key={site.id} value={site.id}>{site.name}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            <p className="text-sm text-gray-400">
+                {template.description}{' '}
+                <span className="text-gray-300">
+                    {effective
+                        ? t(effective.siteId ? 'promptTemplateSiteVersion' : 'promptTemplateTeamVersion', { version: effective.version, date: new Date(effective.updatedAt).toLocaleDateString() })
+                        : t('promptTemplateDefaultVersion', { version: template.version })}
+                </span>
+            </p>
+
+            <div>
+                <label htmlFor="prompt-system" className="block text-sm font-medium text-gray-300 mb-2">{t('promptSystemInstruction')}</label>
+                <textarea id="prompt-system" rows={4} value={systemInstruction} onChange={(e) => setSystemInstruction(e.target.value)} readOnly={!isEditor} className={`${inputClassName} font-mono text-sm`} />
+            </div>
+            <div>
+                <label htmlFor="prompt-user" className="block text-sm font-medium text-gray-300 mb-2">{t('promptUserPrompt')}</label>
+                <textarea id="prompt-user" rows={14} value={userPrompt} onChange={(e) => setUserPrompt(e.target.value)} readOnly={!isEditor} className={`${inputClassName} font-mono text-sm`} />
+            </div>
+
+            <div>
+                <h3 className="text-sm font-medium text-gray-300 mb-2">{t('promptTemplateVariables')}</h3>
+                <ul className="text-sm space-y-1">
+                    {Object.entries(template.variables).map(([name, description]) => (
+                        <li key={name}><code className="text-blue-300">{`{{${name}}}`}</code> <span className="text-gray-400">— {description as string}</span></li>
+                    ))}
+                </ul>
+                <p className="text-xs text-gray-500 mt-2">{t('promptTemplateSyntaxHint')}</p>
+            </div>
+
+            {isEditor ? (
+                <div className="flex justify-end gap-2">
+                    <button onClick={handleReset} disabled={isBusy || !override} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md disabled:opacity-50">
+                        {scope ? t('promptTemplateResetSite') : t('promptTemplateResetTeam')}
+                    </button>
+                    <button onClick={handleSave} disabled={isBusy} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-md disabled:opacity-50">
+                        {t('promptTemplateSave')}
+                    </button>
+                </div>
+            ) : (
+                <p className="text-sm text-gray-400">{t('promptTemplatesEditorsOnly')}</p>
+            )}
+        </div>
+    );
+};
+
+export default PromptTemplateSettings;
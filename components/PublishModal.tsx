@@ -2,13 +2,18 @@
 
 import React, { useState, useContext, useEffect, useMemo } from 'react';
 import Modal from './common/Modal';
-import { GeneratedContent, WordPressSite, PublishingOptions, LanguageContextType, WordPressCategory, WordPressPost, ContentType } from '../types';
+import { GeneratedContent, WordPressSite, PublishingOptions, LanguageContextType, WordPressCategory, WordPressPost, ContentType, StockStatus, FeaturedImage } from '../types';
 import { LanguageContext } from '../App';
 import Spinner from './common/Spinner';
-import { getSiteCategories, getSitePosts } from '../services/wordpressService';
+import { getSiteCategories, getProductCategories, getSitePosts, getCachedPostSummaries } from '../services/wordpressService';
+import { generateFeaturedImage } from '../services/geminiService';
+import { ContentOverlap, checkContentOverlaps, libraryDocument, loadPostDocuments, postSummaryDocument } from '../services/contentSimilarity';
+import ContentOverlapWarning from './ContentOverlapWarning';
 
 interface PublishModalProps {
     content: GeneratedContent;
+    // Checked for items the content duplicates or competes with.
+    library: GeneratedContent[];
     sites: WordPressSite[];
     isOpen: boolean;
     onClose: () => void;
@@ -16,7 +21,7 @@ interface PublishModalProps {
     isPublishing: boolean;
 }
 
-const PublishModal: React.FC<PublishModalProps> = ({ content, sites, isOpen, onClose, onPublish, isPublishing }) => {
+const PublishModal: React.FC<PublishModalProps> = ({ content, library, sites, isOpen, onClose, onPublish, isPublishing }) => {
     const { t } = useContext(LanguageContext as React.Context<LanguageContextType>);
     const availableSites = useMemo(() => sites.filter(s => !s.isVirtual), [sites]);
     
@@ -31,9 +36,57 @@ const PublishModal: React.FC<PublishModalProps> = ({ content, sites, isOpen, onC
     
     const [posts, setPosts] = useState<WordPressPost[]>([]);
     const [isLoadingPosts, setIsLoadingPosts] = useState(false);
+
+    // WooCommerce product fields
+    const isProduct = content.type === ContentType.Product;
+    const [regularPrice, setRegularPrice] = useState('');
+    const [salePrice, setSalePrice] = useState('');
+    const [sku, setSku] = useState('');
+    const [manageStock, setManageStock] = useState(false);
+    const [stockQuantity, setStockQuantity] = useState(0);
+    const [stockStatus, setStockStatus] = useState<StockStatus>('instock');
+
+    // Featured image picker
+    const [featuredImage, setFeaturedImage] = useState<FeaturedImage | undefined>(content.featuredImage);
+    const [imagePrompt, setImagePrompt] = useState(content.title);
+    const [imageOptions, setImageOptions] = useState<string[]>([]);
+    const [isGeneratingImages, setIsGeneratingImages] = useState(false);
+    const [imageError, setImageError] = useState('');
+
+    // Null until checked; the check runs on request, as it downloads the site's post excerpts.
+    const [overlaps, setOverlaps] = useState<ContentOverlap[] | null>(null);
+    const [isCheckingOverlaps, setIsCheckingOverlaps] = useState(false);
+    const [overlapError, setOverlapError] = useState('');
     
     const selectedSite = useMemo(() => sites.find(s => s.id === selectedSiteId), [sites, selectedSiteId]);
 
+    useEffect(() => {
+        setOverlaps(null);
+        setOverlapError('');
+    }, [isOpen, selectedSiteId, action, selectedPostId]);
+
+    // Checked as if already on the chosen site; the post being updated is the content itself.
+    const handleCheckOverlaps = async () => {
+        if (!selectedSite) return;
+        setIsCheckingOverlaps(true);
+        setOverlapError('');
+        try {
+            const target = { ...libraryDocument(content), siteId: selectedSiteId };
+            const posts = await getCachedPostSummaries(selectedSite);
+            const documents = [
+                target,
+                ...library.filter(item => item.id !== content.id).map(libraryDocument),
+                ...posts.filter(post => action !== 'update' || post.id !== selectedPostId).map(post => postSummaryDocument(selectedSiteId, post)),
+            ];
+            const found = await checkContentOverlaps(documents, candidates => loadPostDocuments([selectedSite], candidates), new Set([target.id]));
+            setOverlaps(found.get(target.id) ?? []);
+        } catch (error) {
+            setOverlapError(t('overlapCheckFailed', { error: error instanceof Error ? error.message : t('errorUnknown') }));
+        } finally {
+            setIsCheckingOverlaps(false);
+        }
+    };
+
     useEffect(() => {
         if (isOpen && selectedSite) {
             setAction(content.wordpressId ? 'update' : 'create');
@@ -41,7 +94,7 @@ const PublishModal: React.FC<PublishModalProps> = ({ content, sites, isOpen, onC
             
             // Fetch Categories
             setIsLoadingCategories(true);
-            getSiteCategories(selectedSite)
+            (isProduct ? getProductCategories : getSiteCategories)(selectedSite)
                 .then(setCategories)
                 .catch(() => setCategories([]))
                 .finally(() => setIsLoadingCategories(false));
@@ -92,6 +145,29 @@ const PublishModal: React.FC<PublishModalProps> = ({ content, sites, isOpen, onC
         });
     };
     
+    const handleGenerateImages = async () => {
+        if (!imagePrompt.trim()) return;
+        setIsGeneratingImages(true);
+        setImageError('');
+        try {
+            setImageOptions(await generateFeaturedImage(imagePrompt, selectedSiteId || undefined));
+        } catch (error) {
+            setImageError(error instanceof Error ? error.message : t('errorUnknown'));
+        } finally {
+            setIsGeneratingImages(false);
+        }
+    };
+
+    const handleSelectImage = (base64: string) => {
+        // A new image needs a fresh upload, so `upload` is deliberately dropped.
+        setFeaturedImage({
+            base64,
+            mimeType: 'image/jpeg',
+            altText: featuredImage?.altText || content.title,
+            caption: featuredImage?.caption || '',
+        });
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (!selectedSiteId || (action === 'update' && !selectedPostId)) {
@@ -103,6 +179,15 @@ const PublishModal: React.FC<PublishModalProps> = ({ content, sites, isOpen, onC
             action,
             postId: action === 'update' ? selectedPostId : undefined,
             categories: Array.from(selectedCategories),
+            product: isProduct ? {
+                regularPrice,
+                salePrice,
+                sku,
+                manageStock,
+                stockQuantity: manageStock ? stockQuantity : undefined,
+                stockStatus,
+            } : undefined,
+            featuredImage,
         });
     };
 
@@ -154,6 +239,77 @@ const PublishModal: React.FC<PublishModalProps> = ({ content, sites, isOpen, onC
                      )}
                 </div>
 
+                {/* Product Details */}
+                {isProduct && (
+                    <div className="space-y-4 p-3 bg-gray-900/50 rounded-md border border-gray-600">
+                        <h3 className="text-sm font-semibold text-gray-200">{t('productDetails')}</h3>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label htmlFor="regular-price" className="block text-sm font-medium text-gray-300">{t('regularPrice')}</label>
+                                <input id="regular-price" type="number" min="0" step="0.01" value={regularPrice} onChange={(e) => setRegularPrice(e.target.value)} disabled={isPublishing} className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 sm:text-sm text-white" />
+                            </div>
+                            <div>
+                                <label htmlFor="sale-price" className="block text-sm font-medium text-gray-300">{t('salePrice')}</label>
+                                <input id="sale-price" type="number" min="0" step="0.01" value={salePrice} onChange={(e) => setSalePrice(e.target.value)} disabled={isPublishing} className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 sm:text-sm text-white" />
+                            </div>
+                        </div>
+                        <div>
+                            <label htmlFor="product-sku" className="block text-sm font-medium text-gray-300">{t('sku')}</label>
+                            <input id="product-sku" type="text" value={sku} onChange={(e) => setSku(e.target.value)} disabled={isPublishing} className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 sm:text-sm text-white" />
+                        </div>
+                        <label className="flex items-center text-sm text-gray-200 cursor-pointer">
+                            <input type="checkbox" checked={manageStock} onChange={(e) => setManageStock(e.target.checked)} disabled={isPublishing} className="h-4 w-4 rounded border-gray-500 text-blue-600 focus:ring-blue-500 bg-gray-700" />
+                            <span className="ms-2">{t('manageStock')}</span>
+                        </label>
+                        {manageStock ? (
+                            <div>
+                                <label htmlFor="stock-quantity" className="block text-sm font-medium text-gray-300">{t('stockQuantity')}</label>
+                                <input id="stock-quantity" type="number" min="0" step="1" value={stockQuantity} onChange={(e) => setStockQuantity(parseInt(e.target.value, 10) || 0)} disabled={isPublishing} className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 sm:text-sm text-white" />
+                            </div>
+                        ) : (
+                            <div>
+                                <label htmlFor="stock-status" className="block text-sm font-medium text-gray-300">{t('stockStatus')}</label>
+                                <select id="stock-status" value={stockStatus} onChange={(e) => setStockStatus(e.target.value as StockStatus)} disabled={isPublishing} className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 sm:text-sm text-white">
+                                    <option value="instock">{t('inStock')}</option>
+                                    <option value="outofstock">{t('outOfStock')}</option>
+                                    <option value="onbackorder">{t('onBackorder')}</option>
+                                </select>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Featured Image */}
+                <div>
+                    <label className="block text-sm font-medium text-gray-300">{t('featuredImage')}</label>
+                    {featuredImage && (
+                        <div className="mt-2 flex gap-3 p-3 bg-gray-900/50 rounded-md border border-gray-600">
+                            <img src={`data:${featuredImage.mimeType};base64,${featuredImage.base64}`} alt={featuredImage.altText} className="w-32 h-[4.5rem] object-cover rounded" />
+                            <div className="flex-1 space-y-2">
+                                <input type="text" placeholder={t('altText')} value={featuredImage.altText} onChange={(e) => setFeaturedImage({ ...featuredImage, altText: e.target.value })} disabled={isPublishing} className="block w-full bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-sm text-white" />
+                                <input type="text" placeholder={t('caption')} value={featuredImage.caption} onChange={(e) => setFeaturedImage({ ...featuredImage, caption: e.target.value })} disabled={isPublishing} className="block w-full bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-sm text-white" />
+                                <button type="button" onClick={() => setFeaturedImage(undefined)} disabled={isPublishing} className="text-xs text-red-400 hover:underline">{t('removeImage')}</button>
+                            </div>
+                        </div>
+                    )}
+                    <div className="mt-2 flex gap-2">
+                        <input type="text" value={imagePrompt} onChange={(e) => setImagePrompt(e.target.value)} placeholder={t('imagePromptPlaceholder')} disabled={isPublishing || isGeneratingImages} className="flex-1 bg-gray-700 border border-gray-600 rounded-md py-2 px-3 sm:text-sm text-white" />
+                        <button type="button" onClick={handleGenerateImages} disabled={isPublishing || isGeneratingImages || !imagePrompt.trim()} className="bg-gray-600 hover:bg-gray-500 text-white text-sm font-semibold py-2 px-3 rounded-md flex items-center disabled:opacity-50">
+                            {isGeneratingImages ? <Spinner size="sm" /> : t('generateImages')}
+                        </button>
+                    </div>
+                    {imageError && <p className="text-red-400 mt-1 text-xs">{imageError}</p>}
+                    {imageOptions.length > 0 && (
+                        <div className="mt-2 grid grid-cols-4 gap-2">
+                            {imageOptions.map((base64, index) => (
+                                <button key={index} type="button" onClick={() => handleSelectImage(base64)} disabled={isPublishing} className={`rounded overflow-hidden ring-2 ${featuredImage?.base64 === base64 ? 'ring-blue-500' : 'ring-transparent hover:ring-gray-500'}`}>
+                                    <img src={`data:image/jpeg;base64,${base64}`} alt={`${t('featuredImage')} ${index + 1}`} className="w-full h-14 object-cover" />
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
                 {/* Status */}
                 <div>
                     <label htmlFor="publish-status" className="block text-sm font-medium text-gray-300">{t('status')}</label>
@@ -164,6 +320,17 @@ const PublishModal: React.FC<PublishModalProps> = ({ content, sites, isOpen, onC
                     </select>
                 </div>
 
+                {/* Overlap check */}
+                <div>
+                    <button type="button" onClick={handleCheckOverlaps} disabled={isCheckingOverlaps || isPublishing || !selectedSite} className="bg-gray-600 hover:bg-gray-500 text-white text-sm py-1 px-3 rounded-md transition-colors flex items-center disabled:opacity-50">
+                        {isCheckingOverlaps ? <Spinner size="sm" /> : t('checkOverlaps')}
+                    </button>
+                    {overlapError && <p className="mt-2 text-sm text-red-400">{overlapError}</p>}
+                    {overlaps?.length === 0 && <p className="mt-2 text-sm text-gray-400">{t('noOverlapsFound')}</p>}
+                </div>
+
+                {overlaps && overlaps.length > 0 && <ContentOverlapWarning overlaps={overlaps} />}
+
                 {/* Actions */}
                 <div className="pt-4 flex justify-end space-x-3 rtl:space-x-reverse">
                     <button type="button" onClick={onClose} disabled={isPublishing} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md transition-colors disabled:opacity-50">{t('cancel')}</button>
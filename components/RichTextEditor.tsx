@@ -1,6 +1,10 @@
-import React, { useRef, useContext } from 'react';
+import React, { useRef, useContext, useEffect, useState } from 'react';
 import { LanguageContext } from '../App';
-import { LanguageContextType } from '../types';
+import { Language, LanguageContextType, RewriteInstruction, WritingTone } from '../types';
+import { rewriteText } from '../services/geminiService';
+import { diffWords } from '../services/textDiff';
+import Modal from './common/Modal';
+import Spinner from './common/Spinner';
 
 // Icons for the toolbar
 const BoldIcon = () => <svg viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5"><path d="M15.6 10.79c.97-.67 1.65-1.77 1.65-2.79 0-2.26-1.75-4-4-4H7v14h7.04c2.09 0 3.71-1.7 3.71-3.79 0-1.52-.86-2.82-2.15-3.42zM10 6.5h3c.83 0 1.5.67 1.5 1.5s-.67 1.5-1.5 1.5h-3v-3zm3.5 9H10v-3h3.5c.83 0 1.5.67 1.5 1.5s-.67 1.5-1.5 1.5z"></path></svg>;
@@ -12,6 +16,24 @@ const UlIcon = () => <svg viewBox="0 0 24 24" fill="currentColor" className="w-5
 const OlIcon = () => <svg viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5"><path d="M2 17h2v.5H3v1h1v.5H2v1h3v-4H2v1zm1-9h1V4H2v1h1v3zm-1 3h1.8L2 13.1v.9h3v-1H3.2L5 10.9V10H2v1zm5-6v2h14V5H7zm0 14h14v-2H7v2zm0-6h14v-2H7v2z"></path></svg>;
 const QuoteIcon = () => <svg viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5"><path d="M6 17h3l2-4V7H5v6h3l-2 4zm8 0h3l2-4V7h-6v6h3l-2 4z"></path></svg>;
 
+const WRITING_TONES: WritingTone[] = ['Professional', 'Casual', 'Enthusiastic', 'Informative', 'Humorous'];
+
+// Menu values are `action` or `action:option`, e.g. `tone:Casual` or `translate:ar`.
+const parseInstruction = (value: string): RewriteInstruction => {
+    const [action, option] = value.split(':');
+    if (action === 'tone') return { action, tone: option as WritingTone };
+    if (action === 'translate') return { action, targetLanguage: option as Language };
+    return { action: action as 'rewrite' | 'expand' | 'shorten' | 'simplify' };
+};
+
+interface PendingRewrite {
+    start: number;
+    end: number;
+    original: string;
+    instruction: RewriteInstruction;
+    result: string | null;
+    error: string | null;
+}
 
 interface RichTextEditorProps {
     id: string;
@@ -19,11 +41,21 @@ interface RichTextEditorProps {
     onChange: (newValue: string) => void;
     rows?: number;
     className?: string;
+    // While content is still being generated into the editor.
+    readOnly?: boolean;
 }
 
-const RichTextEditor: React.FC<RichTextEditorProps> = ({ id, value, onChange, rows = 10, className }) => {
+const RichTextEditor: React.FC<RichTextEditorProps> = ({ id, value, onChange, rows = 10, className, readOnly = false }) => {
     const textareaRef = useRef<HTMLTextAreaElement>(null);
-    const { t } = useContext(LanguageContext as React.Context<LanguageContextType>);
+    const { t, language } = useContext(LanguageContext as React.Context<LanguageContextType>);
+    const [rewrite, setRewrite] = useState<PendingRewrite | null>(null);
+
+    // Follow text as it streams in.
+    useEffect(() => {
+        if (readOnly && textareaRef.current) {
+            textareaRef.current.scrollTop = textareaRef.current.scrollHeight;
+        }
+    }, [value, readOnly]);
 
     const applyMarkdown = (prefix: string, suffix: string = '') => {
         const textarea = textareaRef.current;
@@ -86,6 +118,95 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({ id, value, onChange, ro
         }
     };
 
+    /** The selection or, with nothing selected, the H2 section around the cursor (heading included). */
+    const getRewriteRange = (): { start: number; end: number } | null => {
+        const textarea = textareaRef.current;
+        if (!textarea) return null;
+        let start = textarea.selectionStart;
+        let end = textarea.selectionEnd;
+        if (start === end) {
+            const cursor = start;
+            start = 0;
+            end = value.length;
+            for (const heading of value.matchAll(/^## .*$/gm)) {
+                if (heading.index! <= cursor) {
+                    start = heading.index!;
+                } else {
+                    end = heading.index!;
+                    break;
+                }
+            }
+        }
+        // Leave surrounding blank lines alone so paragraphs stay separated after the replacement.
+        const text = value.slice(start, end);
+        start += text.length - text.trimStart().length;
+        end = start + text.trim().length;
+        return end > start ? { start, end } : null;
+    };
+
+    const runRewrite = async (pending: PendingRewrite) => {
+        setRewrite({ ...pending, result: null, error: null });
+        try {
+            const result = await rewriteText(pending.original, pending.instruction, language);
+            setRewrite(current => current && current.start === pending.start ? { ...current, result } : current);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : t('errorUnknown');
+            setRewrite(current => current && current.start === pending.start ? { ...current, error: message } : current);
+        }
+    };
+
+    const handleAiAction = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const range = getRewriteRange();
+        if (!e.target.value || !range) return;
+        runRewrite({ ...range, original: value.slice(range.start, range.end), instruction: parseInstruction(e.target.value), result: null, error: null });
+    };
+
+    const handleAcceptRewrite = () => {
+        if (!rewrite?.result) return;
+        const { start, end, result } = rewrite;
+        onChange(`${value.substring(0, start)}${result}${value.substring(end)}`);
+        setRewrite(null);
+        setTimeout(() => {
+            const textarea = textareaRef.current;
+            if (!textarea) return;
+            textarea.focus();
+            textarea.selectionStart = start;
+            textarea.selectionEnd = start + result.length;
+        }, 0);
+    };
+
+    const renderRewritePreview = (pending: PendingRewrite) => (
+        <Modal title={t('aiRewriteTitle')} onClose={() => setRewrite(null)}>
+            {pending.error ? (
+                <p className="text-red-400">{pending.error}</p>
+            ) : pending.result === null ? (
+                <div className="flex justify-center py-8"><Spinner /></div>
+            ) : (
+                <>
+                    <p className="text-xs text-gray-400 mb-2">{t('aiRewriteDiffHint')}</p>
+                    <div dir="auto" className="whitespace-pre-wrap text-sm text-gray-200 bg-gray-900 rounded-md p-3 max-h-96 overflow-y-auto">
+                        {diffWords(pending.original, pending.result).map((part, index) => (
+                            <span key={index} className={part.type === 'added' ? 'bg-green-900/60 text-green-200' : part.type === 'removed' ? 'bg-red-900/60 text-red-200 line-through' : ''}>
+                                {part.text}
+                            </span>
+                        ))}
+                    </div>
+                </>
+            )}
+            <div className="flex justify-end gap-2 mt-4">
+                <button type="button" onClick={() => setRewrite(null)} className="bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold py-2 px-4 rounded-md">
+                    {t('discard')}
+                </button>
+                <button type="button" onClick={() => runRewrite(pending)} disabled={pending.result === null && !pending.error} className="bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold py-2 px-4 rounded-md disabled:opacity-50">
+                    {t('tryAgain')}
+                </button>
+                <button type="button" onClick={handleAcceptRewrite} disabled={!pending.result} className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold py-2 px-4 rounded-md disabled:opacity-50">
+                    {t('acceptRewrite')}
+                </button>
+            </div>
+        </Modal>
+    );
+
     const toolbarButtons = [
         { icon: <BoldIcon />, action: () => applyMarkdown('**', '**'), title: t('bold') },
         { icon: <ItalicIcon />, action: () => applyMarkdown('*', '*'), title: t('italic') },
@@ -106,21 +227,46 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({ id, value, onChange, ro
                         type="button"
                         onClick={btn.action}
                         title={btn.title}
-                        className="p-2 rounded text-gray-400 hover:bg-gray-700 hover:text-white transition-colors"
+                        disabled={readOnly}
+                        className="p-2 rounded text-gray-400 hover:bg-gray-700 hover:text-white transition-colors disabled:opacity-50 disabled:hover:bg-transparent"
                         aria-label={btn.title}
                     >
                         {btn.icon}
                     </button>
                 ))}
+                {/* Applies to the selection, or to the current H2 section when nothing is selected. */}
+                <select
+                    value=""
+                    onChange={handleAiAction}
+                    disabled={readOnly}
+                    title={t('aiActionsHint')}
+                    aria-label={t('aiActions')}
+                    className="!ms-auto bg-gray-700 text-sm text-gray-200 rounded px-2 py-1 border border-gray-600 focus:ring-1 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+                >
+                    <option value="" disabled>{t('aiActions')}</option>
+                    <option value="rewrite">{t('aiRewrite')}</option>
+                    <option value="expand">{t('aiExpand')}</option>
+                    <option value="shorten">{t('aiShorten')}</option>
+                    <option value="simplify">{t('aiSimplify')}</option>
+                    <optgroup label={t('aiChangeTone')}>
+                        {WRITING_TONES.map(tone => <option key={tone} value={`tone:${tone}`}>{tone}</option>)}
+                    </optgroup>
+                    <optgroup label={t('aiTranslate')}>
+                        <option value="translate:en">English</option>
+                        <option value="translate:ar">العربية (Arabic)</option>
+                    </optgroup>
+                </select>
             </div>
             <textarea
                 id={id}
                 ref={textareaRef}
                 value={value}
                 onChange={(e) => onChange(e.target.value)}
+                readOnly={readOnly}
                 rows={rows}
                 className={`${className} rounded-b-md rounded-t-none`}
             />
+            {rewrite && renderRewritePreview(rewrite)}
         </div>
     );
 };
@@ -0,0 +1,370 @@
+// SEO side panel of the content editor: keyword ideas for the keywords field, a competitor analysis
+// that shapes the next generation, a live local checklist and an AI score for the current draft, and
+// one-click internal links picked from the site's link index.
+import React, { useState, useContext, useEffect, useMemo } from 'react';
+import { LanguageContext } from '../App';
+import { CompetitorAnalysis, ContentType, GeneratedContent, InternalLinkSuggestion, KeywordSuggestion, LanguageContextType, LinkIndexEntry, Notification, SeoAnalysis, SeoCheck, SeoCheckStatus, WordPressSite } from '../types';
+import { analyzeArticleSeo, analyzeCompetitorUrl, analyzeProductSeo, suggestInternalLinks, suggestKeywords } from '../services/geminiService';
+import { checkArticleSeo } from '../services/seoChecker';
+import { buildLinkIndex, findLinkCandidates, getLinkGraph } from '../services/linkGraph';
+import { fetchLinkIndex } from '../services/backendService';
+import Spinner from './common/Spinner';
+import LinkIndexReport from './LinkIndexReport';
+
+interface SeoPanelProps {
+    contentType: 'article' | 'product';
+    // The draft being edited; analysis and links need one.
+    content: GeneratedContent | null;
+    topic: string;
+    keywords: string;
+    onKeywordsChange: (keywords: string) => void;
+    // Used by the next article or outline generation while set.
+    competitor: CompetitorAnalysis | null;
+    onCompetitorChange: (competitor: CompetitorAnalysis | null) => void;
+    // The site the content is for; internal links come from its link index.
+    site?: WordPressSite;
+    onContentChange: (content: GeneratedContent) => void;
+    disabled: boolean;
+    showNotification: (notification: Notification) => void;
+}
+
+type Busy = 'keywords' | 'competitor' | 'score' | 'links' | 'index' | null;
+
+const ESTIMATE_CLASSES = { Low: 'text-green-400', Medium: 'text-yellow-400', High: 'text-red-400' };
+
+const CHECK_STATUS_STYLES: Record<SeoCheckStatus, { icon: string; className: string }> = {
+    pass: { icon: '✓', className: 'text-green-400' },
+    warn: { icon: '!', className: 'text-yellow-400' },
+    fail: { icon: '✗', className: 'text-red-400' },
+    info: { icon: 'i', className: 'text-gray-400' },
+};
+
+const CHECK_MESSAGE_KEYS: Record<SeoCheck['id'], string> = {
+    keywordInTitle: 'seoCheckKeywordInTitle',
+    keywordInIntro: 'seoCheckKeywordInIntro',
+    keywordInHeadings: 'seoCheckKeywordInHeadings',
+    keywordDensity: 'seoCheckKeywordDensity',
+    metaDescriptionLength: 'seoCheckMetaDescriptionLength',
+    headingHierarchy: 'seoCheckHeadingHierarchy',
+    paragraphLength: 'seoCheckParagraphLength',
+    readability: 'seoCheckReadability',
+    links: 'seoCheckLinks',
+};
+
+const KEYWORD_CHECKS: SeoCheck['id'][] = ['keywordInTitle', 'keywordInIntro', 'keywordInHeadings', 'keywordDensity'];
+
+const splitKeywords = (keywords: string) => keywords.split(',').map(keyword => keyword.trim()).filter(Boolean);
+
+/**
+ * Turns the first plain occurrence of `anchorText` into a markdown link. Occurrences inside
+ * headings or existing links are skipped; returns null when there is no usable one.
+ */
+const insertMarkdownLink = (body: string, anchorText: string, url: string): string | null => {
+    const blocked: [number, number][] = [];
+    for (const match of body.matchAll(/\[[^\]]*\]\([^)]*\)|^#{1,6} .*$/gm)) {
+        blocked.push([match.index!, match.index! + match[0].length]);
+    }
+    const haystack = body.toLowerCase();
+    const needle = anchorText.toLowerCase();
+    for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + 1)) {
+        const end = index + anchorText.length;
+        if (blocked.some(([start, stop]) => index < stop && end > start)) continue;
+        // Keeps the body's own capitalization of the anchor.
+        return `${body.slice(0, index)}[${body.slice(index, end)}](${url})${body.slice(end)}`;
+    }
+    return null;
+};
+
+const ScoreGauge: React.FC<{ score: number }> = ({ score }) => {
+    const radius = 36;
+    const circumference = 2 * Math.PI * radius;
+    const clamped = Math.max(0, Math.min(100, score));
+    const color = clamped >= 80 ? 'text-green-500' : clamped >= 50 ? 'text-yellow-500' : 'text-red-500';
+    return (
+        <svg viewBox="0 0 88 88" className="w-24 h-24 shrink-0" role="img" aria-label={`${clamped} / 100`}>
+            <circle cx="44" cy="44" r={radius} fill="none" strokeWidth="8" className="stroke-gray-700" />
+            <circle
+                cx="44" cy="44" r={radius} fill="none" strokeWidth="8" strokeLinecap="round"
+                stroke="currentColor" className={color}
+                strokeDasharray={circumference} strokeDashoffset={circumference * (1 - clamped / 100)}
+                transform="rotate(-90 44 44)"
+            />
+            <text x="44" y="50" textAnchor="middle" className="fill-white text-xl font-bold">{clamped}</text>
+        </svg>
+    );
+};
+
+const SeoPanel: React.FC<SeoPanelProps> = ({ contentType, content, topic, keywords, onKeywordsChange, competitor, onCompetitorChange, site, onContentChange, disabled, showNotification }) => {
+    const { t } = useContext(LanguageContext as React.Context<LanguageContextType>);
+    const [busy, setBusy] = useState<Busy>(null);
+    const [keywordIdeas, setKeywordIdeas] = useState<KeywordSuggestion[]>([]);
+    const [competitorUrl, setCompetitorUrl] = useState('');
+    const [seoAnalysis, setSeoAnalysis] = useState<SeoAnalysis | null>(null);
+    const [linkSuggestions, setLinkSuggestions] = useState<InternalLinkSuggestion[]>([]);
+    const [insertedAnchors, setInsertedAnchors] = useState<Set<string>>(new Set());
+    // Null while loading.
+    const [linkIndex, setLinkIndex] = useState<LinkIndexEntry[] | null>(null);
+    const [showLinkReport, setShowLinkReport] = useState(false);
+    const siteId = site?.id;
+    const siteUrl = site?.url;
+
+    useEffect(() => {
+        setLinkIndex(null);
+        if (!siteId) return;
+        let cancelled = false;
+        fetchLinkIndex(siteId)
+            .then(entries => { if (!cancelled) setLinkIndex(entries); })
+            .catch(error => {
+                console.error("Failed to load the link index", error);
+                if (!cancelled) setLinkIndex([]);
+            });
+        return () => { cancelled = true; };
+    }, [siteId]);
+
+    // A new draft starts without a score or link suggestions.
+    useEffect(() => {
+        setSeoAnalysis(null);
+        setLinkSuggestions([]);
+        setInsertedAnchors(new Set());
+    }, [content?.id]);
+
+    // The first keyword is the focus keyword.
+    const focusKeyword = splitKeywords(keywords)[0];
+    const seoReport = useMemo(
+        () => content?.type === ContentType.Article
+            ? checkArticleSeo({ title: content.title, metaDescription: content.metaDescription, body: content.body, keyword: focusKeyword, siteUrl })
+            : null,
+        [content, focusKeyword, siteUrl]
+    );
+
+    const run = async (kind: Exclude<Busy, null>, action: () => Promise<void>) => {
+        setBusy(kind);
+        try {
+            await action();
+        } catch (error) {
+            console.error(error);
+            showNotification({ message: error instanceof Error ? error.message : t('errorUnknown'), type: 'error' });
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleSuggestKeywords = () => run('keywords', async () => {
+        setKeywordIdeas(await suggestKeywords(topic, siteId));
+    });
+
+    const handleAddKeyword = (keyword: string) => {
+        const current = splitKeywords(keywords);
+        if (current.some(existing => existing.toLowerCase() === keyword.toLowerCase())) return;
+        onKeywordsChange([...current, keyword].join(', '));
+    };
+
+    const handleAnalyzeCompetitor = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!competitorUrl.trim()) return;
+        run('competitor', async () => {
+            onCompetitorChange(await analyzeCompetitorUrl(competitorUrl.trim(), siteId));
+        });
+    };
+
+    const handleAnalyzeSeo = () => run('score', async () => {
+        if (!content) return;
+        setSeoAnalysis(content.type === ContentType.Product
+            ? await analyzeProductSeo(content.title, content.longDescription, content.shortDescription, siteId)
+            : await analyzeArticleSeo(content.title, content.body, siteId));
+    });
+
+    const linkGraph = useMemo(() => getLinkGraph(linkIndex ?? []), [linkIndex]);
+    const orphanCount = linkGraph.filter(page => page.inbound === 0).length;
+    // Pages worth linking to, before the AI ranks them. A published draft isn't offered its own page.
+    const linkCandidates = useMemo(
+        () => content?.type === ContentType.Article && linkIndex
+            ? findLinkCandidates(content.body, linkIndex, { siteUrl, ownUrl: content.wordpressUrl })
+            : [],
+        [content, linkIndex, siteUrl]
+    );
+
+    const handleRebuildIndex = () => run('index', async () => {
+        if (!site) return;
+        setLinkIndex(await buildLinkIndex(site));
+    });
+
+    const handleSuggestLinks = () => run('links', async () => {
+        if (content?.type !== ContentType.Article) return;
+        setLinkSuggestions(await suggestInternalLinks(content.body, linkCandidates.map(candidate => candidate.entry), siteId));
+        setInsertedAnchors(new Set());
+    });
+
+    const handleInsertLink = (suggestion: InternalLinkSuggestion) => {
+        if (content?.type !== ContentType.Article) return;
+        const body = insertMarkdownLink(content.body, suggestion.anchorText, suggestion.url);
+        if (body === null) {
+            showNotification({ message: t('anchorTextNotFound', { anchor: suggestion.anchorText }), type: 'error' });
+            return;
+        }
+        onContentChange({ ...content, body });
+        setInsertedAnchors(prev => new Set(prev).add(suggestion.anchorText));
+    };
+
+    const buttonClassName = "bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold py-1.5 px-3 rounded-md disabled:opacity-50 flex items-center gap-2";
+    const isDisabled = disabled || busy !== null;
+    const draftKeywords = splitKeywords(keywords).map(keyword => keyword.toLowerCase());
+
+    return (
+        <div className="mt-6 border-t border-gray-700 pt-6 space-y-6">
+            <h2 className="text-lg font-semibold">{t('seoPanel')}</h2>
+
+            {contentType === 'article' && (
+                <section className="space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                        <h3 className="text-sm font-medium text-gray-300">{t('keywordIdeas')}</h3>
+                        <button type="button" onClick={handleSuggestKeywords} disabled={isDisabled || !topic.trim()} className={buttonClassName}>
+                            {busy === 'keywords' && <Spinner size="sm" />}{t('suggestKeywords')}
+                        </button>
+                    </div>
+                    {!topic.trim() && <p className="text-xs text-gray-500">{t('keywordIdeasNeedTopic')}</p>}
+                    {keywordIdeas.length > 0 && (
+                        <ul className="text-sm divide-y divide-gray-700">
+                            {keywordIdeas.map(idea => (
+                                <li key={idea.keyword} className="py-1.5 flex items-center justify-between gap-2">
+                                    <span className="truncate">{idea.keyword}</span>
+                                    <span className="flex items-center gap-3 shrink-0 text-xs">
+                                        <span className={ESTIMATE_CLASSES[idea.volume]}>{t('keywordVolume', { estimate: idea.volume })}</span>
+                                        <span className={ESTIMATE_CLASSES[idea.difficulty]}>{t('keywordDifficulty', { estimate: idea.difficulty })}</span>
+                                        <button type="button" onClick={() => handleAddKeyword(idea.keyword)} disabled={draftKeywords.includes(idea.keyword.toLowerCase())} className="text-blue-400 hover:text-blue-300 disabled:text-gray-500">
+                                            {draftKeywords.includes(idea.keyword.toLowerCase()) ? t('keywordAdded') : t('addKeyword')}
+                                        </button>
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </section>
+            )}
+
+            {contentType === 'article' && (
+                <section className="space-y-2">
+                    <h3 className="text-sm font-medium text-gray-300">{t('competitorAnalysis')}</h3>
+                    <form onSubmit={handleAnalyzeCompetitor} className="flex gap-2">
+                        <input type="url" value={competitorUrl} onChange={e => setCompetitorUrl(e.target.value)} placeholder={t('competitorUrlPlaceholder')} className="flex-1 min-w-0 bg-gray-700 text-white text-sm rounded-md px-3 py-1.5" />
+                        <button type="submit" disabled={isDisabled || !competitorUrl.trim()} className={buttonClassName}>
+                            {busy === 'competitor' && <Spinner size="sm" />}{t('analyzeCompetitor')}
+                        </button>
+                    </form>
+                    {competitor && (
+                        <div className="bg-gray-900 rounded-md p-3 text-sm space-y-2">
+                            <p><span className="text-gray-400">{t('competitorTopics')}:</span> {competitor.mainTopics.join(', ')}</p>
+                            <p><span className="text-gray-400">{t('competitorKeywords')}:</span> {competitor.identifiedKeywords.join(', ')}</p>
+                            <ul className="list-disc ps-5 text-gray-300">
+                                {competitor.suggestions.map((suggestion, index) => <li key={index}>{suggestion}</li>)}
+                            </ul>
+                            <div className="flex items-center justify-between gap-2 pt-1">
+                                <p className="text-xs text-green-400">{t('competitorUsedInPrompt')}</p>
+                                <button type="button" onClick={() => onCompetitorChange(null)} className="text-xs text-red-400 hover:text-red-300">{t('removeCompetitor')}</button>
+                            </div>
+                        </div>
+                    )}
+                </section>
+            )}
+
+            {contentType === 'article' && seoReport && (
+                <section className="space-y-2">
+                    <h3 className="text-sm font-medium text-gray-300">{t('seoChecklist')}</h3>
+                    <div className="flex gap-4 items-start">
+                        <ScoreGauge score={seoReport.score} />
+                        <ul className="text-sm space-y-1">
+                            {!focusKeyword && (
+                                <li className="flex gap-2">
+                                    <span className={`${CHECK_STATUS_STYLES.fail.className} font-bold w-3 shrink-0`}>{CHECK_STATUS_STYLES.fail.icon}</span>
+                                    <span className="text-gray-300">{t('seoCheckNoKeyword')}</span>
+                                </li>
+                            )}
+                            {seoReport.checks.filter(item => focusKeyword || !KEYWORD_CHECKS.includes(item.id)).map(item => (
+                                <li key={item.id} className="flex gap-2">
+                                    <span className={`${CHECK_STATUS_STYLES[item.status].className} font-bold w-3 shrink-0`}>{CHECK_STATUS_STYLES[item.status].icon}</span>
+                                    <span className="text-gray-300">{t(item.values.metric === 'arabic' ? 'seoCheckArabicReadability' : CHECK_MESSAGE_KEYS[item.id], item.values)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                </section>
+            )}
+
+            <section className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                    <h3 className="text-sm font-medium text-gray-300">{t('seoScore')}</h3>
+                    <button type="button" onClick={handleAnalyzeSeo} disabled={isDisabled || !content} className={buttonClassName}>
+                        {busy === 'score' && <Spinner size="sm" />}{seoAnalysis ? t('reanalyzeSeo') : t('analyzeSeo')}
+                    </button>
+                </div>
+                {!content && <p className="text-xs text-gray-500">{t('seoNeedsDraft')}</p>}
+                {seoAnalysis && (
+                    <div className="flex gap-4 items-start">
+                        <ScoreGauge score={seoAnalysis.score} />
+                        <ul className="list-disc ps-5 text-sm text-gray-300 space-y-1">
+                            {seoAnalysis.suggestions.map((suggestion, index) => <li key={index}>{suggestion}</li>)}
+                        </ul>
+                    </div>
+                )}
+            </section>
+
+            {contentType === 'article' && (
+                <section className="space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                        <h3 className="text-sm font-medium text-gray-300">{t('internalLinks')}</h3>
+                        <button type="button" onClick={handleSuggestLinks} disabled={isDisabled || linkCandidates.length === 0} className={buttonClassName}>
+                            {busy === 'links' && <Spinner size="sm" />}{t('suggestLinks')}
+                        </button>
+                    </div>
+                    {!site ? (
+                        <p className="text-xs text-gray-500">{t('internalLinksNeedSite')}</p>
+                    ) : linkIndex === null ? (
+                        <p className="text-xs text-gray-500">{t('loadingLinkIndex')}</p>
+                    ) : (
+                        <div className="text-xs text-gray-400 space-y-1">
+                            <div className="flex items-center justify-between gap-2">
+                                <span>
+                                    {linkIndex.length === 0
+                                        ? t('linkIndexEmpty')
+                                        : t('linkIndexSummary', { pages: linkIndex.length, orphans: orphanCount, date: new Date(linkIndex[0].updatedAt ?? Date.now()).toLocaleDateString() })}
+                                </span>
+                                <span className="flex gap-3 shrink-0">
+                                    {linkIndex.length > 0 && (
+                                        <button type="button" onClick={() => setShowLinkReport(prev => !prev)} className="text-blue-400 hover:text-blue-300">
+                                            {showLinkReport ? t('hideLinkReport') : t('showLinkReport')}
+                                        </button>
+                                    )}
+                                    <button type="button" onClick={handleRebuildIndex} disabled={isDisabled} className="text-blue-400 hover:text-blue-300 disabled:text-gray-500 flex items-center gap-1">
+                                        {busy === 'index' && <Spinner size="sm" />}{t('rebuildLinkIndex')}
+                                    </button>
+                                </span>
+                            </div>
+                            {content?.type === ContentType.Article && linkIndex.length > 0 && <p>{t('linkCandidatesFound', { count: linkCandidates.length })}</p>}
+                        </div>
+                    )}
+                    {showLinkReport && linkIndex && linkIndex.length > 0 && <LinkIndexReport pages={linkGraph} />}
+                    {linkSuggestions.length > 0 && (
+                        <ul className="text-sm divide-y divide-gray-700">
+                            {linkSuggestions.map(suggestion => {
+                                const isInserted = insertedAnchors.has(suggestion.anchorText);
+                                return (
+                                    <li key={`${suggestion.anchorText}|${suggestion.url}`} className="py-2 flex items-start justify-between gap-2">
+                                        <div className="min-w-0">
+                                            <p><span className="text-blue-300">"{suggestion.anchorText}"</span> → <a href={suggestion.url} target="_blank" rel="noopener noreferrer" className="hover:underline">{suggestion.linkToTitle}</a></p>
+                                            <p className="text-xs text-gray-400">{suggestion.reasoning}</p>
+                                        </div>
+                                        <button type="button" onClick={() => handleInsertLink(suggestion)} disabled={disabled || isInserted} className="text-blue-400 hover:text-blue-300 disabled:text-gray-500 shrink-0">
+                                            {isInserted ? t('linkInserted') : t('insertSuggestedLink')}
+                                        </button>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </section>
+            )}
+        </div>
+    );
+};
+
+export default SeoPanel;
@@ -1,30 +1,42 @@
 // This file was created to provide a settings management UI.
-import React, { useState, useContext, useEffect } from 'react';
+import React, { useState, useContext } from 'react';
 import { LanguageContext } from '../App';
-import { LanguageContextType, LanguageCode, Notification } from '../types';
-
-const BRAND_VOICE_STORAGE_KEY = 'brand_voice';
+import { AiProviderId, AiSettings, LanguageContextType, LanguageCode, Notification, User, WordPressSite } from '../types';
+import { DEFAULT_AI_SETTINGS, getAiSettings, saveAiSettings } from '../services/ai';
+import TeamSettings from './TeamSettings';
+import PromptTemplateSettings from './PromptTemplateSettings';
+import VoiceProfileSettings from './VoiceProfileSettings';
 
 interface SettingsViewProps {
     onLogout: () => void;
+    currentUser: User;
+    sites: WordPressSite[];
+    onUpdateSite: (siteId: string, updates: Partial<WordPressSite>) => void;
+    onUserChange: (user: User) => void;
+    showAppNotification: (notification: Notification) => void;
 }
 
-const SettingsView: React.FC<SettingsViewProps> = ({ onLogout }) => {
+const SettingsView: React.FC<SettingsViewProps> = ({ onLogout, currentUser, sites, onUpdateSite, onUserChange, showAppNotification }) => {
     const { language, setLanguage, t } = useContext(LanguageContext as React.Context<LanguageContextType>);
-    const [brandVoice, setBrandVoice] = useState('');
+    const [aiSettings, setAiSettings] = useState<AiSettings>(getAiSettings);
     const [notification, setNotification] = useState<Notification | null>(null);
 
-    useEffect(() => {
-        const storedBrandVoice = localStorage.getItem(BRAND_VOICE_STORAGE_KEY) || '';
-        setBrandVoice(storedBrandVoice);
-    }, []);
-
     const handleLanguageChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
         setLanguage(e.target.value as LanguageCode);
     };
 
+    // Switching provider starts from that provider's default models.
+    const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        setAiSettings(DEFAULT_AI_SETTINGS[e.target.value as AiProviderId]);
+    };
+
+    const handleAiSettingChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setAiSettings(prev => ({ ...prev, [name]: value }));
+    };
+
     const handleSaveSettings = () => {
-        localStorage.setItem(BRAND_VOICE_STORAGE_KEY, brandVoice);
+        saveAiSettings(aiSettings);
         
         showNotification({ message: t('settingsSaved'), type: 'success' });
     };
@@ -54,23 +66,55 @@ const SettingsView: React.FC<SettingsViewProps> = ({ onLogout }) => {
                     </div>
                 </div>
 
-                {/* Brand Voice Settings */}
+                <VoiceProfileSettings currentUser={currentUser} sites={sites} onUpdateSite={onUpdateSite} showNotification={showAppNotification} />
+
+                {/* AI Provider Settings */}
                 <div className="bg-gray-800 p-6 rounded-lg">
-                    <h2 className="text-xl font-semibold mb-4">{t('brandVoice')}</h2>
-                     <p className="text-sm text-gray-400 mb-4">{t('brandVoiceDescription')}</p>
-                    <div>
-                        <label htmlFor="brand-voice" className="block text-sm font-medium text-gray-300 mb-2">{t('brandVoiceLabel')}</label>
-                        <textarea
-                            id="brand-voice"
-                            rows={6}
-                            value={brandVoice}
-                            onChange={(e) => setBrandVoice(e.target.value)}
-                            placeholder={t('brandVoicePlaceholder')}
-                            className="w-full bg-gray-700 text-white placeholder-gray-400 rounded-md px-4 py-2 border border-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none"
-                        />
+                    <h2 className="text-xl font-semibold mb-4">{t('aiProvider')}</h2>
+                    <p className="text-sm text-gray-400 mb-4">{t('aiProviderDescription')}</p>
+                    <div className="space-y-4">
+                        <div>
+                            <label htmlFor="ai-provider" className="block text-sm font-medium text-gray-300 mb-2">{t('aiProviderLabel')}</label>
+                            <select id="ai-provider" value={aiSettings.provider} onChange={handleProviderChange} className="w-full bg-gray-700 text-white rounded-md px-4 py-2 border border-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none">
+                                <option value="gemini">Google Gemini</option>
+                                <option value="openai-compatible">{t('aiProviderOpenAiCompatible')}</option>
+                                <option value="fixture">{t('aiProviderFixture')}</option>
+                            </select>
+                        </div>
+                        {aiSettings.provider === 'openai-compatible' && (
+                            <>
+                                <div>
+                                    <label htmlFor="ai-base-url" className="block text-sm font-medium text-gray-300 mb-2">{t('aiBaseUrl')}</label>
+                                    <input id="ai-base-url" type="url" name="baseUrl" value={aiSettings.baseUrl || ''} onChange={handleAiSettingChange} placeholder="http://localhost:11434/v1" className="w-full bg-gray-700 text-white placeholder-gray-400 rounded-md px-4 py-2 border border-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none" />
+                                </div>
+                                <div>
+                                    <label htmlFor="ai-api-key" className="block text-sm font-medium text-gray-300 mb-2">{t('aiApiKey')}</label>
+                                    <input id="ai-api-key" type="password" name="apiKey" value={aiSettings.apiKey || ''} onChange={handleAiSettingChange} placeholder={t('aiApiKeyPlaceholder')} autoComplete="off" className="w-full bg-gray-700 text-white placeholder-gray-400 rounded-md px-4 py-2 border border-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none" />
+                                </div>
+                            </>
+                        )}
+                        {aiSettings.provider !== 'fixture' && (
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <div>
+                                    <label htmlFor="ai-text-model" className="block text-sm font-medium text-gray-300 mb-2">{t('aiTextModel')}</label>
+                                    <input id="ai-text-model" type="text" name="textModel" value={aiSettings.textModel} onChange={handleAiSettingChange} className="w-full bg-gray-700 text-white placeholder-gray-400 rounded-md px-4 py-2 border border-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none" />
+                                </div>
+                                <div>
+                                    <label htmlFor="ai-image-model" className="block text-sm font-medium text-gray-300 mb-2">{t('aiImageModel')}</label>
+                                    <input id="ai-image-model" type="text" name="imageModel" value={aiSettings.imageModel} onChange={handleAiSettingChange} className="w-full bg-gray-700 text-white placeholder-gray-400 rounded-md px-4 py-2 border border-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none" />
+                                </div>
+                            </div>
+                        )}
+                        {aiSettings.provider === 'fixture' && (
+                            <p className="text-sm text-yellow-400">{t('aiProviderFixtureInfo')}</p>
+                        )}
                     </div>
                 </div>
 
+                <PromptTemplateSettings currentUser={currentUser} sites={sites} showNotification={showAppNotification} />
+
+                <TeamSettings currentUser={currentUser} onUserChange={onUserChange} showNotification={showAppNotification} />
+
                 <div className="flex justify-between">
                     <button onClick={onLogout} className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-6 rounded-md transition-colors">
                         {t('logoutButton')}
@@ -1,7 +1,7 @@
 import React, { useContext } from 'react';
-import { AppTitle, DashboardIcon, PlusCircleIcon, LibraryIcon, CalendarIcon, SettingsIcon, LogoutIcon } from '../constants';
+import { AppTitle, USER_ROLE_LABELS, DashboardIcon, PlusCircleIcon, LibraryIcon, CalendarIcon, UsageIcon, SettingsIcon, LogoutIcon } from '../constants';
 import { LanguageContext } from '../App';
-import { LanguageContextType, User, UserRole } from '../types';
+import { LanguageContextType, User } from '../types';
 
 interface SidebarProps {
     currentView: string;
@@ -17,14 +17,10 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, onLogout
         { id: 'new-content', label: t('createNewContent'), icon: <PlusCircleIcon /> },
         { id: 'library', label: t('libraryTitle'), icon: <LibraryIcon /> },
         { id: 'calendar', label: t('calendarTitle'), icon: <CalendarIcon /> },
+        { id: 'usage', label: t('usageTitle'), icon: <UsageIcon /> },
         { id: 'settings', label: t('settingsTitle'), icon: <SettingsIcon /> },
     ];
 
-    const roleDisplay: { [key in UserRole]: string } = {
-        [UserRole.Writer]: t('roleWriter'),
-        [UserRole.Editor]: t('roleEditor'),
-    };
-
     return (
         <aside className="w-64 bg-gray-800 text-gray-300 flex flex-col justify-between">
             <div>
@@ -52,7 +48,7 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, onLogout
             <div className="px-4 py-4 border-t border-gray-700">
                 <div className="mb-4">
                     <p className="text-sm font-medium text-white truncate">{currentUser.email}</p>
-                    <p className="text-xs text-gray-400">{roleDisplay[currentUser.role]}</p>
+                    <p className="text-xs text-gray-400">{t(USER_ROLE_LABELS[currentUser.role])}</p>
                 </div>
                  <button
                     onClick={onLogout}
@@ -1,9 +1,10 @@
 
 import React, { useState, useContext, useEffect } from 'react';
-import { WordPressSite, LanguageContextType, Notification } from '../types';
+import { WordPressSite, LanguageContextType, Notification, ContentFormat } from '../types';
 import { GlobeIcon, TrashIcon, EditIcon, SyncIcon } from '../constants';
 import { LanguageContext } from '../App';
 import { testSiteConnection } from '../services/wordpressService';
+import { rotateSiteCredentials } from '../services/backendService';
 import Spinner from './common/Spinner';
 
 
@@ -19,11 +20,15 @@ const SiteCard: React.FC<SiteCardProps> = ({ site, onRemove, onUpdate, showNotif
   const [isEditing, setIsEditing] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
   const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  // The saved password is never shown; a new one can only be entered to replace it.
+  const [isRotatingPassword, setIsRotatingPassword] = useState(false);
+  const [newAppPassword, setNewAppPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
   const [formData, setFormData] = useState({
       name: site.name,
       url: site.url,
       username: site.username || '',
-      appPassword: site.appPassword || '',
+      contentFormat: site.contentFormat || 'gutenberg' as ContentFormat,
   });
 
   useEffect(() => {
@@ -32,7 +37,7 @@ const SiteCard: React.FC<SiteCardProps> = ({ site, onRemove, onUpdate, showNotif
         name: site.name,
         url: site.url,
         username: site.username || '',
-        appPassword: site.appPassword || '',
+        contentFormat: site.contentFormat || 'gutenberg',
     });
   }, [site]);
 
@@ -48,29 +53,57 @@ const SiteCard: React.FC<SiteCardProps> = ({ site, onRemove, onUpdate, showNotif
     setIsTesting(false);
   };
   
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
       const { name, value } = e.target;
       setFormData(prev => ({ ...prev, [name]: value }));
   };
   
-  const handleUpdate = (e: React.FormEvent) => {
+  const resetPasswordRotation = () => {
+    setIsRotatingPassword(false);
+    setNewAppPassword('');
+  };
+
+  const handleUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.name.trim() || (site.isVirtual && !formData.url.trim())) {
         showNotification({ message: t('errorAllFieldsRequired'), type: 'error' });
         return;
     }
-    onUpdate(site.id, formData);
+    // The server only accepts a new URL or username for a connected site together with a new password.
+    const credentialsChanged = !site.isVirtual && (formData.url !== site.url || formData.username !== (site.username || ''));
+    if (credentialsChanged && !newAppPassword.trim()) {
+        setIsRotatingPassword(true);
+        showNotification({ message: t('credentialsChangeNeedsPassword'), type: 'error' });
+        return;
+    }
+    let updates: Partial<WordPressSite> = { ...formData };
+    if (newAppPassword.trim()) {
+        setIsSaving(true);
+        try {
+            const rotated = await rotateSiteCredentials(site.id, formData.username, newAppPassword.trim(), credentialsChanged ? formData.url : undefined);
+            updates = { ...updates, url: rotated.url, username: rotated.username };
+            showNotification({ message: t('appPasswordRotated'), type: 'success' });
+        } catch (error) {
+            showNotification({ message: t('appPasswordRotateFailed', { error: error instanceof Error ? error.message : String(error) }), type: 'error' });
+            return;
+        } finally {
+            setIsSaving(false);
+        }
+    }
+    onUpdate(site.id, { ...updates, hasAppPassword: site.hasAppPassword || !!newAppPassword.trim() });
+    resetPasswordRotation();
     setIsEditing(false);
   };
 
   const handleCancelEdit = () => {
     setIsEditing(false);
+    resetPasswordRotation();
     // Reset form to original site data
     setFormData({
         name: site.name,
         url: site.url,
         username: site.username || '',
-        appPassword: site.appPassword || '',
+        contentFormat: site.contentFormat || 'gutenberg',
     });
   };
   
@@ -156,8 +189,7 @@ const SiteCard: React.FC<SiteCardProps> = ({ site, onRemove, onUpdate, showNotif
                 name="url" 
                 value={formData.url} 
                 onChange={handleInputChange}
-                disabled={!site.isVirtual}
-                className="w-full bg-gray-700 text-white rounded-md px-3 py-1.5 border border-gray-600 focus:ring-1 focus:ring-blue-500 focus:outline-none disabled:bg-gray-800 disabled:cursor-not-allowed"
+                className="w-full bg-gray-700 text-white rounded-md px-3 py-1.5 border border-gray-600 focus:ring-1 focus:ring-blue-500 focus:outline-none"
             />
         </div>
         {!site.isVirtual && (
@@ -174,14 +206,38 @@ const SiteCard: React.FC<SiteCardProps> = ({ site, onRemove, onUpdate, showNotif
                 </div>
                  <div>
                     <label className="text-xs font-medium text-gray-400 block mb-1">{t('appPassword')}</label>
-                    <input 
-                        type="password" 
-                        name="appPassword" 
-                        value={formData.appPassword} 
+                    {isRotatingPassword ? (
+                        <input 
+                            type="password" 
+                            name="newAppPassword" 
+                            value={newAppPassword} 
+                            onChange={(e) => setNewAppPassword(e.target.value)}
+                            placeholder={t('newAppPasswordPlaceholder')}
+                            autoComplete="new-password"
+                            className="w-full bg-gray-700 text-white rounded-md px-3 py-1.5 border border-gray-600 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+                        />
+                    ) : (
+                        <div className="flex items-center justify-between text-sm">
+                            <span className={site.hasAppPassword ? 'text-green-400' : 'text-yellow-400'}>
+                                {site.hasAppPassword ? t('appPasswordSet') : t('appPasswordNotSet')}
+                            </span>
+                            <button type="button" onClick={() => setIsRotatingPassword(true)} className="text-xs text-blue-400 hover:text-blue-300">
+                                {site.hasAppPassword ? t('rotateAppPassword') : t('setAppPassword')}
+                            </button>
+                        </div>
+                    )}
+                </div>
+                <div>
+                    <label className="text-xs font-medium text-gray-400 block mb-1">{t('contentFormat')}</label>
+                    <select
+                        name="contentFormat"
+                        value={formData.contentFormat}
                         onChange={handleInputChange}
-                        placeholder={t('appPasswordPlaceholder')}
                         className="w-full bg-gray-700 text-white rounded-md px-3 py-1.5 border border-gray-600 focus:ring-1 focus:ring-blue-500 focus:outline-none"
-                    />
+                    >
+                        <option value="gutenberg">{t('contentFormatGutenberg')}</option>
+                        <option value="classic">{t('contentFormatClassic')}</option>
+                    </select>
                 </div>
             </>
         )}
@@ -195,9 +251,10 @@ const SiteCard: React.FC<SiteCardProps> = ({ site, onRemove, onUpdate, showNotif
             </button>
             <button 
                 type="submit"
-                className="bg-blue-600 hover:bg-blue-700 text-white text-xs font-bold py-2 px-3 rounded-md transition-colors"
+                disabled={isSaving}
+                className="bg-blue-600 hover:bg-blue-700 text-white text-xs font-bold py-2 px-3 rounded-md transition-colors disabled:opacity-50"
             >
-                {t('saveChanges')}
+                {isSaving ? <Spinner size="sm" /> : t('saveChanges')}
             </button>
         </div>
     </form>
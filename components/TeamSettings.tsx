@@ -0,0 +1,272 @@
+// Team section of the settings page: members, roles, invitations and creating a new team.
+import React, { useState, useContext, useEffect, useCallback } from 'react';
+import { LanguageContext } from '../App';
+import { LanguageContextType, Notification, Team, TeamInvitation, User, UserRole } from '../types';
+import { USER_ROLE_LABELS } from '../constants';
+import {
+    getTeam, getTeamMembers, getInvitations, inviteMember, revokeInvitation,
+    updateMemberRole, removeMember, createTeam, getInvitationLink,
+} from '../services/backendService';
+import Spinner from './common/Spinner';
+
+interface TeamSettingsProps {
+    currentUser: User;
+    onUserChange: (user: User) => void;
+    showNotification: (notification: Notification) => void;
+}
+
+const inputClassName = "w-full bg-gray-700 text-white placeholder-gray-400 rounded-md px-4 py-2 border border-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+const TeamSettings: React.FC<TeamSettingsProps> = ({ currentUser, onUserChange, showNotification }) => {
+    const { t } = useContext(LanguageContext as React.Context<LanguageContextType>);
+    const isEditor = currentUser.role === UserRole.Editor;
+
+    const [team, setTeam] = useState<Team | null>(null);
+    const [members, setMembers] = useState<User[]>([]);
+    const [invitations, setInvitations] = useState<TeamInvitation[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const [inviteEmail, setInviteEmail] = useState('');
+    const [inviteRole, setInviteRole] = useState<UserRole>(UserRole.Writer);
+    const [lastInvitation, setLastInvitation] = useState<TeamInvitation | null>(null);
+    const [newTeamName, setNewTeamName] = useState('');
+    const [memberToRemove, setMemberToRemove] = useState<User | null>(null);
+
+    const loadTeam = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const [loadedTeam, loadedMembers, loadedInvitations] = await Promise.all([
+                getTeam(currentUser.teamId),
+                getTeamMembers(currentUser.teamId),
+                isEditor ? getInvitations(currentUser.teamId) : Promise.resolve([]),
+            ]);
+            setTeam(loadedTeam);
+            setMembers(loadedMembers);
+            setInvitations(loadedInvitations);
+        } catch (error) {
+            console.error("Failed to load team", error);
+            showNotification({ message: t('teamLoadFailed'), type: 'error' });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [currentUser.teamId, isEditor]);
+
+    useEffect(() => {
+        loadTeam();
+    }, [loadTeam]);
+
+    // Runs a team action, reporting the server's error message if it fails.
+    const runAction = async (action: () => Promise<void>) => {
+        setIsBusy(true);
+        try {
+            await action();
+        } catch (error) {
+            showNotification({ message: error instanceof Error ? error.message : t('errorUnknown'), type: 'error' });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleRoleChange = (member: User, role: UserRole) => runAction(async () => {
+        const updated = await updateMemberRole(currentUser.teamId, member.id, role);
+        setMembers(prev => prev.map(m => m.id === updated.id ? updated : m));
+        if (updated.id === currentUser.id) {
+            onUserChange(updated);
+        }
+        showNotification({ message: t('roleUpdated'), type: 'success' });
+    });
+
+    const handleRemoveMember = (member: User) => runAction(async () => {
+        await removeMember(currentUser.teamId, member.id);
+        setMembers(prev => prev.filter(m => m.id !== member.id));
+        setMemberToRemove(null);
+        showNotification({ message: t('memberRemoved'), type: 'success' });
+    });
+
+    const handleInvite = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!inviteEmail.trim()) return;
+        runAction(async () => {
+            const invitation = await inviteMember(currentUser.teamId, inviteEmail.trim(), inviteRole);
+            setLastInvitation(invitation);
+            setInvitations(prev => [invitation, ...prev.filter(i => i.email !== invitation.email)]);
+            setInviteEmail('');
+        });
+    };
+
+    const handleRevoke = (invitation: TeamInvitation) => runAction(async () => {
+        await revokeInvitation(currentUser.teamId, invitation.id);
+        setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+        if (lastInvitation?.id === invitation.id) setLastInvitation(null);
+        showNotification({ message: t('invitationRevoked'), type: 'success' });
+    });
+
+    const handleCopyLink = async (link: string) => {
+        try {
+            await navigator.clipboard.writeText(link);
+            showNotification({ message: t('linkCopied'), type: 'success' });
+        } catch (error) {
+            console.error("Failed to copy invitation link", error);
+        }
+    };
+
+    const handleCreateTeam = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = newTeamName.trim();
+        if (!name) return;
+        runAction(async () => {
+            const updatedUser = await createTeam(name);
+            setNewTeamName('');
+            showNotification({ message: t('teamCreated', { name }), type: 'success' });
+            onUserChange(updatedUser);
+        });
+    };
+
+    const roleLabel = (role: UserRole) => t(USER_ROLE_LABELS[role]);
+
+    if (isLoading) {
+        return (
+            <div className="bg-gray-800 p-6 rounded-lg flex justify-center">
+                <Spinner />
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-gray-800 p-6 rounded-lg space-y-6">
+            <div>
+                <h2 className="text-xl font-semibold">{t('team')}</h2>
+                {team && <p className="text-gray-400 mt-1">{team.name}</p>}
+            </div>
+
+            {/* Members */}
+            <div>
+                <h3 className="text-sm font-medium text-gray-300 mb-2">{t('teamMembers')}</h3>
+                <ul className="divide-y divide-gray-700">
+                    {members.map(member => (
+                        <li key={member.id} className="py-3 flex items-center justify-between gap-4">
+                            <div className="min-w-0">
+                                <p className="font-medium truncate">
+                                    {member.name}
+                                    {member.id === currentUser.id && <span className="text-gray-400 text-sm"> ({t('you')})</span>}
+                                </p>
+                                <p className="text-sm text-gray-400 truncate">{member.email}</p>
+                            </div>
+                            <div className="flex items-center gap-2 shrink-0">
+                                {isEditor ? (
+                                    <select
+                                        value={member.role}
+                                        onChange={(e) => handleRoleChange(member, e.target.value as UserRole)}
+                                        disabled={isBusy}
+                                        className="bg-gray-700 text-white text-sm rounded-md px-2 py-1 border border-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                    >
+                                        <option value={UserRole.Writer}>{t('roleWriter')}</option>
+                                        <option value={UserRole.Editor}>{t('roleEditor')}</option>
+                                    </select>
+                                ) : (
+                                    <span className="text-sm text-gray-300">{roleLabel(member.role)}</span>
+                                )}
+                                {isEditor && member.id !== currentUser.id && (
+                                    memberToRemove?.id === member.id ? (
+                                        <>
+                                            <button onClick={() => handleRemoveMember(member)} disabled={isBusy} className="bg-red-600 hover:bg-red-700 text-white text-xs font-bold py-1 px-2 rounded-md disabled:opacity-50">
+                                                {t('confirmDelete')}
+                                            </button>
+                                            <button onClick={() => setMemberToRemove(null)} className="bg-gray-600 hover:bg-gray-500 text-white text-xs font-bold py-1 px-2 rounded-md">
+                                                {t('cancel')}
+                                            </button>
+                                        </>
+                                    ) : (
+                                        <button onClick={() => setMemberToRemove(member)} disabled={isBusy} className="text-sm text-red-400 hover:text-red-300 disabled:opacity-50">
+                                            {t('removeMember')}
+                                        </button>
+                                    )
+                                )}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+
+            {/* Invitations (editors only) */}
+            {isEditor && (
+                <div>
+                    <h3 className="text-sm font-medium text-gray-300 mb-2">{t('inviteMember')}</h3>
+                    <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2">
+                        <input
+                            type="email"
+                            value={inviteEmail}
+                            onChange={(e) => setInviteEmail(e.target.value)}
+                            placeholder={t('inviteEmailPlaceholder')}
+                            required
+                            className={inputClassName}
+                        />
+                        <select
+                            value={inviteRole}
+                            onChange={(e) => setInviteRole(e.target.value as UserRole)}
+                            className="bg-gray-700 text-white rounded-md px-3 py-2 border border-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                        >
+                            <option value={UserRole.Writer}>{t('roleWriter')}</option>
+                            <option value={UserRole.Editor}>{t('roleEditor')}</option>
+                        </select>
+                        <button type="submit" disabled={isBusy} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-md transition-colors whitespace-nowrap disabled:opacity-50">
+                            {t('sendInvitation')}
+                        </button>
+                    </form>
+
+                    {lastInvitation?.token && (
+                        <div className="mt-3 p-3 bg-gray-900 rounded-md">
+                            <p className="text-sm text-gray-300 mb-2">{t('invitationCreated', { email: lastInvitation.email })}</p>
+                            <div className="flex gap-2">
+                                <input readOnly value={getInvitationLink(lastInvitation.token)} onFocus={(e) => e.target.select()} className={`${inputClassName} text-sm`} />
+                                <button type="button" onClick={() => handleCopyLink(getInvitationLink(lastInvitation.token!))} className="bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold py-2 px-3 rounded-md whitespace-nowrap">
+                                    {t('copyLink')}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    <h3 className="text-sm font-medium text-gray-300 mt-6 mb-2">{t('pendingInvitations')}</h3>
+                    {invitations.length === 0 ? (
+                        <p className="text-sm text-gray-400">{t('noPendingInvitations')}</p>
+                    ) : (
+                        <ul className="divide-y divide-gray-700">
+                            {invitations.map(invitation => (
+                                <li key={invitation.id} className="py-2 flex items-center justify-between gap-4">
+                                    <div className="min-w-0">
+                                        <p className="truncate">{invitation.email} <span className="text-sm text-gray-400">· {roleLabel(invitation.role)}</span></p>
+                                        <p className="text-xs text-gray-500">{t('expiresOn', { date: new Date(invitation.expiresAt).toLocaleDateString() })}</p>
+                                    </div>
+                                    <button onClick={() => handleRevoke(invitation)} disabled={isBusy} className="text-sm text-red-400 hover:text-red-300 disabled:opacity-50">
+                                        {t('revokeInvitation')}
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            {/* New team */}
+            <div>
+                <h3 className="text-sm font-medium text-gray-300 mb-1">{t('createTeam')}</h3>
+                <p className="text-sm text-gray-400 mb-2">{t('createTeamDescription')}</p>
+                <form onSubmit={handleCreateTeam} className="flex gap-2">
+                    <input
+                        type="text"
+                        value={newTeamName}
+                        onChange={(e) => setNewTeamName(e.target.value)}
+                        placeholder={t('teamNamePlaceholder')}
+                        className={inputClassName}
+                    />
+                    <button type="submit" disabled={isBusy || !newTeamName.trim()} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md transition-colors whitespace-nowrap disabled:opacity-50">
+                        {t('createTeamButton')}
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default TeamSettings;
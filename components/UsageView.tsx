@@ -0,0 +1,271 @@
+// AI usage dashboard: estimated cost and tokens per user, site and month, and the monthly budgets
+// that stop generation once they are used up (editable by editors).
+import React, { useState, useContext, useEffect, useCallback } from 'react';
+import { LanguageContext } from '../App';
+import { AiBudget, AiUsageSummary, AiUsageTotals, BudgetScope, LanguageContextType, Notification, User, UserRole, WordPressSite } from '../types';
+import { getAiUsage, setAiBudget } from '../services/backendService';
+import Spinner from './common/Spinner';
+
+interface UsageViewProps {
+    currentUser: User;
+    teamMembers: User[];
+    sites: WordPressSite[];
+    showNotification: (notification: Notification) => void;
+}
+
+interface UsageRow {
+    key: string;
+    name: string;
+    totals: AiUsageTotals;
+    // Where a budget can be set for this row; usage not tied to a site has none.
+    budget?: { scope: BudgetScope; scopeId: string };
+}
+
+const EMPTY_TOTALS: AiUsageTotals = { requests: 0, failedRequests: 0, promptTokens: 0, outputTokens: 0, images: 0, costUsd: 0 };
+
+const formatCost = (usd: number) => `$${usd.toFixed(2)}`;
+
+const toTotals = ({ requests, failedRequests, promptTokens, outputTokens, images, costUsd }: AiUsageTotals): AiUsageTotals =>
+    ({ requests, failedRequests, promptTokens, outputTokens, images, costUsd });
+
+interface BudgetCellProps {
+    budget?: AiBudget;
+    editable: boolean;
+    onSave: (monthlyLimitUsd: number | null) => void;
+}
+
+/** Shows a budget and how much of it is used; editors change it in place, and clearing it removes it. */
+const BudgetCell: React.FC<BudgetCellProps> = ({ budget, editable, onSave }) => {
+    const { t } = useContext(LanguageContext as React.Context<LanguageContextType>);
+    const [draft, setDraft] = useState(budget ? String(budget.monthlyLimitUsd) : '');
+
+    useEffect(() => {
+        setDraft(budget ? String(budget.monthlyLimitUsd) : '');
+    }, [budget?.monthlyLimitUsd]);
+
+    const commit = () => {
+        const trimmed = draft.trim();
+        const limit = trimmed === '' ? null : Number(trimmed);
+        if (limit !== null && (!Number.isFinite(limit) || limit < 0)) {
+            setDraft(budget ? String(budget.monthlyLimitUsd) : '');
+            return;
+        }
+        if (limit !== (budget?.monthlyLimitUsd ?? null)) onSave(limit);
+    };
+
+    const usedPercent = budget && budget.monthlyLimitUsd > 0 ? Math.min(100, (budget.spentUsd / budget.monthlyLimitUsd) * 100) : budget ? 100 : 0;
+    const meter = budget && (
+        <div className="h-1.5 w-24 bg-gray-700 rounded-full mt-1 overflow-hidden">
+            <div className={`h-full ${usedPercent >= 100 ? 'bg-red-500' : usedPercent >= 80 ? 'bg-yellow-500' : 'bg-green-500'}`} style={{ width: `${usedPercent}%` }} />
+        </div>
+    );
+
+    if (!editable) {
+        return <div>{budget ? formatCost(budget.monthlyLimitUsd) : <span className="text-gray-500">{t('noBudget')}</span>}{meter}</div>;
+    }
+    return (
+        <div>
+            <div className="flex items-center gap-1">
+                <span className="text-gray-400">$</span>
+                <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onBlur={commit}
+                    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                    placeholder={t('noBudget')}
+                    aria-label={t('monthlyBudget')}
+                    className="w-24 bg-gray-700 text-white rounded px-2 py-1 border border-gray-600 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+                />
+            </div>
+            {meter}
+        </div>
+    );
+};
+
+const UsageView: React.FC<UsageViewProps> = ({ currentUser, teamMembers, sites, showNotification }) => {
+    const { t, language } = useContext(LanguageContext as React.Context<LanguageContextType>);
+    const isEditor = currentUser.role === UserRole.Editor;
+    const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+    const [summary, setSummary] = useState<AiUsageSummary | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const loadUsage = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setSummary(await getAiUsage(month));
+        } catch (error) {
+            console.error("Failed to load AI usage", error);
+            showNotification({ message: t('usageLoadFailed'), type: 'error' });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [month]);
+
+    useEffect(() => {
+        loadUsage();
+    }, [loadUsage]);
+
+    const handleBudgetSave = async (scope: BudgetScope, scopeId: string, monthlyLimitUsd: number | null) => {
+        try {
+            const budgets = await setAiBudget(scope, scopeId, monthlyLimitUsd);
+            setSummary(prev => prev && { ...prev, budgets });
+            showNotification({ message: t('budgetSaved'), type: 'success' });
+        } catch (error) {
+            showNotification({ message: error instanceof Error ? error.message : t('errorUnknown'), type: 'error' });
+        }
+    };
+
+    const findBudget = (scope: BudgetScope, scopeId: string) =>
+        summary?.budgets.find(budget => budget.scope === scope && budget.scopeId === scopeId);
+
+    const formatMonth = (value: string) =>
+        new Date(`${value}-01T00:00:00Z`).toLocaleDateString(language, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+    if (isLoading && !summary) {
+        return <div className="flex justify-center items-center h-full"><Spinner size="lg" /></div>;
+    }
+
+    // Every member and site is listed, so budgets can be set before anything has been spent.
+    const userRows: UsageRow[] = summary ? [
+        ...teamMembers.map(member => {
+            const usage = summary.byUser.find(row => row.userId === member.id);
+            return { key: member.id, name: member.name || member.email, totals: usage ? toTotals(usage) : EMPTY_TOTALS, budget: { scope: 'user' as const, scopeId: member.id } };
+        }),
+        ...summary.byUser
+            .filter(row => !row.userId || !teamMembers.some(member => member.id === row.userId))
+            .map(row => ({ key: row.userId || 'former', name: row.name || t('formerMember'), totals: toTotals(row) })),
+    ] : [];
+
+    const siteRows: UsageRow[] = summary ? [
+        ...sites.map(site => {
+            const usage = summary.bySite.find(row => row.siteId === site.id);
+            return { key: site.id, name: site.name, totals: usage ? toTotals(usage) : EMPTY_TOTALS, budget: { scope: 'site' as const, scopeId: site.id } };
+        }),
+        ...summary.bySite
+            .filter(row => !row.siteId || !sites.some(site => site.id === row.siteId))
+            .map(row => ({ key: row.siteId || 'none', name: row.siteId ? row.name || t('deletedSite') : t('noSite'), totals: toTotals(row) })),
+    ] : [];
+
+    const renderTable = (title: string, rows: UsageRow[]) => (
+        <section className="bg-gray-800 rounded-lg p-6">
+            <h2 className="text-xl font-semibold mb-4">{title}</h2>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-start">
+                    <thead className="text-gray-400 border-b border-gray-700">
+                        <tr>
+                            <th className="py-2 pe-4 text-start font-medium">{t('name')}</th>
+                            <th className="py-2 pe-4 text-end font-medium">{t('requests')}</th>
+                            <th className="py-2 pe-4 text-end font-medium">{t('promptTokens')}</th>
+                            <th className="py-2 pe-4 text-end font-medium">{t('outputTokens')}</th>
+                            <th className="py-2 pe-4 text-end font-medium">{t('images')}</th>
+                            <th className="py-2 pe-4 text-end font-medium">{t('estimatedCost')}</th>
+                            <th className="py-2 text-start font-medium">{t('monthlyBudget')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(row => (
+                            <tr key={row.key} className="border-b border-gray-700/50">
+                                <td className="py-2 pe-4">{row.name}</td>
+                                <td className="py-2 pe-4 text-end">{row.totals.requests.toLocaleString(language)}</td>
+                                <td className="py-2 pe-4 text-end">{row.totals.promptTokens.toLocaleString(language)}</td>
+                                <td className="py-2 pe-4 text-end">{row.totals.outputTokens.toLocaleString(language)}</td>
+                                <td className="py-2 pe-4 text-end">{row.totals.images.toLocaleString(language)}</td>
+                                <td className="py-2 pe-4 text-end">{formatCost(row.totals.costUsd)}</td>
+                                <td className="py-2">
+                                    {row.budget ? (
+                                        <BudgetCell
+                                            budget={findBudget(row.budget.scope, row.budget.scopeId)}
+                                            editable={isEditor}
+                                            onSave={limit => handleBudgetSave(row.budget!.scope, row.budget!.scopeId, limit)}
+                                        />
+                                    ) : <span className="text-gray-500">—</span>}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </section>
+    );
+
+    const maxMonthlyCost = Math.max(0, ...(summary?.byMonth.map(row => row.costUsd) ?? []));
+
+    return (
+        <div className="p-8 h-full text-white space-y-6">
+            <header className="flex justify-between items-center">
+                <h1 className="text-3xl font-bold">{t('usageTitle')}</h1>
+                <div className="flex items-center gap-3">
+                    {isLoading && <Spinner size="sm" />}
+                    <input
+                        type="month"
+                        value={month}
+                        onChange={(e) => e.target.value && setMonth(e.target.value)}
+                        aria-label={t('month')}
+                        className="bg-gray-700 text-white rounded-md px-3 py-2 border border-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    />
+                </div>
+            </header>
+
+            {summary && (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {[
+                            { label: t('estimatedCost'), value: formatCost(summary.totals.costUsd) },
+                            { label: t('requests'), value: summary.totals.requests.toLocaleString(language), note: summary.totals.failedRequests ? t('failedRequests', { count: summary.totals.failedRequests }) : undefined },
+                            { label: t('tokens'), value: (summary.totals.promptTokens + summary.totals.outputTokens).toLocaleString(language) },
+                            { label: t('images'), value: summary.totals.images.toLocaleString(language) },
+                        ].map(card => (
+                            <div key={card.label} className="bg-gray-800 rounded-lg p-4">
+                                <p className="text-sm text-gray-400">{card.label}</p>
+                                <p className="text-2xl font-bold mt-1">{card.value}</p>
+                                {card.note && <p className="text-xs text-red-400 mt-1">{card.note}</p>}
+                            </div>
+                        ))}
+                    </div>
+
+                    <section className="bg-gray-800 rounded-lg p-6">
+                        <div className="flex flex-wrap justify-between items-center gap-4">
+                            <div>
+                                <h2 className="text-xl font-semibold">{t('teamBudget')}</h2>
+                                <p className="text-sm text-gray-400 mt-1">{t('budgetHint')}</p>
+                            </div>
+                            <BudgetCell
+                                budget={findBudget('team', currentUser.teamId)}
+                                editable={isEditor}
+                                onSave={limit => handleBudgetSave('team', currentUser.teamId, limit)}
+                            />
+                        </div>
+                    </section>
+
+                    {renderTable(t('usageByUser'), userRows)}
+                    {renderTable(t('usageBySite'), siteRows)}
+
+                    <section className="bg-gray-800 rounded-lg p-6">
+                        <h2 className="text-xl font-semibold mb-4">{t('usageByMonth')}</h2>
+                        {summary.byMonth.length === 0 ? (
+                            <p className="text-sm text-gray-400">{t('noUsage')}</p>
+                        ) : (
+                            <div className="space-y-2">
+                                {summary.byMonth.map(row => (
+                                    <div key={row.month} className="flex items-center gap-3 text-sm">
+                                        <span className="w-24 text-gray-400">{formatMonth(row.month)}</span>
+                                        <div className="flex-1 h-3 bg-gray-700 rounded-full overflow-hidden">
+                                            <div className="h-full bg-blue-500" style={{ width: `${maxMonthlyCost > 0 ? (row.costUsd / maxMonthlyCost) * 100 : 0}%` }} />
+                                        </div>
+                                        <span className="w-20 text-end">{formatCost(row.costUsd)}</span>
+                                        <span className="w-32 text-end text-gray-400">{t('tokensCount', { count: (row.promptTokens + row.outputTokens).toLocaleString(language) })}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </section>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default UsageView;
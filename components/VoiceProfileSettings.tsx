@@ -0,0 +1,282 @@
+// Voice profiles section of the settings page: named brand voices that editors write and assign
+// to sites. Generation for a site follows its profile; sites without one get no brand voice.
+import React, { useState, useContext, useEffect, useCallback } from 'react';
+import { LanguageContext } from '../App';
+import { LanguageContextType, Notification, User, UserRole, VoiceProfile, WordPressSite } from '../types';
+import { createVoiceProfile, deleteVoiceProfile, fetchVoiceProfiles, patchVoiceProfile } from '../services/backendService';
+import { LEGACY_BRAND_VOICE_STORAGE_KEY, clearVoiceProfileCache, createEmptyVoiceProfile } from '../services/voiceProfiles';
+import Spinner from './common/Spinner';
+
+interface VoiceProfileSettingsProps {
+    currentUser: User;
+    sites: WordPressSite[];
+    onUpdateSite: (siteId: string, updates: Partial<WordPressSite>) => void;
+    showNotification: (notification: Notification) => void;
+}
+
+const inputClassName = "w-full bg-gray-700 text-white placeholder-gray-400 rounded-md px-4 py-2 border border-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+// Lists are edited one item per line; examples are separated by a blank line since they span lines.
+const toLines = (items: string[]) => items.join('\n');
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+const toParagraphs = (items: string[]) => items.join('\n\n');
+const fromParagraphs = (text: string) => text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+
+// The profile being edited, with its lists still as text.
+interface ProfileDraft {
+    id: string;
+    isNew: boolean;
+    name: string;
+    description: string;
+    dos: string;
+    donts: string;
+    examples: string;
+    bannedWords: string;
+}
+
+const toDraft = (profile: VoiceProfile, isNew: boolean): ProfileDraft => ({
+    id: profile.id,
+    isNew,
+    name: profile.name,
+    description: profile.description,
+    dos: toLines(profile.dos),
+    donts: toLines(profile.donts),
+    examples: toParagraphs(profile.examples),
+    bannedWords: toLines(profile.bannedWords),
+});
+
+const fromDraft = (draft: ProfileDraft): VoiceProfile => ({
+    id: draft.id,
+    name: draft.name.trim(),
+    description: draft.description.trim(),
+    dos: fromLines(draft.dos),
+    donts: fromLines(draft.donts),
+    examples: fromParagraphs(draft.examples),
+    bannedWords: fromLines(draft.bannedWords),
+});
+
+const VoiceProfileSettings: React.FC<VoiceProfileSettingsProps> = ({ currentUser, sites, onUpdateSite, showNotification }) => {
+    const { t } = useContext(LanguageContext as React.Context<LanguageContextType>);
+    const isEditor = currentUser.role === UserRole.Editor;
+
+    const [profiles, setProfiles] = useState<VoiceProfile[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isBusy, setIsBusy] = useState(false);
+    const [draft, setDraft] = useState<ProfileDraft | null>(null);
+    const [profileToDelete, setProfileToDelete] = useState<VoiceProfile | null>(null);
+    const [legacyBrandVoice, setLegacyBrandVoice] = useState(() => localStorage.getItem(LEGACY_BRAND_VOICE_STORAGE_KEY) || '');
+
+    const loadProfiles = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setProfiles(await fetchVoiceProfiles());
+        } catch (error) {
+            console.error("Failed to load voice profiles", error);
+            showNotification({ message: t('voiceProfilesLoadFailed'), type: 'error' });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [currentUser.teamId]);
+
+    useEffect(() => {
+        loadProfiles();
+    }, [loadProfiles]);
+
+    const runAction = async (action: () => Promise<void>) => {
+        setIsBusy(true);
+        try {
+            await action();
+            clearVoiceProfileCache();
+        } catch (error) {
+            showNotification({ message: error instanceof Error ? error.message : t('errorUnknown'), type: 'error' });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft || !draft.name.trim()) return;
+        const profile = fromDraft(draft);
+        runAction(async () => {
+            const saved = draft.isNew ? await createVoiceProfile(profile) : await patchVoiceProfile(profile.id, profile);
+            setProfiles(prev => draft.isNew ? [saved, ...prev] : prev.map(p => p.id === saved.id ? saved : p));
+            setDraft(null);
+            showNotification({ message: t('voiceProfileSaved', { name: saved.name }), type: 'success' });
+        });
+    };
+
+    const handleDelete = (profile: VoiceProfile) => runAction(async () => {
+        await deleteVoiceProfile(profile.id);
+        setProfiles(prev => prev.filter(p => p.id !== profile.id));
+        // The server has already detached the profile; this keeps the loaded sites in step.
+        sites.filter(site => site.voiceProfileId === profile.id).forEach(site => onUpdateSite(site.id, { voiceProfileId: undefined }));
+        setProfileToDelete(null);
+        if (draft?.id === profile.id) setDraft(null);
+    });
+
+    // The old single brand voice becomes a profile for every site that doesn't have one yet.
+    const handleImportLegacy = () => runAction(async () => {
+        const saved = await createVoiceProfile({ ...createEmptyVoiceProfile(t('voiceProfileImportedName')), description: legacyBrandVoice.trim() });
+        setProfiles(prev => [saved, ...prev]);
+        sites.filter(site => !site.voiceProfileId).forEach(site => onUpdateSite(site.id, { voiceProfileId: saved.id }));
+        localStorage.removeItem(LEGACY_BRAND_VOICE_STORAGE_KEY);
+        setLegacyBrandVoice('');
+        showNotification({ message: t('voiceProfileSaved', { name: saved.name }), type: 'success' });
+    });
+
+    const handleAssign = (site: WordPressSite, profileId: string) => {
+        onUpdateSite(site.id, { voiceProfileId: profileId || undefined });
+    };
+
+    const updateDraft = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        const { name, value } = e.target;
+        setDraft(prev => prev && { ...prev, [name]: value });
+    };
+
+    if (isLoading) {
+        return (
+            <div className="bg-gray-800 p-6 rounded-lg flex justify-center">
+                <Spinner />
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-gray-800 p-6 rounded-lg space-y-6">
+            <div>
+                <h2 className="text-xl font-semibold">{t('voiceProfiles')}</h2>
+                <p className="text-sm text-gray-400 mt-1">{t('voiceProfilesDescription')}</p>
+            </div>
+
+            {isEditor && legacyBrandVoice.trim() && (
+                <div className="bg-gray-900 border border-yellow-700 rounded-md p-4 space-y-2">
+                    <p className="text-sm text-yellow-300">{t('legacyBrandVoiceFound')}</p>
+                    <p className="text-sm text-gray-300 italic line-clamp-3">{legacyBrandVoice}</p>
+                    <button onClick={handleImportLegacy} disabled={isBusy} className="bg-yellow-600 hover:bg-yellow-700 text-white text-sm font-bold py-1.5 px-3 rounded-md disabled:opacity-50">
+                        {t('importLegacyBrandVoice')}
+                    </button>
+                </div>
+            )}
+
+            {/* Profiles */}
+            <div>
+                <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-sm font-medium text-gray-300">{t('voiceProfileList')}</h3>
+                    {isEditor && !draft && (
+                        <button onClick={() => setDraft(toDraft(createEmptyVoiceProfile(), true))} className="text-sm text-blue-400 hover:text-blue-300">
+                            {t('addVoiceProfile')}
+                        </button>
+                    )}
+                </div>
+                {profiles.length === 0 ? (
+                    <p className="text-sm text-gray-500">{t('noVoiceProfiles')}</p>
+                ) : (
+                    <ul className="divide-y divide-gray-700">
+                        {profiles.map(profile => (
+                            <li key={profile.id} className="py-3 flex items-center justify-between gap-4">
+                                <div className="min-w-0">
+                                    <p className="font-medium truncate">{profile.name}</p>
+                                    <p className="text-sm text-gray-400 truncate">
+                                        {t('voiceProfileUsedBy', { count: sites.filter(site => site.voiceProfileId === profile.id).length })}
+                                    </p>
+                                </div>
+                                {isEditor && (
+                                    <div className="flex items-center gap-2 shrink-0">
+                                        {profileToDelete?.id === profile.id ? (
+                                            <>
+                                                <button onClick={() => handleDelete(profile)} disabled={isBusy} className="bg-red-600 hover:bg-red-700 text-white text-xs font-bold py-1 px-2 rounded-md disabled:opacity-50">
+                                                    {t('confirmDelete')}
+                                                </button>
+                                                <button onClick={() => setProfileToDelete(null)} className="bg-gray-600 hover:bg-gray-500 text-white text-xs font-bold py-1 px-2 rounded-md">
+                                                    {t('cancel')}
+                                                </button>
+                                            </>
+                                        ) : (
+                                            <>
+                                                <button onClick={() => setDraft(toDraft(profile, false))} disabled={isBusy} className="text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50">
+                                                    {t('edit')}
+                                                </button>
+                                                <button onClick={() => setProfileToDelete(profile)} disabled={isBusy} className="text-sm text-red-400 hover:text-red-300 disabled:opacity-50">
+                                                    {t('delete')}
+                                                </button>
+                                            </>
+                                        )}
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            {draft && (
+                <form onSubmit={handleSave} className="space-y-4 border-t border-gray-700 pt-4">
+                    <div>
+                        <label htmlFor="voice-name" className="block text-sm font-medium text-gray-300 mb-2">{t('voiceProfileName')}</label>
+                        <input id="voice-name" name="name" type="text" required value={draft.name} onChange={updateDraft} placeholder={t('voiceProfileNamePlaceholder')} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="voice-description" className="block text-sm font-medium text-gray-300 mb-2">{t('voiceProfileDescription')}</label>
+                        <textarea id="voice-description" name="description" rows={3} value={draft.description} onChange={updateDraft} placeholder={t('brandVoicePlaceholder')} className={inputClassName} />
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="voice-dos" className="block text-sm font-medium text-gray-300 mb-2">{t('voiceProfileDos')}</label>
+                            <textarea id="voice-dos" name="dos" rows={4} value={draft.dos} onChange={updateDraft} placeholder={t('onePerLine')} className={inputClassName} />
+                        </div>
+                        <div>
+                            <label htmlFor="voice-donts" className="block text-sm font-medium text-gray-300 mb-2">{t('voiceProfileDonts')}</label>
+                            <textarea id="voice-donts" name="donts" rows={4} value={draft.donts} onChange={updateDraft} placeholder={t('onePerLine')} className={inputClassName} />
+                        </div>
+                    </div>
+                    <div>
+                        <label htmlFor="voice-banned" className="block text-sm font-medium text-gray-300 mb-2">{t('voiceProfileBannedWords')}</label>
+                        <textarea id="voice-banned" name="bannedWords" rows={3} value={draft.bannedWords} onChange={updateDraft} placeholder={t('onePerLine')} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="voice-examples" className="block text-sm font-medium text-gray-300 mb-2">{t('voiceProfileExamples')}</label>
+                        <textarea id="voice-examples" name="examples" rows={6} value={draft.examples} onChange={updateDraft} placeholder={t('voiceProfileExamplesHint')} className={inputClassName} />
+                    </div>
+                    <div className="flex justify-end gap-2">
+                        <button type="button" onClick={() => setDraft(null)} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md">
+                            {t('cancel')}
+                        </button>
+                        <button type="submit" disabled={isBusy || !draft.name.trim()} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-md disabled:opacity-50">
+                            {t('saveVoiceProfile')}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {/* Which profile each site uses */}
+            {sites.length > 0 && (
+                <div>
+                    <h3 className="text-sm font-medium text-gray-300 mb-2">{t('siteVoices')}</h3>
+                    <ul className="divide-y divide-gray-700">
+                        {sites.map(site => (
+                            <li key={site.id} className="py-2 flex items-center justify-between gap-4">
+                                <span className="truncate">{site.name}</span>
+                                {isEditor ? (
+                                    <select
+                                        value={site.voiceProfileId || ''}
+                                        onChange={(e) => handleAssign(site, e.target.value)}
+                                        aria-label={t('siteVoiceFor', { site: site.name })}
+                                        className="bg-gray-700 text-white text-sm rounded-md px-2 py-1 border border-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                    >
+                                        <option value="">{t('noVoiceProfile')}</option>
+                                        {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                                    </select>
+                                ) : (
+                                    <span className="text-sm text-gray-300">{profiles.find(p => p.id === site.voiceProfileId)?.name || t('noVoiceProfile')}</span>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default VoiceProfileSettings;
@@ -21,7 +21,7 @@ const Modal: React.FC<ModalProps> = ({ title, onClose, children }) => {
             </svg>
           </button>
         </div>
-        <div>
+        <div className="max-h-[75vh] overflow-y-auto">
           {children}
         </div>
       </div>
@@ -0,0 +1,94 @@
+// server/aiUsage.ts
+// Every AI request is logged to `ai_usage` with its estimated cost, and the monthly budgets in
+// `ai_budgets` are checked before a request goes out. Months are calendar months in UTC.
+
+import { config } from './config.ts';
+import { db } from './db.ts';
+import { HttpError } from './http.ts';
+import { estimateCost } from './pricing.ts';
+import type { UserRow } from './auth.ts';
+
+export type BudgetScope = 'team' | 'user' | 'site';
+
+export const BUDGET_SCOPES: BudgetScope[] = ['team', 'user', 'site'];
+
+export interface UsageEntry {
+    user: UserRow;
+    siteId?: string;
+    operation: string;
+    model: string;
+    promptTokens?: number;
+    outputTokens?: number;
+    imageCount?: number;
+    error?: string;
+    startedAt: number;
+}
+
+export const logUsage = (entry: UsageEntry) => {
+    const promptTokens = entry.promptTokens ?? 0;
+    const outputTokens = entry.outputTokens ?? 0;
+    const imageCount = entry.imageCount ?? 0;
+    db.prepare(`
+        INSERT INTO ai_usage (team_id, user_id, site_id, operation, model, prompt_tokens, output_tokens, image_count, cost_usd, status, error, duration_ms, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+        entry.user.team_id, entry.user.id, entry.siteId ?? null, entry.operation, entry.model,
+        promptTokens, outputTokens, imageCount, estimateCost(entry.model, promptTokens, outputTokens, imageCount),
+        entry.error ? 'error' : 'ok', entry.error ?? null,
+        Date.now() - entry.startedAt, new Date().toISOString()
+    );
+};
+
+export const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+/** The [start, end) bounds of a `YYYY-MM` month, comparable with the ISO `created_at` column. */
+export const monthRange = (month: string): [string, string] => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    const next = new Date(Date.UTC(year, monthIndex, 1)).toISOString().slice(0, 7);
+    return [`${month}-01`, `${next}-01`];
+};
+
+const SCOPE_COLUMNS: Record<BudgetScope, string> = { team: 'team_id', user: 'user_id', site: 'site_id' };
+
+export const monthSpend = (teamId: string, scope: BudgetScope, scopeId: string, month = currentMonth()): number => {
+    const [start, end] = monthRange(month);
+    const row = db.prepare(`
+        SELECT COALESCE(SUM(cost_usd), 0) AS spent FROM ai_usage
+        WHERE team_id = ? AND ${SCOPE_COLUMNS[scope]} = ? AND created_at >= ? AND created_at < ?
+    `).get(teamId, scopeId, start, end) as { spent: number };
+    return row.spent;
+};
+
+const BUDGET_MESSAGES: Record<BudgetScope, string> = {
+    team: 'Your team has used up its monthly AI budget',
+    user: 'You have used up your monthly AI budget',
+    site: 'This site has used up its monthly AI budget',
+};
+
+const serverMonthSpend = (month = currentMonth()): number => {
+    const [start, end] = monthRange(month);
+    const row = db.prepare('SELECT COALESCE(SUM(cost_usd), 0) AS spent FROM ai_usage WHERE created_at >= ? AND created_at < ?')
+        .get(start, end) as { spent: number };
+    return row.spent;
+};
+
+/**
+ * Rejects the request with a 402 `budget_exhausted` if the team, the user or the site is over its budget for this
+ * month, or if all teams together are over the server's `AI_MONTHLY_BUDGET_USD`.
+ */
+export const assertWithinBudget = (user: UserRow, siteId?: string) => {
+    if (config.aiMonthlyBudgetUsd > 0 && serverMonthSpend() >= config.aiMonthlyBudgetUsd) {
+        throw new HttpError(402, 'AI generation has reached its monthly limit on this server. It resets at the start of next month.', { code: 'budget_exhausted' });
+    }
+
+    const budgets = db.prepare(`
+        SELECT scope, scope_id, monthly_limit_usd FROM ai_budgets
+        WHERE team_id = ? AND (scope = 'team' OR (scope = 'user' AND scope_id = ?) OR (scope = 'site' AND scope_id = ?))
+    `).all(user.team_id, user.id, siteId ?? '') as { scope: BudgetScope; scope_id: string; monthly_limit_usd: number }[];
+
+    budgets.forEach(budget => {
+        if (monthSpend(user.team_id, budget.scope, budget.scope_id) >= budget.monthly_limit_usd) {
+            throw new HttpError(402, `${BUDGET_MESSAGES[budget.scope]} ($${budget.monthly_limit_usd.toFixed(2)}). It resets at the start of next month.`, { code: 'budget_exhausted' });
+        }
+    });
+};
@@ -0,0 +1,150 @@
+// server/auth.ts
+// Password hashing and session tokens. Only SHA-256 hashes of tokens are stored, so a
+// leaked database can't be used to impersonate anyone.
+
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import type { IncomingMessage } from 'node:http';
+import { config } from './config.ts';
+import { db } from './db.ts';
+import { HttpError } from './http.ts';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+export type Role = 'writer' | 'editor';
+
+export interface UserRow {
+    id: string;
+    team_id: string;
+    name: string;
+    email: string;
+    role: Role;
+    password_hash: string;
+    created_at: string;
+}
+
+// The shape the frontend knows as `User`.
+export interface PublicUser {
+    id: string;
+    name: string;
+    email: string;
+    teamId: string;
+    role: Role;
+}
+
+export interface SessionTokens {
+    accessToken: string;
+    refreshToken: string;
+    expiresAt: string;
+}
+
+export const toPublicUser = (row: UserRow): PublicUser => ({
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    teamId: row.team_id,
+    role: row.role,
+});
+
+/** Hashes a password as `scrypt$<salt>$<hash>` with a random per-user salt. */
+export const hashPassword = async (password: string): Promise<string> => {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+    const [scheme, salt, hash] = stored.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+    const expected = Buffer.from(hash, 'base64');
+    const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+    return timingSafeEqual(expected, actual);
+};
+
+export const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+export const newToken = () => randomBytes(32).toString('base64url');
+
+const issueTokens = () => {
+    const now = Date.now();
+    return {
+        accessToken: newToken(),
+        refreshToken: newToken(),
+        accessExpiresAt: new Date(now + config.accessTokenTtlMs).toISOString(),
+        refreshExpiresAt: new Date(now + config.refreshTokenTtlMs).toISOString(),
+    };
+};
+
+export const createSession = (userId: string): SessionTokens => {
+    const tokens = issueTokens();
+    db.prepare(`
+        INSERT INTO sessions (id, user_id, access_token_hash, access_expires_at, refresh_token_hash, refresh_expires_at, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(randomUUID(), userId, hashToken(tokens.accessToken), tokens.accessExpiresAt, hashToken(tokens.refreshToken), tokens.refreshExpiresAt, new Date().toISOString());
+    return { accessToken: tokens.accessToken, refreshToken: tokens.refreshToken, expiresAt: tokens.accessExpiresAt };
+};
+
+/**
+ * Exchanges a refresh token for a new token pair. The old pair stops working immediately,
+ * so a stolen refresh token can only be used once.
+ */
+export const refreshSession = (refreshToken: string): { tokens: SessionTokens; user: UserRow } => {
+    const session = db.prepare(`
+        SELECT id, user_id FROM sessions
+        WHERE refresh_token_hash = ? AND revoked_at IS NULL AND refresh_expires_at > ?
+    `).get(hashToken(refreshToken), new Date().toISOString()) as { id: string; user_id: string } | undefined;
+    if (!session) {
+        throw new HttpError(401, 'Session expired. Please log in again.');
+    }
+
+    const tokens = issueTokens();
+    db.prepare(`
+        UPDATE sessions SET access_token_hash = ?, access_expires_at = ?, refresh_token_hash = ?, refresh_expires_at = ?
+        WHERE id = ?
+    `).run(hashToken(tokens.accessToken), tokens.accessExpiresAt, hashToken(tokens.refreshToken), tokens.refreshExpiresAt, session.id);
+
+    const user = db.prepare('SELECT * FROM users WHERE id = ?').get(session.user_id) as unknown as UserRow | undefined;
+    if (!user) {
+        throw new HttpError(401, 'Session expired. Please log in again.');
+    }
+    return { tokens: { accessToken: tokens.accessToken, refreshToken: tokens.refreshToken, expiresAt: tokens.accessExpiresAt }, user };
+};
+
+export const revokeSession = (accessToken: string) => {
+    db.prepare('UPDATE sessions SET revoked_at = ? WHERE access_token_hash = ? AND revoked_at IS NULL')
+        .run(new Date().toISOString(), hashToken(accessToken));
+};
+
+export const revokeUserSessions = (userId: string) => {
+    db.prepare('UPDATE sessions SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL')
+        .run(new Date().toISOString(), userId);
+};
+
+export const bearerToken = (req: IncomingMessage): string | undefined => {
+    const header = req.headers.authorization;
+    return header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : undefined;
+};
+
+/** Resolves the signed-in user from the `Authorization: Bearer` header or fails with 401. */
+export const requireUser = (req: IncomingMessage): UserRow => {
+    const token = bearerToken(req);
+    if (!token) {
+        throw new HttpError(401, 'Authentication required.');
+    }
+    const user = db.prepare(`
+        SELECT users.* FROM sessions JOIN users ON users.id = sessions.user_id
+        WHERE sessions.access_token_hash = ? AND sessions.revoked_at IS NULL AND sessions.access_expires_at > ?
+    `).get(hashToken(token), new Date().toISOString()) as unknown as UserRow | undefined;
+    if (!user) {
+        throw new HttpError(401, 'Session expired.');
+    }
+    return user;
+};
+
+export const requireEditor = (req: IncomingMessage): UserRow => {
+    const user = requireUser(req);
+    if (user.role !== 'editor') {
+        throw new HttpError(403, 'Only editors can do this.');
+    }
+    return user;
+};
@@ -0,0 +1,38 @@
+// server/config.ts
+// All backend settings come from the environment so secrets never live in the repo.
+
+const numberFromEnv = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const config = {
+    port: numberFromEnv('PORT', 3001),
+    databasePath: process.env.DATABASE_PATH || 'data/app.db',
+    // Short-lived bearer token; the refresh token is what keeps a user signed in.
+    accessTokenTtlMs: numberFromEnv('ACCESS_TOKEN_TTL_MINUTES', 60) * 60 * 1000,
+    refreshTokenTtlMs: numberFromEnv('REFRESH_TOKEN_TTL_DAYS', 30) * 24 * 60 * 60 * 1000,
+    invitationTtlMs: numberFromEnv('INVITATION_TTL_DAYS', 7) * 24 * 60 * 60 * 1000,
+    maxBodyBytes: numberFromEnv('MAX_BODY_BYTES', 10 * 1024 * 1024),
+    // Take the client's address from X-Forwarded-For; only set it behind a reverse proxy that writes it.
+    trustProxy: process.env.TRUST_PROXY === 'true',
+    // New accounts allowed per client address per hour, as every account gets its own team and budgets.
+    registrationsPerIpPerHour: numberFromEnv('REGISTRATIONS_PER_IP_PER_HOUR', 5),
+    // 32-byte key (base64 or hex) used to encrypt WordPress application passwords.
+    credentialKey: process.env.CREDENTIAL_KEY || '',
+    // Lets sites on private or local addresses be connected, e.g. a WordPress running on this machine.
+    allowPrivateSiteHosts: process.env.ALLOW_PRIVATE_SITE_HOSTS === 'true',
+    wordpressTimeoutMs: numberFromEnv('WORDPRESS_TIMEOUT_SECONDS', 30) * 1000,
+    // Gemini key for the AI proxy; it is never sent to the browser.
+    geminiApiKey: process.env.GEMINI_API_KEY || '',
+    geminiTextModel: process.env.GEMINI_TEXT_MODEL || 'gemini-2.5-flash',
+    geminiImageModel: process.env.GEMINI_IMAGE_MODEL || 'imagen-4.0-generate-001',
+    aiTimeoutMs: numberFromEnv('AI_TIMEOUT_SECONDS', 120) * 1000,
+    // AI requests allowed per user, per team and per client address in each rate-limit window.
+    aiRateLimitWindowMs: numberFromEnv('AI_RATE_LIMIT_WINDOW_SECONDS', 60) * 1000,
+    aiRateLimitPerUser: numberFromEnv('AI_RATE_LIMIT_PER_USER', 10),
+    aiRateLimitPerTeam: numberFromEnv('AI_RATE_LIMIT_PER_TEAM', 30),
+    aiRateLimitPerIp: numberFromEnv('AI_RATE_LIMIT_PER_IP', 30),
+    // Spend across all teams after which the AI proxy stops for the rest of the month; 0 for no cap.
+    aiMonthlyBudgetUsd: numberFromEnv('AI_MONTHLY_BUDGET_USD', 0),
+};
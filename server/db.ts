@@ -0,0 +1,181 @@
+// server/db.ts
+// SQLite storage via the built-in node:sqlite module. Schema changes are appended to
+// MIGRATIONS and applied in order, tracked with PRAGMA user_version. A migration is
+// either SQL or a function, for data changes SQL can't express.
+
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { DatabaseSync } from 'node:sqlite';
+import { config } from './config.ts';
+import { encryptSecret } from './secrets.ts';
+
+type Migration = string | (() => void);
+
+const MIGRATIONS: Migration[] = [
+    `CREATE TABLE teams (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL
+    );
+    CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        team_id TEXT NOT NULL REFERENCES teams(id),
+        name TEXT NOT NULL,
+        email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        role TEXT NOT NULL CHECK (role IN ('writer', 'editor')),
+        password_hash TEXT NOT NULL,
+        created_at TEXT NOT NULL
+    );
+    CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        access_token_hash TEXT NOT NULL UNIQUE,
+        access_expires_at TEXT NOT NULL,
+        refresh_token_hash TEXT NOT NULL UNIQUE,
+        refresh_expires_at TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        revoked_at TEXT
+    );
+    CREATE INDEX sessions_user_id ON sessions(user_id);`,
+    // Sites and library items are stored as the client's JSON, keyed per team.
+    `CREATE TABLE sites (
+        team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+        id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (team_id, id)
+    );
+    CREATE TABLE content (
+        team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+        id TEXT NOT NULL,
+        author_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (team_id, id)
+    );`,
+    `ALTER TABLE sites ADD COLUMN app_password TEXT;`,
+    // Sites saved before passwords were encrypted carry them in plaintext inside `data`.
+    () => {
+        const rows = db.prepare('SELECT team_id, id, data FROM sites').all() as { team_id: string; id: string; data: string }[];
+        rows.forEach(row => {
+            const { appPassword, ...site } = JSON.parse(row.data);
+            if (appPassword === undefined) return;
+            db.prepare('UPDATE sites SET data = ?, app_password = ? WHERE team_id = ? AND id = ?')
+                .run(JSON.stringify({ ...site, hasAppPassword: !!appPassword }), appPassword ? encryptSecret(appPassword) : null, row.team_id, row.id);
+        });
+    },
+    `CREATE TABLE invitations (
+        id TEXT PRIMARY KEY,
+        team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+        email TEXT NOT NULL COLLATE NOCASE,
+        role TEXT NOT NULL CHECK (role IN ('writer', 'editor')),
+        token_hash TEXT NOT NULL UNIQUE,
+        invited_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')),
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+    );
+    CREATE INDEX invitations_team_id ON invitations(team_id);`,
+    // One row per request to the AI proxy, successful or not.
+    `CREATE TABLE ai_usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+        user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+        operation TEXT NOT NULL,
+        model TEXT NOT NULL,
+        prompt_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        image_count INTEGER NOT NULL DEFAULT 0,
+        status TEXT NOT NULL CHECK (status IN ('ok', 'error')),
+        error TEXT,
+        duration_ms INTEGER NOT NULL,
+        created_at TEXT NOT NULL
+    );
+    CREATE INDEX ai_usage_team_created ON ai_usage(team_id, created_at);
+    CREATE INDEX ai_usage_user_created ON ai_usage(user_id, created_at);`,
+    `ALTER TABLE ai_usage ADD COLUMN site_id TEXT;
+    ALTER TABLE ai_usage ADD COLUMN cost_usd REAL NOT NULL DEFAULT 0;
+    CREATE INDEX ai_usage_site_created ON ai_usage(site_id, created_at);
+    CREATE TABLE ai_budgets (
+        team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+        scope TEXT NOT NULL CHECK (scope IN ('team', 'user', 'site')),
+        -- The team, user or site id; a team budget repeats the team id.
+        scope_id TEXT NOT NULL,
+        monthly_limit_usd REAL NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (team_id, scope, scope_id)
+    );`,
+    `CREATE TABLE prompt_template_versions (
+        team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+        -- '' for the team-wide override.
+        site_id TEXT NOT NULL,
+        template_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        -- Both null when the override was removed, so version numbers keep counting up.
+        system_instruction TEXT,
+        user_prompt TEXT,
+        created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (team_id, site_id, template_id, version)
+    );`,
+    // Named brand voices; a site refers to one through `voiceProfileId` in its data.
+    `CREATE TABLE voice_profiles (
+        team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+        id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (team_id, id)
+    );`,
+    // Pages of a site that can link to each other, rebuilt from WordPress and the library on request.
+    `CREATE TABLE link_index (
+        team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+        site_id TEXT NOT NULL,
+        url TEXT NOT NULL,
+        -- Title, keywords, outbound links and where the page came from, as JSON.
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (team_id, site_id, url)
+    );`,
+    // Until when the scheduler holds a due item, so no other run publishes it at the same time.
+    `ALTER TABLE content ADD COLUMN publishing_until TEXT;`,
+];
+
+mkdirSync(dirname(config.databasePath), { recursive: true });
+
+export const db = new DatabaseSync(config.databasePath);
+db.exec('PRAGMA foreign_keys = ON; PRAGMA journal_mode = WAL;');
+
+export const migrate = () => {
+    const { user_version: version } = db.prepare('PRAGMA user_version').get() as { user_version: number };
+    MIGRATIONS.slice(version).forEach((migration, index) => {
+        db.exec('BEGIN');
+        try {
+            if (typeof migration === 'string') {
+                db.exec(migration);
+            } else {
+                migration();
+            }
+            db.exec(`PRAGMA user_version = ${version + index + 1}`);
+            db.exec('COMMIT');
+        } catch (error) {
+            db.exec('ROLLBACK');
+            throw error;
+        }
+    });
+};
+
+/** Runs `work` inside a transaction, rolling back if it throws. */
+export const transaction = <T>(work: () => T): T => {
+    db.exec('BEGIN');
+    try {
+        const result = work();
+        db.exec('COMMIT');
+        return result;
+    } catch (error) {
+        db.exec('ROLLBACK');
+        throw error;
+    }
+};
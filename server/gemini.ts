@@ -0,0 +1,211 @@
+// server/gemini.ts
+// Gemini calls made on behalf of the browser. The API key only ever lives in the server's
+// environment; the browser sends provider-neutral prompts and schemas to /api/ai.
+
+import { GoogleGenAI, Type, type Schema } from '@google/genai';
+import { config } from './config.ts';
+import { HttpError } from './http.ts';
+
+export interface GeminiUsage {
+    promptTokens: number;
+    outputTokens: number;
+}
+
+/** A stream that failed or was aborted part way, with the model and the tokens it had used, so they can still be counted. */
+export class StreamError extends HttpError {
+    readonly model: string;
+    readonly usage: GeminiUsage;
+
+    constructor(error: HttpError, model: string, usage: GeminiUsage) {
+        super(error.status, error.message, { code: error.code, retryAfter: error.retryAfter });
+        this.name = 'StreamError';
+        this.model = model;
+        this.usage = usage;
+    }
+}
+
+export interface TextGeneration {
+    prompt: string;
+    systemInstruction?: string;
+    // Already converted with toGeminiSchema.
+    schema?: Schema;
+    useSearch?: boolean;
+    model?: string;
+}
+
+export interface ImageGeneration {
+    prompt: string;
+    count: number;
+    aspectRatio: '1:1' | '16:9';
+    model?: string;
+}
+
+const SCHEMA_TYPES: Record<string, Type> = {
+    object: Type.OBJECT,
+    array: Type.ARRAY,
+    string: Type.STRING,
+    integer: Type.INTEGER,
+    number: Type.NUMBER,
+    boolean: Type.BOOLEAN,
+};
+
+export type ModelKind = 'text' | 'image';
+
+// The models the browser may ask for. Each has a price in pricing.ts, so what it costs counts
+// against the budgets; any other name gets the configured default.
+export const ALLOWED_MODELS: Record<ModelKind, string[]> = {
+    text: ['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.0-flash', 'gemini-2.0-flash-lite'],
+    image: ['imagen-4.0-generate-001', 'imagen-4.0-fast-generate-001', 'imagen-4.0-ultra-generate-001', 'imagen-3.0-generate-002'],
+};
+
+let client: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+    if (!config.geminiApiKey) {
+        throw new HttpError(503, 'The AI service is not configured. Set GEMINI_API_KEY on the server.');
+    }
+    client ??= new GoogleGenAI({ apiKey: config.geminiApiKey });
+    return client;
+};
+
+/** The model a request runs on: the one it asks for if allowed, the configured default otherwise. */
+export const pickModel = (requested: string | undefined, kind: ModelKind): string => {
+    if (requested && ALLOWED_MODELS[kind].includes(requested)) return requested;
+    return kind === 'text' ? config.geminiTextModel : config.geminiImageModel;
+};
+
+/**
+ * Converts the browser's JSON-schema-like description (lower-case type names) into Gemini's
+ * responseSchema, an OpenAPI subset with upper-case ones. Unknown types are a 400.
+ */
+export const toGeminiSchema = (schema: any): Schema => {
+    const type = SCHEMA_TYPES[schema?.type];
+    if (!type) {
+        throw new HttpError(400, `Unsupported schema type '${schema?.type}'.`);
+    }
+    return {
+        type,
+        description: typeof schema.description === 'string' ? schema.description : undefined,
+        enum: Array.isArray(schema.enum) ? schema.enum.map(String) : undefined,
+        required: Array.isArray(schema.required) ? schema.required.map(String) : undefined,
+        items: schema.items ? toGeminiSchema(schema.items) : undefined,
+        properties: schema.properties
+            ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+            : undefined,
+    };
+};
+
+/** Turns SDK failures into HttpErrors the browser can act on. */
+const toHttpError = (error: unknown): HttpError => {
+    if (error instanceof HttpError) return error;
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+        return new HttpError(504, 'The AI service did not respond in time.');
+    }
+    const message = error instanceof Error ? error.message : '';
+    const status = Number(message.match(/got status: (\d{3})/)?.[1]);
+    if (status === 429) {
+        // A used-up daily quota won't come back within any retry; a per-minute limit says when it will.
+        if (/PerDay/.test(message)) {
+            return new HttpError(429, 'The AI service quota is exhausted for today. Try again tomorrow.', { code: 'quota_exhausted' });
+        }
+        const retryDelay = Number(message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/)?.[1]);
+        return new HttpError(429, 'The AI service is busy. Try again shortly.', { retryAfter: retryDelay > 0 ? Math.ceil(retryDelay) : undefined });
+    }
+    if (status === 400) {
+        return new HttpError(400, 'The AI service rejected the request.');
+    }
+    console.error('Gemini request failed:', error);
+    return new HttpError(502, 'The AI service is temporarily unavailable.');
+};
+
+// Roughly how many characters make a token, for streams that stop before Gemini reports usage.
+const CHARS_PER_TOKEN = 4;
+
+const toUsage = (metadata?: { promptTokenCount?: number; candidatesTokenCount?: number }): GeminiUsage | undefined =>
+    metadata ? { promptTokens: metadata.promptTokenCount ?? 0, outputTokens: metadata.candidatesTokenCount ?? 0 } : undefined;
+
+const buildTextConfig = (request: TextGeneration, signal: AbortSignal): Record<string, unknown> => {
+    const generationConfig: Record<string, unknown> = { systemInstruction: request.systemInstruction, abortSignal: signal };
+    // Search grounding can't be combined with a response schema, so grounded requests
+    // ask for JSON in the prompt and the browser parses it leniently.
+    if (request.useSearch) {
+        generationConfig.tools = [{ googleSearch: {} }];
+    } else if (request.schema) {
+        generationConfig.responseMimeType = 'application/json';
+        generationConfig.responseSchema = request.schema;
+    }
+    return generationConfig;
+};
+
+export const generateText = async (request: TextGeneration): Promise<{ text: string; model: string; usage?: GeminiUsage }> => {
+    const model = pickModel(request.model, 'text');
+    try {
+        const response = await getClient().models.generateContent({
+            model,
+            contents: request.prompt,
+            config: buildTextConfig(request, AbortSignal.timeout(config.aiTimeoutMs)),
+        });
+        return { text: (response.text ?? '').trim(), model, usage: toUsage(response.usageMetadata) };
+    } catch (error) {
+        throw toHttpError(error);
+    }
+};
+
+/**
+ * Streams the answer, calling `onText` with each new piece. `signal` aborts it when the browser
+ * disconnects. Failures are StreamErrors carrying the usage so far: the last totals Gemini
+ * reported, or an estimate from the prompt and the text streamed when it reported none yet.
+ */
+export const streamText = async (
+    request: TextGeneration,
+    onText: (text: string) => void,
+    signal: AbortSignal
+): Promise<{ model: string; usage?: GeminiUsage }> => {
+    const model = pickModel(request.model, 'text');
+    const client = getClient();
+    let usage: GeminiUsage | undefined;
+    let streamedLength = 0;
+    try {
+        const stream = await client.models.generateContentStream({
+            model,
+            contents: request.prompt,
+            config: buildTextConfig(request, AbortSignal.any([signal, AbortSignal.timeout(config.aiTimeoutMs)])),
+        });
+        for await (const chunk of stream) {
+            if (chunk.text) {
+                streamedLength += chunk.text.length;
+                onText(chunk.text);
+            }
+            // Every chunk carries the running totals; the last one wins.
+            usage = toUsage(chunk.usageMetadata) ?? usage;
+        }
+        return { model, usage };
+    } catch (error) {
+        throw new StreamError(toHttpError(error), model, usage ?? {
+            promptTokens: Math.ceil(((request.systemInstruction?.length ?? 0) + request.prompt.length) / CHARS_PER_TOKEN),
+            outputTokens: Math.ceil(streamedLength / CHARS_PER_TOKEN),
+        });
+    }
+};
+
+export const generateImages = async (request: ImageGeneration): Promise<{ images: string[]; model: string }> => {
+    const model = pickModel(request.model, 'image');
+    try {
+        const response = await getClient().models.generateImages({
+            model,
+            prompt: request.prompt,
+            config: {
+                numberOfImages: request.count,
+                outputMimeType: 'image/jpeg',
+                aspectRatio: request.aspectRatio,
+                abortSignal: AbortSignal.timeout(config.aiTimeoutMs),
+            },
+        });
+        const images = (response.generatedImages || [])
+            .map(img => img.image?.imageBytes)
+            .filter((bytes): bytes is string => !!bytes);
+        return { images, model };
+    } catch (error) {
+        throw toHttpError(error);
+    }
+};
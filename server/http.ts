@@ -0,0 +1,170 @@
+// server/http.ts
+// A deliberately small router on top of node:http: JSON in, JSON out.
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { config } from './config.ts';
+
+/**
+ * Thrown by handlers to send a specific status code with an `{ error }` body. `code` tells apart
+ * failures that share a status, e.g. a used-up budget from other 402s; `retryAfter` (seconds) is
+ * sent as the Retry-After header.
+ */
+export class HttpError extends Error {
+    readonly status: number;
+    readonly code?: string;
+    readonly retryAfter?: number;
+
+    constructor(status: number, message: string, options: { code?: string; retryAfter?: number } = {}) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+        this.code = options.code;
+        this.retryAfter = options.retryAfter;
+    }
+}
+
+/** The address the request came from, as reported by the reverse proxy when `TRUST_PROXY` is set. */
+export const clientIp = (req: IncomingMessage): string => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (config.trustProxy && typeof forwarded === 'string' && forwarded.trim()) {
+        // The proxy appends the address it saw, so the last entry is the one it vouches for.
+        return forwarded.split(',').pop()!.trim();
+    }
+    return req.socket.remoteAddress || 'unknown';
+};
+
+export interface RequestContext {
+    req: IncomingMessage;
+    res: ServerResponse;
+    params: Record<string, string>;
+    query: URLSearchParams;
+    // Parsed JSON body; undefined for empty or non-JSON bodies, which are left in `rawBody`.
+    body: any;
+    rawBody: Buffer;
+}
+
+// Handlers return the JSON body to send. Returning `undefined` sends 204.
+export type Handler = (ctx: RequestContext) => unknown | Promise<unknown>;
+
+interface Route {
+    method: string;
+    pattern: RegExp;
+    keys: string[];
+    handler: Handler;
+}
+
+// `:name` matches one segment; a trailing `*` matches the rest of the path as `params.rest`.
+const compilePath = (path: string): { pattern: RegExp; keys: string[] } => {
+    const keys: string[] = [];
+    const source = path
+        .replace(/:(\w+)/g, (_, key) => {
+            keys.push(key);
+            return '([^/]+)';
+        })
+        .replace(/\*$/, () => {
+            keys.push('rest');
+            return '(.*)';
+        });
+    return { pattern: new RegExp(`^${source}/?$`), keys };
+};
+
+const readBody = (req: IncomingMessage): Promise<Buffer> =>
+    new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > config.maxBodyBytes) {
+                reject(new HttpError(413, 'Request body is too large.'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks)));
+        req.on('error', reject);
+    });
+
+const parseJson = (req: IncomingMessage, raw: Buffer): unknown => {
+    const contentType = req.headers['content-type'] || 'application/json';
+    if (raw.length === 0 || !contentType.includes('json')) return undefined;
+    try {
+        return JSON.parse(raw.toString('utf8'));
+    } catch {
+        throw new HttpError(400, 'Request body must be valid JSON.');
+    }
+};
+
+export const sendJson = (res: ServerResponse, status: number, body?: unknown) => {
+    if (body === undefined) {
+        res.writeHead(status).end();
+        return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+};
+
+export const createRouter = () => {
+    const routes: Route[] = [];
+
+    const add = (method: string, path: string, handler: Handler) => {
+        routes.push({ method, ...compilePath(path), handler });
+    };
+
+    const handle = async (req: IncomingMessage, res: ServerResponse) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        let pathMatched = false;
+
+        try {
+            for (const route of routes) {
+                const match = url.pathname.match(route.pattern);
+                if (!match) continue;
+                pathMatched = true;
+                if (route.method !== req.method) continue;
+
+                const params: Record<string, string> = {};
+                route.keys.forEach((key, index) => { params[key] = decodeURIComponent(match[index + 1]); });
+                const rawBody = req.method === 'GET' || req.method === 'HEAD' ? Buffer.alloc(0) : await readBody(req);
+                const body = parseJson(req, rawBody);
+                const result = await route.handler({ req, res, params, query: url.searchParams, body, rawBody });
+                // Handlers that stream write to `res` themselves.
+                if (!res.headersSent) {
+                    sendJson(res, result === undefined ? 204 : 200, result);
+                }
+                return;
+            }
+            throw pathMatched ? new HttpError(405, 'Method not allowed.') : new HttpError(404, 'Not found.');
+        } catch (error) {
+            if (error instanceof HttpError) {
+                if (!res.headersSent) {
+                    if (error.retryAfter !== undefined) res.setHeader('Retry-After', String(error.retryAfter));
+                    sendJson(res, error.status, { error: error.message, code: error.code });
+                }
+                return;
+            }
+            console.error(`${req.method} ${url.pathname} failed:`, error);
+            if (!res.headersSent) sendJson(res, 500, { error: 'Internal server error.' });
+            else res.end();
+        }
+    };
+
+    return {
+        get: (path: string, handler: Handler) => add('GET', path, handler),
+        post: (path: string, handler: Handler) => add('POST', path, handler),
+        put: (path: string, handler: Handler) => add('PUT', path, handler),
+        patch: (path: string, handler: Handler) => add('PATCH', path, handler),
+        delete: (path: string, handler: Handler) => add('DELETE', path, handler),
+        handle,
+    };
+};
+
+export type Router = ReturnType<typeof createRouter>;
+
+/** Reads a required, non-empty string field from a JSON body. */
+export const requireString = (body: any, field: string): string => {
+    const value = body?.[field];
+    if (typeof value !== 'string' || !value.trim()) {
+        throw new HttpError(400, `'${field}' is required.`);
+    }
+    return value.trim();
+};
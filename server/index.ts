@@ -0,0 +1,40 @@
+// server/index.ts
+// Entry point for the backend API. Run with `npm run server` (Node 22+).
+
+import { createServer } from 'node:http';
+import { config } from './config.ts';
+import { migrate } from './db.ts';
+import { createRouter } from './http.ts';
+import { registerAuthRoutes } from './routes/auth.ts';
+import { registerTeamRoutes } from './routes/teams.ts';
+import { registerSiteRoutes } from './routes/sites.ts';
+import { registerContentRoutes } from './routes/content.ts';
+import { registerInvitationRoutes } from './routes/invitations.ts';
+import { registerAiRoutes } from './routes/ai.ts';
+import { registerUsageRoutes } from './routes/usage.ts';
+import { registerPromptRoutes } from './routes/prompts.ts';
+import { registerVoiceProfileRoutes } from './routes/voiceProfiles.ts';
+import { registerLinkIndexRoutes } from './routes/linkIndex.ts';
+import { startScheduler } from './scheduler.ts';
+
+migrate();
+
+const router = createRouter();
+registerAuthRoutes(router);
+registerTeamRoutes(router);
+registerSiteRoutes(router);
+registerContentRoutes(router);
+registerInvitationRoutes(router);
+registerAiRoutes(router);
+registerUsageRoutes(router);
+registerPromptRoutes(router);
+registerVoiceProfileRoutes(router);
+registerLinkIndexRoutes(router);
+
+createServer((req, res) => {
+    router.handle(req, res);
+}).listen(config.port, () => {
+    console.log(`API listening on http://localhost:${config.port}`);
+});
+
+startScheduler();
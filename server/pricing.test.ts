@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { config } from './config.ts';
+import { ALLOWED_MODELS, pickModel } from './gemini.ts';
+import { estimateCost, isPriced } from './pricing.ts';
+
+describe('proxied models', () => {
+    it('are all priced for what they are used for, defaults included', () => {
+        expect([...ALLOWED_MODELS.text, config.geminiTextModel].filter(model => !isPriced(model, 'text'))).toEqual([]);
+        expect([...ALLOWED_MODELS.image, config.geminiImageModel].filter(model => !isPriced(model, 'image'))).toEqual([]);
+    });
+
+    it('fall back to the default for a model that is not allowed', () => {
+        ['gemini-1.5-pro', 'gemini-3-pro-preview', 'gemini-exp-1206', 'imagen-3.0-generate-002', 'gpt-4o'].forEach(model => {
+            expect(pickModel(model, 'text')).toBe(config.geminiTextModel);
+        });
+        expect(pickModel('gemini-2.5-flash', 'image')).toBe(config.geminiImageModel);
+        expect(pickModel(undefined, 'text')).toBe(config.geminiTextModel);
+    });
+
+    it('keep an allowed model', () => {
+        expect(pickModel('gemini-2.5-pro', 'text')).toBe('gemini-2.5-pro');
+        expect(pickModel('imagen-4.0-fast-generate-001', 'image')).toBe('imagen-4.0-fast-generate-001');
+    });
+
+    it('cannot get around a budget by naming an unpriced model', () => {
+        // Free under the price list, so it would never use up a budget if the proxy ran it.
+        expect(estimateCost('gemini-exp-1206', 1_000_000, 1_000_000, 0)).toBe(0);
+        expect(estimateCost(pickModel('gemini-exp-1206', 'text'), 1_000_000, 1_000_000, 0)).toBeGreaterThan(0);
+        expect(estimateCost(pickModel('imagen-2', 'image'), 0, 0, 1)).toBeGreaterThan(0);
+    });
+});
+
+describe('estimateCost', () => {
+    it('prices a model by the longest matching prefix', () => {
+        expect(estimateCost('gemini-2.5-flash-lite', 1_000_000, 1_000_000, 0)).toBeCloseTo(0.5);
+        expect(estimateCost('models/gemini-2.5-flash', 1_000_000, 0, 0)).toBeCloseTo(0.3);
+        expect(estimateCost('imagen-4.0-ultra-generate-001', 0, 0, 2)).toBeCloseTo(0.12);
+    });
+
+    it('counts models reported by direct providers without a price as free', () => {
+        expect(estimateCost('llama3.1:8b', 5_000, 5_000, 0)).toBe(0);
+        expect(isPriced('llama3.1:8b', 'text')).toBe(false);
+    });
+});
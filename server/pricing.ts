@@ -0,0 +1,43 @@
+// server/pricing.ts
+// What AI requests cost, for the usage log and the budgets in aiUsage.ts.
+
+// List prices in USD per million tokens, or per image. A model is priced by the longest prefix
+// that matches its name; models not listed here (e.g. local Ollama models) are counted as free.
+// Only usage reported by the browser's direct providers can name such a model: the proxy only
+// runs the priced models in gemini.ts.
+const PRICES: { prefix: string; input?: number; output?: number; image?: number }[] = [
+    { prefix: 'gemini-2.5-pro', input: 1.25, output: 10 },
+    { prefix: 'gemini-2.5-flash', input: 0.3, output: 2.5 },
+    { prefix: 'gemini-2.5-flash-lite', input: 0.1, output: 0.4 },
+    { prefix: 'gemini-2.0-flash', input: 0.1, output: 0.4 },
+    { prefix: 'gemini-2.0-flash-lite', input: 0.075, output: 0.3 },
+    { prefix: 'imagen-4.0', image: 0.04 },
+    { prefix: 'imagen-4.0-fast', image: 0.02 },
+    { prefix: 'imagen-4.0-ultra', image: 0.06 },
+    { prefix: 'imagen-3.0', image: 0.03 },
+    { prefix: 'gpt-4o', input: 2.5, output: 10 },
+    { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+    { prefix: 'gpt-4.1', input: 2, output: 8 },
+    { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+    { prefix: 'dall-e-3', image: 0.04 },
+    { prefix: 'gpt-image-1', image: 0.04 },
+];
+
+const priceOf = (model: string) => {
+    const name = model.replace(/^models\//, '');
+    return PRICES
+        .filter(entry => name.startsWith(entry.prefix))
+        .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+};
+
+/** Whether the model has a price for the kind of output it would be used for. */
+export const isPriced = (model: string, kind: 'text' | 'image'): boolean => {
+    const price = priceOf(model);
+    return kind === 'text' ? price?.input !== undefined && price.output !== undefined : price?.image !== undefined;
+};
+
+export const estimateCost = (model: string, promptTokens: number, outputTokens: number, imageCount: number): number => {
+    const price = priceOf(model);
+    if (!price) return 0;
+    return (promptTokens * (price.input ?? 0) + outputTokens * (price.output ?? 0)) / 1_000_000 + imageCount * (price.image ?? 0);
+};
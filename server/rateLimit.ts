@@ -0,0 +1,44 @@
+// server/rateLimit.ts
+// Fixed-window request counters kept in memory. Enough for a single server process;
+// the counts reset when it restarts.
+
+interface Window {
+    startedAt: number;
+    count: number;
+}
+
+export const createRateLimiter = (limit: number, windowMs: number) => {
+    const windows = new Map<string, Window>();
+
+    const current = (key: string, now: number): Window | undefined => {
+        const window = windows.get(key);
+        if (window && now - window.startedAt >= windowMs) {
+            windows.delete(key);
+            return undefined;
+        }
+        return window;
+    };
+
+    return {
+        /** Seconds until `key` may make another request, or 0 if it is under the limit. */
+        retryAfter: (key: string): number => {
+            const now = Date.now();
+            const window = current(key, now);
+            return window && window.count >= limit ? Math.ceil((window.startedAt + windowMs - now) / 1000) : 0;
+        },
+
+        record: (key: string) => {
+            const now = Date.now();
+            const window = current(key, now);
+            if (window) {
+                window.count++;
+            } else {
+                windows.set(key, { startedAt: now, count: 1 });
+            }
+            // Drop expired windows now and then so idle keys don't accumulate.
+            if (windows.size > 10_000) {
+                windows.forEach((value, key) => { if (now - value.startedAt >= windowMs) windows.delete(key); });
+            }
+        },
+    };
+};
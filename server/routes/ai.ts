@@ -0,0 +1,234 @@
+// server/routes/ai.ts
+// The browser's Gemini provider calls these instead of holding an API key. Each request is
+// checked against the monthly budgets, counted against per-user, per-team and per-address rate
+// limits and logged to `ai_usage`. A request may name the site it is for, to attribute its cost.
+//
+// Text requests send the variables of the operation's prompt template, not a prompt: the server
+// renders the template (or the team's or site's override of it) itself. Variables still carry text
+// from the browser (a topic, the passage to rewrite, the site's voice), so each one is checked
+// against a fixed set of values or a length limit. Responses name the template version they were
+// rendered from.
+//
+// /api/ai/stream answers with newline-delimited JSON: `{ text }` events carrying the next piece of
+// output, then a final `{ done, model, usage }` or `{ error }`.
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { config } from '../config.ts';
+import { db } from '../db.ts';
+import { HttpError, clientIp, requireString, type Router } from '../http.ts';
+import { requireUser, type UserRow } from '../auth.ts';
+import { StreamError, generateImages, generateText, pickModel, streamText, toGeminiSchema } from '../gemini.ts';
+import { createRateLimiter } from '../rateLimit.ts';
+import { assertWithinBudget, logUsage } from '../aiUsage.ts';
+import { effectiveOverride } from './prompts.ts';
+import {
+    PROMPT_TEMPLATES, PROMPT_TEMPLATE_IDS, renderPromptTemplate, renderRepairPrompt,
+    type PromptRepair, type PromptTemplateId, type PromptVariables, type TemplateVariables,
+} from '../../services/promptTemplates.ts';
+
+// The generators in services/geminiService.ts, one endpoint each, named after the template they render.
+export const TEXT_OPERATIONS: string[] = PROMPT_TEMPLATE_IDS;
+export const IMAGE_OPERATIONS = ['featured-image'];
+const MAX_IMAGES = 4;
+// Room for the longest article the app rewrites or analyzes, with the pages it may link to.
+const MAX_PROMPT_INPUT_LENGTH = 200_000;
+// Image prompts are written by the user, so they are kept to a description's length.
+const MAX_IMAGE_PROMPT_LENGTH = 2_000;
+// Topics, titles, keywords and instructions; only the variables below may be longer.
+const MAX_VARIABLE_LENGTH = 1_000;
+// Content and the site's data, limited only by MAX_PROMPT_INPUT_LENGTH.
+const LONG_VARIABLES = [
+    'body', 'articleBody', 'text', 'longDescription', 'shortDescription', 'features', 'outline', 'brandVoice',
+    'existingTitles', 'existingCategories', 'existingTags', 'competitorInsights', 'candidatePages',
+];
+// The app's choices for these (WritingTone and ArticleLength in types.ts).
+const VARIABLE_CHOICES: Record<string, string[]> = {
+    tone: ['Professional', 'Casual', 'Enthusiastic', 'Informative', 'Humorous'],
+    articleLength: ['Short (~500 words)', 'Medium (~1000 words)', 'Long (~2000 words)'],
+};
+
+const userLimiter = createRateLimiter(config.aiRateLimitPerUser, config.aiRateLimitWindowMs);
+const teamLimiter = createRateLimiter(config.aiRateLimitPerTeam, config.aiRateLimitWindowMs);
+const ipLimiter = createRateLimiter(config.aiRateLimitPerIp, config.aiRateLimitWindowMs);
+
+export const requireOperation = (operation: string, allowed: string[]) => {
+    if (!allowed.includes(operation)) {
+        throw new HttpError(404, `Unknown AI operation '${operation}'.`);
+    }
+};
+
+/** Counts the request against the user's, the team's and the client address's limits, or rejects it with 429. */
+const enforceRateLimits = (user: UserRow, req: IncomingMessage, res: ServerResponse) => {
+    const ip = clientIp(req);
+    const retryAfter = Math.max(userLimiter.retryAfter(user.id), teamLimiter.retryAfter(user.team_id), ipLimiter.retryAfter(ip));
+    if (retryAfter > 0) {
+        res.setHeader('Retry-After', String(retryAfter));
+        throw new HttpError(429, `Too many AI requests. Try again in ${retryAfter} seconds.`);
+    }
+    userLimiter.record(user.id);
+    teamLimiter.record(user.team_id);
+    ipLimiter.record(ip);
+};
+
+/** The JSON body of an AI request, which has to be an object. */
+const requireBody = (body: unknown): Record<string, any> => {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        throw new HttpError(400, 'Expected a JSON object.');
+    }
+    return body as Record<string, any>;
+};
+
+const optionalString = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() ? value : undefined;
+
+/** The site a request is for, if it names one; it has to belong to the caller's team. */
+export const optionalSiteId = (user: UserRow, value: unknown): string | undefined => {
+    const siteId = optionalString(value);
+    if (siteId && !db.prepare('SELECT 1 FROM sites WHERE team_id = ? AND id = ?').get(user.team_id, siteId)) {
+        throw new HttpError(400, `Unknown site '${siteId}'.`);
+    }
+    return siteId;
+};
+
+// Variables filled from a site's data: its voice profile, posts, categories, tags or pages. Prompts
+// that use them are for that site, so they have to name it and count towards its budget.
+const SITE_VARIABLES = ['brandVoice', 'hasSiteContext', 'existingTitles', 'existingCategories', 'existingTags', 'candidatePages'];
+
+const requireVariables = (operation: PromptTemplateId, value: unknown): TemplateVariables => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new HttpError(400, "'variables' must be an object.");
+    }
+    const known = Object.keys(PROMPT_TEMPLATES[operation].variables);
+    Object.entries(value).forEach(([name, variable]) => {
+        if (!known.includes(name)) {
+            throw new HttpError(400, `Unknown variable '${name}' for '${operation}'.`);
+        }
+        if (!['string', 'number', 'boolean'].includes(typeof variable)) {
+            throw new HttpError(400, `Variable '${name}' must be a string, number or boolean.`);
+        }
+        if (VARIABLE_CHOICES[name] && !VARIABLE_CHOICES[name].includes(variable as string)) {
+            throw new HttpError(400, `Variable '${name}' must be one of: ${VARIABLE_CHOICES[name].join(', ')}.`);
+        }
+        if (typeof variable === 'string' && !LONG_VARIABLES.includes(name) && variable.length > MAX_VARIABLE_LENGTH) {
+            throw new HttpError(400, `Variable '${name}' must be at most ${MAX_VARIABLE_LENGTH} characters.`);
+        }
+    });
+    return value as TemplateVariables;
+};
+
+const optionalRepair = (value: unknown): PromptRepair | undefined => {
+    if (value === undefined || value === null) return undefined;
+    const { problems, answer } = value as PromptRepair;
+    if (!Array.isArray(problems) || !problems.every(problem => typeof problem === 'string') || typeof answer !== 'string') {
+        throw new HttpError(400, "'repair' must list the 'problems' with the previous 'answer'.");
+    }
+    return { problems, answer };
+};
+
+/** The operation's prompt, rendered from the template or override in effect for the site. */
+const renderOperationPrompt = (user: UserRow, operation: string, siteId: string | undefined, body: any) => {
+    const id = operation as PromptTemplateId;
+    const variables = requireVariables(id, body.variables);
+    if (!siteId && SITE_VARIABLES.some(name => variables[name])) {
+        throw new HttpError(400, "'siteId' is required for prompts that use a site's data.");
+    }
+    const repair = optionalRepair(body.repair);
+    if (JSON.stringify([variables, repair]).length > MAX_PROMPT_INPUT_LENGTH) {
+        throw new HttpError(413, 'The text to generate from is too long.');
+    }
+    const rendered = renderPromptTemplate(id, variables as PromptVariables[typeof id], effectiveOverride(user.team_id, siteId, id));
+    return { ...rendered, prompt: repair ? renderRepairPrompt(rendered.prompt, repair) : rendered.prompt };
+};
+
+export const registerAiRoutes = (router: Router) => {
+    router.post('/api/ai/text/:operation', async ({ req, res, params, body: json }) => {
+        const user = requireUser(req);
+        requireOperation(params.operation, TEXT_OPERATIONS);
+        const body = requireBody(json);
+        const schema = body.schema ? toGeminiSchema(body.schema) : undefined;
+        const siteId = optionalSiteId(user, body.siteId);
+        const { prompt, systemInstruction, template } = renderOperationPrompt(user, params.operation, siteId, body);
+        assertWithinBudget(user, siteId);
+        enforceRateLimits(user, req, res);
+
+        const startedAt = Date.now();
+        const model = pickModel(optionalString(body.model), 'text');
+        try {
+            const result = await generateText({ prompt, systemInstruction, schema, useSearch: body.useSearch === true, model });
+            logUsage({ user, siteId, operation: params.operation, model: result.model, ...result.usage, startedAt });
+            return { ...result, template };
+        } catch (error) {
+            logUsage({ user, siteId, operation: params.operation, model, error: error instanceof Error ? error.message : String(error), startedAt });
+            throw error;
+        }
+    });
+
+    router.post('/api/ai/stream/:operation', async ({ req, res, params, body: json }) => {
+        const user = requireUser(req);
+        requireOperation(params.operation, TEXT_OPERATIONS);
+        const body = requireBody(json);
+        const schema = body.schema ? toGeminiSchema(body.schema) : undefined;
+        const siteId = optionalSiteId(user, body.siteId);
+        const { prompt, systemInstruction, template } = renderOperationPrompt(user, params.operation, siteId, body);
+        assertWithinBudget(user, siteId);
+        enforceRateLimits(user, req, res);
+
+        // Stop generating (and paying for) output nobody will read.
+        const abort = new AbortController();
+        res.on('close', () => abort.abort());
+
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' });
+        const send = (event: object) => res.write(`${JSON.stringify(event)}\n`);
+
+        const startedAt = Date.now();
+        const model = pickModel(optionalString(body.model), 'text');
+        try {
+            const result = await streamText(
+                { prompt, systemInstruction, schema, useSearch: body.useSearch === true, model },
+                text => send({ text }),
+                abort.signal
+            );
+            logUsage({ user, siteId, operation: params.operation, model: result.model, ...result.usage, startedAt });
+            send({ done: true, ...result, template });
+        } catch (error) {
+            const message = abort.signal.aborted ? 'Cancelled by the client.' : error instanceof Error ? error.message : String(error);
+            // What was generated before the stop is paid for all the same.
+            const spent = error instanceof StreamError ? { model: error.model, ...error.usage } : { model };
+            logUsage({ user, siteId, operation: params.operation, ...spent, error: message, startedAt });
+            send({ error: message });
+        }
+        res.end();
+    });
+
+    router.post('/api/ai/images/:operation', async ({ req, res, params, body: json }) => {
+        const user = requireUser(req);
+        requireOperation(params.operation, IMAGE_OPERATIONS);
+        const body = requireBody(json);
+        const prompt = requireString(body, 'prompt');
+        if (prompt.length > MAX_IMAGE_PROMPT_LENGTH) {
+            throw new HttpError(400, `The image description must be at most ${MAX_IMAGE_PROMPT_LENGTH} characters.`);
+        }
+        const count = Number(body.count ?? 1);
+        if (!Number.isInteger(count) || count < 1 || count > MAX_IMAGES) {
+            throw new HttpError(400, `'count' must be between 1 and ${MAX_IMAGES}.`);
+        }
+        const aspectRatio = body.aspectRatio ?? '1:1';
+        if (aspectRatio !== '1:1' && aspectRatio !== '16:9') {
+            throw new HttpError(400, "'aspectRatio' must be '1:1' or '16:9'.");
+        }
+        const siteId = optionalSiteId(user, body.siteId);
+        assertWithinBudget(user, siteId);
+        enforceRateLimits(user, req, res);
+
+        const startedAt = Date.now();
+        const model = pickModel(optionalString(body.model), 'image');
+        try {
+            const result = await generateImages({ prompt, count, aspectRatio, model });
+            logUsage({ user, siteId, operation: params.operation, model: result.model, imageCount: result.images.length, startedAt });
+            return result;
+        } catch (error) {
+            logUsage({ user, siteId, operation: params.operation, model, error: error instanceof Error ? error.message : String(error), startedAt });
+            throw error;
+        }
+    });
+};
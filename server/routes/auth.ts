@@ -0,0 +1,84 @@
+// server/routes/auth.ts
+
+import { randomUUID } from 'node:crypto';
+import { db, transaction } from '../db.ts';
+import { config } from '../config.ts';
+import { HttpError, clientIp, requireString, type Router } from '../http.ts';
+import { bearerToken, createSession, hashPassword, refreshSession, requireUser, revokeSession, toPublicUser, verifyPassword, type UserRow } from '../auth.ts';
+import { createRateLimiter } from '../rateLimit.ts';
+
+const MIN_PASSWORD_LENGTH = 8;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const registrationLimiter = createRateLimiter(config.registrationsPerIpPerHour, 60 * 60 * 1000);
+
+export const registerAuthRoutes = (router: Router) => {
+    // Registering creates a new team with the new user as its editor.
+    router.post('/api/auth/register', async ({ req, res, body }) => {
+        // Per-user and per-team AI limits mean little if accounts can be made without limit.
+        const ip = clientIp(req);
+        const retryAfter = registrationLimiter.retryAfter(ip);
+        if (retryAfter > 0) {
+            res.setHeader('Retry-After', String(retryAfter));
+            throw new HttpError(429, 'Too many accounts were created from this address. Please try again later.');
+        }
+
+        const name = requireString(body, 'name');
+        const email = requireString(body, 'email').toLowerCase();
+        const password = typeof body?.password === 'string' ? body.password : '';
+        const teamName = typeof body?.teamName === 'string' && body.teamName.trim() ? body.teamName.trim() : `${name}'s Team`;
+
+        if (!EMAIL_PATTERN.test(email)) {
+            throw new HttpError(400, 'Please provide a valid email address.');
+        }
+        if (password.length < MIN_PASSWORD_LENGTH) {
+            throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+        }
+        if (db.prepare('SELECT 1 FROM users WHERE email = ?').get(email)) {
+            throw new HttpError(409, 'An account with this email already exists.');
+        }
+
+        const passwordHash = await hashPassword(password);
+        const now = new Date().toISOString();
+        const user = transaction(() => {
+            const teamId = randomUUID();
+            const userId = randomUUID();
+            db.prepare('INSERT INTO teams (id, name, created_at) VALUES (?, ?, ?)').run(teamId, teamName, now);
+            db.prepare(`
+                INSERT INTO users (id, team_id, name, email, role, password_hash, created_at)
+                VALUES (?, ?, ?, ?, 'editor', ?, ?)
+            `).run(userId, teamId, name, email, passwordHash, now);
+            return db.prepare('SELECT * FROM users WHERE id = ?').get(userId) as unknown as UserRow;
+        });
+        registrationLimiter.record(ip);
+
+        return { user: toPublicUser(user), ...createSession(user.id) };
+    });
+
+    router.post('/api/auth/login', async ({ body }) => {
+        const email = requireString(body, 'email').toLowerCase();
+        const password = typeof body?.password === 'string' ? body.password : '';
+
+        const user = db.prepare('SELECT * FROM users WHERE email = ?').get(email) as unknown as UserRow | undefined;
+        // Same message for unknown email and wrong password, so accounts can't be enumerated.
+        if (!user || !(await verifyPassword(password, user.password_hash))) {
+            throw new HttpError(401, 'Invalid credentials.');
+        }
+        return { user: toPublicUser(user), ...createSession(user.id) };
+    });
+
+    router.post('/api/auth/refresh', ({ body }) => {
+        const { tokens, user } = refreshSession(requireString(body, 'refreshToken'));
+        return { user: toPublicUser(user), ...tokens };
+    });
+
+    router.get('/api/auth/session', ({ req }) => ({ user: toPublicUser(requireUser(req)) }));
+
+    router.post('/api/auth/logout', ({ req }) => {
+        const token = bearerToken(req);
+        if (token) {
+            revokeSession(token);
+        }
+        return undefined;
+    });
+};
@@ -0,0 +1,27 @@
+// server/routes/content.ts
+
+import type { Router } from '../http.ts';
+import { requireUser } from '../auth.ts';
+import { createTeamStore, requireRecord } from '../store.ts';
+
+const content = createTeamStore('content');
+
+export const registerContentRoutes = (router: Router) => {
+    router.get('/api/content', ({ req }) => content.list(requireUser(req).team_id));
+
+    // The author is whoever saves the item first, not whatever the client claims.
+    router.post('/api/content', ({ req, body }) => {
+        const user = requireUser(req);
+        const item = { ...requireRecord(body), authorId: user.id };
+        return content.insert(user.team_id, item, { author_id: user.id });
+    });
+
+    router.patch('/api/content/:id', ({ req, params, body }) => {
+        const { authorId, ...updates } = body || {};
+        return content.update(requireUser(req).team_id, params.id, updates);
+    });
+
+    router.delete('/api/content/:id', ({ req, params }) => {
+        content.remove(requireUser(req).team_id, params.id);
+    });
+};
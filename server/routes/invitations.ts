@@ -0,0 +1,65 @@
+// server/routes/invitations.ts
+// The invitee side of team invitations. The token from the invite link identifies the
+// invitation, and it only works for the account with the invited email address.
+
+import { db, transaction } from '../db.ts';
+import { HttpError, requireString, type Router } from '../http.ts';
+import { hashToken, requireUser, toPublicUser, type Role, type UserRow } from '../auth.ts';
+import { assertKeepsAnEditor, moveUserToTeam } from '../teams.ts';
+import { toPublicInvitation } from './teams.ts';
+
+interface PendingInvitation {
+    id: string;
+    team_id: string;
+    team_name: string;
+    inviter_name: string | null;
+    email: string;
+    role: Role;
+    invited_by: string | null;
+    status: string;
+    created_at: string;
+    expires_at: string;
+}
+
+const findInvitation = (token: string, user: UserRow): PendingInvitation => {
+    const invitation = db.prepare(`
+        SELECT invitations.*, teams.name AS team_name, users.name AS inviter_name
+        FROM invitations
+        JOIN teams ON teams.id = invitations.team_id
+        LEFT JOIN users ON users.id = invitations.invited_by
+        WHERE invitations.token_hash = ? AND invitations.status = 'pending' AND invitations.expires_at > ?
+    `).get(hashToken(token), new Date().toISOString()) as unknown as PendingInvitation | undefined;
+    if (!invitation) {
+        throw new HttpError(404, 'This invitation is invalid or has expired.');
+    }
+    if (invitation.email.toLowerCase() !== user.email.toLowerCase()) {
+        throw new HttpError(403, `This invitation was sent to ${invitation.email}. Log in with that account to respond.`);
+    }
+    return invitation;
+};
+
+export const registerInvitationRoutes = (router: Router) => {
+    router.post('/api/invitations/preview', ({ req, body }) => {
+        const invitation = findInvitation(requireString(body, 'token'), requireUser(req));
+        return { ...toPublicInvitation(invitation), teamName: invitation.team_name, inviterName: invitation.inviter_name };
+    });
+
+    router.post('/api/invitations/accept', ({ req, body }) => {
+        const user = requireUser(req);
+        const invitation = findInvitation(requireString(body, 'token'), user);
+        if (invitation.team_id === user.team_id) {
+            throw new HttpError(409, 'You are already a member of this team.');
+        }
+        assertKeepsAnEditor(user);
+        const updated = transaction(() => {
+            db.prepare(`UPDATE invitations SET status = 'accepted' WHERE id = ?`).run(invitation.id);
+            return moveUserToTeam(user.id, invitation.team_id, invitation.role);
+        });
+        return { user: toPublicUser(updated) };
+    });
+
+    router.post('/api/invitations/decline', ({ req, body }) => {
+        const invitation = findInvitation(requireString(body, 'token'), requireUser(req));
+        db.prepare(`UPDATE invitations SET status = 'declined' WHERE id = ?`).run(invitation.id);
+    });
+};
@@ -0,0 +1,82 @@
+// server/routes/linkIndex.ts
+// The link index of each site: its pages with their keywords and outbound links. The browser
+// builds it from WordPress and the library and replaces a site's whole index in one request.
+
+import { db, transaction } from '../db.ts';
+import { HttpError, type Router } from '../http.ts';
+import { requireUser } from '../auth.ts';
+import { createTeamStore } from '../store.ts';
+
+const sites = createTeamStore('sites');
+
+const LIST_FIELDS = ['keywords', 'outboundLinks'];
+
+interface LinkIndexRow {
+    url: string;
+    data: string;
+    updated_at: string;
+}
+
+const toEntry = (row: LinkIndexRow) => ({ ...JSON.parse(row.data), url: row.url, updatedAt: row.updated_at });
+
+const isHttpUrl = (value: unknown): value is string => {
+    if (typeof value !== 'string') return false;
+    try {
+        return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+        return false;
+    }
+};
+
+const checkEntry = (entry: any, index: number) => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+        throw new HttpError(400, `Entry ${index} must be an object.`);
+    }
+    if (!isHttpUrl(entry.url)) {
+        throw new HttpError(400, `Entry ${index} needs an http(s) 'url'.`);
+    }
+    if (typeof entry.title !== 'string') {
+        throw new HttpError(400, `Entry ${index} needs a 'title'.`);
+    }
+    LIST_FIELDS.forEach(field => {
+        const value = entry[field];
+        if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+            throw new HttpError(400, `'${field}' of entry ${index} must be a list of strings.`);
+        }
+    });
+};
+
+const listEntries = (teamId: string, siteId: string) =>
+    (db.prepare('SELECT url, data, updated_at FROM link_index WHERE team_id = ? AND site_id = ? ORDER BY url')
+        .all(teamId, siteId) as unknown as LinkIndexRow[]).map(toEntry);
+
+/** Removes a site's index; called when the site itself is deleted. */
+export const removeLinkIndex = (teamId: string, siteId: string) => {
+    db.prepare('DELETE FROM link_index WHERE team_id = ? AND site_id = ?').run(teamId, siteId);
+};
+
+export const registerLinkIndexRoutes = (router: Router) => {
+    router.get('/api/link-index/:siteId', ({ req, params }) => {
+        const user = requireUser(req);
+        sites.get(user.team_id, params.siteId);
+        return listEntries(user.team_id, params.siteId);
+    });
+
+    router.put('/api/link-index/:siteId', ({ req, params, body }) => {
+        const user = requireUser(req);
+        sites.get(user.team_id, params.siteId);
+        const entries = body?.entries;
+        if (!Array.isArray(entries)) {
+            throw new HttpError(400, "'entries' must be a list.");
+        }
+        entries.forEach(checkEntry);
+
+        const now = new Date().toISOString();
+        transaction(() => {
+            removeLinkIndex(user.team_id, params.siteId);
+            const insert = db.prepare('INSERT OR REPLACE INTO link_index (team_id, site_id, url, data, updated_at) VALUES (?, ?, ?, ?, ?)');
+            entries.forEach(({ url, updatedAt, ...data }) => insert.run(user.team_id, params.siteId, url, JSON.stringify(data), now));
+        });
+        return listEntries(user.team_id, params.siteId);
+    });
+};
@@ -0,0 +1,114 @@
+// server/routes/prompts.ts
+// Team and site overrides of the prompt templates in services/promptTemplates.ts. Every save adds a
+// version instead of replacing the last one, so generated content can point at the exact prompt
+// that produced it. The templates themselves are shared with the client; the AI routes render them
+// with the override in effect, so the proxy never relays a prompt the app didn't write.
+
+import { db, transaction } from '../db.ts';
+import { HttpError, requireString, type Router } from '../http.ts';
+import { requireEditor, requireUser, type UserRow } from '../auth.ts';
+import { PROMPT_TEMPLATE_IDS, type PromptTemplateId } from '../../services/promptTemplates.ts';
+
+interface TemplateVersionRow {
+    site_id: string;
+    template_id: string;
+    version: number;
+    system_instruction: string | null;
+    user_prompt: string | null;
+    created_by: string | null;
+    created_at: string;
+}
+
+const toOverride = (row: TemplateVersionRow) => ({
+    templateId: row.template_id,
+    siteId: row.site_id || null,
+    version: row.version,
+    systemInstruction: row.system_instruction ?? '',
+    userPrompt: row.user_prompt ?? '',
+    updatedBy: row.created_by,
+    updatedAt: row.created_at,
+});
+
+const requireTemplateId = (value: string): string => {
+    if (!PROMPT_TEMPLATE_IDS.includes(value as PromptTemplateId)) {
+        throw new HttpError(400, `Unknown prompt template '${value}'.`);
+    }
+    return value;
+};
+
+// '' stands for the whole team.
+const requireScope = (editor: UserRow, siteId: unknown): string => {
+    if (siteId === undefined || siteId === null || siteId === '') return '';
+    if (typeof siteId !== 'string' || !db.prepare('SELECT 1 FROM sites WHERE team_id = ? AND id = ?').get(editor.team_id, siteId)) {
+        throw new HttpError(400, `Unknown site '${String(siteId)}'.`);
+    }
+    return siteId;
+};
+
+const latestVersion = (teamId: string, siteId: string, templateId: string): TemplateVersionRow | undefined =>
+    db.prepare(`
+        SELECT * FROM prompt_template_versions WHERE team_id = ? AND site_id = ? AND template_id = ?
+        ORDER BY version DESC LIMIT 1
+    `).get(teamId, siteId, templateId) as unknown as TemplateVersionRow | undefined;
+
+/** The override a generator for `siteId` renders: the site's own, else the team's, else none. */
+export const effectiveOverride = (teamId: string, siteId: string | undefined, templateId: string) => {
+    const row = (siteId ? [siteId, ''] : [''])
+        .map(scope => latestVersion(teamId, scope, templateId))
+        .find(version => version?.user_prompt != null);
+    return row && toOverride(row);
+};
+
+const addVersion = (editor: UserRow, siteId: string, templateId: string, systemInstruction: string | null, userPrompt: string | null): TemplateVersionRow =>
+    transaction(() => {
+        const row: TemplateVersionRow = {
+            site_id: siteId,
+            template_id: templateId,
+            version: (latestVersion(editor.team_id, siteId, templateId)?.version ?? 0) + 1,
+            system_instruction: systemInstruction,
+            user_prompt: userPrompt,
+            created_by: editor.id,
+            created_at: new Date().toISOString(),
+        };
+        db.prepare(`
+            INSERT INTO prompt_template_versions (team_id, site_id, template_id, version, system_instruction, user_prompt, created_by, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(editor.team_id, row.site_id, row.template_id, row.version, row.system_instruction, row.user_prompt, row.created_by, row.created_at);
+        return row;
+    });
+
+export const registerPromptRoutes = (router: Router) => {
+    // The overrides in effect: the latest version of each, unless that version removed it.
+    router.get('/api/prompt-templates', ({ req }) => {
+        const user = requireUser(req);
+        const rows = db.prepare(`
+            SELECT * FROM prompt_template_versions AS current
+            WHERE team_id = ? AND user_prompt IS NOT NULL AND version = (
+                SELECT MAX(version) FROM prompt_template_versions AS other
+                WHERE other.team_id = current.team_id AND other.site_id = current.site_id AND other.template_id = current.template_id
+            )
+            ORDER BY template_id, site_id
+        `).all(user.team_id) as unknown as TemplateVersionRow[];
+        return rows.map(toOverride);
+    });
+
+    router.put('/api/prompt-templates/:templateId', ({ req, params, body }) => {
+        const editor = requireEditor(req);
+        const templateId = requireTemplateId(params.templateId);
+        const siteId = requireScope(editor, body?.siteId);
+        const userPrompt = requireString(body, 'userPrompt');
+        const systemInstruction = typeof body.systemInstruction === 'string' ? body.systemInstruction : '';
+        return toOverride(addVersion(editor, siteId, templateId, systemInstruction, userPrompt));
+    });
+
+    // Goes back to the next broader prompt: the team override for a site, the built-in one for the team.
+    router.delete('/api/prompt-templates/:templateId', ({ req, params, query }) => {
+        const editor = requireEditor(req);
+        const templateId = requireTemplateId(params.templateId);
+        const siteId = requireScope(editor, query.get('siteId'));
+        if (latestVersion(editor.team_id, siteId, templateId)?.user_prompt != null) {
+            addVersion(editor, siteId, templateId, null, null);
+        }
+        return undefined;
+    });
+};
@@ -0,0 +1,119 @@
+// server/routes/sites.ts
+// Application passwords are write-only: they are encrypted into `sites.app_password` and the
+// browser only ever sees `hasAppPassword`. All WordPress traffic goes through the proxy below.
+
+import { db, transaction } from '../db.ts';
+import { HttpError, requireString, type Handler, type Router } from '../http.ts';
+import { requireUser } from '../auth.ts';
+import { decryptSecret, encryptSecret } from '../secrets.ts';
+import { createTeamStore, requireRecord, type StoredRecord } from '../store.ts';
+import { normalizeSiteUrl, verifyCredentials, wordpressFetch, type WordPressCredentials } from '../wordpress.ts';
+import { removeLinkIndex } from './linkIndex.ts';
+
+const sites = createTeamStore('sites');
+
+// Headers the client needs from WordPress responses (pagination totals and the body type).
+const RELAYED_HEADERS = ['content-type', 'x-wp-total', 'x-wp-totalpages'];
+const FORWARDED_HEADERS = ['content-type', 'content-disposition'];
+
+const readAppPassword = (teamId: string, siteId: string): string => {
+    const row = db.prepare('SELECT app_password FROM sites WHERE team_id = ? AND id = ?').get(teamId, siteId) as { app_password: string | null } | undefined;
+    return row?.app_password ? decryptSecret(row.app_password) : '';
+};
+
+/** The address and stored credentials of a saved site, for calling its REST API from the server. */
+export const siteCredentials = (teamId: string, site: StoredRecord): WordPressCredentials =>
+    ({ url: String(site.url), username: String(site.username || ''), appPassword: readAppPassword(teamId, site.id) });
+
+const proxyToWordPress: Handler = async ({ req, res, params, query, rawBody }) => {
+    const user = requireUser(req);
+    const site = sites.get(user.team_id, params.id);
+    if (site.isVirtual) {
+        throw new HttpError(400, 'Virtual sites are not connected to WordPress.');
+    }
+
+    const headers: Record<string, string> = {};
+    FORWARDED_HEADERS.forEach(name => {
+        const value = req.headers[name];
+        if (typeof value === 'string') headers[name] = value;
+    });
+    const upstream = await wordpressFetch(
+        siteCredentials(user.team_id, site),
+        params.rest,
+        { method: req.method, query, headers, body: rawBody }
+    );
+
+    // Marks the status as WordPress's own, so a relayed 401 isn't mistaken for an expired session.
+    const responseHeaders: Record<string, string> = { 'X-Upstream-Status': String(upstream.status) };
+    RELAYED_HEADERS.forEach(name => {
+        const value = upstream.headers.get(name);
+        if (value) responseHeaders[name] = value;
+    });
+    res.writeHead(upstream.status, responseHeaders);
+    res.end(Buffer.from(await upstream.arrayBuffer()));
+};
+
+export const registerSiteRoutes = (router: Router) => {
+    router.get('/api/sites', ({ req }) => sites.list(requireUser(req).team_id));
+
+    // Lets the browser check credentials before the site is saved.
+    router.post('/api/sites/verify', async ({ req, body }) => {
+        requireUser(req);
+        return verifyCredentials({
+            url: normalizeSiteUrl(requireString(body, 'url')),
+            username: requireString(body, 'username'),
+            appPassword: requireString(body, 'appPassword'),
+        });
+    });
+
+    router.post('/api/sites', ({ req, body }) => {
+        const { appPassword, hasAppPassword, ...site } = requireRecord(body);
+        const password = typeof appPassword === 'string' ? appPassword.trim() : '';
+        return sites.insert(
+            requireUser(req).team_id,
+            { ...site, hasAppPassword: !!password },
+            { app_password: password ? encryptSecret(password) : null }
+        );
+    });
+
+    // The stored password goes wherever `url` points, so a connected site's address and username only
+    // change together with a new password, through the credentials route below.
+    router.patch('/api/sites/:id', ({ req, params, body }) => {
+        const user = requireUser(req);
+        const site = sites.get(user.team_id, params.id);
+        const { appPassword, hasAppPassword, ...updates } = body || {};
+        const changes = (field: string) => updates[field] !== undefined && updates[field] !== site[field];
+        if (changes('isVirtual') || (!site.isVirtual && (changes('url') || changes('username')))) {
+            throw new HttpError(400, 'The URL and username of a connected site can only be changed together with its application password.');
+        }
+        return sites.update(user.team_id, site.id, updates);
+    });
+
+    // Replaces the stored password, and optionally the URL and username, but only once WordPress at
+    // that URL has accepted the new password.
+    router.put('/api/sites/:id/credentials', async ({ req, params, body }) => {
+        const user = requireUser(req);
+        const site = sites.get(user.team_id, params.id);
+        if (site.isVirtual) {
+            throw new HttpError(400, 'Virtual sites are not connected to WordPress.');
+        }
+        const url = body?.url === undefined ? String(site.url) : normalizeSiteUrl(requireString(body, 'url'));
+        const username = requireString(body, 'username');
+        const appPassword = requireString(body, 'appPassword');
+        await verifyCredentials({ url, username, appPassword });
+        return sites.update(user.team_id, site.id, { url, username, hasAppPassword: true }, { app_password: encryptSecret(appPassword) });
+    });
+
+    router.delete('/api/sites/:id', ({ req, params }) => {
+        const user = requireUser(req);
+        transaction(() => {
+            sites.remove(user.team_id, params.id);
+            removeLinkIndex(user.team_id, params.id);
+        });
+    });
+
+    router.get('/api/sites/:id/wp-json/*', proxyToWordPress);
+    router.post('/api/sites/:id/wp-json/*', proxyToWordPress);
+    router.put('/api/sites/:id/wp-json/*', proxyToWordPress);
+    router.delete('/api/sites/:id/wp-json/*', proxyToWordPress);
+};
@@ -0,0 +1,144 @@
+// server/routes/teams.ts
+
+import { randomUUID } from 'node:crypto';
+import { config } from '../config.ts';
+import { db, transaction } from '../db.ts';
+import { HttpError, requireString, type Router } from '../http.ts';
+import { hashToken, newToken, requireUser, toPublicUser, type UserRow } from '../auth.ts';
+import { assertKeepsAnEditor, insertTeam, moveUserToTeam, parseRole, requireTeamEditor } from '../teams.ts';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface InvitationRow {
+    id: string;
+    team_id: string;
+    email: string;
+    role: string;
+    invited_by: string | null;
+    status: string;
+    created_at: string;
+    expires_at: string;
+}
+
+export const toPublicInvitation = (row: InvitationRow) => ({
+    id: row.id,
+    teamId: row.team_id,
+    email: row.email,
+    role: row.role,
+    invitedBy: row.invited_by,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+});
+
+const findMember = (teamId: string, userId: string): UserRow => {
+    const member = db.prepare('SELECT * FROM users WHERE id = ? AND team_id = ?').get(userId, teamId) as unknown as UserRow | undefined;
+    if (!member) {
+        throw new HttpError(404, 'User not found.');
+    }
+    return member;
+};
+
+export const registerTeamRoutes = (router: Router) => {
+    router.get('/api/teams/:id', ({ req, params }) => {
+        const user = requireUser(req);
+        if (params.id !== user.team_id) {
+            throw new HttpError(404, 'Team not found.');
+        }
+        const team = db.prepare('SELECT id, name FROM teams WHERE id = ?').get(params.id) as { id: string; name: string };
+        const members = db.prepare('SELECT id FROM users WHERE team_id = ? ORDER BY created_at').all(params.id) as { id: string }[];
+        return { id: team.id, name: team.name, members: members.map(m => m.id) };
+    });
+
+    router.get('/api/users/:id', ({ req, params }) => toPublicUser(findMember(requireUser(req).team_id, params.id)));
+
+    // Creating a team moves the caller out of their current one, as its first editor.
+    router.post('/api/teams', ({ req, body }) => {
+        const user = requireUser(req);
+        const name = requireString(body, 'name');
+        assertKeepsAnEditor(user);
+        const updated = transaction(() => moveUserToTeam(user.id, insertTeam(name), 'editor'));
+        return { user: toPublicUser(updated) };
+    });
+
+    router.get('/api/teams/:id/members', ({ req, params }) => {
+        const user = requireUser(req);
+        if (params.id !== user.team_id) {
+            throw new HttpError(404, 'Team not found.');
+        }
+        const members = db.prepare('SELECT * FROM users WHERE team_id = ? ORDER BY created_at').all(params.id) as unknown as UserRow[];
+        return members.map(toPublicUser);
+    });
+
+    router.patch('/api/teams/:id/members/:userId', ({ req, params, body }) => {
+        requireTeamEditor(req, params.id);
+        const member = findMember(params.id, params.userId);
+        const role = parseRole(body?.role);
+        if (role === 'writer') {
+            assertKeepsAnEditor(member);
+        }
+        db.prepare('UPDATE users SET role = ? WHERE id = ?').run(role, member.id);
+        return toPublicUser({ ...member, role });
+    });
+
+    // A removed member isn't deleted; they continue in a new team of their own.
+    router.delete('/api/teams/:id/members/:userId', ({ req, params }) => {
+        const editor = requireTeamEditor(req, params.id);
+        if (params.userId === editor.id) {
+            throw new HttpError(400, 'You can\'t remove yourself. Create or join another team instead.');
+        }
+        const member = findMember(params.id, params.userId);
+        transaction(() => moveUserToTeam(member.id, insertTeam(`${member.name}'s Team`), 'editor'));
+    });
+
+    router.get('/api/teams/:id/invitations', ({ req, params }) => {
+        requireTeamEditor(req, params.id);
+        const rows = db.prepare(`
+            SELECT * FROM invitations WHERE team_id = ? AND status = 'pending' AND expires_at > ? ORDER BY created_at DESC
+        `).all(params.id, new Date().toISOString()) as unknown as InvitationRow[];
+        return rows.map(toPublicInvitation);
+    });
+
+    // The token is returned once, for the invite link; only its hash is stored.
+    router.post('/api/teams/:id/invitations', ({ req, params, body }) => {
+        const editor = requireTeamEditor(req, params.id);
+        const email = requireString(body, 'email').toLowerCase();
+        const role = parseRole(body?.role ?? 'writer');
+        if (!EMAIL_PATTERN.test(email)) {
+            throw new HttpError(400, 'Please provide a valid email address.');
+        }
+        if (db.prepare('SELECT 1 FROM users WHERE email = ? AND team_id = ?').get(email, params.id)) {
+            throw new HttpError(409, 'This person is already a member of the team.');
+        }
+
+        const token = newToken();
+        const now = new Date();
+        const row: InvitationRow = {
+            id: randomUUID(),
+            team_id: params.id,
+            email,
+            role,
+            invited_by: editor.id,
+            status: 'pending',
+            created_at: now.toISOString(),
+            expires_at: new Date(now.getTime() + config.invitationTtlMs).toISOString(),
+        };
+        transaction(() => {
+            // Re-inviting someone replaces their earlier invitation.
+            db.prepare(`UPDATE invitations SET status = 'revoked' WHERE team_id = ? AND email = ? AND status = 'pending'`).run(params.id, email);
+            db.prepare(`
+                INSERT INTO invitations (id, team_id, email, role, token_hash, invited_by, status, created_at, expires_at)
+                VALUES (?, ?, ?, ?, ?, ?, 'pending', ?, ?)
+            `).run(row.id, row.team_id, row.email, row.role, hashToken(token), row.invited_by, row.created_at, row.expires_at);
+        });
+        return { ...toPublicInvitation(row), token };
+    });
+
+    router.delete('/api/teams/:id/invitations/:invitationId', ({ req, params }) => {
+        requireTeamEditor(req, params.id);
+        const { changes } = db.prepare(`UPDATE invitations SET status = 'revoked' WHERE id = ? AND team_id = ? AND status = 'pending'`)
+            .run(params.invitationId, params.id);
+        if (changes === 0) {
+            throw new HttpError(404, 'Invitation not found.');
+        }
+    });
+};
@@ -0,0 +1,135 @@
+// server/routes/usage.ts
+// The usage dashboard and monthly AI budgets. Providers the browser calls directly (OpenAI-compatible
+// servers) report their usage here and ask for a budget check first, since they bypass the proxy.
+
+import { db } from '../db.ts';
+import { HttpError, requireString, type Router } from '../http.ts';
+import { requireEditor, requireUser, type UserRow } from '../auth.ts';
+import { BUDGET_SCOPES, assertWithinBudget, currentMonth, logUsage, monthRange, monthSpend, type BudgetScope } from '../aiUsage.ts';
+import { IMAGE_OPERATIONS, TEXT_OPERATIONS, optionalSiteId, requireOperation } from './ai.ts';
+
+const MONTHS_IN_HISTORY = 12;
+
+const TOTALS = `
+    COUNT(*) AS requests, TOTAL(status = 'error') AS failedRequests,
+    TOTAL(prompt_tokens) AS promptTokens, TOTAL(output_tokens) AS outputTokens,
+    TOTAL(image_count) AS images, TOTAL(cost_usd) AS costUsd
+`;
+
+interface BudgetRow {
+    scope: BudgetScope;
+    scope_id: string;
+    monthly_limit_usd: number;
+}
+
+const listBudgets = (teamId: string) =>
+    (db.prepare('SELECT scope, scope_id, monthly_limit_usd FROM ai_budgets WHERE team_id = ? ORDER BY scope, scope_id').all(teamId) as unknown as BudgetRow[])
+        .map(row => ({
+            scope: row.scope,
+            scopeId: row.scope_id,
+            monthlyLimitUsd: row.monthly_limit_usd,
+            spentUsd: monthSpend(teamId, row.scope, row.scope_id),
+        }));
+
+const parseMonth = (value: string | null): string => {
+    if (value === null) return currentMonth();
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(value)) {
+        throw new HttpError(400, "'month' must look like 2025-01.");
+    }
+    return value;
+};
+
+const nonNegativeInteger = (body: any, field: string): number => {
+    const value = body?.[field] ?? 0;
+    if (!Number.isInteger(value) || value < 0) {
+        throw new HttpError(400, `'${field}' must be a non-negative integer.`);
+    }
+    return value;
+};
+
+/** The team, user or site a budget applies to; users and sites must belong to the editor's team. */
+const requireBudgetTarget = (editor: UserRow, scope: BudgetScope, scopeId: unknown): string => {
+    if (scope === 'team') return editor.team_id;
+    const table = scope === 'user' ? 'users' : 'sites';
+    if (typeof scopeId !== 'string' || !db.prepare(`SELECT 1 FROM ${table} WHERE team_id = ? AND id = ?`).get(editor.team_id, scopeId)) {
+        throw new HttpError(400, `Unknown ${scope} '${String(scopeId)}'.`);
+    }
+    return scopeId;
+};
+
+export const registerUsageRoutes = (router: Router) => {
+    router.get('/api/ai/usage', ({ req, query }) => {
+        const user = requireUser(req);
+        const month = parseMonth(query.get('month'));
+        const [start, end] = monthRange(month);
+        const inMonth = 'team_id = ? AND created_at >= ? AND created_at < ?';
+
+        const userNames = new Map((db.prepare('SELECT id, name FROM users WHERE team_id = ?').all(user.team_id) as { id: string; name: string }[]).map(row => [row.id, row.name]));
+        const siteNames = new Map((db.prepare('SELECT id, data FROM sites WHERE team_id = ?').all(user.team_id) as { id: string; data: string }[]).map(row => [row.id, String(JSON.parse(row.data).name ?? row.id)]));
+
+        // Months run oldest first and end with the selected one.
+        const [year, monthNumber] = month.split('-').map(Number);
+        const historyStart = new Date(Date.UTC(year, monthNumber - MONTHS_IN_HISTORY, 1)).toISOString().slice(0, 10);
+
+        return {
+            month,
+            totals: db.prepare(`SELECT ${TOTALS} FROM ai_usage WHERE ${inMonth}`).get(user.team_id, start, end),
+            byUser: (db.prepare(`SELECT user_id AS userId, ${TOTALS} FROM ai_usage WHERE ${inMonth} GROUP BY user_id ORDER BY costUsd DESC`).all(user.team_id, start, end) as { userId: string | null }[])
+                .map(row => ({ ...row, name: row.userId ? userNames.get(row.userId) ?? null : null })),
+            bySite: (db.prepare(`SELECT site_id AS siteId, ${TOTALS} FROM ai_usage WHERE ${inMonth} GROUP BY site_id ORDER BY costUsd DESC`).all(user.team_id, start, end) as { siteId: string | null }[])
+                .map(row => ({ ...row, name: row.siteId ? siteNames.get(row.siteId) ?? null : null })),
+            byMonth: db.prepare(`SELECT substr(created_at, 1, 7) AS month, ${TOTALS} FROM ai_usage WHERE ${inMonth} GROUP BY month ORDER BY month`).all(user.team_id, historyStart, end),
+            budgets: listBudgets(user.team_id),
+        };
+    });
+
+    // Usage of providers the browser calls directly. Cost is estimated here, not taken from the client.
+    router.post('/api/ai/usage', ({ req, body }) => {
+        const user = requireUser(req);
+        const operation = requireString(body, 'operation');
+        requireOperation(operation, [...TEXT_OPERATIONS, ...IMAGE_OPERATIONS]);
+        logUsage({
+            user,
+            siteId: optionalSiteId(user, body.siteId),
+            operation,
+            model: requireString(body, 'model'),
+            promptTokens: nonNegativeInteger(body, 'promptTokens'),
+            outputTokens: nonNegativeInteger(body, 'outputTokens'),
+            imageCount: nonNegativeInteger(body, 'imageCount'),
+            error: typeof body.error === 'string' ? body.error : undefined,
+            startedAt: Date.now() - nonNegativeInteger(body, 'durationMs'),
+        });
+        return undefined;
+    });
+
+    // 204 when a direct provider may go ahead, 402 when a budget is used up.
+    router.get('/api/ai/budget-check', ({ req, query }) => {
+        const user = requireUser(req);
+        assertWithinBudget(user, optionalSiteId(user, query.get('siteId')));
+        return undefined;
+    });
+
+    router.get('/api/ai/budgets', ({ req }) => listBudgets(requireUser(req).team_id));
+
+    // Sets one budget; a null limit removes it.
+    router.put('/api/ai/budgets', ({ req, body }) => {
+        const editor = requireEditor(req);
+        const scope = body?.scope;
+        if (!BUDGET_SCOPES.includes(scope)) {
+            throw new HttpError(400, `'scope' must be one of ${BUDGET_SCOPES.join(', ')}.`);
+        }
+        const scopeId = requireBudgetTarget(editor, scope, body.scopeId);
+        const limit = body.monthlyLimitUsd;
+        if (limit === null) {
+            db.prepare('DELETE FROM ai_budgets WHERE team_id = ? AND scope = ? AND scope_id = ?').run(editor.team_id, scope, scopeId);
+        } else if (typeof limit === 'number' && Number.isFinite(limit) && limit >= 0) {
+            db.prepare(`
+                INSERT INTO ai_budgets (team_id, scope, scope_id, monthly_limit_usd, updated_at) VALUES (?, ?, ?, ?, ?)
+                ON CONFLICT (team_id, scope, scope_id) DO UPDATE SET monthly_limit_usd = excluded.monthly_limit_usd, updated_at = excluded.updated_at
+            `).run(editor.team_id, scope, scopeId, limit, new Date().toISOString());
+        } else {
+            throw new HttpError(400, "'monthlyLimitUsd' must be a non-negative number or null.");
+        }
+        return listBudgets(editor.team_id);
+    });
+};
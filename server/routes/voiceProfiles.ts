@@ -0,0 +1,59 @@
+// server/routes/voiceProfiles.ts
+// Named brand voices shared by the team. Editors manage them; sites pick one through
+// `voiceProfileId`, which is cleared on every site when its profile is deleted.
+
+import { transaction } from '../db.ts';
+import { HttpError, type Router } from '../http.ts';
+import { requireEditor, requireUser } from '../auth.ts';
+import { createTeamStore, requireRecord } from '../store.ts';
+
+const profiles = createTeamStore('voice_profiles');
+const sites = createTeamStore('sites');
+
+const LIST_FIELDS = ['dos', 'donts', 'examples', 'bannedWords'];
+
+/** Checks the profile fields present in `fields`; with `partial` unset, a name is required too. */
+const checkProfileFields = (fields: Record<string, unknown>, partial: boolean) => {
+    if (!partial || 'name' in fields) {
+        if (typeof fields.name !== 'string' || !fields.name.trim()) {
+            throw new HttpError(400, "'name' is required.");
+        }
+    }
+    if ('description' in fields && typeof fields.description !== 'string') {
+        throw new HttpError(400, "'description' must be a string.");
+    }
+    LIST_FIELDS.forEach(field => {
+        const value = fields[field];
+        if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string'))) {
+            throw new HttpError(400, `'${field}' must be a list of strings.`);
+        }
+    });
+};
+
+export const registerVoiceProfileRoutes = (router: Router) => {
+    router.get('/api/voice-profiles', ({ req }) => profiles.list(requireUser(req).team_id));
+
+    router.post('/api/voice-profiles', ({ req, body }) => {
+        const editor = requireEditor(req);
+        const profile = requireRecord(body);
+        checkProfileFields(profile, false);
+        return profiles.insert(editor.team_id, profile);
+    });
+
+    router.patch('/api/voice-profiles/:id', ({ req, params, body }) => {
+        const editor = requireEditor(req);
+        const updates = body || {};
+        checkProfileFields(updates, true);
+        return profiles.update(editor.team_id, params.id, updates);
+    });
+
+    router.delete('/api/voice-profiles/:id', ({ req, params }) => {
+        const editor = requireEditor(req);
+        transaction(() => {
+            profiles.remove(editor.team_id, params.id);
+            sites.list(editor.team_id)
+                .filter(site => site.voiceProfileId === params.id)
+                .forEach(site => sites.update(editor.team_id, site.id, { voiceProfileId: null }));
+        });
+    });
+};
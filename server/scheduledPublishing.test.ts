@@ -0,0 +1,114 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { config } from './config.ts';
+import { MISSED_SCHEDULE_GRACE_MS, isDue, reconcileScheduledItem, type ScheduledItem } from './scheduledPublishing.ts';
+
+const now = Date.parse('2024-05-01T09:10:00Z');
+const item = (changes: Partial<ScheduledItem> = {}): ScheduledItem =>
+    ({ id: 'a', type: 'article', title: 'Cold brew', wordpressId: 7, scheduledFor: '2024-05-01T09:00:00.000Z', ...changes });
+
+// A mock WordPress answering each request with the next reply; 'drop' closes the connection instead.
+type Reply = { status?: number; json: unknown } | 'drop';
+
+const allowedPrivateHosts = config.allowPrivateSiteHosts;
+let server: Server;
+let site = { url: '', username: 'editor', appPassword: 'secret' };
+let requests: { method: string; path: string; body?: unknown }[];
+let replies: Reply[];
+
+beforeAll(async () => {
+    config.allowPrivateSiteHosts = true;
+    server = createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            requests.push({ method: req.method!, path: new URL(req.url!, 'http://wordpress').pathname, body: body ? JSON.parse(body) : undefined });
+            const reply = replies.shift();
+            if (!reply || reply === 'drop') {
+                req.socket.destroy();
+                return;
+            }
+            res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' }).end(JSON.stringify(reply.json));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    site = { ...site, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+});
+
+afterAll(async () => {
+    config.allowPrivateSiteHosts = allowedPrivateHosts;
+    await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+    requests = [];
+    replies = [];
+});
+
+const post = (status: string, link = 'https://blog.test/cold-brew/'): Reply => ({ json: { status, link } });
+
+describe('isDue', () => {
+    it('is true once the time has come and no retry is pending', () => {
+        expect(isDue(item(), now)).toBe(true);
+        expect(isDue(item({ scheduledFor: '2024-05-01T10:00:00.000Z' }), now)).toBe(false);
+        expect(isDue(item({ nextPublishAttemptAt: '2024-05-01T09:20:00.000Z' }), now)).toBe(false);
+        expect(isDue(item({ nextPublishAttemptAt: '2024-05-01T09:05:00.000Z' }), now)).toBe(true);
+        expect(isDue(item({ scheduledFor: undefined }), now)).toBe(false);
+    });
+});
+
+describe('reconcileScheduledItem', () => {
+    it('marks a post WordPress already published as published', async () => {
+        replies.push(post('publish'));
+        expect(await reconcileScheduledItem(site, item({ publishAttempts: 2 }), now)).toEqual({
+            status: 'published', wordpressUrl: 'https://blog.test/cold-brew/', publishAttempts: null, nextPublishAttemptAt: null, publishError: null,
+        });
+        expect(requests).toEqual([{ method: 'GET', path: '/wp-json/wp/v2/posts/7', body: undefined }]);
+    });
+
+    it('leaves a `future` post to WordPress during the grace period', async () => {
+        replies.push(post('future'));
+        expect(await reconcileScheduledItem(site, item(), Date.parse('2024-05-01T09:00:00Z') + MISSED_SCHEDULE_GRACE_MS - 1)).toBeNull();
+        expect(requests).toHaveLength(1);
+    });
+
+    it('publishes a post that missed its schedule by updating it', async () => {
+        replies.push(post('future'), post('publish'));
+        expect(await reconcileScheduledItem(site, item(), now)).toMatchObject({ status: 'published', wordpressUrl: 'https://blog.test/cold-brew/' });
+        expect(requests[1]).toEqual({ method: 'POST', path: '/wp-json/wp/v2/posts/7', body: { status: 'publish' } });
+    });
+
+    it('publishes products through WooCommerce', async () => {
+        replies.push({ json: { status: 'draft', permalink: 'https://blog.test/product/bin/' } }, { json: { status: 'publish', permalink: 'https://blog.test/product/bin/' } });
+        expect(await reconcileScheduledItem(site, item({ type: 'product', wordpressId: 5 }), now)).toMatchObject({ wordpressUrl: 'https://blog.test/product/bin/' });
+        expect(requests.map(request => `${request.method} ${request.path}`)).toEqual(['GET /wp-json/wc/v3/products/5', 'PUT /wp-json/wc/v3/products/5']);
+    });
+
+    it('schedules a retry with a growing backoff when WordPress fails', async () => {
+        replies.push({ status: 500, json: { message: 'Database error' } });
+        expect(await reconcileScheduledItem(site, item(), now)).toEqual({
+            publishAttempts: 1, nextPublishAttemptAt: '2024-05-01T09:11:00.000Z', publishError: 'WordPress returned 500: Database error',
+        });
+
+        replies.push('drop');
+        expect(await reconcileScheduledItem(site, item({ publishAttempts: 3 }), now)).toMatchObject({
+            publishAttempts: 4, nextPublishAttemptAt: '2024-05-01T09:18:00.000Z', publishError: expect.stringContaining('Could not reach'),
+        });
+    });
+
+    it('retries by updating the same post, never by creating another', async () => {
+        replies.push(post('future'), 'drop');
+        await reconcileScheduledItem(site, item(), now);
+        replies.push(post('future'), post('publish'));
+        expect(await reconcileScheduledItem(site, item({ publishAttempts: 1 }), now)).toMatchObject({ status: 'published' });
+        expect(requests.every(request => request.path === '/wp-json/wp/v2/posts/7')).toBe(true);
+    });
+
+    it('sends an item without a WordPress post back to approved', async () => {
+        expect(await reconcileScheduledItem(site, item({ wordpressId: undefined }), now)).toEqual({
+            status: 'approved', scheduledFor: null, publishError: expect.any(String),
+        });
+        expect(requests).toEqual([]);
+    });
+});
@@ -0,0 +1,83 @@
+// server/scheduledPublishing.ts
+// Scheduled library items are `future` posts in WordPress, which publishes them itself. This
+// checks a due item's post and works out the library changes; server/scheduler.ts applies them.
+
+import { HttpError } from './http.ts';
+import { wordpressFetch, type WordPressCredentials } from './wordpress.ts';
+
+// WP-Cron only runs on page views, so a quiet site can miss its publish time ("Missed schedule").
+// Past this grace period we publish the post ourselves.
+export const MISSED_SCHEDULE_GRACE_MS = 5 * 60 * 1000;
+const BASE_BACKOFF_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+/** The fields of a stored library item the scheduler reads. */
+export interface ScheduledItem {
+    id: string;
+    type?: unknown;
+    title?: unknown;
+    wordpressId?: unknown;
+    scheduledFor?: unknown;
+    publishAttempts?: unknown;
+    nextPublishAttemptAt?: unknown;
+}
+
+const timeOf = (value: unknown): number => typeof value === 'string' ? new Date(value).getTime() : NaN;
+
+/** Whether a `scheduled` item should be looked at now: its time has come and it isn't waiting to retry. */
+export const isDue = (item: ScheduledItem, now: number): boolean =>
+    timeOf(item.scheduledFor) <= now && !(timeOf(item.nextPublishAttemptAt) > now);
+
+const postPath = (item: ScheduledItem, postId: number) =>
+    item.type === 'product' ? `/wc/v3/products/${postId}` : `/wp/v2/posts/${postId}`;
+
+const readPost = async (response: Response): Promise<{ status: string; link: string }> => {
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        const detail = typeof body?.message === 'string' ? `: ${body.message}` : '';
+        throw new HttpError(502, `WordPress returned ${response.status}${detail}`);
+    }
+    const body = await response.json();
+    // Products report their address as `permalink`.
+    return { status: String(body.status), link: String(body.link ?? body.permalink ?? '') };
+};
+
+/**
+ * Checks the post of a due item and returns the changes to store (null clears a field), or null
+ * when WordPress still has time to publish it. Failures come back as a retry with backoff.
+ */
+export const reconcileScheduledItem = async (
+    site: WordPressCredentials,
+    item: ScheduledItem,
+    now: number
+): Promise<Record<string, unknown> | null> => {
+    const postId = item.wordpressId;
+    // Items scheduled before scheduling went through WordPress have no post to publish.
+    if (typeof postId !== 'number') {
+        return { status: 'approved', scheduledFor: null, publishError: 'This item has no WordPress post yet. Schedule it again.' };
+    }
+
+    try {
+        const path = postPath(item, postId);
+        let post = await readPost(await wordpressFetch(site, path, { query: new URLSearchParams({ _fields: 'status,link,permalink' }) }));
+        if (post.status === 'future' && now - timeOf(item.scheduledFor) < MISSED_SCHEDULE_GRACE_MS) {
+            return null;
+        }
+        if (post.status !== 'publish') {
+            post = await readPost(await wordpressFetch(site, path, {
+                method: item.type === 'product' ? 'PUT' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: Buffer.from(JSON.stringify({ status: 'publish' })),
+            }));
+        }
+        return { status: 'published', wordpressUrl: post.link, publishAttempts: null, nextPublishAttemptAt: null, publishError: null };
+    } catch (error) {
+        const attempts = (typeof item.publishAttempts === 'number' ? item.publishAttempts : 0) + 1;
+        const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+        return {
+            publishAttempts: attempts,
+            nextPublishAttemptAt: new Date(now + backoff).toISOString(),
+            publishError: error instanceof Error ? error.message : String(error),
+        };
+    }
+};
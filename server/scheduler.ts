@@ -0,0 +1,80 @@
+// server/scheduler.ts
+// Publishes due scheduled items in the background, whether or not anyone has the app open.
+// Each item is claimed with a single UPDATE first, so overlapping runs never handle it twice.
+
+import { db } from './db.ts';
+import { siteCredentials } from './routes/sites.ts';
+import { isDue, reconcileScheduledItem } from './scheduledPublishing.ts';
+import { createTeamStore, type StoredRecord } from './store.ts';
+
+const INTERVAL_MS = 60 * 1000;
+// Longer than the WordPress requests of one item can take; a claim left by a crashed run expires.
+const CLAIM_MS = 5 * 60 * 1000;
+
+const content = createTeamStore('content');
+const sites = createTeamStore('sites');
+
+interface ScheduledRow {
+    team_id: string;
+    id: string;
+    data: string;
+}
+
+const claim = (teamId: string, id: string, now: number): boolean => {
+    const { changes } = db.prepare(`UPDATE content SET publishing_until = ?
+        WHERE team_id = ? AND id = ? AND json_extract(data, '$.status') = 'scheduled'
+        AND (publishing_until IS NULL OR publishing_until <= ?)`)
+        .run(new Date(now + CLAIM_MS).toISOString(), teamId, id, new Date(now).toISOString());
+    return changes === 1;
+};
+
+const release = (teamId: string, id: string) => {
+    db.prepare('UPDATE content SET publishing_until = NULL WHERE team_id = ? AND id = ?').run(teamId, id);
+};
+
+const publishItem = async (teamId: string, item: StoredRecord, now: number) => {
+    const site = typeof item.siteId === 'string' ? sites.find(teamId, item.siteId) : undefined;
+    if (!site || site.isVirtual || !claim(teamId, item.id, now)) return;
+
+    try {
+        const changes = await reconcileScheduledItem(siteCredentials(teamId, site), item, now);
+        if (changes) {
+            content.update(teamId, item.id, { ...changes, updatedAt: new Date().toISOString() }, { publishing_until: null });
+        } else {
+            release(teamId, item.id);
+        }
+    } catch (error) {
+        // The item was deleted meanwhile, or its result couldn't be stored; the next run tries again.
+        console.error(`Scheduled publishing of ${item.id} failed`, error);
+        release(teamId, item.id);
+    }
+};
+
+/** Handles every due scheduled item of every team, one at a time. */
+export const runScheduledPublishing = async (now: number = Date.now()) => {
+    const rows = db.prepare(`SELECT team_id, id, data FROM content WHERE json_extract(data, '$.status') = 'scheduled'`)
+        .all() as unknown as ScheduledRow[];
+    for (const row of rows) {
+        const item: StoredRecord = { ...JSON.parse(row.data), id: row.id };
+        if (isDue(item, now)) {
+            await publishItem(row.team_id, item, now);
+        }
+    }
+};
+
+export const startScheduler = () => {
+    let isRunning = false;
+    const run = async () => {
+        if (isRunning) return;
+        isRunning = true;
+        try {
+            await runScheduledPublishing();
+        } catch (error) {
+            console.error('Scheduled publishing run failed', error);
+        } finally {
+            isRunning = false;
+        }
+    };
+    run();
+    setInterval(run, INTERVAL_MS);
+};
@@ -0,0 +1,37 @@
+// server/secrets.ts
+// AES-256-GCM encryption for credentials stored in the database.
+// Stored values look like `v1:<iv>:<auth tag>:<ciphertext>`, all base64.
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { config } from './config.ts';
+
+const VERSION = 'v1';
+
+const loadKey = (): Buffer => {
+    const raw = config.credentialKey.trim();
+    const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, 'hex') : Buffer.from(raw, 'base64');
+    if (key.length !== 32) {
+        throw new Error('CREDENTIAL_KEY must be set to a 32-byte key, e.g. the output of `openssl rand -base64 32`.');
+    }
+    return key;
+};
+
+const key = loadKey();
+
+export const encryptSecret = (plaintext: string): string => {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+};
+
+/** Throws if the value was tampered with or encrypted under a different key. */
+export const decryptSecret = (stored: string): string => {
+    const [version, iv, tag, ciphertext] = stored.split(':');
+    if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+        throw new Error('Unrecognised encrypted value.');
+    }
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+};
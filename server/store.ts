@@ -0,0 +1,80 @@
+// server/store.ts
+// Team-scoped JSON records. The client owns the shape of sites, library items and voice profiles,
+// so the server only stores them, keyed by (team_id, id).
+
+import { db } from './db.ts';
+import { HttpError } from './http.ts';
+
+type Table = 'sites' | 'content' | 'voice_profiles';
+
+interface RecordRow {
+    id: string;
+    data: string;
+    created_at: string;
+    updated_at: string;
+}
+
+export type StoredRecord = Record<string, unknown> & { id: string };
+
+const toRecord = (row: RecordRow): StoredRecord => ({ ...JSON.parse(row.data), id: row.id });
+
+/** Validates a record sent by the client: a JSON object with a non-empty string `id`. */
+export const requireRecord = (body: any): StoredRecord => {
+    if (!body || typeof body !== 'object' || Array.isArray(body) || typeof body.id !== 'string' || !body.id) {
+        throw new HttpError(400, 'Expected an object with an \'id\'.');
+    }
+    return body;
+};
+
+// JSON has no `undefined`, so clients clear a field by sending it as null.
+const mergePatch = (current: StoredRecord, patch: Record<string, unknown>): StoredRecord => {
+    const merged: Record<string, unknown> = { ...current, ...patch, id: current.id };
+    Object.keys(merged).forEach(key => { if (merged[key] === null) delete merged[key]; });
+    return merged as StoredRecord;
+};
+
+export const createTeamStore = (table: Table) => {
+    const list = (teamId: string): StoredRecord[] =>
+        (db.prepare(`SELECT * FROM ${table} WHERE team_id = ? ORDER BY created_at DESC`).all(teamId) as unknown as RecordRow[]).map(toRecord);
+
+    const find = (teamId: string, id: string): StoredRecord | undefined => {
+        const row = db.prepare(`SELECT * FROM ${table} WHERE team_id = ? AND id = ?`).get(teamId, id) as unknown as RecordRow | undefined;
+        return row ? toRecord(row) : undefined;
+    };
+
+    const get = (teamId: string, id: string): StoredRecord => {
+        const record = find(teamId, id);
+        if (!record) {
+            throw new HttpError(404, 'Not found.');
+        }
+        return record;
+    };
+
+    const insert = (teamId: string, record: StoredRecord, columns: Record<string, string | null> = {}): StoredRecord => {
+        if (find(teamId, record.id)) {
+            throw new HttpError(409, 'A record with this id already exists.');
+        }
+        const now = new Date().toISOString();
+        const names = ['team_id', 'id', 'data', 'created_at', 'updated_at', ...Object.keys(columns)];
+        db.prepare(`INSERT INTO ${table} (${names.join(', ')}) VALUES (${names.map(() => '?').join(', ')})`)
+            .run(teamId, record.id, JSON.stringify(record), now, now, ...Object.values(columns));
+        return record;
+    };
+
+    const update = (teamId: string, id: string, patch: Record<string, unknown>, columns: Record<string, string | null> = {}): StoredRecord => {
+        const merged = mergePatch(get(teamId, id), patch);
+        const assignments = ['data', 'updated_at', ...Object.keys(columns)].map(name => `${name} = ?`).join(', ');
+        db.prepare(`UPDATE ${table} SET ${assignments} WHERE team_id = ? AND id = ?`)
+            .run(JSON.stringify(merged), new Date().toISOString(), ...Object.values(columns), teamId, id);
+        return merged;
+    };
+
+    const remove = (teamId: string, id: string) => {
+        const { changes } = db.prepare(`DELETE FROM ${table} WHERE team_id = ? AND id = ?`).run(teamId, id);
+        if (changes === 0) {
+            throw new HttpError(404, 'Not found.');
+        }
+    };
+
+    return { list, find, get, insert, update, remove };
+};
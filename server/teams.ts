@@ -0,0 +1,49 @@
+// server/teams.ts
+// Team membership rules shared by the team and invitation routes. Every user belongs to
+// exactly one team, so joining or creating a team means leaving the current one.
+
+import { randomUUID } from 'node:crypto';
+import { db } from './db.ts';
+import { HttpError } from './http.ts';
+import { requireEditor, type Role, type UserRow } from './auth.ts';
+
+export const insertTeam = (name: string): string => {
+    const teamId = randomUUID();
+    db.prepare('INSERT INTO teams (id, name, created_at) VALUES (?, ?, ?)').run(teamId, name, new Date().toISOString());
+    return teamId;
+};
+
+const countMembers = (teamId: string, role?: Role): number => {
+    const row = role
+        ? db.prepare('SELECT COUNT(*) AS count FROM users WHERE team_id = ? AND role = ?').get(teamId, role)
+        : db.prepare('SELECT COUNT(*) AS count FROM users WHERE team_id = ?').get(teamId);
+    return (row as { count: number }).count;
+};
+
+/** A team with other members must keep at least one editor. */
+export const assertKeepsAnEditor = (user: UserRow) => {
+    if (user.role === 'editor' && countMembers(user.team_id, 'editor') === 1 && countMembers(user.team_id) > 1) {
+        throw new HttpError(409, 'Your team needs at least one editor. Make another member an editor first.');
+    }
+};
+
+export const moveUserToTeam = (userId: string, teamId: string, role: Role): UserRow => {
+    db.prepare('UPDATE users SET team_id = ?, role = ? WHERE id = ?').run(teamId, role, userId);
+    return db.prepare('SELECT * FROM users WHERE id = ?').get(userId) as unknown as UserRow;
+};
+
+/** Resolves the caller as an editor of the team in the URL; other teams look like they don't exist. */
+export const requireTeamEditor = (req: Parameters<typeof requireEditor>[0], teamId: string): UserRow => {
+    const user = requireEditor(req);
+    if (user.team_id !== teamId) {
+        throw new HttpError(404, 'Team not found.');
+    }
+    return user;
+};
+
+export const parseRole = (value: unknown): Role => {
+    if (value !== 'writer' && value !== 'editor') {
+        throw new HttpError(400, "'role' must be 'writer' or 'editor'.");
+    }
+    return value;
+};
@@ -0,0 +1,138 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from './config.ts';
+import { resolvePublicHost, wordpressFetch } from './wordpress.ts';
+
+const dnsLookup = vi.hoisted(() => vi.fn());
+vi.mock('node:dns/promises', () => ({ lookup: dnsLookup }));
+
+const defaults = { allowPrivateSiteHosts: config.allowPrivateSiteHosts, wordpressTimeoutMs: config.wordpressTimeoutMs };
+
+afterEach(() => {
+    Object.assign(config, defaults);
+    dnsLookup.mockReset();
+});
+
+const lookupWith = (lookup: NonNullable<Awaited<ReturnType<typeof resolvePublicHost>>>, options: { all?: boolean }) =>
+    new Promise<unknown[]>((resolve, reject) => lookup('blog.test', options, (error, ...answer) => error ? reject(error) : resolve(answer)));
+
+describe('resolvePublicHost', () => {
+    beforeEach(() => {
+        config.allowPrivateSiteHosts = false;
+    });
+
+    it('refuses hosts that resolve to a private or local address', async () => {
+        dnsLookup.mockResolvedValue([{ address: '203.0.113.5', family: 4 }, { address: '10.0.0.8', family: 4 }]);
+        await expect(resolvePublicHost(new URL('https://blog.test/wp-json/'))).rejects.toMatchObject({ status: 400 });
+
+        for (const url of ['http://127.0.0.1/', 'http://169.254.169.254/', 'http://[::1]/', 'http://[::ffff:127.0.0.1]/']) {
+            await expect(resolvePublicHost(new URL(url)), url).rejects.toMatchObject({ status: 400 });
+        }
+    });
+
+    it('connects to the addresses it checked, whatever DNS answers next', async () => {
+        dnsLookup.mockResolvedValue([{ address: '203.0.113.5', family: 4 }, { address: '2001:db8::5', family: 6 }]);
+        const lookup = (await resolvePublicHost(new URL('https://blog.test/wp-json/')))!;
+        // A rebinding DNS server would now point the name at the server itself.
+        dnsLookup.mockResolvedValue([{ address: '127.0.0.1', family: 4 }]);
+
+        expect(await lookupWith(lookup, {})).toEqual(['203.0.113.5', 4]);
+        expect(await lookupWith(lookup, { all: true })).toEqual([[{ address: '203.0.113.5', family: 4 }, { address: '2001:db8::5', family: 6 }]]);
+        expect(dnsLookup).toHaveBeenCalledOnce();
+    });
+
+    it('reports a host that does not resolve as 502', async () => {
+        dnsLookup.mockRejectedValue(Object.assign(new Error('getaddrinfo ENOTFOUND'), { code: 'ENOTFOUND' }));
+        await expect(resolvePublicHost(new URL('https://missing.test/'))).rejects.toMatchObject({ status: 502 });
+    });
+
+    it('checks nothing when private hosts are allowed', async () => {
+        config.allowPrivateSiteHosts = true;
+        expect(await resolvePublicHost(new URL('http://127.0.0.1/'))).toBeUndefined();
+        expect(dnsLookup).not.toHaveBeenCalled();
+    });
+});
+
+describe('wordpressFetch', () => {
+    let server: Server;
+    let site = { url: '', username: 'editor', appPassword: 'secret' };
+    let received: { request: IncomingMessage; body: string }[] = [];
+
+    beforeAll(async () => {
+        server = createServer((request, res) => {
+            let body = '';
+            request.on('data', chunk => { body += chunk; });
+            request.on('end', () => {
+                received.push({ request, body });
+                if (request.url === '/wp-json/slow') return;
+                if (request.url === '/wp-json/moved') {
+                    res.writeHead(301, { Location: 'https://www.blog.test/wp-json/moved' }).end();
+                    return;
+                }
+                if (request.url === '/wp-json/empty') {
+                    res.writeHead(204).end();
+                    return;
+                }
+                res.writeHead(201, { 'Content-Type': 'application/json', 'X-WP-Total': '3' }).end(JSON.stringify({ id: 7 }));
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        site = { ...site, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+    });
+
+    afterAll(async () => {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        received = [];
+        config.allowPrivateSiteHosts = true;
+    });
+
+    it('returns the status, headers and body WordPress answered with', async () => {
+        const response = await wordpressFetch(site, '/wp/v2/posts', {
+            method: 'POST',
+            query: new URLSearchParams({ _fields: 'id' }),
+            headers: { 'Content-Type': 'application/json' },
+            body: Buffer.from('{"title":"Cold brew"}'),
+        });
+        expect(response.status).toBe(201);
+        expect(response.headers.get('x-wp-total')).toBe('3');
+        expect(await response.json()).toEqual({ id: 7 });
+
+        const [{ request, body }] = received;
+        expect(request.url).toBe('/wp-json/wp/v2/posts?_fields=id');
+        expect(request.headers.authorization).toBe(`Basic ${Buffer.from('editor:secret').toString('base64')}`);
+        expect(request.headers['content-length']).toBe('21');
+        expect(body).toBe('{"title":"Cold brew"}');
+    });
+
+    it('answers without a body for statuses that have none', async () => {
+        const response = await wordpressFetch(site, '/empty');
+        expect(response.status).toBe(204);
+        expect(await response.text()).toBe('');
+    });
+
+    it('refuses to follow redirects', async () => {
+        await expect(wordpressFetch(site, '/moved')).rejects.toMatchObject({ status: 502, message: expect.stringContaining('https://www.blog.test/wp-json/moved') });
+    });
+
+    it('gives up on a site that does not answer in time', async () => {
+        config.wordpressTimeoutMs = 50;
+        await expect(wordpressFetch(site, '/slow')).rejects.toMatchObject({ status: 504 });
+    });
+
+    it('stays within the REST API', async () => {
+        await expect(wordpressFetch(site, '../wp-admin/')).rejects.toMatchObject({ status: 400 });
+        await expect(wordpressFetch(site, '%2e%2e/wp-login.php')).rejects.toMatchObject({ status: 400 });
+        expect(received).toEqual([]);
+    });
+
+    it('never connects to a private address unless allowed', async () => {
+        config.allowPrivateSiteHosts = false;
+        await expect(wordpressFetch(site, '/wp/v2/posts')).rejects.toMatchObject({ status: 400 });
+        expect(received).toEqual([]);
+    });
+});
@@ -0,0 +1,158 @@
+// server/wordpress.ts
+// Server-side calls to a site's REST API, authenticated with its stored application password.
+
+import type { LookupAddress } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { request as httpRequest, type IncomingMessage } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { config } from './config.ts';
+import { HttpError } from './http.ts';
+
+export interface WordPressCredentials {
+    url: string;
+    username: string;
+    appPassword: string;
+}
+
+/** Only http(s) origins can be registered, so the proxy can't be pointed at other schemes. */
+export const normalizeSiteUrl = (url: string): string => {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        throw new HttpError(400, 'Invalid URL format provided.');
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw new HttpError(400, 'Site URL must start with http:// or https://.');
+    }
+    return parsed.origin;
+};
+
+// Loopback, private, carrier-grade NAT, link-local (cloud metadata) and unique-local addresses.
+const privateAddresses = new BlockList();
+[['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16]]
+    .forEach(([network, prefix]) => privateAddresses.addSubnet(network as string, prefix as number, 'ipv4'));
+[['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10]]
+    .forEach(([network, prefix]) => privateAddresses.addSubnet(network as string, prefix as number, 'ipv6'));
+
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked against the IPv4 subnets.
+const isPrivateAddress = (address: string): boolean => privateAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+/**
+ * Refuses sites that resolve to the server's own network, so the proxy can't be used to reach
+ * internal services. Returns a `lookup` that answers with the addresses checked here, so the
+ * connection goes to one of them even if DNS answers differently a moment later (DNS rebinding).
+ * ALLOW_PRIVATE_SITE_HOSTS turns this off for WordPress running locally.
+ */
+export const resolvePublicHost = async (url: URL): Promise<LookupFunction | undefined> => {
+    if (config.allowPrivateSiteHosts) return undefined;
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    let addresses: LookupAddress[];
+    try {
+        addresses = isIP(hostname) ? [{ address: hostname, family: isIP(hostname) }] : await lookup(hostname, { all: true });
+    } catch {
+        throw new HttpError(502, `Could not resolve ${url.host}.`);
+    }
+    if (addresses.length === 0) {
+        throw new HttpError(502, `Could not resolve ${url.host}.`);
+    }
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+        throw new HttpError(400, `${url.host} is a private or local address; only public WordPress sites can be connected.`);
+    }
+    return (_hostname, options, callback) => {
+        if (options.all) {
+            callback(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    };
+};
+
+// A Response with one of these statuses can't have a body.
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+const toResponse = (message: IncomingMessage, body: Buffer): Response => {
+    const headers = new Headers();
+    for (let i = 0; i < message.rawHeaders.length; i += 2) {
+        headers.append(message.rawHeaders[i], message.rawHeaders[i + 1]);
+    }
+    const status = message.statusCode || 502;
+    return new Response(NULL_BODY_STATUSES.includes(status) ? null : new Uint8Array(body), { status, headers });
+};
+
+/** One request over node:http(s), which (unlike fetch) takes the `lookup` to connect with. Redirects aren't followed. */
+const send = (
+    url: URL,
+    options: { method: string; headers: Record<string, string>; body?: Buffer; lookup?: LookupFunction; signal: AbortSignal }
+): Promise<Response> => new Promise((resolve, reject) => {
+    const { body, lookup: pinnedLookup, ...rest } = options;
+    const request = (url.protocol === 'https:' ? httpsRequest : httpRequest)(url, { ...rest, ...(pinnedLookup ? { lookup: pinnedLookup } : {}) }, message => {
+        const chunks: Buffer[] = [];
+        message.on('data', (chunk: Buffer) => chunks.push(chunk));
+        message.on('end', () => resolve(toResponse(message, Buffer.concat(chunks))));
+        message.on('error', reject);
+    });
+    request.on('error', reject);
+    request.end(body);
+});
+
+/**
+ * Calls `<site>/wp-json/<path>`. The resolved URL must stay within the site's REST API and the
+ * site must be on a public address. Network failures and timeouts become 502/504 HttpErrors;
+ * WordPress error responses are returned as-is for the caller to relay or inspect.
+ */
+export const wordpressFetch = async (
+    site: WordPressCredentials,
+    path: string,
+    init: { method?: string; query?: URLSearchParams; headers?: Record<string, string>; body?: Buffer } = {}
+): Promise<Response> => {
+    const apiRoot = new URL(`${normalizeSiteUrl(site.url)}/wp-json/`);
+    // Resolving dot segments (also percent-encoded ones) here means they can't climb out of /wp-json/.
+    const url = new URL(path.replace(/^\/+/, ''), apiRoot);
+    if (url.origin !== apiRoot.origin || !url.pathname.startsWith(apiRoot.pathname)) {
+        throw new HttpError(400, 'Only the site\'s REST API (/wp-json/) can be called.');
+    }
+    init.query?.forEach((value, key) => url.searchParams.append(key, value));
+    const pinnedLookup = await resolvePublicHost(url);
+
+    const headers: Record<string, string> = { Accept: 'application/json', ...init.headers };
+    if (site.username && site.appPassword) {
+        headers.Authorization = `Basic ${Buffer.from(`${site.username}:${site.appPassword}`).toString('base64')}`;
+    }
+    const body = init.body && init.body.length > 0 ? init.body : undefined;
+    if (body) {
+        headers['Content-Length'] = String(body.length);
+    }
+
+    const signal = AbortSignal.timeout(config.wordpressTimeoutMs);
+    let response: Response;
+    try {
+        // Redirects aren't followed: they could lead to an address the checks above would refuse.
+        response = await send(url, { method: init.method || 'GET', headers, body, lookup: pinnedLookup, signal });
+    } catch {
+        if (signal.aborted) {
+            throw new HttpError(504, `${site.url} did not respond in time.`);
+        }
+        throw new HttpError(502, `Could not reach ${site.url}. Check the URL and that the REST API is accessible.`);
+    }
+    if (response.status >= 300 && response.status < 400) {
+        throw new HttpError(502, `${site.url} redirected the request to ${response.headers.get('location') || 'another address'}. Connect the site using the address it redirects to.`);
+    }
+    return response;
+};
+
+/** Checks the credentials against an authenticated route and returns the site's title, if it has one. */
+export const verifyCredentials = async (site: WordPressCredentials): Promise<{ name: string | null }> => {
+    const me = await wordpressFetch(site, '/wp/v2/users/me', { query: new URLSearchParams({ _fields: 'id' }) });
+    if (me.status === 401 || me.status === 403) {
+        throw new HttpError(400, `Authentication failed (${me.status}). Check the username and application password.`);
+    }
+    if (!me.ok) {
+        throw new HttpError(400, `Unexpected response from WordPress (${me.status}).`);
+    }
+
+    const index = await wordpressFetch(site, '/', { query: new URLSearchParams({ _fields: 'name' }) });
+    const body = index.ok ? await index.json().catch(() => null) : null;
+    return { name: typeof body?.name === 'string' && body.name ? body.name : null };
+};
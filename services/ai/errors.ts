@@ -0,0 +1,41 @@
+// services/ai/errors.ts
+// The failures resilience.ts treats differently: HTTP errors worth retrying, timeouts, and
+// answers that can be sent back to the model for repair.
+
+/**
+ * The AI server answered with an HTTP error status. `code` is `quota_exhausted` when the account
+ * is out of credit, and `retryAfter` the server's Retry-After in seconds.
+ */
+export class AiRequestError extends Error {
+    readonly status: number;
+    readonly code?: string;
+    readonly retryAfter?: number;
+
+    constructor(status: number, message: string, options: { code?: string; retryAfter?: number } = {}) {
+        super(message);
+        this.name = 'AiRequestError';
+        this.status = status;
+        this.code = options.code;
+        this.retryAfter = options.retryAfter;
+    }
+}
+
+export class AiTimeoutError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AiTimeoutError';
+    }
+}
+
+/** The answer wasn't JSON, or didn't match the requested schema. `text` is the answer as received. */
+export class AiFormatError extends Error {
+    readonly text: string;
+    readonly problems: string[];
+
+    constructor(message: string, text: string, problems: string[] = []) {
+        super(message);
+        this.name = 'AiFormatError';
+        this.text = text;
+        this.problems = problems;
+    }
+}
@@ -0,0 +1,82 @@
+// services/ai/fixtureProvider.ts
+// Answers every request with canned, deterministic output derived from the request itself:
+// no network, no key. Useful for tests and for working on the UI offline.
+
+import { AiProvider, JsonRequest, JsonSchema } from './types';
+
+const FIXTURE_MODEL = 'fixture';
+const STREAM_CHUNK_LENGTH = 24;
+const STREAM_CHUNK_DELAY_MS = 15;
+
+// An 8x8 grey baseline JPEG.
+const FIXTURE_JPEG = '/9j/2wBDAAEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQH/wAALCAAIAAgBAREA/8QAFAABAAAAAAAAAAAAAAAAAAAAAP/EABQQAQAAAAAAAAAAAAAAAAAAAAD/2gAIAQEAAD8AP//Z';
+
+// Small, stable hash so the same prompt always produces the same output.
+const hash = (text: string): number => {
+    let h = 0;
+    for (let i = 0; i < text.length; i++) {
+        h = (h * 31 + text.charCodeAt(i)) >>> 0;
+    }
+    return h;
+};
+
+/** Builds a value that satisfies `schema`, labelled by the property path it fills. */
+const fixtureValue = (schema: JsonSchema, path: string, seed: number): unknown => {
+    switch (schema.type) {
+        case 'object':
+            return Object.fromEntries(
+                Object.entries(schema.properties || {}).map(([key, child]) => [key, fixtureValue(child, path ? `${path}.${key}` : key, seed)])
+            );
+        case 'array':
+            return [0, 1, 2].map(index => fixtureValue(schema.items || { type: 'string' }, `${path}[${index}]`, seed + index));
+        case 'integer':
+        case 'number':
+            return 50 + (seed % 50);
+        case 'boolean':
+            return seed % 2 === 0;
+        case 'string':
+            if (schema.enum?.length) {
+                return schema.enum[seed % schema.enum.length];
+            }
+            // Long-form fields get markdown so editors and converters have something to render.
+            return /body|description/i.test(path) && !/meta/i.test(path)
+                ? `## Fixture ${path}\n\nFixture paragraph ${seed}.\n\n- First point\n- Second point`
+                : `Fixture ${path} ${seed}`;
+    }
+};
+
+export const createFixtureProvider = (): AiProvider => ({
+    id: 'fixture',
+    supportsSearch: false,
+
+    generateText: async request => ({
+        value: `Fixture response ${hash(request.prompt)}`,
+        model: FIXTURE_MODEL,
+        usage: { promptTokens: request.prompt.length, outputTokens: 0 },
+    }),
+
+    generateJson: async <T>(request: JsonRequest) => ({
+        value: fixtureValue(request.schema, '', hash(request.prompt)) as T,
+        model: FIXTURE_MODEL,
+        usage: { promptTokens: request.prompt.length, outputTokens: 0 },
+    }),
+
+    // Replays the same JSON as generateJson a few characters at a time.
+    streamJson: async <T>(request: JsonRequest, onText: (text: string) => void) => {
+        const value = fixtureValue(request.schema, '', hash(request.prompt));
+        const text = JSON.stringify(value);
+        for (let end = STREAM_CHUNK_LENGTH; end < text.length + STREAM_CHUNK_LENGTH; end += STREAM_CHUNK_LENGTH) {
+            await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+            if (request.signal?.aborted) {
+                throw new DOMException('The generation was cancelled.', 'AbortError');
+            }
+            onText(text.slice(0, end));
+        }
+        return { value: value as T, model: FIXTURE_MODEL, usage: { promptTokens: request.prompt.length, outputTokens: 0 } };
+    },
+
+    generateImages: async request => ({
+        value: Array.from({ length: request.count }, () => FIXTURE_JPEG),
+        model: FIXTURE_MODEL,
+    }),
+});
@@ -0,0 +1,103 @@
+// services/ai/geminiProvider.ts
+// Gemini runs behind the backend (server/routes/ai.ts), which holds the API key and applies
+// rate limits and budgets and logs usage, so nothing secret ships in the bundle. It only relays the
+// app's own prompt templates: requests carry the template variables, not the prompt.
+
+import { AiSettings, PromptTemplateRef } from '../../types';
+import { apiFetch, apiRequest, toResponseError } from '../backendService';
+import { AiProvider, AiResult, AiUsage, JsonSchema, TextRequest } from './types';
+import { parseJsonText } from './json';
+import { readLines } from './stream';
+
+interface TextResponse {
+    text: string;
+    model: string;
+    usage?: AiUsage;
+    template?: PromptTemplateRef;
+}
+
+// Events of the /api/ai/stream NDJSON response.
+interface StreamEvent {
+    text?: string;
+    done?: boolean;
+    model?: string;
+    usage?: AiUsage;
+    template?: PromptTemplateRef;
+    error?: string;
+}
+
+export const createGeminiProvider = (settings: AiSettings): AiProvider => {
+    const toRequestBody = (request: TextRequest, schema?: JsonSchema) => JSON.stringify({
+        variables: request.variables,
+        repair: request.repair,
+        schema,
+        useSearch: request.useSearch,
+        siteId: request.siteId,
+        model: settings.textModel,
+    });
+
+    const generate = async (request: TextRequest, schema?: JsonSchema): Promise<AiResult<string>> => {
+        const response = await apiRequest<TextResponse>(`/ai/text/${request.operation}`, {
+            method: 'POST',
+            body: toRequestBody(request, schema),
+            signal: request.signal,
+        });
+        return { value: response.text, model: response.model, usage: response.usage, template: response.template };
+    };
+
+    return {
+        id: 'gemini',
+        supportsSearch: true,
+
+        generateText: request => generate(request),
+
+        generateJson: async request => {
+            const result = await generate(request, request.schema);
+            return { ...result, value: parseJsonText(result.value) };
+        },
+
+        streamJson: async (request, onText) => {
+            const response = await apiFetch(`/ai/stream/${request.operation}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: toRequestBody(request, request.schema),
+                signal: request.signal,
+            });
+            if (!response.ok) {
+                throw await toResponseError(response);
+            }
+
+            let text = '';
+            let end: StreamEvent | null = null;
+            await readLines(response, line => {
+                const event: StreamEvent = JSON.parse(line);
+                if (event.error) throw new Error(event.error);
+                if (event.text) {
+                    text += event.text;
+                    onText(text);
+                }
+                if (event.done) end = event;
+            });
+            if (!end) {
+                throw new Error("The AI response ended before it was complete.");
+            }
+            const { model, usage, template } = end as StreamEvent;
+            return { value: parseJsonText(text), model: model || settings.textModel, usage, template };
+        },
+
+        generateImages: async request => {
+            const response = await apiRequest<{ images: string[]; model: string }>(`/ai/images/${request.operation}`, {
+                method: 'POST',
+                body: JSON.stringify({
+                    prompt: request.prompt,
+                    count: request.count,
+                    aspectRatio: request.aspectRatio,
+                    siteId: request.siteId,
+                    model: settings.imageModel,
+                }),
+                signal: request.signal,
+            });
+            return { value: response.images, model: response.model };
+        },
+    };
+};
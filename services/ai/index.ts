@@ -0,0 +1,59 @@
+// services/ai/index.ts
+// Picks the AI provider configured in Settings. The choice is per browser, kept in localStorage.
+
+import { AiProviderId, AiSettings } from '../../types';
+import { AiProvider } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createFixtureProvider } from './fixtureProvider';
+import { withUsageMetering } from './metering';
+import { withResilience } from './resilience';
+
+export * from './types';
+export * from './errors';
+
+const SETTINGS_KEY = 'ai_settings';
+
+export const DEFAULT_AI_SETTINGS: { [key in AiProviderId]: AiSettings } = {
+    'gemini': { provider: 'gemini', textModel: 'gemini-2.5-flash', imageModel: 'imagen-4.0-generate-001' },
+    'openai-compatible': { provider: 'openai-compatible', textModel: 'llama3.1', imageModel: '', baseUrl: 'http://localhost:11434/v1' },
+    'fixture': { provider: 'fixture', textModel: 'fixture', imageModel: 'fixture' },
+};
+
+export const getAiSettings = (): AiSettings => {
+    try {
+        const saved = localStorage.getItem(SETTINGS_KEY);
+        if (saved) {
+            const parsed = JSON.parse(saved) as AiSettings;
+            if (DEFAULT_AI_SETTINGS[parsed.provider]) {
+                return { ...DEFAULT_AI_SETTINGS[parsed.provider], ...parsed };
+            }
+        }
+    } catch (error) {
+        console.error("Failed to read AI settings", error);
+    }
+    return DEFAULT_AI_SETTINGS.gemini;
+};
+
+export const saveAiSettings = (settings: AiSettings): void => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const createBaseProvider = (settings: AiSettings): AiProvider => {
+    switch (settings.provider) {
+        // Gemini is metered by the backend proxy; the fixture provider costs nothing.
+        case 'openai-compatible':
+            return withUsageMetering(createOpenAiCompatibleProvider(settings), settings);
+        case 'fixture':
+            return createFixtureProvider();
+        case 'gemini':
+        default:
+            return createGeminiProvider(settings);
+    }
+};
+
+/** The provider for `settings`, with timeouts, retries and schema checks (see resilience.ts). */
+export const createAiProvider = (settings: AiSettings): AiProvider => withResilience(createBaseProvider(settings));
+
+/** The provider for the current settings. Created per call so settings changes apply immediately. */
+export const getAiProvider = (): AiProvider => createAiProvider(getAiSettings());
@@ -0,0 +1,65 @@
+// services/ai/json.ts
+
+import { AiFormatError } from './errors';
+
+/**
+ * Parses a model's JSON answer. Models asked for JSON without a response schema often wrap it
+ * in ```json fences or add a sentence around it, so after the plain parse each fenced block is
+ * tried, then the outermost object or array in the text.
+ */
+export const parseJsonText = (text: string): any => {
+    const trimmed = text.trim();
+    const candidates = [
+        trimmed,
+        ...Array.from(trimmed.matchAll(/```(?:json)?\s*([\s\S]*?)\s*```/g), match => match[1]),
+    ];
+    const start = trimmed.search(/[[{]/);
+    const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+    if (start !== -1 && end > start) {
+        candidates.push(trimmed.slice(start, end + 1));
+    }
+
+    for (const candidate of candidates) {
+        try {
+            return JSON.parse(candidate);
+        } catch {
+            // Try the next candidate.
+        }
+    }
+    console.error("Failed to parse the response as JSON:", text);
+    throw new AiFormatError("AI returned a response that could not be parsed as JSON.", text, ['the answer is not valid JSON']);
+};
+
+const ESCAPES: { [key: string]: string } = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+/**
+ * Reads a string field out of JSON that is still streaming in, e.g. `{"title": "Ten ti`.
+ * Returns as much of the value as has arrived, or undefined if the field hasn't started yet.
+ */
+export const readPartialJsonString = (text: string, field: string): string | undefined => {
+    const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(text);
+    if (!match) return undefined;
+
+    let value = '';
+    for (let i = match.index + match[0].length; i < text.length; i++) {
+        const char = text[i];
+        if (char === '"') break;
+        if (char !== '\\') {
+            value += char;
+            continue;
+        }
+        // An escape sequence cut off by the end of the chunk is picked up on the next one.
+        const next = text[i + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+            const hex = text.slice(i + 2, i + 6);
+            if (hex.length < 4) break;
+            value += String.fromCharCode(parseInt(hex, 16));
+            i += 5;
+        } else {
+            value += ESCAPES[next] ?? next;
+            i++;
+        }
+    }
+    return value;
+};
@@ -0,0 +1,70 @@
+// services/ai/metering.ts
+// Providers the browser calls directly bypass the backend proxy, so their requests are checked
+// against the monthly budgets and their usage reported to the backend from here instead.
+
+import { AiSettings } from '../../types';
+import { apiRequest } from '../backendService';
+import { AiProvider, AiResult, AiUsage, JsonRequest } from './types';
+
+// Roughly how many characters make a token, for streams that stop before the provider reports usage.
+const CHARS_PER_TOKEN = 4;
+
+interface MeteredRequest {
+    operation: string;
+    siteId?: string;
+    signal?: AbortSignal;
+}
+
+export const withUsageMetering = (provider: AiProvider, settings: AiSettings): AiProvider => {
+    // `usageSoFar` estimates what a request that fails part way has used, so it still counts.
+    const metered = async <T>(
+        request: MeteredRequest,
+        model: string,
+        run: () => Promise<AiResult<T>>,
+        countImages?: (value: T) => number,
+        usageSoFar?: () => AiUsage
+    ): Promise<AiResult<T>> => {
+        // Rejects with 402 once a budget is used up.
+        await apiRequest<void>(`/ai/budget-check${request.siteId ? `?siteId=${encodeURIComponent(request.siteId)}` : ''}`);
+
+        const startedAt = Date.now();
+        const report = (body: object) => {
+            apiRequest<void>('/ai/usage', {
+                method: 'POST',
+                body: JSON.stringify({ operation: request.operation, siteId: request.siteId, durationMs: Date.now() - startedAt, ...body }),
+            }).catch(error => console.error("Failed to report AI usage", error));
+        };
+
+        try {
+            const result = await run();
+            report({
+                model: result.model,
+                promptTokens: result.usage?.promptTokens ?? 0,
+                outputTokens: result.usage?.outputTokens ?? 0,
+                imageCount: countImages ? countImages(result.value) : 0,
+            });
+            return result;
+        } catch (error) {
+            report({ model, ...usageSoFar?.(), error: request.signal?.aborted ? 'Cancelled by the client.' : error instanceof Error ? error.message : String(error) });
+            throw error;
+        }
+    };
+
+    return {
+        id: provider.id,
+        supportsSearch: provider.supportsSearch,
+        generateText: request => metered(request, settings.textModel, () => provider.generateText(request)),
+        generateJson: <T>(request: JsonRequest) => metered(request, settings.textModel, () => provider.generateJson<T>(request)),
+        streamJson: <T>(request: JsonRequest, onText: (text: string) => void) => {
+            let streamedLength = 0;
+            return metered(request, settings.textModel, () => provider.streamJson<T>(request, text => {
+                streamedLength = text.length;
+                onText(text);
+            }), undefined, () => ({
+                promptTokens: Math.ceil(((request.systemInstruction?.length ?? 0) + request.prompt.length) / CHARS_PER_TOKEN),
+                outputTokens: Math.ceil(streamedLength / CHARS_PER_TOKEN),
+            }));
+        },
+        generateImages: request => metered(request, settings.imageModel, () => provider.generateImages(request), images => images.length),
+    };
+};
@@ -0,0 +1,140 @@
+// services/ai/openAiCompatibleProvider.ts
+// Talks to any server implementing OpenAI's /v1 chat and image endpoints: OpenAI itself,
+// or a local Ollama (http://localhost:11434/v1) or llama.cpp (http://localhost:8080/v1) server.
+
+import { AiSettings } from '../../types';
+import { AiProvider, AiResult, AiUsage, JsonSchema, TextRequest } from './types';
+import { parseJsonText } from './json';
+import { AiRequestError } from './errors';
+import { parseRetryAfter } from '../backendService';
+import { readLines } from './stream';
+
+interface ChatUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+}
+
+interface ChatCompletion {
+    model?: string;
+    choices: { message: { content: string | null } }[];
+    usage?: ChatUsage;
+}
+
+// One `data:` event of a streamed chat completion.
+interface ChatCompletionChunk {
+    model?: string;
+    choices: { delta: { content?: string | null } }[];
+    usage?: ChatUsage | null;
+}
+
+const toUsage = (usage?: ChatUsage | null): AiUsage | undefined =>
+    usage ? { promptTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 } : undefined;
+
+export const createOpenAiCompatibleProvider = (settings: AiSettings): AiProvider => {
+    const baseUrl = (settings.baseUrl || '').replace(/\/+$/, '');
+
+    const send = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+        if (!baseUrl) {
+            throw new Error("No base URL is configured for the OpenAI-compatible provider. Set one in Settings.");
+        }
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (settings.apiKey) {
+            headers.Authorization = `Bearer ${settings.apiKey}`;
+        }
+
+        let response: Response;
+        try {
+            response = await fetch(`${baseUrl}${path}`, { method: 'POST', headers, body: JSON.stringify(body), signal });
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            console.error(`Network error calling ${baseUrl}${path}:`, error);
+            throw new Error(`Could not reach the AI server at ${baseUrl}.`);
+        }
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new AiRequestError(response.status, `The AI server returned an error (${response.status})${detail ? `: ${detail.slice(0, 200)}` : ''}`, {
+                // OpenAI's answer when the account has no credit left, which no retry will fix.
+                code: detail.includes('"insufficient_quota"') ? 'quota_exhausted' : undefined,
+                retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
+            });
+        }
+        return response;
+    };
+
+    const post = async <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> => (await send(path, body, signal)).json();
+
+    const chatBody = (request: TextRequest, schema?: JsonSchema) => ({
+        model: settings.textModel,
+        messages: [
+            ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+            { role: 'user', content: request.prompt },
+        ],
+        // Ollama and llama.cpp both constrain decoding to the schema.
+        ...(schema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', strict: true, schema } } } : {}),
+    });
+
+    const chat = async (request: TextRequest, schema?: JsonSchema): Promise<AiResult<string>> => {
+        const completion = await post<ChatCompletion>('/chat/completions', chatBody(request, schema), request.signal);
+        return {
+            value: (completion.choices[0]?.message.content ?? '').trim(),
+            model: completion.model || settings.textModel,
+            usage: toUsage(completion.usage),
+        };
+    };
+
+    return {
+        id: 'openai-compatible',
+        supportsSearch: false,
+
+        generateText: request => chat(request),
+
+        generateJson: async request => {
+            const result = await chat(request, request.schema);
+            return { ...result, value: parseJsonText(result.value) };
+        },
+
+        streamJson: async (request, onText) => {
+            const response = await send('/chat/completions', {
+                ...chatBody(request, request.schema),
+                stream: true,
+                stream_options: { include_usage: true },
+            }, request.signal);
+
+            let text = '';
+            let model = settings.textModel;
+            let usage: AiUsage | undefined;
+            // Server-sent events: `data: <chunk>` lines, ending with `data: [DONE]`.
+            await readLines(response, line => {
+                if (!line.startsWith('data:')) return;
+                const data = line.slice(5).trim();
+                if (data === '[DONE]') return;
+                const chunk: ChatCompletionChunk = JSON.parse(data);
+                model = chunk.model || model;
+                usage = toUsage(chunk.usage) ?? usage;
+                const delta = chunk.choices[0]?.delta.content;
+                if (delta) {
+                    text += delta;
+                    onText(text);
+                }
+            });
+            return { value: parseJsonText(text), model, usage };
+        },
+
+        generateImages: async request => {
+            if (!settings.imageModel) {
+                throw new Error("No image model is configured for the OpenAI-compatible provider.");
+            }
+            const response = await post<{ data: { b64_json?: string }[] }>('/images/generations', {
+                model: settings.imageModel,
+                prompt: request.prompt,
+                n: request.count,
+                size: request.aspectRatio === '16:9' ? '1792x1024' : '1024x1024',
+                response_format: 'b64_json',
+            }, request.signal);
+            return {
+                value: response.data.map(image => image.b64_json).filter((b64): b64 is string => !!b64),
+                model: settings.imageModel,
+            };
+        },
+    };
+};
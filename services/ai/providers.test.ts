@@ -0,0 +1,392 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AiSettings } from '../../types';
+import { ApiError } from '../backendService';
+import { createFixtureProvider } from './fixtureProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { withUsageMetering } from './metering';
+import { withResilience } from './resilience';
+import { validateJson } from './schema';
+import { AiFormatError, AiRequestError, AiTimeoutError } from './errors';
+import { AiProvider, JsonRequest, JsonSchema } from './types';
+import { renderRepairPrompt } from '../promptTemplates';
+
+const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+        title: { type: 'string' },
+        body: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } },
+        score: { type: 'integer' },
+        tone: { type: 'string', enum: ['Casual', 'Professional'] },
+    },
+    required: ['title', 'body', 'tags', 'score', 'tone'],
+};
+
+const request: JsonRequest = { operation: 'article', prompt: 'Write about composting.', variables: { topic: 'composting' }, schema };
+
+// Every fake server answers with what the fixture provider produces for the request.
+const fixtureAnswer = async () => (await createFixtureProvider().generateJson<any>(request)).value;
+
+const openAiSettings = { provider: 'openai-compatible', textModel: 'llama-test', imageModel: '', baseUrl: 'http://ai.test/v1' } as AiSettings;
+
+interface Reply {
+    status: number;
+    // JSON answer text for 200s, error detail otherwise.
+    text: string;
+    headers?: Record<string, string>;
+    // The failure's code, sent the way the server in question sends it.
+    code?: string;
+}
+
+interface Harness {
+    create: () => AiProvider;
+    respond: (reply: Reply) => Response;
+    // The model the fake server reports.
+    model: string;
+    // The prompt a captured request sent, or that the backend renders from it.
+    promptOf: (body: any) => string;
+    // What a failed request rejects with, before any retries.
+    errorType: typeof ApiError | typeof AiRequestError;
+}
+
+const harnesses: { [name: string]: Harness } = {
+    'gemini (through the backend proxy)': {
+        create: () => createGeminiProvider({ provider: 'gemini', textModel: 'gemini-test', imageModel: '' }),
+        respond: ({ status, text, headers, code }) => Response.json(status === 200 ? { text, model: 'gemini-test' } : { error: text, code }, { status, headers }),
+        model: 'gemini-test',
+        promptOf: body => body.repair ? renderRepairPrompt(request.prompt, body.repair) : request.prompt,
+        errorType: ApiError,
+    },
+    'openai-compatible': {
+        create: () => createOpenAiCompatibleProvider(openAiSettings),
+        respond: ({ status, text, headers, code }) => status === 200
+            ? Response.json({ model: 'llama-test', choices: [{ message: { content: text } }], usage: { prompt_tokens: 10, completion_tokens: 20 } })
+            : new Response(code === 'quota_exhausted' ? JSON.stringify({ error: { message: text, code: 'insufficient_quota' } }) : text, { status, headers }),
+        model: 'llama-test',
+        promptOf: body => body.messages[body.messages.length - 1].content,
+        errorType: AiRequestError,
+    },
+};
+
+/** Stubs fetch to answer with `replies` in order, recording each request body. */
+const serve = (harness: Harness, replies: Reply[]) => {
+    const bodies: any[] = [];
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+        bodies.push(JSON.parse(init.body as string));
+        const reply = replies[Math.min(bodies.length, replies.length) - 1];
+        return harness.respond(reply);
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    return { bodies, fetchMock };
+};
+
+beforeEach(() => {
+    const storage = new Map<string, string>([['session', JSON.stringify({ accessToken: 'a', refreshToken: 'r', expiresAt: '2100-01-01' })]]);
+    vi.stubGlobal('localStorage', {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => { storage.set(key, value); },
+        removeItem: (key: string) => { storage.delete(key); },
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('fixture provider', () => {
+    it('answers with a value for every required field of the schema', async () => {
+        const answer = await fixtureAnswer();
+        expect(Object.keys(answer).sort()).toEqual([...schema.required!].sort());
+        expect(answer).toMatchObject({ title: expect.any(String), tags: expect.any(Array), score: expect.any(Number) });
+        expect(schema.properties!.tone.enum).toContain(answer.tone);
+        expect(answer.body).toContain('## Fixture body');
+        expect(validateJson(answer, schema)).toEqual([]);
+    });
+
+    it('is deterministic, and streams the same answer it returns', async () => {
+        const provider = createFixtureProvider();
+        const chunks: string[] = [];
+        const streamed = await provider.streamJson<any>(request, text => chunks.push(text));
+        expect(streamed.value).toEqual(await fixtureAnswer());
+        expect(JSON.parse(chunks[chunks.length - 1])).toEqual(streamed.value);
+        expect(chunks.length).toBeGreaterThan(1);
+    });
+
+    it('stops streaming when aborted', async () => {
+        const controller = new AbortController();
+        const stream = createFixtureProvider().streamJson({ ...request, signal: controller.signal }, () => controller.abort());
+        await expect(stream).rejects.toMatchObject({ name: 'AbortError' });
+    });
+
+    it('passes the resilience schema check unchanged', async () => {
+        const provider = withResilience(createFixtureProvider());
+        expect((await provider.generateJson(request)).value).toEqual(await fixtureAnswer());
+    });
+});
+
+describe.each(Object.entries(harnesses))('%s provider', (_name, harness) => {
+    it('returns the parsed answer and the model that served it', async () => {
+        const answer = await fixtureAnswer();
+        const { fetchMock } = serve(harness, [{ status: 200, text: JSON.stringify(answer) }]);
+
+        const result = await harness.create().generateJson<any>(request);
+        expect(result).toMatchObject({ value: answer, model: harness.model });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('unwraps JSON inside a fenced block', async () => {
+        const answer = await fixtureAnswer();
+        serve(harness, [{ status: 200, text: `Here you go:\n\`\`\`json\n${JSON.stringify(answer)}\n\`\`\`` }]);
+
+        expect((await harness.create().generateJson(request)).value).toEqual(answer);
+    });
+
+    it('rejects with the status and the server\'s message when a request fails', async () => {
+        serve(harness, [{ status: 400, text: 'Prompt too long' }]);
+
+        const error = await harness.create().generateJson(request).catch(caught => caught);
+        expect(error.status).toBe(400);
+        expect(error.message).toContain('Prompt too long');
+    });
+});
+
+describe('openai-compatible provider', () => {
+    it('sends the system instruction and the prompt as chat messages, with the schema', async () => {
+        const { bodies } = serve(harnesses['openai-compatible'], [{ status: 200, text: JSON.stringify(await fixtureAnswer()) }]);
+
+        const result = await createOpenAiCompatibleProvider(openAiSettings).generateJson({ ...request, systemInstruction: 'Be brief.' });
+        expect(bodies[0]).toMatchObject({
+            model: 'llama-test',
+            messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: request.prompt }],
+            response_format: { type: 'json_schema', json_schema: { schema } },
+        });
+        expect(result.usage).toEqual({ promptTokens: 10, outputTokens: 20 });
+    });
+});
+
+describe('gemini provider', () => {
+    const harness = harnesses['gemini (through the backend proxy)'];
+
+    it('sends the template variables instead of the prompt', async () => {
+        const { bodies } = serve(harness, [{ status: 200, text: JSON.stringify(await fixtureAnswer()) }]);
+
+        await harness.create().generateJson({ ...request, systemInstruction: 'Be brief.', siteId: 'site-1' });
+        expect(bodies[0]).toMatchObject({ variables: { topic: 'composting' }, siteId: 'site-1', model: 'gemini-test' });
+        expect(bodies[0]).not.toHaveProperty('prompt');
+        expect(bodies[0]).not.toHaveProperty('systemInstruction');
+    });
+
+    it('reports the template version the backend rendered', async () => {
+        const template = { id: 'article', version: 4, source: 'site' };
+        vi.stubGlobal('fetch', vi.fn(async () => Response.json({ text: JSON.stringify(await fixtureAnswer()), model: 'gemini-test', template })));
+
+        expect((await harness.create().generateJson(request)).template).toEqual(template);
+    });
+});
+
+describe('usage metering', () => {
+    it('reports the estimated usage of a stream that fails part way', async () => {
+        const reports: any[] = [];
+        vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+            if (url.endsWith('/ai/usage')) reports.push(JSON.parse(init!.body as string));
+            if (!url.startsWith('http://ai.test/')) return new Response(null, { status: 204 });
+            const chunk = { model: 'llama-test', choices: [{ delta: { content: '{"title": "Compost' } }] };
+            let sent = false;
+            return new Response(new ReadableStream({
+                // The chunk is read before the connection drops.
+                pull: controller => {
+                    if (sent) {
+                        controller.error(new Error('Connection reset'));
+                    } else {
+                        sent = true;
+                        controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(chunk)}\n`));
+                    }
+                },
+            }));
+        }));
+
+        const provider = withUsageMetering(createOpenAiCompatibleProvider(openAiSettings), openAiSettings);
+        await expect(provider.streamJson(request, () => {})).rejects.toThrow('Connection reset');
+        await vi.waitFor(() => expect(reports).toHaveLength(1));
+        // 23 prompt characters and 18 streamed ones, at about 4 per token.
+        expect(reports[0]).toMatchObject({ operation: 'article', model: 'llama-test', promptTokens: 6, outputTokens: 5, error: 'Connection reset' });
+    });
+
+    it('reports what a successful request used', async () => {
+        const reports: any[] = [];
+        vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+            if (url.endsWith('/ai/usage')) {
+                reports.push(JSON.parse(init!.body as string));
+                return new Response(null, { status: 204 });
+            }
+            return harnesses['openai-compatible'].respond({ status: 200, text: JSON.stringify(await fixtureAnswer()) });
+        }));
+
+        await withUsageMetering(createOpenAiCompatibleProvider(openAiSettings), openAiSettings).generateJson({ ...request, siteId: 'site-1' });
+        await vi.waitFor(() => expect(reports).toHaveLength(1));
+        expect(reports[0]).toMatchObject({ operation: 'article', model: 'llama-test', siteId: 'site-1', promptTokens: 10, outputTokens: 20 });
+    });
+});
+
+describe.each(Object.entries(harnesses))('%s provider with resilience', (_name, harness) => {
+    it('returns an answer that matches the schema in one request', async () => {
+        const answer = await fixtureAnswer();
+        const { fetchMock } = serve(harness, [{ status: 200, text: JSON.stringify(answer) }]);
+
+        expect((await withResilience(harness.create()).generateJson<any>(request)).value).toEqual(answer);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('asks for a repair when the answer misses the schema, listing the problems', async () => {
+        const answer = await fixtureAnswer();
+        const { title: _title, ...withoutTitle } = answer;
+        const broken = { ...withoutTitle, score: 'high', tone: 'Grumpy' };
+        const { bodies } = serve(harness, [
+            { status: 200, text: JSON.stringify(broken) },
+            { status: 200, text: JSON.stringify(answer) },
+        ]);
+
+        const result = await withResilience(harness.create()).generateJson(request);
+        expect(result.value).toEqual(answer);
+        expect(bodies).toHaveLength(2);
+
+        const repairPrompt = harness.promptOf(bodies[1]);
+        expect(repairPrompt.startsWith(request.prompt)).toBe(true);
+        expect(repairPrompt).toContain('- $.title: missing');
+        expect(repairPrompt).toContain('- $.score: expected integer, got string');
+        expect(repairPrompt).toContain('- $.tone: must be one of "Casual", "Professional"');
+        expect(repairPrompt).toContain(JSON.stringify(broken));
+    });
+
+    it('asks for a repair when the answer is not JSON', async () => {
+        const answer = await fixtureAnswer();
+        const { bodies } = serve(harness, [
+            { status: 200, text: 'Sorry, I cannot help with that' },
+            { status: 200, text: JSON.stringify(answer) },
+        ]);
+
+        expect((await withResilience(harness.create()).generateJson(request)).value).toEqual(answer);
+        expect(harness.promptOf(bodies[1])).toContain('- the answer is not valid JSON');
+    });
+
+    it('gives up with a format error when the repair misses the schema too', async () => {
+        const { fetchMock } = serve(harness, [{ status: 200, text: '{"title": 3}' }]);
+
+        const error = await withResilience(harness.create()).generateJson(request).catch(caught => caught);
+        expect(error).toBeInstanceOf(AiFormatError);
+        expect(error.problems).toContain('$.title: expected string, got number');
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('maps client errors without retrying them', async () => {
+        const { fetchMock } = serve(harness, [{ status: 400, text: 'Prompt too long' }]);
+
+        const error = await withResilience(harness.create()).generateJson(request).catch(caught => caught);
+        expect(error).toBeInstanceOf(harness.errorType);
+        expect(error.status).toBe(400);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries server errors with backoff, then reports the last one', async () => {
+        vi.useFakeTimers();
+        const { fetchMock } = serve(harness, [{ status: 503, text: 'Overloaded' }]);
+
+        const result = withResilience(harness.create()).generateJson(request).catch(caught => caught);
+        await vi.advanceTimersByTimeAsync(999);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(2_000);
+
+        const error = await result;
+        expect(error).toBeInstanceOf(harness.errorType);
+        expect(error.status).toBe(503);
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('recovers when a retry succeeds', async () => {
+        vi.useFakeTimers();
+        const answer = await fixtureAnswer();
+        serve(harness, [{ status: 500, text: 'Internal error' }, { status: 200, text: JSON.stringify(answer) }]);
+
+        const result = withResilience(harness.create()).generateJson(request);
+        await vi.advanceTimersByTimeAsync(1_000);
+        expect((await result).value).toEqual(answer);
+    });
+
+    it('waits as long as Retry-After asks before retrying', async () => {
+        vi.useFakeTimers();
+        const answer = await fixtureAnswer();
+        const { fetchMock } = serve(harness, [
+            { status: 429, text: 'Slow down', headers: { 'Retry-After': '5' } },
+            { status: 200, text: JSON.stringify(answer) },
+        ]);
+
+        const result = withResilience(harness.create()).generateJson(request);
+        await vi.advanceTimersByTimeAsync(4_999);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect((await result).value).toEqual(answer);
+    });
+
+    it('reports a Retry-After longer than a minute instead of waiting for it', async () => {
+        const retryAt = new Date(Date.now() + 120_000).toUTCString();
+        const { fetchMock } = serve(harness, [{ status: 429, text: 'Slow down', headers: { 'Retry-After': retryAt } }]);
+
+        const error = await withResilience(harness.create()).generateJson(request).catch(caught => caught);
+        expect(error).toBeInstanceOf(harness.errorType);
+        expect(error.retryAfter).toBeGreaterThan(60);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry an exhausted quota', async () => {
+        const { fetchMock } = serve(harness, [{ status: 429, text: 'Out of credit', code: 'quota_exhausted' }]);
+
+        const error = await withResilience(harness.create()).generateJson(request).catch(caught => caught);
+        expect(error.code).toBe('quota_exhausted');
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('times out a request that never answers', async () => {
+        vi.useFakeTimers();
+        vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        })));
+
+        const result = withResilience(harness.create()).generateText({ operation: 'keywords', prompt: 'Ideas', variables: { topic: 'ideas' } }).catch(caught => caught);
+        await vi.advanceTimersByTimeAsync(150_000);
+        expect(await result).toBeInstanceOf(AiTimeoutError);
+    });
+});
+
+describe('gemini provider with resilience', () => {
+    const harness = harnesses['gemini (through the backend proxy)'];
+
+    it('sends what to repair rather than a rewritten prompt', async () => {
+        const answer = await fixtureAnswer();
+        const { bodies } = serve(harness, [
+            { status: 200, text: '{"title": 3}' },
+            { status: 200, text: JSON.stringify(answer) },
+        ]);
+
+        await withResilience(harness.create()).generateJson(request);
+        expect(bodies[0]).not.toHaveProperty('repair');
+        expect(bodies[1].repair.answer).toBe('{"title":3}');
+        expect(bodies[1].repair.problems).toContain('$.title: expected string, got number');
+        expect(bodies[1].useSearch).toBe(false);
+    });
+
+    it('does not retry a used-up budget', async () => {
+        const { fetchMock } = serve(harness, [{ status: 402, text: 'Your team has used up its monthly AI budget', code: 'budget_exhausted' }]);
+
+        const error = await withResilience(harness.create()).generateJson(request).catch(caught => caught);
+        expect(error).toMatchObject({ status: 402, code: 'budget_exhausted' });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+});
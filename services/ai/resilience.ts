@@ -0,0 +1,138 @@
+// services/ai/resilience.ts
+// Wraps any provider with a time limit per attempt, retries with exponential backoff (or the
+// server's Retry-After) for rate limits and server errors, and validation of JSON answers against
+// their schema. An answer that doesn't parse or match gets one repair request before the error
+// reaches the caller. Used-up budgets and quotas are never retried.
+
+import { ApiError } from '../backendService';
+import { AiProvider, AiResult, JsonRequest } from './types';
+import { AiFormatError, AiRequestError, AiTimeoutError } from './errors';
+import { validateJson } from './schema';
+import { PromptRepair, renderRepairPrompt } from '../promptTemplates';
+
+// Longer than the backend's own AI timeout, so its 504 arrives first. For streams this is the
+// longest allowed silence between chunks rather than the whole response.
+const TIMEOUT_MS = 150_000;
+const MAX_RETRIES = 2;
+const BASE_DELAY_MS = 1_000;
+// A server asking for a longer wait than this gets the error shown instead of a spinner.
+const MAX_RETRY_AFTER_MS = 60_000;
+// Used-up budgets and quotas stay used up however often the request is repeated.
+const EXHAUSTED_CODES = ['budget_exhausted', 'quota_exhausted'];
+
+const isRetryable = (error: unknown): error is AiRequestError | ApiError =>
+    (error instanceof AiRequestError || error instanceof ApiError)
+    && (error.status === 429 || error.status >= 500)
+    && !EXHAUSTED_CODES.includes(error.code ?? '')
+    && (error.retryAfter ?? 0) * 1000 <= MAX_RETRY_AFTER_MS;
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs one attempt with its own abort signal, which fires on the caller's signal or when the
+ * time limit passes. `touch` restarts the limit, for streams that are still making progress.
+ */
+const withTimeout = async <T>(callerSignal: AbortSignal | undefined, run: (signal: AbortSignal, touch: () => void) => Promise<T>): Promise<T> => {
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(callerSignal?.reason);
+    if (callerSignal?.aborted) forwardAbort();
+    callerSignal?.addEventListener('abort', forwardAbort, { once: true });
+
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const touch = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, TIMEOUT_MS);
+    };
+    touch();
+
+    try {
+        return await run(controller.signal, touch);
+    } catch (error) {
+        if (timedOut) {
+            throw new AiTimeoutError(`The AI service didn't respond within ${TIMEOUT_MS / 1000} seconds. Please try again.`);
+        }
+        throw error;
+    } finally {
+        clearTimeout(timer);
+        callerSignal?.removeEventListener('abort', forwardAbort);
+    }
+};
+
+const withRetries = async <T>(callerSignal: AbortSignal | undefined, run: (signal: AbortSignal, touch: () => void) => Promise<T>): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await withTimeout(callerSignal, run);
+        } catch (error) {
+            if (callerSignal?.aborted || !isRetryable(error) || attempt >= MAX_RETRIES) throw error;
+            // 1s, 2s, ... with jitter so parallel requests don't retry in lockstep, or longer if the server asks.
+            const backoff = BASE_DELAY_MS * 2 ** attempt * (0.75 + Math.random() * 0.5);
+            const delay = Math.max(backoff, (error.retryAfter ?? 0) * 1000);
+            console.warn(`AI request failed, retrying in ${Math.round(delay)} ms:`, error);
+            await wait(delay, callerSignal);
+        }
+    }
+};
+
+const checkSchema = <T>(result: AiResult<T>, request: JsonRequest): AiResult<T> => {
+    const problems = validateJson(result.value, request.schema);
+    if (problems.length > 0) {
+        throw new AiFormatError("AI returned a response that doesn't match the expected format.", JSON.stringify(result.value), problems);
+    }
+    return result;
+};
+
+export const withResilience = (provider: AiProvider): AiProvider => {
+    // One repair attempt, always without search so providers that can apply the schema do.
+    const repair = async <T>(request: JsonRequest, error: AiFormatError): Promise<AiResult<T>> => {
+        console.warn("AI answer didn't match its schema, asking for a corrected one:", error.problems);
+        const details: PromptRepair = { problems: error.problems.length > 0 ? error.problems : [error.message], answer: error.text };
+        const repairRequest: JsonRequest = { ...request, prompt: renderRepairPrompt(request.prompt, details), repair: details, useSearch: false };
+        const result = await withRetries(request.signal, signal => provider.generateJson<T>({ ...repairRequest, signal }));
+        return checkSchema(result, request);
+    };
+
+    const withRepair = async <T>(request: JsonRequest, first: () => Promise<AiResult<T>>): Promise<AiResult<T>> => {
+        try {
+            return checkSchema(await first(), request);
+        } catch (error) {
+            if (!(error instanceof AiFormatError) || request.signal?.aborted) throw error;
+            return repair<T>(request, error);
+        }
+    };
+
+    return {
+        id: provider.id,
+        supportsSearch: provider.supportsSearch,
+
+        generateText: request => withRetries(request.signal, signal => provider.generateText({ ...request, signal })),
+
+        generateJson: <T>(request: JsonRequest) => withRepair(request, () =>
+            withRetries(request.signal, signal => provider.generateJson<T>({ ...request, signal }))),
+
+        streamJson: <T>(request: JsonRequest, onText: (text: string) => void) => withRepair(request, () =>
+            withRetries(request.signal, (signal, touch) => provider.streamJson<T>({ ...request, signal }, text => {
+                touch();
+                onText(text);
+            }))),
+
+        generateImages: request => withRetries(request.signal, signal => provider.generateImages({ ...request, signal })),
+    };
+};
@@ -0,0 +1,46 @@
+// services/ai/schema.ts
+// Providers don't all enforce response schemas (and grounded Gemini answers can't use one), so
+// parsed answers are checked against the schema they were requested with.
+
+import { JsonSchema } from './types';
+
+const MAX_PROBLEMS = 10;
+
+const matchesType = (value: unknown, type: JsonSchema['type']): boolean => {
+    switch (type) {
+        case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+        case 'array': return Array.isArray(value);
+        case 'integer': return Number.isInteger(value);
+        case 'number': return typeof value === 'number' && Number.isFinite(value);
+        default: return typeof value === type;
+    }
+};
+
+const describe = (value: unknown) => value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const collectProblems = (value: unknown, schema: JsonSchema, path: string): string[] => {
+    if (!matchesType(value, schema.type)) {
+        return [`${path}: expected ${schema.type}, got ${describe(value)}`];
+    }
+    if (schema.enum && !schema.enum.includes(value as string)) {
+        return [`${path}: must be one of ${schema.enum.map(option => `"${option}"`).join(', ')}`];
+    }
+    if (Array.isArray(value)) {
+        return schema.items ? value.flatMap((item, index) => collectProblems(item, schema.items!, `${path}[${index}]`)) : [];
+    }
+    if (schema.type === 'object') {
+        const object = value as { [key: string]: unknown };
+        const isMissing = (key: string) => object[key] === undefined || object[key] === null;
+        return [
+            ...(schema.required ?? []).filter(isMissing).map(key => `${path}.${key}: missing`),
+            ...Object.entries(schema.properties ?? {})
+                .filter(([key]) => !isMissing(key))
+                .flatMap(([key, property]) => collectProblems(object[key], property, `${path}.${key}`)),
+        ];
+    }
+    return [];
+};
+
+/** Lists where `value` departs from `schema`, as `$.path: problem` lines; empty when it matches. */
+export const validateJson = (value: unknown, schema: JsonSchema): string[] =>
+    collectProblems(value, schema, '$').slice(0, MAX_PROBLEMS);
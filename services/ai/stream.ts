@@ -0,0 +1,25 @@
+// services/ai/stream.ts
+
+/** Calls `onLine` for each non-empty line of a streamed response body (NDJSON or server-sent events). */
+export const readLines = async (response: Response, onLine: (line: string) => void): Promise<void> => {
+    if (!response.body) {
+        throw new Error("The AI response has no body to stream.");
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            buffer += decoder.decode(value, { stream: !done });
+            const lines = buffer.split('\n');
+            buffer = done ? '' : lines.pop() ?? '';
+            lines.map(line => line.trim()).filter(Boolean).forEach(onLine);
+            if (done) return;
+        }
+    } catch (error) {
+        // Stop the download if a line handler gave up on the stream.
+        reader.cancel().catch(() => {});
+        throw error;
+    }
+};
@@ -0,0 +1,82 @@
+// services/ai/types.ts
+// The contract every AI backend implements. Prompts and schemas are provider-neutral;
+// each provider translates them into its own API.
+
+import { AiProviderId, PromptTemplateRef } from '../../types';
+import type { PromptRepair, TemplateVariables } from '../promptTemplates';
+
+/** The subset of JSON Schema the generators use to describe structured output. */
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+    description?: string;
+    properties?: { [key: string]: JsonSchema };
+    required?: string[];
+    items?: JsonSchema;
+    enum?: string[];
+}
+
+/**
+ * Which generator a request comes from; the backend proxy rate-limits and logs by it. Each is also
+ * the id of the prompt template it renders.
+ */
+export type AiTextOperation =
+    | 'article' | 'article-outline' | 'article-section' | 'product' | 'content-strategy' | 'article-seo' | 'product-seo'
+    | 'keywords' | 'competitor-analysis' | 'internal-links' | 'rewrite';
+export type AiImageOperation = 'featured-image';
+
+export interface AiUsage {
+    promptTokens: number;
+    outputTokens: number;
+}
+
+export interface AiResult<T> {
+    value: T;
+    // The model that actually served the request.
+    model: string;
+    usage?: AiUsage;
+    // The template version the backend rendered the prompt from, when it rendered it itself.
+    template?: PromptTemplateRef;
+}
+
+export interface TextRequest {
+    operation: AiTextOperation;
+    prompt: string;
+    systemInstruction?: string;
+    // What `prompt` was rendered from. The Gemini proxy only accepts the app's own templates, so it
+    // receives these and renders the prompt itself.
+    variables: TemplateVariables;
+    // Set on the second attempt at an answer that missed its schema; `prompt` already asks for the fix.
+    repair?: PromptRepair;
+    // Ground the answer in live web results. Only honoured when the provider `supportsSearch`.
+    useSearch?: boolean;
+    // The site the output is for, so its cost counts towards that site's usage and budget.
+    siteId?: string;
+    signal?: AbortSignal;
+}
+
+export interface JsonRequest extends TextRequest {
+    schema: JsonSchema;
+}
+
+export interface ImageRequest {
+    operation: AiImageOperation;
+    prompt: string;
+    count: number;
+    aspectRatio: '1:1' | '16:9';
+    siteId?: string;
+    signal?: AbortSignal;
+}
+
+export interface AiProvider {
+    readonly id: AiProviderId;
+    readonly supportsSearch: boolean;
+    generateText(request: TextRequest): Promise<AiResult<string>>;
+    generateJson<T>(request: JsonRequest): Promise<AiResult<T>>;
+    /**
+     * Like generateJson, but calls `onText` with the raw text received so far (incomplete JSON)
+     * as it streams in. Abort it with `request.signal`.
+     */
+    streamJson<T>(request: JsonRequest, onText: (text: string) => void): Promise<AiResult<T>>;
+    /** Resolves to base64-encoded JPEGs (no `data:` prefix). */
+    generateImages(request: ImageRequest): Promise<AiResult<string[]>>;
+}
@@ -1,46 +1,302 @@
+// This file handles all communication with the backend API (see server/).
+// The Vite dev server proxies /api to it.
 
-// This file will handle all communication with the new backend service.
-// For now, it will contain mock data and functions.
+import { User, UserRole, Team, TeamInvitation, InvitationPreview, WordPressSite, GeneratedContent, AiUsageSummary, AiBudget, BudgetScope, PromptTemplateOverride, VoiceProfile, LinkIndexEntry } from '../types';
 
-import { User, Team } from '../types';
+const API_BASE = '/api';
+const SESSION_STORAGE_KEY = 'session';
 
-const MOCK_USER: User = {
-  id: 'user-1',
-  name: 'John Doe',
-  email: 'john.doe@example.com',
-  teamId: 'team-1',
+interface StoredSession {
+    accessToken: string;
+    refreshToken: string;
+    expiresAt: string;
+}
+
+interface AuthResponse extends StoredSession {
+    user: User;
+}
+
+const readSession = (): StoredSession | null => {
+    try {
+        const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+        return raw ? JSON.parse(raw) : null;
+    } catch {
+        return null;
+    }
 };
 
-const MOCK_TEAM: Team = {
-  id: 'team-1',
-  name: 'Marketing Team',
-  members: ['user-1', 'user-2'],
+const saveSession = ({ accessToken, refreshToken, expiresAt }: StoredSession) => {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify({ accessToken, refreshToken, expiresAt }));
 };
 
-export const login = async (email: string, password: string): Promise<User> => {
-  console.log(`Attempting to log in with email: ${email} and password: ${password}`);
-  // In a real application, you would make an API call to your backend here.
-  // For now, we'll just return the mock user.
-  if (email === 'john.doe@example.com' && password === 'password') {
-    return Promise.resolve(MOCK_USER);
-  } else {
-    return Promise.reject(new Error('Invalid credentials'));
-  }
-};
-
-export const getUser = async (userId: string): Promise<User> => {
-    // In a real application, you would make an API call to your backend here.
-    // For now, we'll just return the mock user.
-    if (userId === 'user-1') {
-        return Promise.resolve(MOCK_USER);
-    }
-    return Promise.reject(new Error('User not found'));
-}
+const clearSession = () => localStorage.removeItem(SESSION_STORAGE_KEY);
+
+/**
+ * Error returned by the API; `status` mirrors the HTTP status code. `code` names failures that
+ * share a status (e.g. `budget_exhausted`) and `retryAfter` is the Retry-After header in seconds.
+ */
+export class ApiError extends Error {
+    readonly status: number;
+    readonly code?: string;
+    readonly retryAfter?: number;
 
-export const getTeam = async (teamId: string): Promise<Team> => {
-    // In a real application, you would make an API call to your backend here.
-    if(teamId === 'team-1') {
-        return Promise.resolve(MOCK_TEAM);
+    constructor(status: number, message: string, options: { code?: string; retryAfter?: number } = {}) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+        this.code = options.code;
+        this.retryAfter = options.retryAfter;
     }
-    return Promise.reject(new Error('Team not found'));
 }
+
+/** The Retry-After header in seconds, whether it is given as a delay or as a date. */
+export const parseRetryAfter = (header: string | null): number | undefined => {
+    if (!header) return undefined;
+    const seconds = /^\d+$/.test(header.trim()) ? Number(header) : (Date.parse(header) - Date.now()) / 1000;
+    return Number.isFinite(seconds) ? Math.max(0, Math.ceil(seconds)) : undefined;
+};
+
+/** The ApiError for a failed API response, from its `{ error, code }` body. */
+export const toResponseError = async (response: Response): Promise<ApiError> => {
+    const body = await response.json().catch(() => ({}));
+    return new ApiError(response.status, body.error || `Request failed (${response.status}).`, {
+        code: typeof body.code === 'string' ? body.code : undefined,
+        retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
+    });
+};
+
+const send = async <T>(path: string, init: RequestInit, accessToken?: string): Promise<T> => {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (init.body !== undefined) headers['Content-Type'] = 'application/json';
+    if (accessToken) headers.Authorization = `Bearer ${accessToken}`;
+
+    const response = await fetch(`${API_BASE}${path}`, { ...init, headers: { ...headers, ...init.headers } });
+    if (response.status === 204) {
+        return undefined as T;
+    }
+    if (!response.ok) {
+        throw await toResponseError(response);
+    }
+    return await response.json().catch(() => ({})) as T;
+};
+
+// Concurrent 401s share one refresh, since each refresh rotates the token pair.
+let refreshInFlight: Promise<StoredSession | null> | null = null;
+
+const refreshTokens = (): Promise<StoredSession | null> => {
+    if (!refreshInFlight) {
+        const session = readSession();
+        refreshInFlight = (session
+            ? send<AuthResponse>('/auth/refresh', { method: 'POST', body: JSON.stringify({ refreshToken: session.refreshToken }) })
+                .then(result => { saveSession(result); return result; })
+                .catch(() => { clearSession(); return null; })
+            : Promise.resolve(null)
+        ).finally(() => { refreshInFlight = null; });
+    }
+    return refreshInFlight;
+};
+
+// Responses relayed from WordPress carry their own status (see the site proxy), so a 401 there
+// means bad site credentials rather than an expired session.
+const isSessionExpired = (response: Response) =>
+    response.status === 401 && !response.headers.has('X-Upstream-Status');
+
+/**
+ * Like `fetch`, but for API paths: adds the access token and refreshes it once on 401.
+ * The raw response is returned, for callers that need headers or non-JSON bodies.
+ */
+export const apiFetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+    const session = readSession();
+    const withToken = (accessToken?: string): RequestInit => ({
+        ...init,
+        headers: { ...(init.headers as Record<string, string>), ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}) },
+    });
+
+    const response = await fetch(`${API_BASE}${path}`, withToken(session?.accessToken));
+    if (!session || !isSessionExpired(response)) {
+        return response;
+    }
+    const refreshed = await refreshTokens();
+    return refreshed ? fetch(`${API_BASE}${path}`, withToken(refreshed.accessToken)) : response;
+};
+
+/**
+ * Calls an authenticated endpoint. An expired access token is refreshed once and the
+ * request retried; if that fails too the stored session is discarded.
+ */
+export const apiRequest = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    const session = readSession();
+    if (!session) {
+        throw new ApiError(401, 'Not signed in.');
+    }
+    try {
+        return await send<T>(path, init, session.accessToken);
+    } catch (error) {
+        if (!(error instanceof ApiError) || error.status !== 401) throw error;
+        const refreshed = await refreshTokens();
+        if (!refreshed) throw error;
+        return send<T>(path, init, refreshed.accessToken);
+    }
+};
+
+export const login = async (email: string, password: string): Promise<User> => {
+    const result = await send<AuthResponse>('/auth/login', { method: 'POST', body: JSON.stringify({ email, password }) });
+    saveSession(result);
+    return result.user;
+};
+
+export const register = async (name: string, email: string, password: string, teamName?: string): Promise<User> => {
+    const result = await send<AuthResponse>('/auth/register', { method: 'POST', body: JSON.stringify({ name, email, password, teamName }) });
+    saveSession(result);
+    return result.user;
+};
+
+/** Asks the server who the stored session belongs to. Returns null if there is no valid session. */
+export const restoreSession = async (): Promise<User | null> => {
+    if (!readSession()) return null;
+    try {
+        const { user } = await apiRequest<{ user: User }>('/auth/session');
+        return user;
+    } catch (error) {
+        console.error("Could not restore session", error);
+        return null;
+    }
+};
+
+export const logout = async (): Promise<void> => {
+    const session = readSession();
+    clearSession();
+    if (session) {
+        await send('/auth/logout', { method: 'POST' }, session.accessToken).catch(error => console.error("Logout request failed", error));
+    }
+};
+
+export const getUser = (userId: string): Promise<User> => apiRequest<User>(`/users/${encodeURIComponent(userId)}`);
+
+export const getTeam = (teamId: string): Promise<Team> => apiRequest<Team>(`/teams/${encodeURIComponent(teamId)}`);
+
+// Team management. Changing someone's role, inviting and removing members are editor-only.
+
+const teamPath = (teamId: string) => `/teams/${encodeURIComponent(teamId)}`;
+
+export const getTeamMembers = (teamId: string): Promise<User[]> => apiRequest<User[]>(`${teamPath(teamId)}/members`);
+
+/** Creates a new team and moves the current user into it as an editor. */
+export const createTeam = async (name: string): Promise<User> =>
+    (await apiRequest<{ user: User }>('/teams', { method: 'POST', body: JSON.stringify({ name }) })).user;
+
+export const updateMemberRole = (teamId: string, userId: string, role: UserRole): Promise<User> =>
+    apiRequest<User>(`${teamPath(teamId)}/members/${encodeURIComponent(userId)}`, { method: 'PATCH', body: JSON.stringify({ role }) });
+
+export const removeMember = (teamId: string, userId: string): Promise<void> =>
+    apiRequest<void>(`${teamPath(teamId)}/members/${encodeURIComponent(userId)}`, { method: 'DELETE' });
+
+export const getInvitations = (teamId: string): Promise<TeamInvitation[]> =>
+    apiRequest<TeamInvitation[]>(`${teamPath(teamId)}/invitations`);
+
+/** The returned invitation includes its `token`; it can't be retrieved again later. */
+export const inviteMember = (teamId: string, email: string, role: UserRole): Promise<TeamInvitation> =>
+    apiRequest<TeamInvitation>(`${teamPath(teamId)}/invitations`, { method: 'POST', body: JSON.stringify({ email, role }) });
+
+export const revokeInvitation = (teamId: string, invitationId: string): Promise<void> =>
+    apiRequest<void>(`${teamPath(teamId)}/invitations/${encodeURIComponent(invitationId)}`, { method: 'DELETE' });
+
+export const getInvitationLink = (token: string): string => `${window.location.origin}/?invite=${encodeURIComponent(token)}`;
+
+export const previewInvitation = (token: string): Promise<InvitationPreview> =>
+    apiRequest<InvitationPreview>('/invitations/preview', { method: 'POST', body: JSON.stringify({ token }) });
+
+/** Joins the invitation's team (leaving the current one) and returns the updated user. */
+export const acceptInvitation = async (token: string): Promise<User> =>
+    (await apiRequest<{ user: User }>('/invitations/accept', { method: 'POST', body: JSON.stringify({ token }) })).user;
+
+export const declineInvitation = (token: string): Promise<void> =>
+    apiRequest<void>('/invitations/decline', { method: 'POST', body: JSON.stringify({ token }) });
+
+// JSON drops `undefined`, so cleared fields are sent as null; the server deletes null fields.
+const toPatchBody = (updates: object): string =>
+    JSON.stringify(updates, (_key, value) => value === undefined ? null : value);
+
+// Sites and the content library are stored per team.
+
+export const fetchSites = (): Promise<WordPressSite[]> => apiRequest<WordPressSite[]>('/sites');
+
+/** Checks WordPress credentials without saving them; returns the site title WordPress reports. */
+export const verifySiteCredentials = (url: string, username: string, appPassword: string): Promise<{ name: string | null }> =>
+    apiRequest<{ name: string | null }>('/sites/verify', { method: 'POST', body: JSON.stringify({ url, username, appPassword }) });
+
+export const createSite = (site: WordPressSite, appPassword?: string): Promise<WordPressSite> =>
+    apiRequest<WordPressSite>('/sites', { method: 'POST', body: JSON.stringify({ ...site, appPassword }) });
+
+/**
+ * Replaces a site's application password, and its URL when `url` is given. The server verifies
+ * them with WordPress first; this is the only way to change a connected site's URL or username.
+ */
+export const rotateSiteCredentials = (siteId: string, username: string, appPassword: string, url?: string): Promise<WordPressSite> =>
+    apiRequest<WordPressSite>(`/sites/${encodeURIComponent(siteId)}/credentials`, { method: 'PUT', body: JSON.stringify({ username, appPassword, url }) });
+
+export const patchSite = (siteId: string, updates: Partial<WordPressSite>): Promise<WordPressSite> =>
+    apiRequest<WordPressSite>(`/sites/${encodeURIComponent(siteId)}`, { method: 'PATCH', body: toPatchBody(updates) });
+
+export const deleteSite = (siteId: string): Promise<void> =>
+    apiRequest<void>(`/sites/${encodeURIComponent(siteId)}`, { method: 'DELETE' });
+
+// Dates come back from JSON as strings.
+const reviveContent = (item: GeneratedContent): GeneratedContent => ({
+    ...item,
+    createdAt: new Date(item.createdAt),
+    updatedAt: item.updatedAt ? new Date(item.updatedAt) : undefined,
+});
+
+export const fetchLibrary = async (): Promise<GeneratedContent[]> =>
+    (await apiRequest<GeneratedContent[]>('/content')).map(reviveContent);
+
+export const createContent = async (content: GeneratedContent): Promise<GeneratedContent> =>
+    reviveContent(await apiRequest<GeneratedContent>('/content', { method: 'POST', body: JSON.stringify(content) }));
+
+export const patchContent = async (contentId: string, updates: Partial<GeneratedContent>): Promise<GeneratedContent> =>
+    reviveContent(await apiRequest<GeneratedContent>(`/content/${encodeURIComponent(contentId)}`, { method: 'PATCH', body: toPatchBody(updates) }));
+
+export const deleteContent = (contentId: string): Promise<void> =>
+    apiRequest<void>(`/content/${encodeURIComponent(contentId)}`, { method: 'DELETE' });
+
+// AI usage and budgets. Setting a budget is editor-only; a null limit removes it.
+
+export const getAiUsage = (month?: string): Promise<AiUsageSummary> =>
+    apiRequest<AiUsageSummary>(`/ai/usage${month ? `?month=${encodeURIComponent(month)}` : ''}`);
+
+export const setAiBudget = (scope: BudgetScope, scopeId: string, monthlyLimitUsd: number | null): Promise<AiBudget[]> =>
+    apiRequest<AiBudget[]>('/ai/budgets', { method: 'PUT', body: JSON.stringify({ scope, scopeId, monthlyLimitUsd }) });
+
+// Prompt template overrides. Everyone in the team reads them; only editors change them.
+
+export const fetchPromptTemplates = (): Promise<PromptTemplateOverride[]> =>
+    apiRequest<PromptTemplateOverride[]>('/prompt-templates');
+
+export const savePromptTemplate = (templateId: string, siteId: string | null, systemInstruction: string, userPrompt: string): Promise<PromptTemplateOverride> =>
+    apiRequest<PromptTemplateOverride>(`/prompt-templates/${encodeURIComponent(templateId)}`, { method: 'PUT', body: JSON.stringify({ siteId, systemInstruction, userPrompt }) });
+
+export const deletePromptTemplate = (templateId: string, siteId: string | null): Promise<void> =>
+    apiRequest<void>(`/prompt-templates/${encodeURIComponent(templateId)}${siteId ? `?siteId=${encodeURIComponent(siteId)}` : ''}`, { method: 'DELETE' });
+
+// Voice profiles. Everyone in the team reads them; only editors change them.
+
+export const fetchVoiceProfiles = (): Promise<VoiceProfile[]> => apiRequest<VoiceProfile[]>('/voice-profiles');
+
+export const createVoiceProfile = (profile: VoiceProfile): Promise<VoiceProfile> =>
+    apiRequest<VoiceProfile>('/voice-profiles', { method: 'POST', body: JSON.stringify(profile) });
+
+export const patchVoiceProfile = (profileId: string, updates: Partial<VoiceProfile>): Promise<VoiceProfile> =>
+    apiRequest<VoiceProfile>(`/voice-profiles/${encodeURIComponent(profileId)}`, { method: 'PATCH', body: toPatchBody(updates) });
+
+/** Also detaches the profile from every site that used it. */
+export const deleteVoiceProfile = (profileId: string): Promise<void> =>
+    apiRequest<void>(`/voice-profiles/${encodeURIComponent(profileId)}`, { method: 'DELETE' });
+
+// Link index, one per site. Saving replaces the site's whole index.
+
+export const fetchLinkIndex = (siteId: string): Promise<LinkIndexEntry[]> =>
+    apiRequest<LinkIndexEntry[]>(`/link-index/${encodeURIComponent(siteId)}`);
+
+export const saveLinkIndex = (siteId: string, entries: LinkIndexEntry[]): Promise<LinkIndexEntry[]> =>
+    apiRequest<LinkIndexEntry[]>(`/link-index/${encodeURIComponent(siteId)}`, { method: 'PUT', body: JSON.stringify({ entries }) });
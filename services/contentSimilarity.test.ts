@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SimilarityDocument, checkContentOverlaps, findContentOverlaps, findOverlapCandidates } from './contentSimilarity';
+
+const coldBrew = 'Cold brew coffee is made by steeping coarse coffee grounds in cold water for twelve hours. '
+    + 'Strain the grounds through a paper filter, then dilute the concentrate with water or milk. '
+    + 'Cold brew tastes smoother than hot coffee because the cold water extracts less acid. '
+    + 'Keep the concentrate in the fridge for up to a week.';
+const coldBrewReworded = coldBrew.replace('steeping', 'soaking').replace('paper filter', 'cloth filter');
+const icedCoffee = 'Iced coffee is hot coffee poured over ice, while cold brew coffee steeps in cold water for hours. '
+    + 'Cold brew has less acid and a smoother taste. Iced coffee is quicker to make and keeps more of the bright flavour of the beans.';
+const roses = 'Prune roses when the plants are dormant. Cut dead canes back to healthy wood with clean shears, '
+    + 'and shape the bush so air moves freely between the stems. Feed the roses in spring once new shoots appear.';
+
+const item = (id: string, title: string, text: string, changes: Partial<SimilarityDocument> = {}): SimilarityDocument =>
+    ({ id: `library:${id}`, title, text, siteId: 'blog', contentId: id, ...changes });
+
+const post = (postId: number, title: string, text: string, siteId = 'blog'): SimilarityDocument =>
+    ({ id: `post:${siteId}:${postId}`, title, text, siteId, url: `https://${siteId}.test/${postId}/`, postId });
+
+const coldBrewTitle = 'How to make cold brew coffee';
+const coldBrewItem = item('a', coldBrewTitle, coldBrew);
+const rosesPost = post(2, 'Pruning roses in winter', roses);
+
+describe('findContentOverlaps', () => {
+    it('flags nearly the same text as a duplicate, for both library items', () => {
+        const overlaps = findContentOverlaps([coldBrewItem, item('b', coldBrewTitle, coldBrewReworded)]);
+        expect(overlaps.get('library:a')).toEqual([expect.objectContaining({ kind: 'duplicate', other: expect.objectContaining({ id: 'library:b' }) })]);
+        expect(overlaps.get('library:b')?.[0]).toMatchObject({ kind: 'duplicate', other: { id: 'library:a' } });
+        expect(overlaps.get('library:a')![0].similarity).toBeGreaterThanOrEqual(0.8);
+    });
+
+    it('flags a looser match sharing the main keywords on the same site as cannibalization', () => {
+        const [overlap] = findContentOverlaps([coldBrewItem, post(1, 'Cold brew coffee or iced coffee?', icedCoffee), rosesPost]).get('library:a')!;
+        expect(overlap).toMatchObject({ kind: 'cannibalization', other: { id: 'post:blog:1' } });
+        expect(overlap.similarity).toBeLessThan(0.8);
+        expect(overlap.sharedKeywords).toEqual(expect.arrayContaining(['brew', 'coffee']));
+    });
+
+    it('counts cannibalization within a site only, but duplicates anywhere', () => {
+        const overlaps = findContentOverlaps([
+            coldBrewItem,
+            post(1, 'Cold brew coffee or iced coffee?', icedCoffee, 'other'),
+            post(2, coldBrewTitle, coldBrewReworded, 'other'),
+        ]).get('library:a')!;
+        expect(overlaps.map(overlap => [overlap.other.id, overlap.kind])).toEqual([['post:other:2', 'duplicate']]);
+    });
+
+    it('leaves out the post a library item was published as', () => {
+        const published = item('a', coldBrewTitle, coldBrew, { url: 'https://www.blog.test/1', postId: 9 });
+        expect(findContentOverlaps([published, post(1, coldBrewTitle, coldBrew)]).size).toBe(0);
+        expect(findContentOverlaps([{ ...published, url: undefined, postId: 1 }, post(1, coldBrewTitle, coldBrew)]).size).toBe(0);
+    });
+
+    it('compares only the targets when some are given', () => {
+        const other = item('b', coldBrewTitle, coldBrewReworded);
+        expect([...findContentOverlaps([coldBrewItem, other], new Set(['library:b'])).keys()]).toEqual(['library:b']);
+    });
+});
+
+describe('findOverlapCandidates', () => {
+    it('picks the live posts whose title and excerpt come close to a library item', () => {
+        const excerpt = post(1, 'Making cold brew coffee', 'Cold brew coffee is made by steeping coarse coffee grounds in cold water […]');
+        expect(findOverlapCandidates([coldBrewItem, excerpt, rosesPost]).map(document => document.id)).toEqual(['post:blog:1']);
+    });
+
+    it('compares only the start of a library item, as long as an excerpt', () => {
+        const gardening = item('g', 'Garden notes', `${Array(10).fill(roses).join(' ')} ${coldBrew}`);
+        expect(findOverlapCandidates([gardening, post(1, 'Coffee notes', coldBrew), rosesPost]).map(document => document.id)).toEqual(['post:blog:2']);
+    });
+});
+
+describe('checkContentOverlaps', () => {
+    it('downloads only the close posts and compares their full bodies', async () => {
+        const excerpt = post(1, coldBrewTitle, 'Cold brew coffee is made by soaking coarse coffee grounds […]');
+        const loadBodies = vi.fn(async (posts: SimilarityDocument[]) => posts.map(summary => ({ ...summary, text: coldBrewReworded })));
+
+        const overlaps = await checkContentOverlaps([coldBrewItem, excerpt, rosesPost], loadBodies);
+        expect(loadBodies).toHaveBeenCalledOnce();
+        expect(loadBodies.mock.calls[0][0].map(document => document.id)).toEqual(['post:blog:1']);
+        expect(overlaps.get('library:a')).toEqual([expect.objectContaining({ kind: 'duplicate', other: expect.objectContaining({ text: coldBrewReworded }) })]);
+    });
+
+    it('downloads nothing when no post comes close', async () => {
+        const loadBodies = vi.fn(async () => []);
+        expect((await checkContentOverlaps([coldBrewItem, rosesPost], loadBodies)).size).toBe(0);
+        expect(loadBodies).not.toHaveBeenCalled();
+    });
+});
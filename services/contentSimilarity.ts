@@ -0,0 +1,197 @@
+// services/contentSimilarity.ts
+// Finds library items that repeat other items or live posts, without calling the AI. Bodies are
+// compared by TF-IDF cosine similarity: nearly the same text is a duplicate, while a looser match
+// that also shares the main keywords is cannibalization, two pages competing for the same search.
+// Live posts are screened by title and excerpt first, so only the close ones are downloaded in full.
+
+import { ContentType, GeneratedContent, WordPressPostBody, WordPressPostSummary, WordPressSite } from '../types';
+import { significantTerms } from './duplicateTopics';
+import { extractKeywords, urlKey } from './linkGraph';
+import { toPlainText } from './seoChecker';
+import { getPostBodies } from './wordpressService';
+
+const DUPLICATE_SIMILARITY = 0.8;
+const CANNIBALIZATION_SIMILARITY = 0.3;
+// Cannibalizing pages share at least MIN_SHARED_FOCUS of each other's top FOCUS_KEYWORDS keywords.
+const FOCUS_KEYWORDS = 3;
+const MIN_SHARED_FOCUS = 2;
+// Title words count this many times in a page's term vector.
+const TITLE_WEIGHT = 3;
+// WordPress cuts automatic excerpts at 55 words; library items are cut the same way for screening.
+const EXCERPT_WORDS = 55;
+// Screening only picks the posts worth downloading, so it lets through looser matches than either kind of overlap.
+const CANDIDATE_SIMILARITY = 0.15;
+
+/** A library item or a live post, ready to compare. */
+export interface SimilarityDocument {
+    id: string;
+    title: string;
+    text: string;
+    siteId?: string;
+    url?: string;
+    contentId?: string;
+    postId?: number;
+}
+
+export type OverlapKind = 'duplicate' | 'cannibalization';
+
+export interface ContentOverlap {
+    other: SimilarityDocument;
+    kind: OverlapKind;
+    // Cosine similarity of the two bodies, 0–1.
+    similarity: number;
+    sharedKeywords: string[];
+}
+
+export const libraryDocumentId = (contentId: string) => `library:${contentId}`;
+
+export const libraryDocument = (item: GeneratedContent): SimilarityDocument => ({
+    id: libraryDocumentId(item.id),
+    title: item.title,
+    text: toPlainText(item.type === ContentType.Product ? `${item.shortDescription}\n\n${item.longDescription}` : item.body),
+    siteId: item.siteId,
+    url: item.wordpressUrl,
+    contentId: item.id,
+    postId: item.wordpressId,
+});
+
+const postDocumentId = (siteId: string, postId: number) => `post:${siteId}:${postId}`;
+
+export const postDocument = (siteId: string, post: WordPressPostBody): SimilarityDocument => ({
+    id: postDocumentId(siteId, post.id),
+    title: post.title,
+    text: post.text,
+    siteId,
+    url: post.link,
+    postId: post.id,
+});
+
+/** A live post by its excerpt, for screening; it keeps the id of the post's full document. */
+export const postSummaryDocument = (siteId: string, post: WordPressPostSummary): SimilarityDocument => ({
+    id: postDocumentId(siteId, post.id),
+    title: post.title,
+    text: post.excerpt,
+    siteId,
+    url: post.link,
+    postId: post.id,
+});
+
+// A library item and the post it was published as are the same page, not an overlap.
+const isSamePage = (a: SimilarityDocument, b: SimilarityDocument): boolean =>
+    (a.url !== undefined && b.url !== undefined && urlKey(a.url) === urlKey(b.url))
+    || (a.siteId === b.siteId && a.postId !== undefined && a.postId === b.postId);
+
+type TermVector = Map<string, number>;
+
+const termCounts = (document: SimilarityDocument): TermVector => {
+    const counts: TermVector = new Map();
+    significantTerms(document.title).forEach(term => counts.set(term, (counts.get(term) ?? 0) + TITLE_WEIGHT));
+    significantTerms(document.text).forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+    return counts;
+};
+
+/** Unit-length TF-IDF vectors, so a dot product is the cosine similarity. */
+const tfIdfVectors = (documents: SimilarityDocument[]): TermVector[] => {
+    const counts = documents.map(termCounts);
+    const documentFrequency = new Map<string, number>();
+    counts.forEach(vector => vector.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)));
+    return counts.map(vector => {
+        const weighted: TermVector = new Map();
+        let norm = 0;
+        vector.forEach((count, term) => {
+            const weight = (1 + Math.log(count)) * Math.log(1 + documents.length / documentFrequency.get(term)!);
+            weighted.set(term, weight);
+            norm += weight * weight;
+        });
+        norm = Math.sqrt(norm);
+        weighted.forEach((weight, term) => weighted.set(term, norm > 0 ? weight / norm : 0));
+        return weighted;
+    });
+};
+
+const dot = (a: TermVector, b: TermVector): number => {
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    let sum = 0;
+    small.forEach((weight, term) => { sum += weight * (large.get(term) ?? 0); });
+    return sum;
+};
+
+const targetFlags = (documents: SimilarityDocument[], targetIds?: Set<string>): boolean[] =>
+    documents.map(document => targetIds ? targetIds.has(document.id) : document.contentId !== undefined);
+
+/**
+ * Overlaps of each target with the other documents, most similar first, keyed by target id.
+ * Targets are the library items among `documents` unless `targetIds` picks some. Cannibalization
+ * only counts within a site (or with items not assigned to one); duplicates count anywhere.
+ */
+export const findContentOverlaps = (documents: SimilarityDocument[], targetIds?: Set<string>): Map<string, ContentOverlap[]> => {
+    const vectors = tfIdfVectors(documents);
+    const focus = documents.map(document => extractKeywords(document.title, document.text).slice(0, FOCUS_KEYWORDS));
+    const isTarget = targetFlags(documents, targetIds);
+    const overlaps = new Map<string, ContentOverlap[]>();
+    const add = (index: number, overlap: ContentOverlap) => {
+        const id = documents[index].id;
+        overlaps.set(id, [...(overlaps.get(id) ?? []), overlap]);
+    };
+
+    documents.forEach((a, i) => {
+        if (!isTarget[i]) return;
+        documents.forEach((b, j) => {
+            // Pairs of targets are compared once, from the first of the two.
+            if (i === j || (isTarget[j] && j < i) || isSamePage(a, b)) return;
+            const similarity = dot(vectors[i], vectors[j]);
+            const sharedKeywords = focus[i].filter(keyword => focus[j].includes(keyword));
+            const sameSite = !a.siteId || !b.siteId || a.siteId === b.siteId;
+            let kind: OverlapKind | null = null;
+            if (similarity >= DUPLICATE_SIMILARITY) {
+                kind = 'duplicate';
+            } else if (sameSite && similarity >= CANNIBALIZATION_SIMILARITY && sharedKeywords.length >= MIN_SHARED_FOCUS) {
+                kind = 'cannibalization';
+            }
+            if (!kind) return;
+            add(i, { other: b, kind, similarity, sharedKeywords });
+            if (isTarget[j]) add(j, { other: a, kind, similarity, sharedKeywords });
+        });
+    });
+
+    overlaps.forEach(list => list.sort((a, b) => b.similarity - a.similarity));
+    return overlaps;
+};
+
+const excerptOf = (document: SimilarityDocument): SimilarityDocument =>
+    document.contentId === undefined ? document : { ...document, text: document.text.split(/\s+/).filter(Boolean).slice(0, EXCERPT_WORDS).join(' ') };
+
+/** The live posts among `documents` whose title and excerpt come close to a target's, compared the same way. */
+export const findOverlapCandidates = (documents: SimilarityDocument[], targetIds?: Set<string>): SimilarityDocument[] => {
+    const vectors = tfIdfVectors(documents.map(excerptOf));
+    const isTarget = targetFlags(documents, targetIds);
+    return documents.filter((post, j) => post.contentId === undefined && !isTarget[j] && documents.some((target, i) =>
+        isTarget[i] && !isSamePage(target, post) && dot(vectors[i], vectors[j]) >= CANDIDATE_SIMILARITY));
+};
+
+/**
+ * `findContentOverlaps` for library items and live posts given by their summaries. Only the posts
+ * `findOverlapCandidates` picks are passed to `loadBodies`, and compared in full.
+ */
+export const checkContentOverlaps = async (
+    documents: SimilarityDocument[],
+    loadBodies: (posts: SimilarityDocument[]) => Promise<SimilarityDocument[]>,
+    targetIds?: Set<string>,
+): Promise<Map<string, ContentOverlap[]>> => {
+    const candidates = findOverlapCandidates(documents, targetIds);
+    const bodies = candidates.length > 0 ? await loadBodies(candidates) : [];
+    return findContentOverlaps([...documents.filter(document => document.contentId !== undefined), ...bodies], targetIds);
+};
+
+/** Downloads the bodies of the given live posts from their sites, for `checkContentOverlaps`. */
+export const loadPostDocuments = async (sites: WordPressSite[], posts: SimilarityDocument[]): Promise<SimilarityDocument[]> => {
+    const idsBySite = new Map<string, number[]>();
+    posts.forEach(post => {
+        if (post.siteId && post.postId !== undefined) idsBySite.set(post.siteId, [...(idsBySite.get(post.siteId) ?? []), post.postId]);
+    });
+    const bodies = await Promise.all([...idsBySite].map(async ([siteId, ids]) => {
+        const site = sites.find(candidate => candidate.id === siteId);
+        return site ? (await getPostBodies(site, ids)).map(post => postDocument(siteId, post)) : [];
+    }));
+    return bodies.flat();
+};
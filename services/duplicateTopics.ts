@@ -0,0 +1,51 @@
+// services/duplicateTopics.ts
+// Spots a new topic that an existing post already covers, by comparing the significant words of
+// the topic and each post title. Cheap enough to run on every keystroke.
+
+import { WordPressPost } from '../types';
+import { matchKey, normalizeText, tokenize } from './textNormalization';
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'best', 'by', 'can', 'do', 'for', 'from', 'guide', 'how', 'in', 'is', 'it',
+    'of', 'on', 'or', 'our', 'the', 'this', 'to', 'top', 'what', 'why', 'with', 'you', 'your',
+    'في', 'من', 'على', 'إلى', 'عن', 'مع', 'أو', 'ثم', 'هذا', 'هذه', 'ذلك', 'التي', 'الذي', 'كل', 'ما', 'ماذا', 'كيف', 'لماذا',
+    'هل', 'أفضل', 'دليل', 'أهم',
+].map(word => matchKey(normalizeText(word))));
+
+// Dice similarity at or above which a post counts as covering the same topic.
+const DUPLICATE_THRESHOLD = 0.6;
+
+const LATIN_WORD = /^\p{Script=Latin}+$/u;
+
+export interface DuplicatePost {
+    post: WordPressPost;
+    // 0–1; 1 when both use exactly the same significant words.
+    similarity: number;
+}
+
+/** The words of `text` that say what it is about, normalized for matching; repeats are kept. */
+export const significantTerms = (text: string): string[] => tokenize(text)
+    .map(matchKey)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    // Good enough to match "recipes" with "recipe" without a real stemmer; other scripts are left alone.
+    .map(word => word.length > 3 && word.endsWith('s') && LATIN_WORD.test(word) ? word.slice(0, -1) : word);
+
+const significantWords = (text: string): Set<string> => new Set(significantTerms(text));
+
+const diceSimilarity = (a: Set<string>, b: Set<string>): number => {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    a.forEach(word => { if (b.has(word)) shared++; });
+    return (2 * shared) / (a.size + b.size);
+};
+
+/** Posts whose titles cover the same topic, most similar first. */
+export const findDuplicatePosts = (topic: string, posts: WordPressPost[], limit = 3): DuplicatePost[] => {
+    const topicWords = significantWords(topic);
+    if (topicWords.size === 0) return [];
+    return posts
+        .map(post => ({ post, similarity: diceSimilarity(topicWords, significantWords(post.title)) }))
+        .filter(match => match.similarity >= DUPLICATE_THRESHOLD)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, limit);
+};
@@ -1,80 +1,112 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { ArticleContent, ContentType, Language, ProductContent, SiteContext, WritingTone, ArticleLength, SeoAnalysis, KeywordSuggestion, CompetitorAnalysis, InternalLinkSuggestion } from '../types';
-
-const BRAND_VOICE_STORAGE_KEY = 'brand_voice';
-
-/**
- * Initializes the AI client.
- * Throws an error if the API key is missing from environment variables.
- */
-const getAiClient = (): GoogleGenAI => {
-    // FIX: API key is now sourced from environment variables as per guidelines.
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
-        // FIX: Updated error message to reflect the new API key source.
-        throw new Error("API_KEY environment variable not set. Please configure it on the server.");
+import { ArticleContent, ArticleOutline, ContentType, Language, ProductContent, RewriteInstruction, SiteContext, WritingTone, ArticleLength, SeoAnalysis, KeywordSuggestion, CompetitorAnalysis, InternalLinkSuggestion, LinkIndexEntry, PromptTemplateRef } from '../types';
+import { AiFormatError, AiTimeoutError, getAiProvider, JsonSchema } from './ai';
+import { readPartialJsonString } from './ai/json';
+import { renderPrompt } from './promptOverrides';
+import { RenderedPrompt } from './promptTemplates';
+import { getBrandVoice } from './voiceProfiles';
+import { urlKey } from './linkGraph';
+import { ApiError } from './backendService';
+
+// Budgets, rate limits, a missing server key and timeouts are reported in words the user can act on,
+// so they are passed through instead of being replaced by the generic messages below.
+const rethrowUserFacingError = (error: unknown) => {
+    if (error instanceof ApiError && (error.status === 402 || error.status === 429 || error.status === 503)) {
+        throw error;
     }
-    try {
-        // FIX: Initialization now uses a named parameter as per guidelines.
-        return new GoogleGenAI({ apiKey });
-    } catch (e) {
-        console.error("Error initializing GoogleGenAI:", e);
-        // FIX: Provide a more generic error if initialization fails.
-        throw new Error("Could not initialize the AI client.");
+    if (error instanceof AiTimeoutError) {
+        throw error;
     }
 };
 
-const articleSchema = {
-    type: Type.OBJECT,
+const articleSchema: JsonSchema = {
+    type: 'object',
     properties: {
-        title: { type: Type.STRING, description: "A compelling, SEO-friendly title for the article. It should be catchy and relevant." },
-        metaDescription: { type: Type.STRING, description: "An SEO-friendly meta description, between 150-160 characters." },
-        body: { type: Type.STRING, description: "The full body of the article, formatted with markdown. It must include an introduction, at least two relevant H2 (##) subheadings, and a conclusion. Use lists and bolding where appropriate." },
+        title: { type: 'string', description: "A compelling, SEO-friendly title for the article. It should be catchy and relevant." },
+        metaDescription: { type: 'string', description: "An SEO-friendly meta description, between 150-160 characters." },
+        body: { type: 'string', description: "The full body of the article, formatted with markdown. It must include an introduction, at least two relevant H2 (##) subheadings, and a conclusion. Use lists and bolding where appropriate." },
     },
     required: ["title", "metaDescription", "body"],
 };
 
-const productSchema = {
-    type: Type.OBJECT,
+const outlineSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        titleCandidates: { type: 'array', description: "3 to 5 alternative compelling, SEO-friendly titles for the article.", items: { type: 'string' } },
+        metaDescription: { type: 'string', description: "An SEO-friendly meta description, between 150-160 characters." },
+        sections: {
+            type: 'array',
+            description: "The article's sections in reading order. The first section is the introduction and the last is the conclusion.",
+            items: {
+                type: 'object',
+                properties: {
+                    heading: { type: 'string', description: "The section's H2 heading." },
+                    subheadings: { type: 'array', description: "H3 subheadings within the section; empty for short sections.", items: { type: 'string' } },
+                    keyPoints: { type: 'array', description: "2-5 key points the section must cover.", items: { type: 'string' } },
+                },
+                required: ["heading", "subheadings", "keyPoints"],
+            },
+        },
+    },
+    required: ["titleCandidates", "metaDescription", "sections"],
+};
+
+const articleSectionSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        content: { type: 'string', description: "The section's content in markdown, without its H2 heading." },
+    },
+    required: ["content"],
+};
+
+const rewriteSchema: JsonSchema = {
+    type: 'object',
     properties: {
-        title: { type: Type.STRING, description: "A catchy and descriptive product title." },
-        metaDescription: { type: Type.STRING, description: "An SEO-friendly meta description for the product, between 150-160 characters." },
-        longDescription: { type: Type.STRING, description: "A detailed, persuasive, and comprehensive description of the product, highlighting its benefits and features. Use markdown for formatting." },
-        shortDescription: { type: Type.STRING, description: "A concise summary of the product, perfect for category or archive pages." },
+        text: { type: 'string', description: "The rewritten text, in markdown." },
+    },
+    required: ["text"],
+};
+
+const productSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        title: { type: 'string', description: "A catchy and descriptive product title." },
+        metaDescription: { type: 'string', description: "An SEO-friendly meta description for the product, between 150-160 characters." },
+        longDescription: { type: 'string', description: "A detailed, persuasive, and comprehensive description of the product, highlighting its benefits and features. Use markdown for formatting." },
+        shortDescription: { type: 'string', description: "A concise summary of the product, perfect for category or archive pages." },
     },
     required: ["title", "metaDescription", "longDescription", "shortDescription"],
 };
 
-const contentStrategySchema = {
-    type: Type.ARRAY,
+const contentStrategySchema: JsonSchema = {
+    type: 'array',
     items: articleSchema
 };
 
-const seoAnalysisSchema = {
-    type: Type.OBJECT,
+const seoAnalysisSchema: JsonSchema = {
+    type: 'object',
     properties: {
-        score: { type: Type.INTEGER, description: "An overall SEO score from 0 to 100 for the article, based on keyword usage, readability, structure, and title quality." },
+        score: { type: 'integer', description: "An overall SEO score from 0 to 100 for the article, based on keyword usage, readability, structure, and title quality." },
         suggestions: {
-            type: Type.ARRAY,
+            type: 'array',
             description: "A list of 3-5 concrete, actionable suggestions for improving the article's SEO.",
-            items: { type: Type.STRING }
+            items: { type: 'string' }
         },
     },
     required: ["score", "suggestions"],
 };
 
-const keywordsSchema = {
-    type: Type.OBJECT,
+const keywordsSchema: JsonSchema = {
+    type: 'object',
     properties: {
         keywords: {
-            type: Type.ARRAY,
+            type: 'array',
             description: "A list of 10-15 relevant SEO keywords.",
             items: {
-                type: Type.OBJECT,
+                type: 'object',
                 properties: {
-                    keyword: { type: Type.STRING },
-                    volume: { type: Type.STRING, enum: ['Low', 'Medium', 'High'], description: "Estimated search volume." },
-                    difficulty: { type: Type.STRING, enum: ['Low', 'Medium', 'High'], description: "Estimated ranking difficulty." },
+                    keyword: { type: 'string' },
+                    volume: { type: 'string', enum: ['Low', 'Medium', 'High'], description: "Estimated search volume." },
+                    difficulty: { type: 'string', enum: ['Low', 'Medium', 'High'], description: "Estimated ranking difficulty." },
                 },
                 required: ["keyword", "volume", "difficulty"]
             }
@@ -83,42 +115,43 @@ const keywordsSchema = {
     required: ["keywords"],
 };
 
-const competitorAnalysisSchema = {
-    type: Type.OBJECT,
+const competitorAnalysisSchema: JsonSchema = {
+    type: 'object',
     properties: {
         mainTopics: {
-            type: Type.ARRAY,
+            type: 'array',
             description: "A list of the main topics and themes covered in the competitor's article.",
-            items: { type: Type.STRING }
+            items: { type: 'string' }
         },
         identifiedKeywords: {
-            type: Type.ARRAY,
+            type: 'array',
             description: "A list of primary and secondary keywords the competitor article seems to be targeting.",
-            items: { type: Type.STRING }
+            items: { type: 'string' }
         },
         suggestions: {
-            type: Type.ARRAY,
+            type: 'array',
             description: "A list of 3-5 concrete, actionable suggestions for creating a superior, more comprehensive article that can outrank the competitor.",
-            items: { type: Type.STRING }
+            items: { type: 'string' }
         },
     },
     required: ["mainTopics", "identifiedKeywords", "suggestions"],
 };
 
-const internalLinkSchema = {
-    type: Type.OBJECT,
+const internalLinkSchema: JsonSchema = {
+    type: 'object',
     properties: {
         links: {
-            type: Type.ARRAY,
+            type: 'array',
             description: "A list of internal linking opportunities.",
             items: {
-                type: Type.OBJECT,
+                type: 'object',
                 properties: {
-                    anchorText: { type: Type.STRING, description: "The exact phrase from the article body to be used as the link's anchor text." },
-                    linkToTitle: { type: Type.STRING, description: "The title of the existing article from the provided list that this anchor text should link to." },
-                    reasoning: { type: Type.STRING, description: "A brief explanation of why this internal link is relevant and beneficial for SEO." },
+                    anchorText: { type: 'string', description: "The exact phrase from the article body to be used as the link's anchor text." },
+                    linkToTitle: { type: 'string', description: "The title of the page from the provided list that this anchor text should link to." },
+                    url: { type: 'string', description: "The URL of that page, exactly as listed." },
+                    reasoning: { type: 'string', description: "A brief explanation of why this internal link is relevant and beneficial for SEO." },
                 },
-                required: ["anchorText", "linkToTitle", "reasoning"],
+                required: ["anchorText", "linkToTitle", "url", "reasoning"],
             },
         },
     },
@@ -126,23 +159,68 @@ const internalLinkSchema = {
 };
 
 
-const extractJsonFromText = (text: string): any => {
-    const jsonRegex = /```json\s*([\s\S]*?)\s*```/;
-    const match = text.match(jsonRegex);
-    if (match && match[1]) {
-        try {
-            return JSON.parse(match[1]);
-        } catch (e) {
-             console.error("Failed to parse extracted JSON block:", e);
-        }
-    }
-    // Fallback for when the model doesn't use a markdown block
-    try {
-        return JSON.parse(text);
-    } catch (e) {
-        console.error("Failed to parse the full response as JSON:", text);
-        throw new Error("AI returned a response that could not be parsed as JSON.");
-    }
+// Tags come most used first; the long tail adds little but prompt length.
+const MAX_PROMPT_TAGS = 30;
+
+const quoteTitles = (titles: string[]) => titles.map(title => `"${title}"`).join(", ");
+
+const formatCompetitorInsights = (competitor?: CompetitorAnalysis): string => competitor ? [
+  `- Topics it covers: ${competitor.mainTopics.join(", ")}`,
+  `- Keywords it targets: ${competitor.identifiedKeywords.join(", ")}`,
+  `- How to do better:\n${competitor.suggestions.map(suggestion => `  - ${suggestion}`).join('\n')}`,
+].join('\n') : '';
+
+const buildArticlePrompt = async (
+  topic: string,
+  keywords: string,
+  tone: WritingTone,
+  language: Language,
+  articleLength: ArticleLength,
+  useSearch: boolean,
+  siteContext?: SiteContext,
+  siteId?: string,
+  competitor?: CompetitorAnalysis
+): Promise<RenderedPrompt> => renderPrompt('article', {
+  topic,
+  keywords,
+  tone,
+  language,
+  articleLength,
+  brandVoice: await getBrandVoice(siteId),
+  useSearch,
+  hasSiteContext: !!siteContext,
+  existingTitles: siteContext ? quoteTitles(siteContext.recentPosts.map(p => p.title)) : '',
+  existingCategories: siteContext ? siteContext.categories.map(c => c.name).join(", ") : '',
+  existingTags: siteContext ? siteContext.tags.slice(0, MAX_PROMPT_TAGS).map(tag => tag.name).join(", ") : '',
+  competitorInsights: formatCompetitorInsights(competitor),
+}, siteId);
+
+const toArticle = (parsed: any, template: PromptTemplateRef): ArticleContent => {
+  if (!parsed.title || !parsed.metaDescription || !parsed.body) {
+      console.error("Invalid JSON structure received:", parsed);
+      throw new Error("AI response is missing required fields (title, metaDescription, body).");
+  }
+  
+  return {
+    id: `art_${new Date().getTime()}`,
+    type: ContentType.Article,
+    title: parsed.title,
+    metaDescription: parsed.metaDescription,
+    body: parsed.body,
+    status: 'draft',
+    createdAt: new Date(),
+    promptTemplates: [template],
+  };
+};
+
+// Parse and validation errors are specific enough to show as they are; anything else gets the generic message.
+const toArticleError = (error: unknown): unknown => {
+  console.error("Error generating article:", error);
+  rethrowUserFacingError(error);
+  if (error instanceof AiFormatError || (error instanceof Error && error.message.includes("missing required fields"))) {
+      return error;
+  }
+  return new Error("Failed to generate article from AI. The model may have returned an invalid response or the service may be temporarily unavailable.");
 };
 
 export const generateArticle = async (
@@ -152,87 +230,188 @@ export const generateArticle = async (
   language: Language,
   articleLength: ArticleLength,
   useGoogleSearch: boolean,
-  siteContext?: SiteContext
+  siteContext?: SiteContext,
+  siteId?: string,
+  competitor?: CompetitorAnalysis
 ): Promise<ArticleContent> => {
-  const ai = getAiClient();
-  const brandVoice = localStorage.getItem(BRAND_VOICE_STORAGE_KEY) || '';
-  
-  const systemInstruction = `You are an expert SEO content writer and a WordPress specialist. Your goal is to create high-quality, engaging, and well-structured articles that are optimized for search engines. Always follow the instructions precisely and return the content in the specified JSON format.`;
-
-  let contextPrompt = "";
-  if (siteContext) {
-    contextPrompt = `
-For context, here is some information about the website this article will be published on. Use this to ensure the new content is relevant, matches the site's tone, and complements existing content.
-- Existing Article Titles: ${siteContext.recentPosts.map(p => `"${p.title}"`).join(", ")}
-- Existing Site Categories: ${siteContext.categories.map(c => c.name).join(", ")}
-`;
+  const ai = getAiProvider();
+  // Providers without web search still write the article, just from the model's own knowledge.
+  const useSearch = useGoogleSearch && ai.supportsSearch;
+    
+  try {
+    const { systemInstruction, prompt, variables, template } = await buildArticlePrompt(topic, keywords, tone, language, articleLength, useSearch, siteContext, siteId, competitor);
+    const { value: parsed, template: servedTemplate = template } = await ai.generateJson<any>({
+        operation: 'article',
+        prompt,
+        systemInstruction,
+        variables,
+        schema: articleSchema,
+        useSearch,
+        siteId,
+    });
+    return toArticle(parsed, servedTemplate);
+  } catch (error) {
+    throw toArticleError(error);
   }
+};
+
+/** The fields of an article that have streamed in so far. */
+export type ArticleDraft = Partial<Pick<ArticleContent, 'title' | 'metaDescription' | 'body'>>;
+
+/**
+ * Same as generateArticle, but reports the title, meta description and body to `onProgress` as
+ * they stream in. The finished article is validated like generateArticle's. Aborting `signal`
+ * rejects with the abort error rather than the generic failure message.
+ */
+export const streamArticle = async (
+  topic: string, 
+  keywords: string, 
+  tone: WritingTone, 
+  language: Language,
+  articleLength: ArticleLength,
+  useGoogleSearch: boolean,
+  siteContext: SiteContext | undefined,
+  onProgress: (draft: ArticleDraft) => void,
+  signal: AbortSignal,
+  siteId?: string,
+  competitor?: CompetitorAnalysis
+): Promise<ArticleContent> => {
+  const ai = getAiProvider();
+  const useSearch = useGoogleSearch && ai.supportsSearch;
 
-  const userPrompt = `
-    Generate a complete article based on the following specifications.
-    ${useGoogleSearch ? 'Use your access to Google Search to find up-to-date, factual, and relevant information to write this article.' : ''}
-    The output MUST be a single valid JSON object ${useGoogleSearch ? 'enclosed in a ```json markdown block' : 'that strictly matches the provided schema'}. Do not include any text outside of the JSON object.
-
-    **Article Specifications:**
-    - Topic/Title Idea: "${topic}"
-    - Keywords to include naturally: "${keywords}"
-    - Tone of voice: ${tone}
-    ${brandVoice ? `- Brand Voice Guidelines: "${brandVoice}"` : ''}
-    - Language: ${language}
-    - Desired Length: ${articleLength}. Adhere to this length as closely as possible.
-    - Structure Requirements: The article 'body' must be written in markdown and have an introduction, an appropriate number of distinct and relevant H2 (##) subheadings for the requested length, and a conclusion.
-
-    ${contextPrompt}
-
-    Now, generate the complete article. The JSON output MUST contain the following keys:
-    1. "title": A compelling, SEO-friendly title for the article.
-    2. "metaDescription": An SEO-friendly meta description, between 150-160 characters.
-    3. "body": The full body of the article, formatted with markdown.
-  `;
-    
   try {
-    const config: any = {
+    const { systemInstruction, prompt, variables, template } = await buildArticlePrompt(topic, keywords, tone, language, articleLength, useSearch, siteContext, siteId, competitor);
+    const { value: parsed, template: servedTemplate = template } = await ai.streamJson<any>({
+        operation: 'article',
+        prompt,
         systemInstruction,
-    };
-    
-    if (useGoogleSearch) {
-        config.tools = [{googleSearch: {}}];
-    } else {
-        config.responseMimeType = "application/json";
-        config.responseSchema = articleSchema;
-    }
+        variables,
+        schema: articleSchema,
+        useSearch,
+        siteId,
+        signal,
+    }, text => onProgress({
+        title: readPartialJsonString(text, 'title'),
+        metaDescription: readPartialJsonString(text, 'metaDescription'),
+        body: readPartialJsonString(text, 'body'),
+    }));
+    return toArticle(parsed, servedTemplate);
+  } catch (error) {
+    if (signal.aborted) throw error;
+    throw toArticleError(error);
+  }
+};
 
-    // FIX: Updated to use modern ai.models.generateContent API
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: userPrompt,
-        config: config,
-    });
 
-    // FIX: Updated to use modern response.text property
-    const jsonText = response.text.trim();
-    const parsed = useGoogleSearch ? extractJsonFromText(jsonText) : JSON.parse(jsonText);
+export const generateArticleOutline = async (
+  topic: string,
+  keywords: string,
+  tone: WritingTone,
+  language: Language,
+  articleLength: ArticleLength,
+  siteContext?: SiteContext,
+  siteId?: string,
+  competitor?: CompetitorAnalysis
+): Promise<ArticleOutline> => {
+  const ai = getAiProvider();
 
-    if (!parsed.title || !parsed.metaDescription || !parsed.body) {
-        console.error("Invalid JSON structure received:", parsed);
-        throw new Error("AI response is missing required fields (title, metaDescription, body).");
+  try {
+    const { systemInstruction, prompt, variables, template } = await renderPrompt('article-outline', {
+        topic,
+        keywords,
+        tone,
+        language,
+        articleLength,
+        brandVoice: await getBrandVoice(siteId),
+        existingTitles: siteContext ? quoteTitles(siteContext.recentPosts.map(p => p.title)) : '',
+        competitorInsights: formatCompetitorInsights(competitor),
+    }, siteId);
+    const { value: parsed, template: servedTemplate = template } = await ai.generateJson<ArticleOutline>({
+        operation: 'article-outline',
+        prompt,
+        systemInstruction,
+        variables,
+        schema: outlineSchema,
+        siteId,
+    });
+
+    if (!Array.isArray(parsed.titleCandidates) || parsed.titleCandidates.length === 0 || !Array.isArray(parsed.sections) || parsed.sections.length === 0) {
+        throw new Error("AI response is missing required outline fields (titleCandidates, sections).");
     }
-    
     return {
-      id: `art_${new Date().getTime()}`,
-      type: ContentType.Article,
-      title: parsed.title,
-      metaDescription: parsed.metaDescription,
-      body: parsed.body,
-      status: 'draft',
-      createdAt: new Date(),
+        titleCandidates: parsed.titleCandidates,
+        metaDescription: parsed.metaDescription || '',
+        sections: parsed.sections.map(section => ({
+            heading: section.heading || '',
+            subheadings: section.subheadings || [],
+            keyPoints: section.keyPoints || [],
+        })),
+        promptTemplate: servedTemplate,
     };
   } catch (error) {
-    console.error("Error generating article:", error);
-    if (error instanceof Error && (error.message.includes("could not be parsed") || error.message.includes("missing required fields"))) {
+    console.error("Error generating article outline:", error);
+    rethrowUserFacingError(error);
+    if (error instanceof Error && error.message.includes("missing required outline fields")) {
         throw error;
     }
-    throw new Error("Failed to generate article from AI. The model may have returned an invalid response or the service may be temporarily unavailable.");
+    throw new Error("Failed to generate an outline from AI. The model may have returned an invalid response or the service may be temporarily unavailable.");
+  }
+};
+
+export interface GeneratedSection {
+  content: string;
+  promptTemplate: PromptTemplateRef;
+}
+
+/**
+ * Writes one section of an approved outline. The content is the section's markdown without
+ * its H2 heading, which stays as it is in the outline.
+ */
+export const generateArticleSection = async (
+  outline: ArticleOutline,
+  title: string,
+  sectionIndex: number,
+  keywords: string,
+  tone: WritingTone,
+  language: Language,
+  articleLength: ArticleLength,
+  siteId?: string
+): Promise<GeneratedSection> => {
+  const ai = getAiProvider();
+  const section = outline.sections[sectionIndex];
+  const totalWords = Number(articleLength.match(/~(\d+)/)?.[1]) || 1000;
+
+  try {
+    const { systemInstruction, prompt, variables, template } = await renderPrompt('article-section', {
+        title,
+        outline: outline.sections.map((s, i) => `${i + 1}. ${s.heading}`).join('\n'),
+        role: sectionIndex === 0 ? 'the introduction' : sectionIndex === outline.sections.length - 1 ? 'the conclusion' : `section ${sectionIndex + 1} of ${outline.sections.length}`,
+        heading: section.heading,
+        keyPoints: quoteTitles(section.keyPoints),
+        subheadings: quoteTitles(section.subheadings),
+        keywords,
+        tone,
+        language,
+        brandVoice: await getBrandVoice(siteId),
+        sectionWords: Math.round(totalWords / outline.sections.length),
+    }, siteId);
+    const { value: parsed, template: servedTemplate = template } = await ai.generateJson<{ content: string }>({
+        operation: 'article-section',
+        prompt,
+        systemInstruction,
+        variables,
+        schema: articleSectionSchema,
+        siteId,
+    });
+
+    if (!parsed.content) {
+        throw new Error("AI response is missing the section content.");
+    }
+    return { content: parsed.content.trim(), promptTemplate: servedTemplate };
+  } catch (error) {
+    console.error("Error generating article section:", error);
+    rethrowUserFacingError(error);
+    throw new Error("Failed to write the section with AI. The service may be temporarily unavailable.");
   }
 };
 
@@ -240,38 +419,27 @@ For context, here is some information about the website this article will be pub
 export const generateProduct = async (
   productName: string, 
   features: string, 
-  language: Language
+  language: Language,
+  siteId?: string
 ): Promise<ProductContent> => {
-    const ai = getAiClient();
-    const brandVoice = localStorage.getItem(BRAND_VOICE_STORAGE_KEY) || '';
-
-    const prompt = `
-        Generate complete product page content for a WooCommerce store. The output MUST be a valid JSON object matching the provided schema.
-
-        - Product Name: "${productName}"
-        - Key Features and Specifications: 
-          ${features.split('\n').map(f => `- ${f}`).join('\n')}
-        - Language: ${language}
-        ${brandVoice ? `- Brand Voice Guidelines: "${brandVoice}"` : ''}
-
-        Create compelling copy that persuades customers to buy. Use markdown for formatting in the descriptions.
-    `;
+    const ai = getAiProvider();
 
   try {
-    // FIX: Updated to use modern ai.models.generateContent API
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: productSchema,
-        },
+    const { systemInstruction, prompt, variables, template } = await renderPrompt('product', {
+        productName,
+        features: features.split('\n').map(f => `- ${f}`).join('\n'),
+        language,
+        brandVoice: await getBrandVoice(siteId),
+    }, siteId);
+    const { value: parsed, template: servedTemplate = template } = await ai.generateJson<any>({
+        operation: 'product',
+        prompt,
+        systemInstruction,
+        variables,
+        schema: productSchema,
+        siteId,
     });
 
-    // FIX: Updated to use modern response.text property
-    const jsonText = response.text.trim();
-    const parsed = JSON.parse(jsonText);
-
     if (!parsed.title || !parsed.longDescription || !parsed.shortDescription || !parsed.metaDescription) {
         throw new Error("AI response is missing required product fields.");
     }
@@ -285,36 +453,36 @@ export const generateProduct = async (
       shortDescription: parsed.shortDescription,
       status: 'draft',
       createdAt: new Date(),
+      promptTemplates: [servedTemplate],
     };
   } catch (error) {
     console.error("Error generating product content:", error);
+    rethrowUserFacingError(error);
     throw new Error("Failed to generate product content from AI. The model may have returned an invalid response or the service may be temporarily unavailable.");
   }
 };
 
-export const generateFeaturedImage = async (prompt: string): Promise<string[]> => {
-    const ai = getAiClient();
+export const generateFeaturedImage = async (prompt: string, siteId?: string): Promise<string[]> => {
+    const ai = getAiProvider();
 
     try {
-        // FIX: Updated to use modern ai.models.generateImages API with imagen-4.0-generate-001 model
-        const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
-            prompt: prompt,
-            config: {
-                numberOfImages: 4,
-                outputMimeType: 'image/jpeg',
-                aspectRatio: '16:9',
-            },
+        const { value: images } = await ai.generateImages({
+            operation: 'featured-image',
+            prompt,
+            count: 4,
+            aspectRatio: '16:9',
+            siteId,
         });
 
-        if (!response.generatedImages || response.generatedImages.length === 0) {
+        if (images.length === 0) {
             throw new Error("AI model did not return any images.");
         }
 
-        return response.generatedImages.map(img => img.image.imageBytes);
+        return images;
 
     } catch (error) {
         console.error("Error generating featured image:", error);
+        rethrowUserFacingError(error);
         throw new Error("Failed to generate image from AI. The service may be temporarily unavailable or the prompt may have been rejected.");
     }
 };
@@ -322,39 +490,22 @@ export const generateFeaturedImage = async (prompt: string): Promise<string[]> =
 export const generateContentStrategy = async (
     topic: string,
     numArticles: number,
-    language: Language
+    language: Language,
+    siteId?: string
 ): Promise<ArticleContent[]> => {
-    const ai = getAiClient();
-    const brandVoice = localStorage.getItem(BRAND_VOICE_STORAGE_KEY) || '';
-    
-    const systemInstruction = `You are an expert content strategist and SEO writer. Your task is to generate a complete content plan for a given topic. You must generate a JSON array containing the specified number of full, ready-to-publish articles. Each article object in the array must conform to the provided schema.`;
-
-    const userPrompt = `
-        Generate a content strategy consisting of ${numArticles} full articles on the main topic of "${topic}".
-        Each article should be unique, target a different sub-topic or keyword, and be engaging for readers.
-        The output MUST be a single, valid JSON array of article objects. Do not include any text outside of the JSON array.
-        Each object in the array must strictly adhere to this schema: { title, metaDescription, body }.
-        The language for all articles must be ${language}.
-        ${brandVoice ? `Adhere to this Brand Voice Guideline for all articles: "${brandVoice}"` : ''}
-        The body of each article must be formatted in markdown and be well-structured with an introduction, H2 subheadings, and a conclusion.
-    `;
+    const ai = getAiProvider();
 
     try {
-        // FIX: Updated to use modern ai.models.generateContent API
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: userPrompt,
-            config: {
-                systemInstruction,
-                responseMimeType: "application/json",
-                responseSchema: contentStrategySchema,
-            },
+        const { systemInstruction, prompt, variables, template } = await renderPrompt('content-strategy', { topic, numArticles, language, brandVoice: await getBrandVoice(siteId) }, siteId);
+        const { value: parsedArticles, template: servedTemplate = template } = await ai.generateJson<any[]>({
+            operation: 'content-strategy',
+            prompt,
+            systemInstruction,
+            variables,
+            schema: contentStrategySchema,
+            siteId,
         });
 
-        // FIX: Updated to use modern response.text property
-        const jsonText = response.text.trim();
-        const parsedArticles: any[] = JSON.parse(jsonText);
-
         if (!Array.isArray(parsedArticles)) {
              throw new Error("AI response was not a JSON array.");
         }
@@ -364,7 +515,7 @@ export const generateContentStrategy = async (
                 console.warn(`Invalid JSON structure for article ${index} in strategy. Skipping.`, parsed);
                 return null;
             }
-            return {
+            const article: ArticleContent = {
                 id: `art_${new Date().getTime()}_${index}`,
                 type: ContentType.Article,
                 title: parsed.title,
@@ -372,57 +523,32 @@ export const generateContentStrategy = async (
                 body: parsed.body,
                 status: 'draft',
                 createdAt: new Date(),
+                promptTemplates: [servedTemplate],
             };
+            return article;
         }).filter((article): article is ArticleContent => article !== null);
 
     } catch (error) {
         console.error("Error generating content strategy:", error);
+        rethrowUserFacingError(error);
         throw new Error("Failed to generate content strategy from AI. The model may have returned an invalid format or the service is unavailable.");
     }
 };
 
-export const analyzeArticleSeo = async (title: string, body: string): Promise<SeoAnalysis> => {
-    const ai = getAiClient();
-
-    const systemInstruction = `You are a world-class SEO expert. Your task is to analyze an article and provide an SEO score and actionable feedback. The response must be a valid JSON object matching the provided schema.`;
-
-    const userPrompt = `
-        Please analyze the following article for its Search Engine Optimization (SEO) quality.
-        Provide a score out of 100 and a list of specific, actionable suggestions for improvement.
-
-        **Article Title:**
-        "${title}"
-
-        **Article Body:**
-        ---
-        ${body}
-        ---
-
-        Evaluate based on factors like:
-        - Readability and structure (headings, paragraphs, lists).
-        - How well the title reflects the content.
-        - Potential for ranking on search engines.
-        - Natural integration of potential keywords.
-
-        Return your analysis as a single, valid JSON object.
-    `;
+export const analyzeArticleSeo = async (title: string, body: string, siteId?: string): Promise<SeoAnalysis> => {
+    const ai = getAiProvider();
 
     try {
-        // FIX: Updated to use modern ai.models.generateContent API
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: userPrompt,
-            config: {
-                systemInstruction,
-                responseMimeType: "application/json",
-                responseSchema: seoAnalysisSchema,
-            },
+        const { systemInstruction, prompt, variables } = await renderPrompt('article-seo', { title, body }, siteId);
+        const { value: parsed } = await ai.generateJson<SeoAnalysis>({
+            operation: 'article-seo',
+            prompt,
+            systemInstruction,
+            variables,
+            schema: seoAnalysisSchema,
+            siteId,
         });
 
-        // FIX: Updated to use modern response.text property
-        const jsonText = response.text.trim();
-        const parsed = JSON.parse(jsonText) as SeoAnalysis;
-
         if (typeof parsed.score !== 'number' || !Array.isArray(parsed.suggestions)) {
             throw new Error("AI response is missing required SEO analysis fields.");
         }
@@ -430,57 +556,25 @@ export const analyzeArticleSeo = async (title: string, body: string): Promise<Se
 
     } catch (error) {
         console.error("Error analyzing SEO:", error);
+        rethrowUserFacingError(error);
         throw new Error("Failed to get SEO analysis from AI. The model may have returned an invalid format.");
     }
 };
 
-export const analyzeProductSeo = async (title: string, longDescription: string, shortDescription: string): Promise<SeoAnalysis> => {
-    const ai = getAiClient();
-
-    const systemInstruction = `You are a world-class e-commerce SEO expert. Your task is to analyze product page content and provide an SEO score and actionable feedback. The response must be a valid JSON object matching the provided schema.`;
-
-    const userPrompt = `
-        Please analyze the following product page content for its Search Engine Optimization (SEO) quality.
-        Provide a score out of 100 and a list of specific, actionable suggestions for improvement.
-
-        **Product Title:**
-        "${title}"
-
-        **Long Description:**
-        ---
-        ${longDescription}
-        ---
-        
-        **Short Description:**
-        ---
-        ${shortDescription}
-        ---
-
-        Evaluate based on factors like:
-        - Persuasiveness and clarity of the descriptions.
-        - Natural integration of potential keywords in the title and descriptions.
-        - How well the title reflects the product.
-        - Overall potential to convert visitors and rank on search engines.
-
-        Return your analysis as a single, valid JSON object.
-    `;
+export const analyzeProductSeo = async (title: string, longDescription: string, shortDescription: string, siteId?: string): Promise<SeoAnalysis> => {
+    const ai = getAiProvider();
 
     try {
-        // FIX: Updated to use modern ai.models.generateContent API
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: userPrompt,
-            config: {
-                systemInstruction,
-                responseMimeType: "application/json",
-                responseSchema: seoAnalysisSchema,
-            },
+        const { systemInstruction, prompt, variables } = await renderPrompt('product-seo', { title, longDescription, shortDescription }, siteId);
+        const { value: parsed } = await ai.generateJson<SeoAnalysis>({
+            operation: 'product-seo',
+            prompt,
+            systemInstruction,
+            variables,
+            schema: seoAnalysisSchema,
+            siteId,
         });
 
-        // FIX: Updated to use modern response.text property
-        const jsonText = response.text.trim();
-        const parsed = JSON.parse(jsonText) as SeoAnalysis;
-
         if (typeof parsed.score !== 'number' || !Array.isArray(parsed.suggestions)) {
             throw new Error("AI response is missing required SEO analysis fields.");
         }
@@ -488,40 +582,25 @@ export const analyzeProductSeo = async (title: string, longDescription: string,
 
     } catch (error) {
         console.error("Error analyzing product SEO:", error);
+        rethrowUserFacingError(error);
         throw new Error("Failed to get product SEO analysis from AI. The model may have returned an invalid format.");
     }
 };
 
-export const suggestKeywords = async (topic: string): Promise<KeywordSuggestion[]> => {
-    const ai = getAiClient();
-
-    const systemInstruction = `You are an SEO keyword research specialist. Your task is to generate a list of relevant keywords for a given article topic, including estimated search volume and ranking difficulty. The response must be a valid JSON object matching the provided schema.`;
-
-    const userPrompt = `
-        Please generate a list of 10-15 highly relevant SEO keywords for an article with the following topic. Include a mix of primary (short-tail) and secondary (long-tail) keywords. For each keyword, provide an estimated search volume and ranking difficulty, categorized as 'Low', 'Medium', or 'High'.
-
-        **Article Topic:**
-        "${topic}"
-
-        Return your list as a single, valid JSON object.
-    `;
+export const suggestKeywords = async (topic: string, siteId?: string): Promise<KeywordSuggestion[]> => {
+    const ai = getAiProvider();
 
     try {
-        // FIX: Updated to use modern ai.models.generateContent API
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: userPrompt,
-            config: {
-                systemInstruction,
-                responseMimeType: "application/json",
-                responseSchema: keywordsSchema,
-            },
+        const { systemInstruction, prompt, variables } = await renderPrompt('keywords', { topic }, siteId);
+        const { value: parsed } = await ai.generateJson<{ keywords: KeywordSuggestion[] }>({
+            operation: 'keywords',
+            prompt,
+            systemInstruction,
+            variables,
+            schema: keywordsSchema,
+            siteId,
         });
 
-        // FIX: Updated to use modern response.text property
-        const jsonText = response.text.trim();
-        const parsed = JSON.parse(jsonText);
-
         if (!parsed.keywords || !Array.isArray(parsed.keywords)) {
             throw new Error("AI response is missing the 'keywords' array.");
         }
@@ -529,38 +608,30 @@ export const suggestKeywords = async (topic: string): Promise<KeywordSuggestion[
 
     } catch (error) {
         console.error("Error suggesting keywords:", error);
+        rethrowUserFacingError(error);
         throw new Error("Failed to get keyword suggestions from AI. The model may have returned an invalid format.");
     }
 };
 
-export const analyzeCompetitorUrl = async (url: string): Promise<CompetitorAnalysis> => {
-    const ai = getAiClient();
-
-    const systemInstruction = `You are a world-class SEO and content strategist. Your task is to analyze a competitor's article from a given URL and provide a structured analysis for creating a better piece of content. The response must be a valid JSON object enclosed in a \`\`\`json markdown block.`;
-    const userPrompt = `
-        Use Google Search to find and thoroughly analyze the content at the following URL: ${url}
-
-        Based on your analysis, provide a content strategy to create a superior article that can outrank it. Your analysis must be returned as a single, valid JSON object with the following keys:
-        1. "mainTopics": A list of the main topics and themes covered in the competitor's article.
-        2. "identifiedKeywords": A list of the primary and secondary keywords the competitor's article seems to be targeting.
-        3. "suggestions": A list of 3-5 concrete, actionable suggestions for creating a better, more comprehensive article. These suggestions should highlight content gaps, suggest additional sub-topics, or recommend different angles to take.
-    `;
+export const analyzeCompetitorUrl = async (url: string, siteId?: string): Promise<CompetitorAnalysis> => {
+    const ai = getAiProvider();
+    // The analysis has to read the live page.
+    if (!ai.supportsSearch) {
+        throw new Error("Competitor analysis needs web search, which the selected AI provider doesn't support. Switch to Gemini in Settings.");
+    }
 
     try {
-        // FIX: Updated to use modern ai.models.generateContent API with googleSearch tool
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: userPrompt,
-            config: {
-                systemInstruction,
-                tools: [{ googleSearch: {} }],
-            },
+        const { systemInstruction, prompt, variables } = await renderPrompt('competitor-analysis', { url }, siteId);
+        const { value: parsed } = await ai.generateJson<CompetitorAnalysis>({
+            operation: 'competitor-analysis',
+            prompt,
+            systemInstruction,
+            variables,
+            schema: competitorAnalysisSchema,
+            useSearch: true,
+            siteId,
         });
 
-        // FIX: Updated to use modern response.text property
-        const jsonText = response.text.trim();
-        const parsed = extractJsonFromText(jsonText) as CompetitorAnalysis;
-
         if (!parsed.mainTopics || !parsed.identifiedKeywords || !parsed.suggestions) {
              throw new Error("AI response is missing required competitor analysis fields.");
         }
@@ -568,53 +639,89 @@ export const analyzeCompetitorUrl = async (url: string): Promise<CompetitorAnaly
 
     } catch (error) {
         console.error("Error analyzing competitor URL:", error);
+        rethrowUserFacingError(error);
         throw new Error("Failed to get competitor analysis from AI. The model may have returned an invalid format or the service is unavailable.");
     }
 };
 
-export const suggestInternalLinks = async (articleBody: string, libraryTitles: string[]): Promise<InternalLinkSuggestion[]> => {
-    const ai = getAiClient();
-    
-    const systemInstruction = `You are an on-page SEO expert specializing in internal linking strategy. Your task is to analyze an article and identify opportunities to link to other existing articles on the same site. Your response must be a valid JSON object matching the provided schema.`;
-    const userPrompt = `
-        I have an article with the following body text. I also have a list of other article titles from my website.
-
-        **Article Body to Analyze:**
-        ---
-        ${articleBody.substring(0, 4000)} 
-        ---
-
-        **List of Existing Article Titles to Link To:**
-        - ${libraryTitles.join('\n- ')}
-
-        Please analyze the article body and identify 3-5 of the best opportunities for internal links. For each opportunity, provide the exact anchor text from the body, the title of the article it should link to from the list, and a brief justification for why it's a good link.
-
-        Return your suggestions as a single, valid JSON object.
-    `;
+/**
+ * Picks internal links among `candidates`, usually from findLinkCandidates. Suggestions whose page
+ * isn't one of the candidates, or whose anchor text isn't in the body, are dropped.
+ */
+export const suggestInternalLinks = async (articleBody: string, candidates: LinkIndexEntry[], siteId?: string): Promise<InternalLinkSuggestion[]> => {
+    const ai = getAiProvider();
 
     try {
-        // FIX: Updated to use modern ai.models.generateContent API
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: userPrompt,
-            config: {
-                systemInstruction,
-                responseMimeType: "application/json",
-                responseSchema: internalLinkSchema,
-            },
+        const candidatePages = candidates.map(page => `- ${page.title}: ${page.url}`).join('\n');
+        const { systemInstruction, prompt, variables } = await renderPrompt('internal-links', { articleBody, candidatePages }, siteId);
+        const { value: parsed } = await ai.generateJson<{ links: InternalLinkSuggestion[] }>({
+            operation: 'internal-links',
+            prompt,
+            systemInstruction,
+            variables,
+            schema: internalLinkSchema,
+            siteId,
         });
-
-        // FIX: Updated to use modern response.text property
-        const jsonText = response.text.trim();
-        const parsed = JSON.parse(jsonText);
         
         if (!parsed.links || !Array.isArray(parsed.links)) {
             throw new Error("AI response is missing the 'links' array.");
         }
-        return parsed.links;
+        const body = articleBody.toLowerCase();
+        return parsed.links.flatMap(link => {
+            const page = candidates.find(candidate => urlKey(candidate.url) === urlKey(link.url))
+                ?? candidates.find(candidate => candidate.title.trim().toLowerCase() === link.linkToTitle.trim().toLowerCase());
+            if (!page || !link.anchorText || !body.includes(link.anchorText.toLowerCase())) return [];
+            return [{ ...link, linkToTitle: page.title, url: page.url }];
+        });
 
     } catch (error) {
         console.error("Error suggesting internal links:", error);
+        rethrowUserFacingError(error);
         throw new Error("Failed to get internal link suggestions from AI.");
     }
 };
+
+const LANGUAGE_NAMES: { [key in Language]: string } = { en: 'English', ar: 'Arabic' };
+
+const describeRewrite = (instruction: RewriteInstruction): string => {
+    switch (instruction.action) {
+        case 'rewrite': return "Rewrite the text so it reads better, keeping its meaning and length.";
+        case 'expand': return "Expand the text with more detail, examples or explanation, to roughly twice its length.";
+        case 'shorten': return "Shorten the text to roughly half its length, keeping the key information.";
+        case 'simplify': return "Simplify the text so it is easy to read: short sentences, plain words, no jargon.";
+        case 'tone': return `Rewrite the text in a ${instruction.tone} tone of voice, keeping its meaning.`;
+        case 'translate': return `Translate the text into ${LANGUAGE_NAMES[instruction.targetLanguage]}.`;
+    }
+};
+
+/** Applies an editor rewrite action to a passage of markdown and returns the replacement. */
+export const rewriteText = async (text: string, instruction: RewriteInstruction, language: Language, siteId?: string): Promise<string> => {
+    const ai = getAiProvider();
+
+    try {
+        const { systemInstruction, prompt, variables } = await renderPrompt('rewrite', {
+            instruction: describeRewrite(instruction),
+            language: instruction.action === 'translate' ? LANGUAGE_NAMES[instruction.targetLanguage] : `the same as the original text (usually ${language})`,
+            brandVoice: await getBrandVoice(siteId),
+            text,
+        }, siteId);
+        const { value: parsed } = await ai.generateJson<{ text: string }>({
+            operation: 'rewrite',
+            prompt,
+            systemInstruction,
+            variables,
+            schema: rewriteSchema,
+            siteId,
+        });
+
+        if (typeof parsed.text !== 'string' || !parsed.text.trim()) {
+            throw new Error("AI response is missing the rewritten text.");
+        }
+        return parsed.text.trim();
+
+    } catch (error) {
+        console.error("Error rewriting text:", error);
+        rethrowUserFacingError(error);
+        throw new Error("Failed to rewrite the text with AI. The service may be temporarily unavailable.");
+    }
+};
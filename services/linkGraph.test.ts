@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { LinkIndexEntry } from '../types';
+import { findLinkCandidates, getLinkGraph, urlKey } from './linkGraph';
+
+const page = (slug: string, title: string, changes: Partial<LinkIndexEntry> = {}): LinkIndexEntry =>
+    ({ url: `https://blog.test/${slug}/`, title, keywords: [], outboundLinks: [], source: 'site', ...changes });
+
+describe('urlKey', () => {
+    it('treats www, a trailing slash and the scheme as the same page', () => {
+        expect(urlKey('https://www.blog.test/cold-brew/')).toBe('blog.test/cold-brew');
+        expect(urlKey('http://blog.test/cold-brew')).toBe('blog.test/cold-brew');
+        expect(urlKey('https://blog.test/')).toBe('blog.test');
+    });
+
+    it('keeps the query but drops the fragment', () => {
+        expect(urlKey('https://blog.test/?p=12#comments')).toBe('blog.test?p=12');
+        expect(urlKey('https://blog.test/?p=12')).not.toBe(urlKey('https://blog.test/?p=13'));
+    });
+
+    it('resolves relative links against the base', () => {
+        expect(urlKey('/cold-brew/', 'https://www.blog.test/guides/')).toBe('blog.test/cold-brew');
+        expect(urlKey('iced-coffee', 'https://blog.test/guides/')).toBe('blog.test/guides/iced-coffee');
+    });
+
+    it('is null for other schemes and unparsable links', () => {
+        expect(urlKey('mailto:editor@blog.test')).toBeNull();
+        expect(urlKey('/cold-brew/')).toBeNull();
+    });
+});
+
+describe('getLinkGraph', () => {
+    const coldBrew = page('cold-brew', 'Cold brew', {
+        outboundLinks: ['https://www.blog.test/iced-coffee', 'https://blog.test/grinders/', 'https://blog.test/iced-coffee/', 'https://blog.test/cold-brew/', 'https://example.test/'],
+    });
+    const icedCoffee = page('iced-coffee', 'Iced coffee', { outboundLinks: ['https://blog.test/cold-brew/'] });
+    const grinders = page('grinders', 'Grinders');
+    const beans = page('beans', 'Beans', { outboundLinks: ['https://blog.test/grinders'] });
+
+    it('counts distinct links between indexed pages, ignoring self-links and other sites', () => {
+        const counts = Object.fromEntries(getLinkGraph([coldBrew, icedCoffee, grinders, beans]).map(p => [p.entry.title, [p.inbound, p.outbound]]));
+        expect(counts).toEqual({ 'Cold brew': [1, 2], 'Iced coffee': [1, 1], Grinders: [2, 0], Beans: [0, 1] });
+    });
+
+    it('lists orphans first, then by inbound links and title', () => {
+        expect(getLinkGraph([grinders, coldBrew, beans, icedCoffee]).map(p => p.entry.title)).toEqual(['Beans', 'Cold brew', 'Iced coffee', 'Grinders']);
+    });
+});
+
+describe('findLinkCandidates', () => {
+    const article = 'Cold brew is smoother than hot coffee. Grind the beans coarse and steep them overnight.';
+    const entries = [
+        page('grinders', 'Choosing coffee grinders', { keywords: ['burr', 'grind'] }),
+        page('beans', 'Roasting beans at home', { keywords: ['roast'] }),
+        page('cold-brew', 'Cold brew guide', { keywords: ['steep'] }),
+        page('tea', 'Green tea', { keywords: ['coffee'] }),
+        page('roses', 'Pruning roses', { keywords: ['garden'] }),
+    ];
+
+    it('scores shared title words twice and keywords once, best match first', () => {
+        const candidates = findLinkCandidates(article, entries);
+        expect(candidates.map(c => [c.entry.title, c.score])).toEqual([
+            ['Cold brew guide', 5],
+            ['Choosing coffee grinders', 3],
+            ['Roasting beans at home', 2],
+        ]);
+        expect(candidates[1].matchedTerms.sort()).toEqual(['coffee', 'grind']);
+    });
+
+    it('leaves out pages matching on a single keyword', () => {
+        expect(findLinkCandidates(article, entries).some(c => c.entry.title === 'Green tea')).toBe(false);
+    });
+
+    it('leaves out the article itself and the pages it already links to', () => {
+        const linked = `${article} See [our grinders](/grinders) too.`;
+        const titles = findLinkCandidates(linked, entries, { siteUrl: 'https://www.blog.test', ownUrl: 'https://blog.test/cold-brew' }).map(c => c.entry.title);
+        expect(titles).toEqual(['Roasting beans at home']);
+    });
+
+    it('returns at most `limit` pages', () => {
+        expect(findLinkCandidates(article, entries, { limit: 1 })).toHaveLength(1);
+    });
+});
@@ -0,0 +1,153 @@
+// services/linkGraph.ts
+// The internal link graph of a site. Its link index lists every page that can be linked to, from the
+// site's published posts and the library, with keywords and outbound links. From it come link counts,
+// orphan pages and the candidates the AI picks internal links from, so every link points at a real page.
+
+import { ContentType, GeneratedContent, LinkIndexEntry, WordPressSite } from '../types';
+import { fetchLibrary, saveLinkIndex } from './backendService';
+import { getPublishedPostBodies } from './wordpressService';
+import { significantTerms } from './duplicateTopics';
+import { findLinks, toPlainText } from './seoChecker';
+
+const KEYWORDS_PER_PAGE = 10;
+// Title words count this many times when picking a page's keywords.
+const TITLE_WEIGHT = 3;
+// Enough for one title word, or two keywords, shared with the article.
+const MIN_CANDIDATE_SCORE = 2;
+
+export interface LinkGraphPage {
+    entry: LinkIndexEntry;
+    // Distinct pages of the index linking here, and linked from here.
+    inbound: number;
+    outbound: number;
+}
+
+export interface LinkCandidate {
+    entry: LinkIndexEntry;
+    score: number;
+    matchedTerms: string[];
+}
+
+/**
+ * What two links to the same page have in common: host without "www.", path without a trailing
+ * slash, and query. Null for anything that isn't an http(s) URL.
+ */
+export const urlKey = (href: string, base?: string): string | null => {
+    try {
+        const url = new URL(href, base);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+        return `${url.host.replace(/^www\./, '')}${url.pathname.replace(/\/+$/, '')}${url.search}`;
+    } catch {
+        return null;
+    }
+};
+
+/** The most frequent significant words of a page, title words first. */
+export const extractKeywords = (title: string, text: string): string[] => {
+    const counts = new Map<string, number>();
+    significantTerms(title).forEach(term => counts.set(term, (counts.get(term) ?? 0) + TITLE_WEIGHT));
+    significantTerms(text).forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+    return [...counts.entries()]
+        .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+        .slice(0, KEYWORDS_PER_PAGE)
+        .map(([term]) => term);
+};
+
+/** Absolute URLs of the links in markdown or HTML, without fragments. */
+const resolveLinks = (source: string, base: string): string[] => [...new Set(findLinks(source).flatMap(href => {
+    try {
+        const url = new URL(href, base);
+        url.hash = '';
+        return url.protocol === 'http:' || url.protocol === 'https:' ? [url.href] : [];
+    } catch {
+        return [];
+    }
+}))];
+
+const libraryText = (item: GeneratedContent): string =>
+    item.type === ContentType.Product ? `${item.shortDescription}\n\n${item.longDescription}` : item.body;
+
+/**
+ * Rebuilds and saves the link index of a site from its published posts and the library items
+ * published to it. A library item already live on the site is indexed from the site's copy.
+ */
+export const buildLinkIndex = async (site: WordPressSite): Promise<LinkIndexEntry[]> => {
+    const [posts, library] = await Promise.all([site.isVirtual ? [] : getPublishedPostBodies(site), fetchLibrary()]);
+    const entries = new Map<string, LinkIndexEntry>();
+
+    posts.forEach(post => {
+        const key = urlKey(post.link);
+        if (!key) return;
+        entries.set(key, {
+            url: post.link,
+            title: post.title,
+            keywords: extractKeywords(post.title, post.text),
+            outboundLinks: resolveLinks(post.html, post.link),
+            source: 'site',
+            postId: post.id,
+        });
+    });
+
+    library.filter(item => item.siteId === site.id && item.wordpressUrl).forEach(item => {
+        const key = urlKey(item.wordpressUrl!);
+        if (!key) return;
+        const existing = entries.get(key) ?? [...entries.values()].find(entry => entry.postId !== undefined && entry.postId === item.wordpressId);
+        if (existing) {
+            existing.contentId = item.id;
+            return;
+        }
+        const text = libraryText(item);
+        entries.set(key, {
+            url: item.wordpressUrl!,
+            title: item.title,
+            keywords: extractKeywords(item.title, toPlainText(text)),
+            outboundLinks: resolveLinks(text, item.wordpressUrl!),
+            source: 'library',
+            postId: item.wordpressId,
+            contentId: item.id,
+        });
+    });
+
+    return saveLinkIndex(site.id, [...entries.values()]);
+};
+
+/** Link counts between the pages of the index, fewest inbound links (orphans) first. */
+export const getLinkGraph = (entries: LinkIndexEntry[]): LinkGraphPage[] => {
+    const keys = entries.map(entry => urlKey(entry.url));
+    const indexed = new Set(keys);
+    const inbound = new Map<string, number>();
+    const pages = entries.map((entry, index) => {
+        const targets = new Set(entry.outboundLinks.map(href => urlKey(href)).filter(key => key !== null && key !== keys[index] && indexed.has(key)));
+        targets.forEach(key => inbound.set(key!, (inbound.get(key!) ?? 0) + 1));
+        return { entry, inbound: 0, outbound: targets.size };
+    });
+    pages.forEach((page, index) => { page.inbound = inbound.get(keys[index]!) ?? 0; });
+    return pages.sort((a, b) => a.inbound - b.inbound || a.entry.title.localeCompare(b.entry.title));
+};
+
+/**
+ * Pages of the index an article could link to, best match first: those sharing title words or
+ * keywords with it. Pages it already links to, and the article's own page, are left out.
+ */
+export const findLinkCandidates = (
+    markdown: string,
+    entries: LinkIndexEntry[],
+    options: { siteUrl?: string; ownUrl?: string; limit?: number } = {}
+): LinkCandidate[] => {
+    const bodyTerms = new Set(significantTerms(toPlainText(markdown)));
+    const excluded = new Set(findLinks(markdown).map(href => urlKey(href, options.siteUrl)));
+    if (options.ownUrl) excluded.add(urlKey(options.ownUrl));
+
+    return entries
+        .filter(entry => !excluded.has(urlKey(entry.url)))
+        .map(entry => {
+            const titleTerms = new Set(significantTerms(entry.title));
+            const terms = new Set([...titleTerms, ...entry.keywords]);
+            const matchedTerms = [...terms].filter(term => bodyTerms.has(term));
+            const score = matchedTerms.reduce((total, term) => total + (titleTerms.has(term) ? 2 : 1), 0);
+            return { entry, score, matchedTerms };
+        })
+        .filter(candidate => candidate.score >= MIN_CANDIDATE_SCORE)
+        .sort((a, b) => b.score - a.score || a.entry.title.localeCompare(b.entry.title))
+        .slice(0, options.limit ?? 12);
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { convertMarkdown, htmlToMarkdown, markdownToGutenberg, markdownToHtml } from './markdownConverter';
+
+// Written the way htmlToMarkdown writes markdown, so a round trip gives the same text back.
+const samples: { [name: string]: string } = {
+    'headings and paragraphs': '# Title\n\n## Section\n\nFirst paragraph.\n\n### Subsection\n\nSecond paragraph.',
+    'links': 'See [the guide](https://ex.com/guide?a=1&b=2) and [**bold** text](https://ex.com/b).',
+    'links with emphasis characters in the URL': 'Read [x](https://ex.com/_draft_/a) and [y](https://ex.com/*star*/b).',
+    'emphasis': 'Some **bold**, some *italic* and **bold with *italic* inside**.',
+    'inline code': 'Run `npm run *build*` or `a_b_c`, then `<div>`.',
+    'code blocks': '```\nconst a = 1 < 2 && "x";\n\n**not bold**\n```',
+    'nested lists': '- Fruit\n  - Apple\n  - Pear\n    1. Conference\n    2. Williams\n- Vegetables\n\n1. First\n2. Second\n   - Detail',
+    'tables': '| Plan | Price | Notes |\n| --- | --- | --- |\n| Basic | $5 | *monthly* |\n| Pro | `$10` | [details](https://ex.com/pro) |',
+    'quotes and separators': '> Quoted **text**.\n>\n> Second quoted paragraph.\n\n---\n\nAfter the line.',
+};
+
+describe('markdown round trips', () => {
+    it.each(Object.entries(samples))('%s through classic HTML', (_name, markdown) => {
+        expect(htmlToMarkdown(markdownToHtml(markdown))).toBe(markdown);
+    });
+
+    it.each(Object.entries(samples))('%s through Gutenberg blocks', (_name, markdown) => {
+        expect(htmlToMarkdown(markdownToGutenberg(markdown))).toBe(markdown);
+    });
+
+    it('is stable for markdown written differently', () => {
+        const markdown = '* one\n* two\n    * nested\n\n1) first\n1) second\n\nText with __strong__ and _em_.';
+        const once = htmlToMarkdown(markdownToHtml(markdown));
+        expect(once).toBe('- one\n- two\n  - nested\n\n1. first\n2. second\n\nText with **strong** and *em*.');
+        expect(htmlToMarkdown(markdownToHtml(once))).toBe(once);
+    });
+});
+
+describe('inline markup', () => {
+    it('keeps emphasis characters in URLs out of the markup', () => {
+        expect(markdownToHtml('[x](https://ex.com/_draft_/a)')).toBe('<p><a href="https://ex.com/_draft_/a">x</a></p>');
+        expect(markdownToHtml('[x](https://ex.com/**a**/b) and *y*')).toBe('<p><a href="https://ex.com/**a**/b">x</a> and <em>y</em></p>');
+    });
+
+    it('formats link text but not code spans', () => {
+        expect(markdownToHtml('[*a* `b*c*`](https://ex.com)')).toBe('<p><a href="https://ex.com"><em>a</em> <code>b*c*</code></a></p>');
+    });
+
+    it('escapes HTML in text and URLs', () => {
+        expect(markdownToHtml('<script> & [a](https://ex.com/?q="x")')).toBe('<p>&lt;script&gt; &amp; <a href="https://ex.com/?q=&quot;x&quot;">a</a></p>');
+    });
+
+    it('leaves underscores inside words alone', () => {
+        expect(markdownToHtml('snake_case_name')).toBe('<p>snake_case_name</p>');
+    });
+});
+
+describe('lists', () => {
+    it('nests indented items under the item above', () => {
+        expect(markdownToHtml('- a\n  - b\n    - c\n- d')).toBe('<ul><li>a<ul><li>b<ul><li>c</li></ul></li></ul></li><li>d</li></ul>');
+    });
+
+    it('nests an ordered list in a bulleted one', () => {
+        expect(markdownToHtml('- a\n  1. b\n  2. c')).toBe('<ul><li>a<ol><li>b</li><li>c</li></ol></li></ul>');
+    });
+
+    it('starts a new list when the marker type changes at the same depth', () => {
+        expect(markdownToHtml('- a\n- b\n1. c\n2. d')).toBe('<ul><li>a</li><li>b</li></ul>\n<ol><li>c</li><li>d</li></ol>');
+    });
+
+    it('puts nested list blocks inside their list-item block', () => {
+        expect(markdownToGutenberg('- a\n  - b')).toBe([
+            '<!-- wp:list -->',
+            '<ul class="wp-block-list"><!-- wp:list-item -->',
+            '<li>a<!-- wp:list -->',
+            '<ul class="wp-block-list"><!-- wp:list-item -->',
+            '<li>b</li>',
+            '<!-- /wp:list-item --></ul>',
+            '<!-- /wp:list --></li>',
+            '<!-- /wp:list-item --></ul>',
+            '<!-- /wp:list -->',
+        ].join('\n'));
+    });
+});
+
+describe('tables', () => {
+    it('renders a header and body rows, padding short rows', () => {
+        expect(markdownToHtml('| A | B |\n|---|:-:|\n| 1 |')).toBe('<table><thead><tr><th>A</th><th>B</th></tr></thead><tbody><tr><td>1</td><td></td></tr></tbody></table>');
+    });
+
+    it('wraps the table in a table block', () => {
+        expect(markdownToGutenberg('| A |\n| --- |\n| 1 |')).toBe(
+            '<!-- wp:table -->\n<figure class="wp-block-table"><table><thead><tr><th>A</th></tr></thead><tbody><tr><td>1</td></tr></tbody></table></figure>\n<!-- /wp:table -->'
+        );
+    });
+
+    it('ends a paragraph where a table starts', () => {
+        expect(markdownToHtml('Prices:\n| A |\n| --- |')).toBe('<p>Prices:</p>\n<table><thead><tr><th>A</th></tr></thead><tbody></tbody></table>');
+    });
+});
+
+describe('block markup', () => {
+    it('omits the default heading level from the attributes', () => {
+        expect(markdownToGutenberg('## Two\n\n### Three')).toBe(
+            '<!-- wp:heading -->\n<h2 class="wp-block-heading">Two</h2>\n<!-- /wp:heading -->\n\n'
+            + '<!-- wp:heading {"level":3} -->\n<h3 class="wp-block-heading">Three</h3>\n<!-- /wp:heading -->'
+        );
+    });
+
+    it('picks the format per site, Gutenberg by default', () => {
+        expect(convertMarkdown('Hi')).toBe('<!-- wp:paragraph -->\n<p>Hi</p>\n<!-- /wp:paragraph -->');
+        expect(convertMarkdown('Hi', 'classic')).toBe('<p>Hi</p>');
+    });
+});
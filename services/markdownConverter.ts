@@ -0,0 +1,359 @@
+// services/markdownConverter.ts
+// Converts the markdown produced by the AI and edited in RichTextEditor into the
+// markup WordPress expects: Gutenberg block markup or plain HTML for the classic editor.
+// htmlToMarkdown goes the other way, for markup built from the same elements.
+
+import { ContentFormat } from '../types';
+
+// Items nest lists of their own, from list lines indented further than the item.
+interface ListItem {
+    text: string;
+    children: ListBlock[];
+}
+
+interface ListBlock {
+    type: 'list';
+    ordered: boolean;
+    items: ListItem[];
+}
+
+type MarkdownBlock =
+    | { type: 'heading'; level: number; text: string }
+    | { type: 'paragraph'; text: string }
+    | ListBlock
+    | { type: 'quote'; paragraphs: string[] }
+    | { type: 'code'; code: string }
+    | { type: 'table'; header: string[]; rows: string[][] }
+    | { type: 'separator' };
+
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+// Indentation, marker, text.
+const LIST_ITEM = /^(\s*)([*+-]|\d+[.)])\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const FENCE = /^\s*```/;
+const SEPARATOR = /^\s*([-*_])(\s*\1){2,}\s*$/;
+// The line under a table's header row, e.g. `| --- | :---: |`.
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const isTableStart = (lines: string[], i: number) =>
+    lines[i].includes('|') && i + 1 < lines.length && lines[i + 1].includes('-') && TABLE_DELIMITER.test(lines[i + 1]);
+
+const isBlockStart = (lines: string[], i: number) => {
+    const line = lines[i];
+    return HEADING.test(line) || LIST_ITEM.test(line) || QUOTE.test(line) || FENCE.test(line) || SEPARATOR.test(line) || isTableStart(lines, i);
+};
+
+const splitTableRow = (line: string): string[] =>
+    line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+// Tabs count as four spaces of indentation.
+const indentOf = (whitespace: string) => whitespace.replace(/\t/g, '    ').length;
+
+/**
+ * Reads the list starting at `lines[start]`. Items indented further than the list's own become
+ * nested lists of the item above them; a different marker type at the same depth ends the list.
+ */
+const parseList = (lines: string[], start: number): { list: ListBlock; next: number } => {
+    const first = lines[start].match(LIST_ITEM)!;
+    const indent = indentOf(first[1]);
+    const list: ListBlock = { type: 'list', ordered: /\d/.test(first[2]), items: [] };
+    let i = start;
+    while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (!item || indentOf(item[1]) < indent) break;
+        if (indentOf(item[1]) > indent && list.items.length > 0) {
+            const nested = parseList(lines, i);
+            list.items[list.items.length - 1].children.push(nested.list);
+            i = nested.next;
+            continue;
+        }
+        if (/\d/.test(item[2]) !== list.ordered) break;
+        list.items.push({ text: item[3], children: [] });
+        i++;
+    }
+    return { list, next: i };
+};
+
+/** Splits markdown into the block types we know how to render. */
+export const parseMarkdown = (markdown: string): MarkdownBlock[] => {
+    const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: MarkdownBlock[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        if (FENCE.test(line)) {
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !FENCE.test(lines[i])) {
+                code.push(lines[i]);
+                i++;
+            }
+            i++; // closing fence
+            blocks.push({ type: 'code', code: code.join('\n') });
+            continue;
+        }
+
+        // Checked before lists so `---` and `* * *` aren't read as list items.
+        if (SEPARATOR.test(line)) {
+            blocks.push({ type: 'separator' });
+            i++;
+            continue;
+        }
+
+        const heading = line.match(HEADING);
+        if (heading) {
+            blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+            i++;
+            continue;
+        }
+
+        if (LIST_ITEM.test(line)) {
+            const { list, next } = parseList(lines, i);
+            blocks.push(list);
+            i = next;
+            continue;
+        }
+
+        if (isTableStart(lines, i)) {
+            const header = splitTableRow(line);
+            const rows: string[][] = [];
+            i += 2;
+            while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+                const cells = splitTableRow(lines[i]);
+                // Rows are cut or padded to the header's width, as GitHub does.
+                rows.push(header.map((_, column) => cells[column] ?? ''));
+                i++;
+            }
+            blocks.push({ type: 'table', header, rows });
+            continue;
+        }
+
+        if (QUOTE.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && QUOTE.test(lines[i])) {
+                quoted.push(lines[i].match(QUOTE)![1]);
+                i++;
+            }
+            const paragraphs = quoted.join('\n').split(/\n\s*\n/).map(p => p.split('\n').join(' ').trim()).filter(Boolean);
+            blocks.push({ type: 'quote', paragraphs });
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (i < lines.length && lines[i].trim() && !isBlockStart(lines, i)) {
+            paragraph.push(lines[i].trim());
+            i++;
+        }
+        blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+    }
+
+    return blocks;
+};
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderEmphasis = (html: string): string => html
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a, b) => `<strong>${a ?? b}</strong>`)
+    .replace(/\*(?!\s)(.+?)\*|(?<!\w)_(?!\s)(.+?)_(?!\w)/g, (_, a, b) => `<em>${a ?? b}</em>`);
+
+/**
+ * Renders bold, italic, inline code and links. Code spans and link targets are swapped for
+ * placeholders first, so `*` and `_` inside them aren't read as emphasis.
+ */
+const renderInline = (text: string): string => {
+    const codeSpans: string[] = [];
+    const links: string[] = [];
+    const html = escapeHtml(text)
+        .replace(/`([^`]+)`/g, (_, code) => {
+            codeSpans.push(code);
+            return `\u0000${codeSpans.length - 1}\u0000`;
+        })
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label, href) => {
+            links.push(`<a href="${href}">${renderEmphasis(label)}</a>`);
+            return `\u0001${links.length - 1}\u0001`;
+        });
+    return renderEmphasis(html)
+        .replace(/\u0001(\d+)\u0001/g, (_, index) => links[Number(index)])
+        .replace(/\u0000(\d+)\u0000/g, (_, index) => `<code>${codeSpans[Number(index)]}</code>`);
+};
+
+const renderTableHtml = (header: string[], rows: string[][]): string =>
+    `<table><thead><tr>${header.map(cell => `<th>${renderInline(cell)}</th>`).join('')}</tr></thead>`
+    + `<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${renderInline(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+
+const renderBlockHtml = (block: MarkdownBlock): string => {
+    switch (block.type) {
+        case 'heading':
+            return `<h${block.level}>${renderInline(block.text)}</h${block.level}>`;
+        case 'paragraph':
+            return `<p>${renderInline(block.text)}</p>`;
+        case 'list': {
+            const tag = block.ordered ? 'ol' : 'ul';
+            const items = block.items.map(item => `<li>${renderInline(item.text)}${item.children.map(renderBlockHtml).join('')}</li>`);
+            return `<${tag}>${items.join('')}</${tag}>`;
+        }
+        case 'quote':
+            return `<blockquote>${block.paragraphs.map(p => `<p>${renderInline(p)}</p>`).join('')}</blockquote>`;
+        case 'code':
+            return `<pre><code>${escapeHtml(block.code)}</code></pre>`;
+        case 'table':
+            return renderTableHtml(block.header, block.rows);
+        case 'separator':
+            return '<hr />';
+    }
+};
+
+const wrapBlock = (name: string, inner: string, attributes?: Record<string, unknown>): string => {
+    const attrs = attributes ? ` ${JSON.stringify(attributes)}` : '';
+    return `<!-- wp:${name}${attrs} -->\n${inner}\n<!-- /wp:${name} -->`;
+};
+
+const renderBlockGutenberg = (block: MarkdownBlock): string => {
+    switch (block.type) {
+        case 'heading':
+            // Level 2 is the block's default and is omitted from the attributes, as the editor does.
+            return wrapBlock(
+                'heading',
+                `<h${block.level} class="wp-block-heading">${renderInline(block.text)}</h${block.level}>`,
+                block.level === 2 ? undefined : { level: block.level }
+            );
+        case 'paragraph':
+            return wrapBlock('paragraph', `<p>${renderInline(block.text)}</p>`);
+        case 'list': {
+            const tag = block.ordered ? 'ol' : 'ul';
+            // Nested lists are list blocks inside the list-item block, as the editor saves them.
+            const items = block.items
+                .map(item => wrapBlock('list-item', `<li>${renderInline(item.text)}${item.children.map(renderBlockGutenberg).join('')}</li>`))
+                .join('\n\n');
+            return wrapBlock('list', `<${tag} class="wp-block-list">${items}</${tag}>`, block.ordered ? { ordered: true } : undefined);
+        }
+        case 'quote': {
+            const inner = block.paragraphs.map(p => wrapBlock('paragraph', `<p>${renderInline(p)}</p>`)).join('\n\n');
+            return wrapBlock('quote', `<blockquote class="wp-block-quote">${inner}</blockquote>`);
+        }
+        case 'code':
+            return wrapBlock('code', `<pre class="wp-block-code"><code>${escapeHtml(block.code)}</code></pre>`);
+        case 'table':
+            return wrapBlock('table', `<figure class="wp-block-table">${renderTableHtml(block.header, block.rows)}</figure>`);
+        case 'separator':
+            return wrapBlock('separator', '<hr class="wp-block-separator has-alpha-channel-opacity"/>');
+    }
+};
+
+export const markdownToHtml = (markdown: string): string =>
+    parseMarkdown(markdown).map(renderBlockHtml).join('\n');
+
+export const markdownToGutenberg = (markdown: string): string =>
+    parseMarkdown(markdown).map(renderBlockGutenberg).join('\n\n');
+
+/** Converts markdown for the editor a site uses; sites without a preference get Gutenberg blocks. */
+export const convertMarkdown = (markdown: string, format: ContentFormat = 'gutenberg'): string =>
+    format === 'classic' ? markdownToHtml(markdown) : markdownToGutenberg(markdown);
+
+// --- Back to markdown ---
+
+interface HtmlElement {
+    tag: string;
+    attributes: string;
+    children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set(['br', 'hr', 'img']);
+
+const decodeHtml = (text: string): string => text
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#0?39;/g, "'").replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+
+/** A forgiving tree of the tags in `html`; unclosed tags end with their parent. */
+const parseHtml = (html: string): HtmlNode[] => {
+    const root: HtmlElement = { tag: '', attributes: '', children: [] };
+    const stack = [root];
+    const tokens = html.replace(/<!--[\s\S]*?-->/g, '').matchAll(/<(\/?)([a-z][a-z0-9]*)([^>]*?)\/?>|([^<]+)/gi);
+    for (const [, closing, name, attributes, text] of tokens) {
+        const parent = stack[stack.length - 1];
+        if (text !== undefined) {
+            parent.children.push(text);
+            continue;
+        }
+        const tag = name.toLowerCase();
+        if (closing) {
+            const open = stack.map(element => element.tag).lastIndexOf(tag);
+            if (open > 0) stack.length = open;
+            continue;
+        }
+        const element: HtmlElement = { tag, attributes, children: [] };
+        parent.children.push(element);
+        if (!VOID_TAGS.has(tag)) stack.push(element);
+    }
+    return root.children;
+};
+
+const childElements = (node: HtmlElement, ...tags: string[]): HtmlElement[] =>
+    node.children.filter((child): child is HtmlElement => typeof child !== 'string' && tags.includes(child.tag));
+
+const textContent = (node: HtmlNode): string =>
+    typeof node === 'string' ? decodeHtml(node) : node.children.map(textContent).join('');
+
+const renderInlineMarkdown = (nodes: HtmlNode[]): string => nodes.map(node => {
+    if (typeof node === 'string') return decodeHtml(node.replace(/\s+/g, ' '));
+    const inner = () => renderInlineMarkdown(node.children);
+    switch (node.tag) {
+        case 'strong': case 'b': return `**${inner()}**`;
+        case 'em': case 'i': return `*${inner()}*`;
+        case 'code': return `\`${textContent(node)}\``;
+        case 'a': return `[${inner()}](${decodeHtml(node.attributes.match(/href="([^"]*)"/)?.[1] ?? '')})`;
+        case 'br': return ' ';
+        default: return inner();
+    }
+}).join('').trim();
+
+const renderListMarkdown = (list: HtmlElement, indent: string): string => childElements(list, 'li').map((item, index) => {
+    const marker = list.tag === 'ol' ? `${index + 1}. ` : '- ';
+    const nested = childElements(item, 'ul', 'ol');
+    const text = renderInlineMarkdown(item.children.filter(child => !nested.includes(child as HtmlElement)));
+    // Nested items are indented past the marker, which is what makes them nest.
+    const childIndent = indent + ' '.repeat(marker.length);
+    return [`${indent}${marker}${text}`, ...nested.map(child => renderListMarkdown(child, childIndent))].join('\n');
+}).join('\n');
+
+const renderRowMarkdown = (row: HtmlElement) => `| ${childElements(row, 'th', 'td').map(cell => renderInlineMarkdown(cell.children)).join(' | ')} |`;
+
+const renderBlocksMarkdown = (nodes: HtmlNode[]): string[] => nodes.flatMap((node): string[] => {
+    if (typeof node === 'string') {
+        const text = decodeHtml(node).trim();
+        return text ? [text] : [];
+    }
+    const heading = node.tag.match(/^h([1-6])$/);
+    if (heading) return [`${'#'.repeat(Number(heading[1]))} ${renderInlineMarkdown(node.children)}`];
+    switch (node.tag) {
+        case 'p': return [renderInlineMarkdown(node.children)];
+        case 'ul': case 'ol': return [renderListMarkdown(node, '')];
+        case 'blockquote': return [renderBlocksMarkdown(node.children).map(block => block.replace(/^/gm, '> ')).join('\n>\n')];
+        case 'pre': return [`\`\`\`\n${textContent(node)}\n\`\`\``];
+        case 'hr': return ['---'];
+        case 'table': {
+            const rows = [...childElements(node, 'thead', 'tbody').flatMap(section => childElements(section, 'tr')), ...childElements(node, 'tr')];
+            if (rows.length === 0) return [];
+            const [header, ...body] = rows;
+            const delimiter = `|${childElements(header, 'th', 'td').map(() => ' --- ').join('|')}|`;
+            return [[renderRowMarkdown(header), delimiter, ...body.map(renderRowMarkdown)].join('\n')];
+        }
+        default: return renderBlocksMarkdown(node.children);
+    }
+});
+
+/**
+ * Turns HTML back into markdown: the markup the converters above produce, Gutenberg block
+ * comments included, and simple post HTML built from the same elements.
+ */
+export const htmlToMarkdown = (html: string): string => renderBlocksMarkdown(parseHtml(html)).join('\n\n');
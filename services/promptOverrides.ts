@@ -0,0 +1,34 @@
+// services/promptOverrides.ts
+// The team's prompt template overrides, loaded from the backend and cached, and rendering the
+// templates in services/promptTemplates.ts with them.
+
+import { PromptTemplateOverride } from '../types';
+import { fetchPromptTemplates } from './backendService';
+import { PromptTemplateId, PromptVariables, RenderedPrompt, findOverride, renderPromptTemplate } from './promptTemplates';
+
+// Other editors' changes show up within this long without reloading the app.
+const OVERRIDES_TTL_MS = 5 * 60 * 1000;
+let overridesCache: { loadedAt: number; overrides: Promise<PromptTemplateOverride[]> } | null = null;
+
+/** The team's overrides, cached briefly. Without them (e.g. offline), the built-in templates are used. */
+const getOverrides = (): Promise<PromptTemplateOverride[]> => {
+    if (!overridesCache || Date.now() - overridesCache.loadedAt > OVERRIDES_TTL_MS) {
+        overridesCache = {
+            loadedAt: Date.now(),
+            overrides: fetchPromptTemplates().catch(error => {
+                console.error("Failed to load prompt template overrides, using the built-in templates", error);
+                overridesCache = null;
+                return [];
+            }),
+        };
+    }
+    return overridesCache.overrides;
+};
+
+/** Call after overrides change, or when the signed-in team does. */
+export const clearPromptTemplateCache = () => {
+    overridesCache = null;
+};
+
+export const renderPrompt = async <K extends PromptTemplateId>(id: K, variables: PromptVariables[K], siteId?: string): Promise<RenderedPrompt<K>> =>
+    renderPromptTemplate(id, variables, findOverride(await getOverrides(), id, siteId));
@@ -0,0 +1,493 @@
+// services/promptTemplates.ts
+// The prompts behind every AI generator, as named and versioned templates. `{{name}}` inserts a
+// variable; `{{#name}}…{{/name}}` keeps its text only when the variable is set (non-empty, true,
+// non-zero) and `{{^name}}…{{/name}}` only when it isn't. Editors can override a template for the
+// team or for one site in Settings; generators render the most specific one and record its version.
+//
+// Bump a template's `version` whenever its text changes, so content generated before and after
+// can be told apart.
+
+// Only types are imported: the backend imports this module too, to render prompts itself.
+import type { PromptTemplateOverride, PromptTemplateRef } from '../types';
+
+/** The variables each template is rendered with. Lists are passed pre-formatted as text. */
+export interface PromptVariables {
+    'article': {
+        topic: string;
+        keywords: string;
+        tone: string;
+        language: string;
+        articleLength: string;
+        brandVoice: string;
+        useSearch: boolean;
+        hasSiteContext: boolean;
+        existingTitles: string;
+        existingCategories: string;
+        existingTags: string;
+        competitorInsights: string;
+    };
+    'article-outline': {
+        topic: string;
+        keywords: string;
+        tone: string;
+        language: string;
+        articleLength: string;
+        brandVoice: string;
+        existingTitles: string;
+        competitorInsights: string;
+    };
+    'article-section': {
+        title: string;
+        outline: string;
+        role: string;
+        heading: string;
+        keyPoints: string;
+        subheadings: string;
+        keywords: string;
+        tone: string;
+        language: string;
+        brandVoice: string;
+        sectionWords: number;
+    };
+    'product': {
+        productName: string;
+        features: string;
+        language: string;
+        brandVoice: string;
+    };
+    'content-strategy': {
+        topic: string;
+        numArticles: number;
+        language: string;
+        brandVoice: string;
+    };
+    'article-seo': {
+        title: string;
+        body: string;
+    };
+    'product-seo': {
+        title: string;
+        longDescription: string;
+        shortDescription: string;
+    };
+    'keywords': {
+        topic: string;
+    };
+    'competitor-analysis': {
+        url: string;
+    };
+    'internal-links': {
+        articleBody: string;
+        candidatePages: string;
+    };
+    'rewrite': {
+        instruction: string;
+        language: string;
+        brandVoice: string;
+        text: string;
+    };
+}
+
+export type PromptTemplateId = keyof PromptVariables;
+
+export interface PromptTemplate<V> {
+    version: number;
+    name: string;
+    description: string;
+    // What each variable holds, shown next to the editor in Settings.
+    variables: { [K in keyof V]: string };
+    systemInstruction: string;
+    userPrompt: string;
+}
+
+const BRAND_VOICE = "The site's voice profile: description, do's and don'ts, banned words and examples; empty when it has none";
+const LANGUAGE = 'Language code of the content, e.g. en or ar';
+const COMPETITOR = 'Analysis of a competing article to outdo: its topics, keywords and how to beat it; empty when none was analyzed';
+
+export const PROMPT_TEMPLATES: { [K in PromptTemplateId]: PromptTemplate<PromptVariables[K]> } = {
+    'article': {
+        version: 4,
+        name: 'Article',
+        description: 'Writes a complete article in one go.',
+        variables: {
+            topic: 'Topic or title idea',
+            keywords: 'Keywords to include, comma-separated',
+            tone: 'Tone of voice, e.g. Professional',
+            language: LANGUAGE,
+            articleLength: 'Desired length, e.g. Medium (~1000 words)',
+            brandVoice: BRAND_VOICE,
+            useSearch: 'Whether the model can use Google Search',
+            hasSiteContext: 'Whether the target site\'s posts, categories and tags were loaded',
+            existingTitles: 'Titles of recent posts on the site; empty without a site',
+            existingCategories: "The site's categories; empty without a site",
+            existingTags: "The site's most used tags; empty without a site",
+            competitorInsights: COMPETITOR,
+        },
+        systemInstruction: `You are an expert SEO content writer and a WordPress specialist. Your goal is to create high-quality, engaging, and well-structured articles that are optimized for search engines. Always follow the instructions precisely and return the content in the specified JSON format.`,
+        userPrompt: `Generate a complete article based on the following specifications.
+{{#useSearch}}Use your access to Google Search to find up-to-date, factual, and relevant information to write this article.
+{{/useSearch}}The output MUST be a single valid JSON object {{#useSearch}}enclosed in a \`\`\`json markdown block{{/useSearch}}{{^useSearch}}that strictly matches the provided schema{{/useSearch}}. Do not include any text outside of the JSON object.
+
+**Article Specifications:**
+- Topic/Title Idea: "{{topic}}"
+- Keywords to include naturally: "{{keywords}}"
+- Tone of voice: {{tone}}
+{{#brandVoice}}- Brand voice of the site, follow it closely:
+{{brandVoice}}
+{{/brandVoice}}- Language: {{language}}
+- Desired Length: {{articleLength}}. Adhere to this length as closely as possible.
+- Structure Requirements: The article 'body' must be written in markdown and have an introduction, an appropriate number of distinct and relevant H2 (##) subheadings for the requested length, and a conclusion.
+{{#hasSiteContext}}
+For context, here is some information about the website this article will be published on. Use this to ensure the new content is relevant, matches the site's tone, and complements existing content.
+{{#existingTitles}}- Existing Article Titles (cover a different angle than these): {{existingTitles}}
+{{/existingTitles}}{{#existingCategories}}- Existing Site Categories (the article should fit one of them): {{existingCategories}}
+{{/existingCategories}}{{#existingTags}}- Existing Site Tags (prefer these terms where they fit): {{existingTags}}
+{{/existingTags}}{{/hasSiteContext}}{{#competitorInsights}}
+A competing article ranks for this topic. Cover what it covers, then go further where it falls short:
+{{competitorInsights}}
+{{/competitorInsights}}
+Now, generate the complete article. The JSON output MUST contain the following keys:
+1. "title": A compelling, SEO-friendly title for the article.
+2. "metaDescription": An SEO-friendly meta description, between 150-160 characters.
+3. "body": The full body of the article, formatted with markdown.`,
+    },
+
+    'article-outline': {
+        version: 3,
+        name: 'Article outline',
+        description: 'Plans title candidates, a meta description and the sections of an article.',
+        variables: {
+            topic: 'Topic or title idea',
+            keywords: 'Keywords to cover, comma-separated',
+            tone: 'Tone of voice, e.g. Professional',
+            language: LANGUAGE,
+            articleLength: 'Desired length, e.g. Medium (~1000 words)',
+            brandVoice: BRAND_VOICE,
+            existingTitles: 'Titles of recent posts on the site; empty without a site',
+            competitorInsights: COMPETITOR,
+        },
+        systemInstruction: `You are an expert SEO content strategist. Your task is to plan the structure of an article before it is written. Return the outline in the specified JSON format.`,
+        userPrompt: `Create a detailed outline for an article with the following specifications. Do not write the article itself.
+
+- Topic/Title Idea: "{{topic}}"
+- Keywords to cover: "{{keywords}}"
+- Tone of voice: {{tone}}
+{{#brandVoice}}- Brand voice of the site, follow it closely:
+{{brandVoice}}
+{{/brandVoice}}- Language: {{language}}
+- Desired Length: {{articleLength}}. Choose a number of sections that fits this length.
+{{#existingTitles}}- Existing articles on the site, to complement rather than repeat: {{existingTitles}}
+{{/existingTitles}}{{#competitorInsights}}- A competing article to outdo; plan sections that cover its topics and fill its gaps:
+{{competitorInsights}}
+{{/competitorInsights}}
+The outline must contain title candidates, a meta description, and the sections in order, each with its H2 heading, optional H3 subheadings and the key points it should cover. The first section is the introduction and the last is the conclusion.`,
+    },
+
+    'article-section': {
+        version: 2,
+        name: 'Article section',
+        description: 'Writes one section of an approved outline.',
+        variables: {
+            title: 'Title of the article',
+            outline: "The outline's H2 headings, one numbered line each",
+            role: 'Which part this is, e.g. "the introduction" or "section 3 of 6"',
+            heading: "The section's H2 heading",
+            keyPoints: 'Key points to cover, quoted and comma-separated; may be empty',
+            subheadings: 'H3 subheadings to use, quoted and comma-separated; may be empty',
+            keywords: 'Keywords to include, comma-separated',
+            tone: 'Tone of voice, e.g. Professional',
+            language: LANGUAGE,
+            brandVoice: BRAND_VOICE,
+            sectionWords: 'Target length of the section in words',
+        },
+        systemInstruction: `You are an expert SEO content writer. You write one section of an article at a time, following an approved outline exactly. Return the section in the specified JSON format.`,
+        userPrompt: `The article "{{title}}" has this approved outline:
+{{outline}}
+
+Write {{role}}: "{{heading}}".
+- Key points to cover: {{#keyPoints}}{{keyPoints}}{{/keyPoints}}{{^keyPoints}}use your judgement{{/keyPoints}}
+{{#subheadings}}- Use exactly these H3 (###) subheadings, in this order: {{subheadings}}{{/subheadings}}{{^subheadings}}- Do not use subheadings.{{/subheadings}}
+- Keywords to include naturally where they fit: "{{keywords}}"
+- Tone of voice: {{tone}}
+{{#brandVoice}}- Brand voice of the site, follow it closely:
+{{brandVoice}}
+{{/brandVoice}}- Language: {{language}}
+- Length: about {{sectionWords}} words.
+
+Write in markdown. Do not include the section's H2 heading and do not repeat content that belongs to other sections of the outline.`,
+    },
+
+    'product': {
+        version: 2,
+        name: 'Product',
+        description: 'Writes the title, descriptions and meta description of a WooCommerce product.',
+        variables: {
+            productName: 'Name of the product',
+            features: 'Key features and specifications, one "- " line each',
+            language: LANGUAGE,
+            brandVoice: BRAND_VOICE,
+        },
+        systemInstruction: '',
+        userPrompt: `Generate complete product page content for a WooCommerce store. The output MUST be a valid JSON object matching the provided schema.
+
+- Product Name: "{{productName}}"
+- Key Features and Specifications:
+{{features}}
+- Language: {{language}}
+{{#brandVoice}}- Brand voice of the site, follow it closely:
+{{brandVoice}}
+{{/brandVoice}}
+Create compelling copy that persuades customers to buy. Use markdown for formatting in the descriptions.`,
+    },
+
+    'content-strategy': {
+        version: 2,
+        name: 'Content strategy',
+        description: 'Writes a series of articles around one topic.',
+        variables: {
+            topic: 'Main topic of the series',
+            numArticles: 'How many articles to write',
+            language: LANGUAGE,
+            brandVoice: BRAND_VOICE,
+        },
+        systemInstruction: `You are an expert content strategist and SEO writer. Your task is to generate a complete content plan for a given topic. You must generate a JSON array containing the specified number of full, ready-to-publish articles. Each article object in the array must conform to the provided schema.`,
+        userPrompt: `Generate a content strategy consisting of {{numArticles}} full articles on the main topic of "{{topic}}".
+Each article should be unique, target a different sub-topic or keyword, and be engaging for readers.
+The output MUST be a single, valid JSON array of article objects. Do not include any text outside of the JSON array.
+Each object in the array must strictly adhere to this schema: { title, metaDescription, body }.
+The language for all articles must be {{language}}.
+{{#brandVoice}}Write all articles in the brand voice of the site:
+{{brandVoice}}
+{{/brandVoice}}The body of each article must be formatted in markdown and be well-structured with an introduction, H2 subheadings, and a conclusion.`,
+    },
+
+    'article-seo': {
+        version: 1,
+        name: 'Article SEO analysis',
+        description: 'Scores an article out of 100 and suggests improvements.',
+        variables: {
+            title: 'Title of the article',
+            body: 'Markdown body of the article',
+        },
+        systemInstruction: `You are a world-class SEO expert. Your task is to analyze an article and provide an SEO score and actionable feedback. The response must be a valid JSON object matching the provided schema.`,
+        userPrompt: `Please analyze the following article for its Search Engine Optimization (SEO) quality.
+Provide a score out of 100 and a list of specific, actionable suggestions for improvement.
+
+**Article Title:**
+"{{title}}"
+
+**Article Body:**
+---
+{{body}}
+---
+
+Evaluate based on factors like:
+- Readability and structure (headings, paragraphs, lists).
+- How well the title reflects the content.
+- Potential for ranking on search engines.
+- Natural integration of potential keywords.
+
+Return your analysis as a single, valid JSON object.`,
+    },
+
+    'product-seo': {
+        version: 1,
+        name: 'Product SEO analysis',
+        description: 'Scores a product page out of 100 and suggests improvements.',
+        variables: {
+            title: 'Title of the product',
+            longDescription: 'Long description (markdown)',
+            shortDescription: 'Short description (markdown)',
+        },
+        systemInstruction: `You are a world-class e-commerce SEO expert. Your task is to analyze product page content and provide an SEO score and actionable feedback. The response must be a valid JSON object matching the provided schema.`,
+        userPrompt: `Please analyze the following product page content for its Search Engine Optimization (SEO) quality.
+Provide a score out of 100 and a list of specific, actionable suggestions for improvement.
+
+**Product Title:**
+"{{title}}"
+
+**Long Description:**
+---
+{{longDescription}}
+---
+
+**Short Description:**
+---
+{{shortDescription}}
+---
+
+Evaluate based on factors like:
+- Persuasiveness and clarity of the descriptions.
+- Natural integration of potential keywords in the title and descriptions.
+- How well the title reflects the product.
+- Overall potential to convert visitors and rank on search engines.
+
+Return your analysis as a single, valid JSON object.`,
+    },
+
+    'keywords': {
+        version: 1,
+        name: 'Keyword suggestions',
+        description: 'Suggests keywords with estimated volume and difficulty.',
+        variables: {
+            topic: 'Topic of the article',
+        },
+        systemInstruction: `You are an SEO keyword research specialist. Your task is to generate a list of relevant keywords for a given article topic, including estimated search volume and ranking difficulty. The response must be a valid JSON object matching the provided schema.`,
+        userPrompt: `Please generate a list of 10-15 highly relevant SEO keywords for an article with the following topic. Include a mix of primary (short-tail) and secondary (long-tail) keywords. For each keyword, provide an estimated search volume and ranking difficulty, categorized as 'Low', 'Medium', or 'High'.
+
+**Article Topic:**
+"{{topic}}"
+
+Return your list as a single, valid JSON object.`,
+    },
+
+    'competitor-analysis': {
+        version: 1,
+        name: 'Competitor analysis',
+        description: "Reads a competitor's article with Google Search and suggests how to outdo it.",
+        variables: {
+            url: "URL of the competitor's article",
+        },
+        systemInstruction: `You are a world-class SEO and content strategist. Your task is to analyze a competitor's article from a given URL and provide a structured analysis for creating a better piece of content. The response must be a valid JSON object enclosed in a \`\`\`json markdown block.`,
+        userPrompt: `Use Google Search to find and thoroughly analyze the content at the following URL: {{url}}
+
+Based on your analysis, provide a content strategy to create a superior article that can outrank it. Your analysis must be returned as a single, valid JSON object with the following keys:
+1. "mainTopics": A list of the main topics and themes covered in the competitor's article.
+2. "identifiedKeywords": A list of the primary and secondary keywords the competitor's article seems to be targeting.
+3. "suggestions": A list of 3-5 concrete, actionable suggestions for creating a better, more comprehensive article. These suggestions should highlight content gaps, suggest additional sub-topics, or recommend different angles to take.`,
+    },
+
+    'internal-links': {
+        version: 2,
+        name: 'Internal link suggestions',
+        description: "Finds phrases in an article to link to other pages of the site, picked from the site's link index.",
+        variables: {
+            articleBody: 'The article body, in markdown',
+            candidatePages: 'Pages of the site sharing keywords with the article, one "- title: URL" line each',
+        },
+        systemInstruction: `You are an on-page SEO expert specializing in internal linking strategy. Your task is to analyze an article and identify opportunities to link to other existing articles on the same site. Your response must be a valid JSON object matching the provided schema.`,
+        userPrompt: `I have an article with the following body text. I also have a list of other pages from my website that are related to it.
+
+**Article Body to Analyze:**
+---
+{{articleBody}}
+---
+
+**Pages to Link To:**
+{{candidatePages}}
+
+Please analyze the article body and identify 3-5 of the best opportunities for internal links, each to a different page. For each opportunity, provide the exact anchor text as it appears in the body, the title and the URL of the page it should link to exactly as listed, and a brief justification for why it's a good link. Only link to pages from the list.
+
+Return your suggestions as a single, valid JSON object.`,
+    },
+
+    'rewrite': {
+        version: 2,
+        name: 'Editor rewrite',
+        description: 'Rewrites, expands, shortens, simplifies, re-tones or translates a passage in the editor.',
+        variables: {
+            instruction: 'What to do with the passage, e.g. "Shorten the text to roughly half its length…"',
+            language: 'Language to write in',
+            brandVoice: BRAND_VOICE,
+            text: 'The passage, in markdown',
+        },
+        systemInstruction: `You are an expert editor. You rewrite passages of an article exactly as instructed and return only the new passage in the specified JSON format.`,
+        userPrompt: `{{instruction}}
+
+- Keep the markdown formatting (headings, lists, links, bold) where it still applies.
+- Language: {{language}}
+{{#brandVoice}}- Brand voice of the site, follow it closely:
+{{brandVoice}}
+{{/brandVoice}}
+**Text:**
+---
+{{text}}
+---`,
+    },
+};
+
+export const PROMPT_TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATES) as PromptTemplateId[];
+
+export type TemplateVariables = { [name: string]: string | number | boolean };
+
+const SECTION_PATTERN = /{{([#^])(\w+)}}([\s\S]*?){{\/\2}}/g;
+const VARIABLE_PATTERN = /{{(\w+)}}/g;
+
+export const renderTemplate = (template: string, variables: TemplateVariables): string => {
+    // Repeated so sections nested inside other sections are resolved too.
+    let text = template;
+    for (let previous = ''; previous !== text;) {
+        previous = text;
+        text = text.replace(SECTION_PATTERN, (_, kind: string, name: string, inner: string) => Boolean(variables[name]) === (kind === '#') ? inner : '');
+    }
+    return text.replace(VARIABLE_PATTERN, (_, name: string) => String(variables[name] ?? '')).trim();
+};
+
+export interface RenderedPrompt<K extends PromptTemplateId = PromptTemplateId> {
+    systemInstruction?: string;
+    prompt: string;
+    template: PromptTemplateRef;
+    // What the prompt was rendered from, for providers that render it themselves (the Gemini proxy).
+    variables: PromptVariables[K];
+}
+
+/** Renders template `id`, or the override of it that applies, and names the version used. */
+export const renderPromptTemplate = <K extends PromptTemplateId>(id: K, variables: PromptVariables[K], override?: PromptTemplateOverride): RenderedPrompt<K> => {
+    const template = override ?? PROMPT_TEMPLATES[id];
+    const systemInstruction = renderTemplate(template.systemInstruction, variables);
+    return {
+        systemInstruction: systemInstruction || undefined,
+        prompt: renderTemplate(template.userPrompt, variables),
+        variables,
+        template: override
+            ? { id, version: override.version, source: override.siteId ? 'site' : 'team' }
+            : { id, version: PROMPT_TEMPLATES[id].version, source: 'default' },
+    };
+};
+
+/** An answer that didn't match its JSON schema, and what was wrong with it. */
+export interface PromptRepair {
+    problems: string[];
+    answer: string;
+}
+
+// Keeps the repair prompt within reach of the model's context for very long articles.
+export const MAX_REPAIR_ANSWER_LENGTH = 30_000;
+
+/** `prompt` followed by a request to correct the answer it got. */
+export const renderRepairPrompt = (prompt: string, repair: PromptRepair) => `${prompt}
+
+---
+Your previous answer could not be used because it did not match the required JSON format:
+${repair.problems.map(problem => `- ${problem}`).join('\n')}
+
+Previous answer:
+${repair.answer.slice(0, MAX_REPAIR_ANSWER_LENGTH)}
+
+Reply again with only the corrected JSON. Keep the content of the previous answer wherever it was valid.`;
+
+/** Problems that would stop an edited template from rendering as intended; empty when it's fine. */
+export const findTemplateProblems = (id: PromptTemplateId, template: string): string[] => {
+    const known = Object.keys(PROMPT_TEMPLATES[id].variables);
+    const tags = Array.from(template.matchAll(/{{([#^/]?)(\w+)}}/g));
+    const unknown = [...new Set(tags.map(tag => tag[2]).filter(name => !known.includes(name)))];
+
+    const unclosed: string[] = [];
+    const open: string[] = [];
+    tags.forEach(([, kind, name]) => {
+        if (kind === '#' || kind === '^') {
+            open.push(name);
+        } else if (kind === '/' && open.pop() !== name) {
+            unclosed.push(name);
+        }
+    });
+    return [
+        ...unknown.map(name => `Unknown variable {{${name}}}`),
+        ...[...new Set([...unclosed, ...open])].map(name => `Unbalanced section {{#${name}}} / {{/${name}}}`),
+    ];
+};
+
+/** The override that applies to `siteId`: the site's own, else the team's, else none. */
+export const findOverride = (overrides: PromptTemplateOverride[], id: PromptTemplateId, siteId?: string): PromptTemplateOverride | undefined =>
+    overrides.find(override => override.templateId === id && siteId && override.siteId === siteId)
+    ?? overrides.find(override => override.templateId === id && override.siteId === null);
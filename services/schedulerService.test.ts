@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ArticleContent, ContentType, WordPressSite } from '../types';
+import { schedulePublish } from './schedulerService';
+import { setWordPressFetch } from './wordpressService';
+
+const site = { id: 'blog', url: 'https://blog.test', name: 'Blog', username: 'editor', isVirtual: false } as WordPressSite;
+const publishAt = '2024-05-01T09:00:00.000Z';
+const article: ArticleContent = {
+    id: 'a', type: ContentType.Article, title: 'Cold brew', metaDescription: 'How to', status: 'approved', createdAt: new Date(), body: 'Steep it.',
+    featuredImage: { base64: btoa('jpeg'), mimeType: 'image/jpeg', altText: 'A glass', caption: '' },
+};
+
+let requests: { method: string; path: string; body?: unknown }[];
+let failures: number;
+
+// Stands in for the backend's site proxy; `failures` posts fail with a 502 before one succeeds.
+const proxy = async (input: string, init: RequestInit = {}): Promise<Response> => {
+    const path = input.replace(/^\/sites\/blog\/wp-json/, '').replace(/\?.*$/, '');
+    const method = init.method || 'GET';
+    requests.push({ method, path, body: typeof init.body === 'string' ? JSON.parse(init.body) : undefined });
+    const upstream = { 'X-Upstream-Status': '200' };
+    if (method === 'POST' && path === '/wp/v2/media') {
+        return Response.json({ id: 91 }, { headers: upstream });
+    }
+    if (path.startsWith('/wp/v2/media/')) {
+        return Response.json({ id: 91 }, { headers: upstream });
+    }
+    if (failures > 0) {
+        failures--;
+        return Response.json({ message: 'Bad gateway' }, { status: 502, headers: { 'X-Upstream-Status': '502' } });
+    }
+    return Response.json({ id: 7, link: 'https://blog.test/cold-brew/' }, { headers: upstream });
+};
+
+const run = async <T>(promise: Promise<T>): Promise<T> => {
+    await vi.runAllTimersAsync();
+    return promise;
+};
+
+beforeEach(() => {
+    requests = [];
+    failures = 0;
+    vi.useFakeTimers();
+    setWordPressFetch(proxy);
+});
+
+afterEach(() => {
+    setWordPressFetch(null);
+    vi.useRealTimers();
+});
+
+describe('schedulePublish', () => {
+    it('creates a `future` post dated for the publish time', async () => {
+        const result = await run(schedulePublish(site, { ...article, featuredImage: undefined }, publishAt));
+        expect(result).toEqual({ postUrl: 'https://blog.test/cold-brew/', postId: 7, featuredMediaId: undefined });
+        expect(requests).toEqual([{ method: 'POST', path: '/wp/v2/posts', body: expect.objectContaining({ status: 'future', date_gmt: '2024-05-01T09:00:00' }) }]);
+    });
+
+    it('uploads the featured image once, even when the post is retried', async () => {
+        failures = 2;
+        const onImageUploaded = vi.fn();
+        const result = await run(schedulePublish(site, article, publishAt, onImageUploaded));
+
+        expect(requests.filter(request => request.path === '/wp/v2/media')).toHaveLength(1);
+        expect(requests.filter(request => request.path === '/wp/v2/posts')).toHaveLength(3);
+        expect(onImageUploaded).toHaveBeenCalledWith(expect.objectContaining({ upload: { siteId: 'blog', mediaId: 91 } }));
+        expect(result.featuredMediaId).toBe(91);
+    });
+
+    it('reports the uploaded image before the post fails for good', async () => {
+        failures = 10;
+        const onImageUploaded = vi.fn();
+        const failed = expect(schedulePublish(site, article, publishAt, onImageUploaded)).rejects.toMatchObject({ kind: 'server' });
+        await vi.runAllTimersAsync();
+        await failed;
+        expect(onImageUploaded).toHaveBeenCalledOnce();
+    });
+
+    it('reuses an image already uploaded to the site', async () => {
+        const uploaded = { ...article, featuredImage: { ...article.featuredImage!, upload: { siteId: 'blog', mediaId: 12 } } };
+        const onImageUploaded = vi.fn();
+        await run(schedulePublish(site, uploaded, publishAt, onImageUploaded));
+        expect(requests.some(request => request.path === '/wp/v2/media')).toBe(false);
+        expect(requests.at(-1)?.body).toMatchObject({ featured_media: 12 });
+        expect(onImageUploaded).not.toHaveBeenCalled();
+    });
+
+    it('updates the post the item already has on the site', async () => {
+        await run(schedulePublish(site, { ...article, featuredImage: undefined, siteId: 'blog', wordpressId: 7 }, publishAt));
+        expect(requests).toEqual([expect.objectContaining({ method: 'POST', path: '/wp/v2/posts/7' })]);
+    });
+});
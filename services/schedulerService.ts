@@ -0,0 +1,58 @@
+// services/schedulerService.ts
+// Scheduled content is handed to WordPress as a `future` post, so WordPress itself publishes it
+// when the time arrives. This module creates those posts; the server (server/scheduler.ts)
+// reconciles the library afterwards.
+
+import { FeaturedImage, GeneratedContent, WordPressSite } from '../types';
+import { publishContent, uploadFeaturedImage, WordPressApiError, PublishResult } from './wordpressService';
+import { slugify } from './textNormalization';
+
+const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
+
+// Auth, permission and not-found errors won't fix themselves by retrying.
+const isTransient = (error: unknown) =>
+    !(error instanceof WordPressApiError) || error.kind === 'network' || error.kind === 'server';
+
+/** Runs `task`, retrying transient failures with exponential backoff (1s, 2s, 4s by default). */
+export const retryWithBackoff = async <T>(task: () => Promise<T>, retries = 3, baseDelayMs = 1000): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await task();
+        } catch (error) {
+            if (attempt >= retries || !isTransient(error)) {
+                throw error;
+            }
+            await delay(baseDelayMs * 2 ** attempt);
+        }
+    }
+};
+
+/**
+ * Creates (or updates) the WordPress post with status `future` so WordPress publishes it at `publishAt`.
+ * The featured image is uploaded once, before the post, and handed to `onImageUploaded` so it can be
+ * saved: a retry, now or after a failure, reuses the attachment instead of uploading it again.
+ */
+export const schedulePublish = async (
+    site: WordPressSite,
+    content: GeneratedContent,
+    publishAt: string,
+    onImageUploaded?: (featuredImage: FeaturedImage) => void
+): Promise<PublishResult> => {
+    let featuredImage = content.featuredImage;
+    if (featuredImage && featuredImage.upload?.siteId !== site.id) {
+        const image = featuredImage;
+        const mediaId = await retryWithBackoff(() => uploadFeaturedImage(site, image, slugify(content.title)));
+        featuredImage = { ...image, upload: { siteId: site.id, mediaId } };
+        onImageUploaded?.(featuredImage);
+    }
+
+    const canUpdate = content.siteId === site.id && !!content.wordpressId;
+    return retryWithBackoff(() => publishContent(site, { ...content, featuredImage }, {
+        siteId: site.id,
+        status: 'future',
+        date: publishAt,
+        action: canUpdate ? 'update' : 'create',
+        postId: canUpdate ? content.wordpressId : undefined,
+        categories: [],
+    }));
+};
@@ -0,0 +1,236 @@
+import { describe, expect, it } from 'vitest';
+import { SeoCheckId } from '../types';
+import { SeoCheckInput, checkArticleSeo, findLinks, fleschReadingEase, toPlainText } from './seoChecker';
+
+// Short, plain sentences: 6 words each, one syllable a word.
+const sentences = (count: number) => Array(count).fill('The cat sat on the mat.').join(' ');
+
+const goodArticle: SeoCheckInput = {
+    title: 'How to build a compost bin',
+    metaDescription: 'm'.repeat(155),
+    keyword: 'compost bin',
+    siteUrl: 'https://www.example.com',
+    body: [
+        'A compost bin turns scraps into soil. Read [our guide](/guide) or [the study](https://example.org/study).',
+        '## Choosing a compost bin',
+        sentences(10),
+        '### Size',
+        sentences(10),
+        '## Using it well',
+        sentences(10),
+    ].join('\n\n'),
+};
+
+const checkOf = (id: SeoCheckId, changes: Partial<SeoCheckInput> = {}) =>
+    checkArticleSeo({ ...goodArticle, ...changes }).checks.find(item => item.id === id)!;
+
+const statusOf = (id: SeoCheckId, changes: Partial<SeoCheckInput> = {}) => checkOf(id, changes).status;
+
+describe('checkArticleSeo', () => {
+    it('passes every check for a well-formed article', () => {
+        const report = checkArticleSeo(goodArticle);
+        expect(report.checks.map(item => [item.id, item.status])).toEqual([
+            ['keywordInTitle', 'pass'],
+            ['keywordInIntro', 'pass'],
+            ['keywordInHeadings', 'pass'],
+            ['keywordDensity', 'pass'],
+            ['metaDescriptionLength', 'pass'],
+            ['headingHierarchy', 'pass'],
+            ['paragraphLength', 'pass'],
+            ['readability', 'pass'],
+            ['links', 'pass'],
+        ]);
+        expect(report.score).toBe(100);
+    });
+
+    it('gives half the points for a warning and none for a failure', () => {
+        const warned = checkOf('metaDescriptionLength', { metaDescription: 'm'.repeat(130) });
+        expect(warned).toMatchObject({ status: 'warn', points: 5, maxPoints: 10 });
+        expect(checkOf('metaDescriptionLength', { metaDescription: '' })).toMatchObject({ status: 'fail', points: 0 });
+        expect(checkArticleSeo({ ...goodArticle, metaDescription: 'm'.repeat(130) }).score).toBe(95);
+    });
+});
+
+describe('keyword checks', () => {
+    it('fail all four without a keyword', () => {
+        const { checks } = checkArticleSeo({ ...goodArticle, keyword: '  ' });
+        expect(checks.slice(0, 4).map(item => [item.id, item.status])).toEqual([
+            ['keywordInTitle', 'fail'],
+            ['keywordInIntro', 'fail'],
+            ['keywordInHeadings', 'fail'],
+            ['keywordDensity', 'fail'],
+        ]);
+    });
+
+    it('find the keyword phrase in the title regardless of case', () => {
+        expect(statusOf('keywordInTitle', { title: 'Compost Bin basics' })).toBe('pass');
+        expect(statusOf('keywordInTitle', { title: 'A bin for compost' })).toBe('fail');
+    });
+
+    it('look for the keyword in the first paragraph only', () => {
+        expect(statusOf('keywordInIntro', { body: `Scraps become soil.\n\nA compost bin helps.` })).toBe('fail');
+        expect(statusOf('keywordInIntro', { body: `## Compost bin\n\nA compost bin helps.` })).toBe('pass');
+    });
+
+    it('count only H2 headings for the keyword', () => {
+        expect(checkOf('keywordInHeadings').values).toMatchObject({ matches: 1, headings: 2 });
+        const body = `A compost bin.\n\n## Basics\n\n### Compost bin sizes\n\nText.`;
+        expect(checkOf('keywordInHeadings', { body }).values).toMatchObject({ matches: 0, headings: 1 });
+        expect(statusOf('keywordInHeadings', { body })).toBe('fail');
+    });
+
+    describe('density', () => {
+        // `total` words, the first `occurrences` of them the keyword.
+        const densityOf = (total: number, occurrences: number) => checkOf('keywordDensity', {
+            keyword: 'compost',
+            body: Array.from({ length: total }, (_, index) => index < occurrences ? 'compost' : 'soil').join(' '),
+        });
+
+        it('passes from 0.5 to 2.5 occurrences per 100 words, inclusive', () => {
+            expect(densityOf(200, 1)).toMatchObject({ status: 'pass', values: { density: 0.5, occurrences: 1 } });
+            expect(densityOf(200, 5)).toMatchObject({ status: 'pass', values: { density: 2.5 } });
+        });
+
+        it('warns up to one point above the range', () => {
+            expect(densityOf(200, 6).status).toBe('warn');
+            expect(densityOf(200, 7)).toMatchObject({ status: 'warn', values: { density: 3.5 } });
+            expect(densityOf(200, 8)).toMatchObject({ status: 'fail', values: { density: 4 } });
+        });
+
+        it('warns below the range, but fails when the keyword never appears', () => {
+            expect(densityOf(400, 1)).toMatchObject({ status: 'warn', values: { density: 0.3 } });
+            expect(densityOf(400, 0)).toMatchObject({ status: 'fail', values: { occurrences: 0 } });
+        });
+    });
+});
+
+describe('meta description length', () => {
+    const statusFor = (length: number) => statusOf('metaDescriptionLength', { metaDescription: 'm'.repeat(length) });
+
+    it('passes from 150 to 160 characters', () => {
+        expect([statusFor(150), statusFor(160)]).toEqual(['pass', 'pass']);
+    });
+
+    it('warns within 30 characters of the range and fails beyond', () => {
+        expect([statusFor(120), statusFor(149), statusFor(161), statusFor(190)]).toEqual(['warn', 'warn', 'warn', 'warn']);
+        expect([statusFor(119), statusFor(191)]).toEqual(['fail', 'fail']);
+    });
+
+    it('counts characters rather than UTF-16 units, ignoring surrounding space', () => {
+        expect(checkOf('metaDescriptionLength', { metaDescription: `  ${'🌱'.repeat(150)}  ` }).values).toEqual({ length: 150 });
+    });
+});
+
+describe('heading hierarchy', () => {
+    it('passes when levels go down one at a time from H2', () => {
+        expect(statusOf('headingHierarchy', { body: '## A\n\n### B\n\n#### C\n\n## D\n\n### E' })).toBe('pass');
+    });
+
+    it('fails when a level is skipped, including straight after the title', () => {
+        expect(checkOf('headingHierarchy', { body: '## A\n\n#### B' })).toMatchObject({ status: 'fail', values: { skipped: 1 } });
+        expect(checkOf('headingHierarchy', { body: '### A\n\n## B' })).toMatchObject({ status: 'fail', values: { skipped: 1 } });
+    });
+
+    it('fails without any H2', () => {
+        expect(statusOf('headingHierarchy', { body: 'Just text.' })).toBe('fail');
+    });
+
+    it('warns about an H1 in the body, which repeats the title', () => {
+        expect(checkOf('headingHierarchy', { body: '# Title again\n\n## A' })).toMatchObject({ status: 'warn', values: { h1: 1, h2: 1 } });
+    });
+
+    it('ignores lines inside code blocks', () => {
+        expect(statusOf('headingHierarchy', { body: '## A\n\n```\n#### not a heading\n```' })).toBe('pass');
+    });
+});
+
+describe('paragraph length', () => {
+    const long = Array(151).fill('word').join(' ');
+    const short = 'Short paragraph.';
+
+    it('passes when no paragraph is over 150 words', () => {
+        expect(statusOf('paragraphLength', { body: [Array(150).fill('word').join(' '), short].join('\n\n') })).toBe('pass');
+    });
+
+    it('warns when up to a quarter of the paragraphs are long, and fails above that', () => {
+        expect(statusOf('paragraphLength', { body: [long, short, short, short].join('\n\n') })).toBe('warn');
+        expect(checkOf('paragraphLength', { body: [long, long, short, short].join('\n\n') })).toMatchObject({ status: 'fail', values: { long: 2, paragraphs: 4 } });
+    });
+
+    it('fails without paragraphs, and does not count lists as paragraphs', () => {
+        expect(statusOf('paragraphLength', { body: `## A\n\n- ${long}` })).toBe('fail');
+    });
+});
+
+describe('readability', () => {
+    const statusFor = (body: string) => statusOf('readability', { body });
+
+    it('passes plain prose', () => {
+        expect(checkOf('readability').values).toMatchObject({ metric: 'flesch' });
+        expect(statusFor(sentences(5))).toBe('pass');
+    });
+
+    it('warns about moderately hard prose and fails academic prose', () => {
+        expect(statusFor('Gardens need water, patience and careful planning.')).toBe('warn');
+        expect(statusFor('Composting kitchen leftovers gradually produces valuable garden material.')).toBe('fail');
+    });
+
+    it('reports Arabic sentence and word length for information, without points', () => {
+        const body = '## مقدمة\n\nالقهوة مشروب شائع. يحب الناس القهوة كثيرا في الصباح.';
+        const report = checkArticleSeo({ ...goodArticle, body });
+        expect(report.checks.find(item => item.id === 'readability')).toEqual({
+            id: 'readability',
+            status: 'info',
+            points: 0,
+            maxPoints: 0,
+            values: { wordsPerSentence: 4.5, lettersPerWord: 4.7, metric: 'arabic' },
+        });
+        // The score is out of the other checks' points only.
+        expect(report.checks.reduce((total, item) => total + item.maxPoints, 0)).toBe(90);
+    });
+
+    it('is left out when there is no prose to read', () => {
+        expect(checkArticleSeo({ ...goodArticle, body: '## Only a heading' }).checks.map(item => item.id)).not.toContain('readability');
+    });
+
+    it('scores text on the Flesch scale', () => {
+        expect(fleschReadingEase([sentences(2)])).toBeCloseTo(206.835 - 1.015 * 6 - 84.6, 5);
+        expect(fleschReadingEase([''])).toBeNull();
+    });
+});
+
+describe('links', () => {
+    const linksOf = (body: string, siteUrl?: string) => checkOf('links', { body, siteUrl });
+
+    it('passes with both internal and external links', () => {
+        expect(linksOf('[a](/a) and [b](https://other.org/b)')).toMatchObject({ status: 'pass', values: { internal: 1, external: 1 } });
+    });
+
+    it('warns with only one kind of link', () => {
+        expect(linksOf('[a](/a) and [b](#b)')).toMatchObject({ status: 'warn', values: { internal: 2, external: 0 } });
+        expect(linksOf('[b](https://other.org/b)')).toMatchObject({ status: 'warn', values: { internal: 0, external: 1 } });
+    });
+
+    it('fails without links', () => {
+        expect(linksOf('No links here.').status).toBe('fail');
+    });
+
+    it("counts absolute links to the site as internal, with or without www", () => {
+        const body = '[a](https://example.com/a) and <a href="https://www.example.com/b">b</a> and [c](https://other.org/c)';
+        expect(linksOf(body, 'https://www.example.com').values).toEqual({ internal: 2, external: 1 });
+    });
+
+    it('counts absolute links as external when the site is unknown', () => {
+        expect(linksOf('[a](https://example.com/a) and [c](https://other.org/c)', undefined)).toMatchObject({ status: 'warn', values: { internal: 0, external: 2 } });
+    });
+
+    it('leaves images out', () => {
+        expect(findLinks('![alt](/image.png) [a](/a)')).toEqual(['/a']);
+    });
+});
+
+describe('toPlainText', () => {
+    it('keeps link text and drops markup and images', () => {
+        expect(toPlainText('**Bold** [link](/x) ![img](/i.png) <b>tag</b> `code`').replace(/\s+/g, ' ').trim()).toBe('Bold link tag code');
+    });
+});
@@ -0,0 +1,233 @@
+// services/seoChecker.ts
+// Scores an article's SEO from its markdown alone: keyword placement and density, meta description
+// length, headings, paragraph length, readability and links. Unlike the AI analysis the result is
+// the same for the same input, works offline and is cheap enough to rerun on every keystroke.
+// English and Arabic articles are both supported; the language is read from the body. Arabic
+// readability is reported for information only, without points.
+
+import { SeoCheck, SeoCheckId, SeoCheckStatus, SeoReport } from '../types';
+import { isArabicText, matchKey, tokenize } from './textNormalization';
+
+export interface SeoCheckInput {
+    title: string;
+    metaDescription: string;
+    // Markdown.
+    body: string;
+    // The focus keyword or phrase; keyword checks fail without one.
+    keyword?: string;
+    // Links to this site, or relative ones, count as internal.
+    siteUrl?: string;
+}
+
+const MAX_POINTS: Record<SeoCheckId, number> = {
+    keywordInTitle: 15,
+    keywordInIntro: 10,
+    keywordInHeadings: 10,
+    keywordDensity: 15,
+    metaDescriptionLength: 10,
+    headingHierarchy: 10,
+    paragraphLength: 10,
+    readability: 10,
+    links: 10,
+};
+
+// Keyword occurrences per 100 words.
+const DENSITY_RANGE = { min: 0.5, max: 2.5, tolerance: 1 };
+// The range the generation schema asks for, and how far outside it still only warns.
+const META_DESCRIPTION_RANGE = { min: 150, max: 160, tolerance: 30 };
+const MAX_PARAGRAPH_WORDS = 150;
+// On the Flesch scale: 60+ is plain prose, below 30 is academic.
+const READABILITY_TARGET = { pass: 60, warn: 30 };
+
+interface Block {
+    kind: 'heading' | 'paragraph' | 'other';
+    level: number;
+    text: string;
+}
+
+/** Splits markdown into headings, paragraphs and everything else (lists, quotes, code, tables). */
+const parseBlocks = (markdown: string): Block[] => {
+    const blocks: Block[] = [];
+    let paragraph: string[] = [];
+    let inCode = false;
+    const flush = () => {
+        if (paragraph.length > 0) blocks.push({ kind: 'paragraph', level: 0, text: paragraph.join(' ') });
+        paragraph = [];
+    };
+    markdown.split('\n').forEach(rawLine => {
+        const line = rawLine.trim();
+        if (line.startsWith('```')) {
+            flush();
+            inCode = !inCode;
+            return;
+        }
+        if (inCode) return;
+        const heading = line.match(/^(#{1,6})\s+(.*)$/);
+        if (heading) {
+            flush();
+            blocks.push({ kind: 'heading', level: heading[1].length, text: heading[2].replace(/#+$/, '').trim() });
+        } else if (!line) {
+            flush();
+        } else if (/^([-*+]\s|\d+[.)]\s|>|\|)/.test(line)) {
+            flush();
+            blocks.push({ kind: 'other', level: 0, text: line.replace(/^([-*+]|\d+[.)]|>)\s*/, '') });
+        } else {
+            paragraph.push(line);
+        }
+    });
+    flush();
+    return blocks;
+};
+
+/** Markdown without its syntax: links keep their text, images go. */
+export const toPlainText = (markdown: string): string => markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/[*_`~]/g, '');
+
+const toWords = (text: string): string[] => tokenize(toPlainText(text));
+
+const splitSentences = (texts: string[]): string[][] => texts
+    .flatMap(text => toPlainText(text).split(/[.!?\u061F]+(?=\s|$)/))
+    .map(toWords)
+    .filter(words => words.length > 0);
+
+const countPhrase = (words: string[], phrase: string[]): number => {
+    if (phrase.length === 0) return 0;
+    const keys = words.map(matchKey);
+    const phraseKeys = phrase.map(matchKey);
+    let count = 0;
+    for (let i = 0; i + phraseKeys.length <= keys.length; i++) {
+        if (phraseKeys.every((key, offset) => keys[i + offset] === key)) count++;
+    }
+    return count;
+};
+
+const countSyllables = (word: string): number => {
+    const letters = word.replace(/[^a-z]/g, '');
+    if (letters.length <= 3) return 1;
+    const trimmed = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+    return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length ?? 0);
+};
+
+/** Flesch reading ease of English text; null when there is nothing to read. */
+export const fleschReadingEase = (texts: string[]): number | null => {
+    const sentences = splitSentences(texts);
+    const words = sentences.flat();
+    if (words.length === 0) return null;
+    const syllables = words.reduce((total, word) => total + countSyllables(word), 0);
+    return 206.835 - 1.015 * (words.length / sentences.length) - 84.6 * (syllables / words.length);
+};
+
+/**
+ * Average sentence length in words and word length in letters, shown for Arabic text instead of a
+ * score: the published Arabic formulas (e.g. OSMAN) need syllables, which can't be counted without
+ * the short vowels that are usually left unwritten. Null when there is nothing to read.
+ */
+export const arabicTextStats = (texts: string[]): { wordsPerSentence: number; lettersPerWord: number } | null => {
+    const sentences = splitSentences(texts);
+    const words = sentences.flat();
+    if (words.length === 0) return null;
+    const letters = words.reduce((total, word) => total + (word.match(/\p{L}/gu)?.length ?? 0), 0);
+    return { wordsPerSentence: words.length / sentences.length, lettersPerWord: letters / words.length };
+};
+
+/** Link targets in markdown, including HTML anchors, as written. */
+export const findLinks = (markdown: string): string[] => [
+    ...[...markdown.matchAll(/(?<!!)\[[^\]]*\]\(\s*<?([^)\s>]+)/g)].map(match => match[1]),
+    ...[...markdown.matchAll(/<a\s[^>]*href=["']([^"']+)["']/gi)].map(match => match[1]),
+];
+
+const hostOf = (url: string): string | null => {
+    try {
+        return new URL(url).host.replace(/^www\./, '');
+    } catch {
+        return null;
+    }
+};
+
+const inRange = (value: number, range: { min: number; max: number; tolerance: number }): SeoCheckStatus => {
+    if (value >= range.min && value <= range.max) return 'pass';
+    return value >= range.min - range.tolerance && value <= range.max + range.tolerance ? 'warn' : 'fail';
+};
+
+// Informational checks are shown but not scored.
+const check = (id: SeoCheckId, status: SeoCheckStatus, values: SeoCheck['values'] = {}): SeoCheck => ({
+    id,
+    status,
+    points: status === 'pass' ? MAX_POINTS[id] : status === 'warn' ? MAX_POINTS[id] / 2 : 0,
+    maxPoints: status === 'info' ? 0 : MAX_POINTS[id],
+    values,
+});
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const checkArticleSeo = ({ title, metaDescription, body, keyword = '', siteUrl }: SeoCheckInput): SeoReport => {
+    const blocks = parseBlocks(body);
+    const headings = blocks.filter(block => block.kind === 'heading');
+    const h2s = headings.filter(heading => heading.level === 2);
+    const paragraphs = blocks.filter(block => block.kind === 'paragraph');
+    const bodyWords = toWords(blocks.map(block => block.text).join('\n'));
+    const keywordWords = toWords(keyword);
+    const hasKeyword = (text: string) => countPhrase(toWords(text), keywordWords) > 0;
+    const checks: SeoCheck[] = [];
+
+    if (keywordWords.length === 0) {
+        (['keywordInTitle', 'keywordInIntro', 'keywordInHeadings', 'keywordDensity'] as const).forEach(id => checks.push(check(id, 'fail')));
+    } else {
+        const keywordValue = { keyword: keyword.trim() };
+        checks.push(check('keywordInTitle', hasKeyword(title) ? 'pass' : 'fail', keywordValue));
+        checks.push(check('keywordInIntro', paragraphs.length > 0 && hasKeyword(paragraphs[0].text) ? 'pass' : 'fail', keywordValue));
+        const matchingHeadings = h2s.filter(heading => hasKeyword(heading.text)).length;
+        checks.push(check('keywordInHeadings', matchingHeadings > 0 ? 'pass' : 'fail', { ...keywordValue, matches: matchingHeadings, headings: h2s.length }));
+        const occurrences = countPhrase(bodyWords, keywordWords);
+        // Multiplied first so densities on the bounds (e.g. 7 in 200 words) come out exact.
+        const density = bodyWords.length > 0 ? (occurrences * 100) / bodyWords.length : 0;
+        checks.push(check('keywordDensity', occurrences === 0 ? 'fail' : inRange(density, DENSITY_RANGE), { ...keywordValue, density: round(density), occurrences }));
+    }
+
+    const metaLength = [...metaDescription.trim()].length;
+    checks.push(check('metaDescriptionLength', inRange(metaLength, META_DESCRIPTION_RANGE), { length: metaLength }));
+
+    // The title is the page's H1, so headings in the body start at H2 and go down one level at a time.
+    let previousLevel = 1;
+    let skipped = 0;
+    headings.forEach(heading => {
+        if (heading.level > previousLevel + 1) skipped++;
+        previousLevel = heading.level;
+    });
+    const h1s = headings.filter(heading => heading.level === 1).length;
+    checks.push(check('headingHierarchy', h2s.length === 0 || skipped > 0 ? 'fail' : h1s > 0 ? 'warn' : 'pass', { h2: h2s.length, skipped, h1: h1s }));
+
+    const longParagraphs = paragraphs.filter(paragraph => toWords(paragraph.text).length > MAX_PARAGRAPH_WORDS).length;
+    checks.push(check(
+        'paragraphLength',
+        paragraphs.length === 0 ? 'fail' : longParagraphs === 0 ? 'pass' : longParagraphs * 4 <= paragraphs.length ? 'warn' : 'fail',
+        { long: longParagraphs, paragraphs: paragraphs.length, max: MAX_PARAGRAPH_WORDS }
+    ));
+
+    const prose = blocks.filter(block => block.kind !== 'heading').map(block => block.text);
+    if (isArabicText(prose.join(' '))) {
+        const stats = arabicTextStats(prose);
+        if (stats) {
+            checks.push(check('readability', 'info', { wordsPerSentence: round(stats.wordsPerSentence), lettersPerWord: round(stats.lettersPerWord), metric: 'arabic' }));
+        }
+    } else {
+        const ease = fleschReadingEase(prose);
+        if (ease !== null) {
+            const status = ease >= READABILITY_TARGET.pass ? 'pass' : ease >= READABILITY_TARGET.warn ? 'warn' : 'fail';
+            checks.push(check('readability', status, { score: Math.round(ease), metric: 'flesch' }));
+        }
+    }
+
+    const siteHost = siteUrl ? hostOf(siteUrl) : null;
+    const links = findLinks(body);
+    const internal = links.filter(url => /^[/#?]/.test(url) || (siteHost !== null && hostOf(url) === siteHost)).length;
+    const external = links.length - internal;
+    checks.push(check('links', internal > 0 && external > 0 ? 'pass' : links.length > 0 ? 'warn' : 'fail', { internal, external }));
+
+    const points = checks.reduce((total, item) => total + item.points, 0);
+    const maxPoints = checks.reduce((total, item) => total + item.maxPoints, 0);
+    return { score: Math.round((points / maxPoints) * 100), checks };
+};
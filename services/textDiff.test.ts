@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { DiffPart, diffWords } from './textDiff';
+
+const words = (parts: DiffPart[], type: DiffPart['type']) =>
+    parts.filter(part => part.type === type).flatMap(part => part.text.split(/\s+/).filter(Boolean));
+const side = (parts: DiffPart[], skip: DiffPart['type']) => parts.filter(part => part.type !== skip).map(part => part.text).join('');
+
+describe('diffWords', () => {
+    it('marks only the changed words', () => {
+        expect(diffWords('the quick fox', 'the slow fox')).toEqual([
+            { type: 'same', text: 'the ' },
+            { type: 'removed', text: 'quick' },
+            { type: 'added', text: 'slow' },
+            { type: 'same', text: ' fox' },
+        ]);
+    });
+
+    it('keeps the longest sequence of words in common', () => {
+        const parts = diffWords('cold brew coffee tastes very smooth', 'brew coffee tastes smooth today');
+        expect(words(parts, 'same')).toEqual(['brew', 'coffee', 'tastes', 'smooth']);
+        expect(words(parts, 'removed')).toEqual(['cold', 'very']);
+        expect(words(parts, 'added')).toEqual(['today']);
+    });
+
+    it('merges neighbouring words of the same kind into one part', () => {
+        expect(diffWords('one two three', 'three')).toEqual([
+            { type: 'removed', text: 'one two ' },
+            { type: 'same', text: 'three' },
+        ]);
+        expect(diffWords('same', 'same')).toEqual([{ type: 'same', text: 'same' }]);
+    });
+
+    it('shows changes to whitespace alone', () => {
+        expect(diffWords('hello world', 'hello  world')).toEqual([
+            { type: 'same', text: 'hello' },
+            { type: 'removed', text: ' ' },
+            { type: 'added', text: '  ' },
+            { type: 'same', text: 'world' },
+        ]);
+        expect(diffWords('one two', 'one\ntwo').filter(part => part.type !== 'same')).toEqual([
+            { type: 'removed', text: ' ' },
+            { type: 'added', text: '\n' },
+        ]);
+    });
+
+    it('handles empty text on either side', () => {
+        expect(diffWords('', '')).toEqual([]);
+        expect(diffWords('', 'new text')).toEqual([{ type: 'added', text: 'new text' }]);
+        expect(diffWords('old text', '')).toEqual([{ type: 'removed', text: 'old text' }]);
+    });
+
+    it('gives back both texts exactly', () => {
+        const before = 'Cold brew is made by steeping  coffee grounds\nin cold water.';
+        const after = 'Cold brew is made by soaking coarse coffee grounds in water\nfor hours.';
+        const parts = diffWords(before, after);
+        expect(side(parts, 'added')).toBe(before);
+        expect(side(parts, 'removed')).toBe(after);
+    });
+
+    it('replaces the whole text when the texts are too long to compare word by word', () => {
+        // 2,002 tokens each, just over the 4,000,000 pairs the comparison table may hold.
+        const before = 'word '.repeat(1001);
+        const after = `${before}more`;
+        expect(diffWords(before, after)).toEqual([
+            { type: 'removed', text: before },
+            { type: 'added', text: after },
+        ]);
+    });
+});
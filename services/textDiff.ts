@@ -0,0 +1,60 @@
+// services/textDiff.ts
+// Word-level diff used to preview AI rewrites before they replace the user's text.
+
+export interface DiffPart {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+// Above this many token pairs the LCS table gets too big to build in the browser.
+const MAX_CELLS = 4_000_000;
+
+// Words and the whitespace between them are separate tokens, so spacing changes show up too.
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) || [];
+
+const pushPart = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+        last.text += text;
+    } else {
+        parts.push({ type, text });
+    }
+};
+
+/** Diffs `before` against `after` by longest common subsequence of words. */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+    const a = tokenize(before);
+    const b = tokenize(after);
+    if (a.length * b.length > MAX_CELLS) {
+        return [
+            ...(before ? [{ type: 'removed' as const, text: before }] : []),
+            ...(after ? [{ type: 'added' as const, text: after }] : []),
+        ];
+    }
+
+    // lengths[i][j] is the LCS length of a[i..] and b[j..].
+    const lengths: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            pushPart(parts, 'same', a[i]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            pushPart(parts, 'removed', a[i++]);
+        } else {
+            pushPart(parts, 'added', b[j++]);
+        }
+    }
+    while (i < a.length) pushPart(parts, 'removed', a[i++]);
+    while (j < b.length) pushPart(parts, 'added', b[j++]);
+    return parts;
+};
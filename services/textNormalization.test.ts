@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { isArabicText, matchKey, normalizeText, slugify, tokenize } from './textNormalization';
+import { significantTerms } from './duplicateTopics';
+
+describe('normalizeText', () => {
+    it('drops Arabic diacritics and tatweel', () => {
+        expect(normalizeText('مُحَمَّد')).toBe('محمد');
+        expect(normalizeText('جمـــيل')).toBe('جميل');
+    });
+
+    it('folds interchangeable Arabic spellings', () => {
+        expect(normalizeText('أحمد إسلام آمن')).toBe('احمد اسلام امن');
+        expect(normalizeText('مستشفى')).toBe('مستشفي');
+        expect(normalizeText('مدرسة')).toBe('مدرسه');
+    });
+
+    it('drops hamza carried on waw and ya', () => {
+        expect(normalizeText('مؤتمر')).toBe('موتمر');
+        expect(normalizeText('رئيس')).toBe('رييس');
+    });
+
+    it('turns Arabic-Indic digits into ASCII ones', () => {
+        expect(normalizeText('عام ٢٠٢٤')).toBe('عام 2024');
+    });
+
+    it('lowercases Latin text and drops its accents', () => {
+        expect(normalizeText('Café CRÈME')).toBe('cafe creme');
+    });
+});
+
+describe('tokenize', () => {
+    it('splits mixed text into normalized words, keeping apostrophes inside words', () => {
+        expect(tokenize("القهوةُ العربية — Don't miss ٣ cups!")).toEqual(['القهوه', 'العربيه', "don't", 'miss', '3', 'cups']);
+    });
+});
+
+describe('matchKey', () => {
+    it('removes the definite article with the conjunctions and prepositions written onto it', () => {
+        expect(['القهوة', 'والقهوة', 'بالقهوة', 'فالقهوة', 'وبالقهوة', 'للقهوة'].map(matchKey)).toEqual(Array(6).fill('قهوة'));
+    });
+
+    it('keeps words where "ال" is part of the word', () => {
+        // Too short to be an article on a word of its own.
+        expect(matchKey('الف')).toBe('الف');
+        expect(matchKey('قال')).toBe('قال');
+    });
+
+    it('leaves Latin words alone', () => {
+        expect(matchKey('alley')).toBe('alley');
+    });
+});
+
+describe('isArabicText', () => {
+    it('goes by the majority of letters', () => {
+        expect(isArabicText('مقالة عن SEO')).toBe(true);
+        expect(isArabicText('An article about القهوة')).toBe(false);
+        expect(isArabicText('2024 !')).toBe(false);
+    });
+});
+
+describe('slugify', () => {
+    it('keeps Arabic words as written, without diacritics or tatweel', () => {
+        expect(slugify('أفضلُ طرق تحضيـــر القهوة')).toBe('أفضل-طرق-تحضير-القهوة');
+    });
+
+    it('turns Arabic-Indic digits into ASCII ones and drops punctuation', () => {
+        expect(slugify('أفضل ١٠ نصائح: للمبتدئين!')).toBe('أفضل-10-نصائح-للمبتدئين');
+    });
+
+    it('lowercases Latin titles and drops accents', () => {
+        expect(slugify('Crème Brûlée, the Easy Way')).toBe('creme-brulee-the-easy-way');
+    });
+
+    it('drops whole words from the end to fit 200 percent-encoded characters', () => {
+        // Each Arabic letter is 6 encoded characters, so a four-letter word and its hyphen take 25.
+        const slug = slugify(Array(20).fill('قهوة').join(' '));
+        expect(slug).toBe(Array(8).fill('قهوة').join('-'));
+        expect(encodeURIComponent(slug).length).toBeLessThanOrEqual(200);
+    });
+
+    it('cuts a single word that is too long on its own', () => {
+        const slug = slugify('ق'.repeat(50));
+        expect(slug).toBe('ق'.repeat(33));
+    });
+});
+
+describe('significantTerms', () => {
+    it('drops stop words in both languages and the Arabic definite article', () => {
+        expect(significantTerms('The best guide to coffee')).toEqual(['coffee']);
+        expect(significantTerms('أفضل دليل في القهوة')).toEqual(['قهوه']);
+    });
+
+    it('strips a plural "s" from Latin words only', () => {
+        expect(significantTerms('recipes cakes bus')).toEqual(['recipe', 'cake', 'bus']);
+        expect(significantTerms('1990s')).toEqual(['1990s']);
+    });
+});
@@ -0,0 +1,70 @@
+// services/textNormalization.ts
+// Language-aware text helpers for the local analyzers and for slugs. Arabic needs its own rules:
+// diacritics and tatweel are optional in writing, several letters have interchangeable spellings
+// and the definite article is written as part of the word.
+
+// Harakat, Quranic annotation marks and tatweel (the elongation stroke).
+const ARABIC_DIACRITICS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/g;
+const ARABIC_INDIC_DIGITS = /[\u0660-\u0669]/g;
+
+// Spellings that are used interchangeably: hamzated alefs, alef maqsura for ya, ta marbuta for ha.
+const ARABIC_LETTER_VARIANTS: [RegExp, string][] = [
+    [/[أإآٱ]/g, 'ا'],
+    [/ى/g, 'ي'],
+    [/ة/g, 'ه'],
+];
+
+// "ال" with an optional conjunction (و, ف) and preposition (ب, ك, ل) in front, or "لل".
+const ARABIC_DEFINITE_ARTICLE = /^(?:[وف]?[بكل]?ال|لل)(?=\p{L}{2})/u;
+
+// WordPress percent-encodes non-ASCII slugs and cuts the result at 200 characters.
+const MAX_ENCODED_SLUG_LENGTH = 200;
+
+const toAsciiDigits = (text: string) => text.replace(ARABIC_INDIC_DIGITS, digit => String(digit.charCodeAt(0) - 0x0660));
+
+/** Lowercases and folds away the differences that don't change a word's meaning in either script. */
+export const normalizeText = (text: string): string => {
+    let normalized = text.toLowerCase().replace(ARABIC_DIACRITICS, '');
+    ARABIC_LETTER_VARIANTS.forEach(([variants, letter]) => { normalized = normalized.replace(variants, letter); });
+    // Decomposing drops Latin accents and any hamza left on waw or ya.
+    return toAsciiDigits(normalized.normalize('NFKD').replace(/\p{M}/gu, ''));
+};
+
+/** The normalized words of `text`, in order. */
+export const tokenize = (text: string): string[] => normalizeText(text).match(/[\p{L}\p{N}]+(?:'\p{L}+)?/gu) ?? [];
+
+/** A normalized word without the Arabic definite article, so "القهوة" matches "قهوة". */
+export const matchKey = (word: string): string => word.replace(ARABIC_DEFINITE_ARTICLE, '');
+
+/** True when most of the letters in `text` are Arabic. */
+export const isArabicText = (text: string): boolean => {
+    const letters = text.match(/\p{L}/gu)?.length ?? 0;
+    const arabicLetters = text.match(/\p{Script=Arabic}/gu)?.length ?? 0;
+    return letters > 0 && arabicLetters * 2 > letters;
+};
+
+/**
+ * A URL slug that keeps letters of any script. Arabic words keep their spelling (only diacritics
+ * and tatweel go) and whole words are dropped from the end to fit WordPress's length limit.
+ */
+export const slugify = (title: string): string => {
+    const words = toAsciiDigits(title.toLowerCase().replace(ARABIC_DIACRITICS, ''))
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .normalize('NFC')
+        .match(/[\p{L}\p{N}]+/gu) ?? [];
+    let slug = '';
+    for (const word of words) {
+        const next = slug ? `${slug}-${word}` : word;
+        if (encodeURIComponent(next).length > MAX_ENCODED_SLUG_LENGTH) break;
+        slug = next;
+    }
+    // A single word too long to fit is cut instead.
+    if (!slug && words.length > 0) {
+        for (const char of words[0]) {
+            if (encodeURIComponent(slug + char).length > MAX_ENCODED_SLUG_LENGTH) break;
+            slug += char;
+        }
+    }
+    return slug;
+};
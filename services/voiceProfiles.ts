@@ -0,0 +1,76 @@
+// services/voiceProfiles.ts
+// Resolves the brand voice for a site and turns it into the `brandVoice` prompt variable. Profiles
+// and the sites' choice of profile are cached briefly, like the prompt template overrides.
+
+import { VoiceProfile, WordPressSite } from '../types';
+import { fetchSites, fetchVoiceProfiles } from './backendService';
+
+/** Where the single brand voice used to be kept, before profiles. Only read to import it. */
+export const LEGACY_BRAND_VOICE_STORAGE_KEY = 'brand_voice';
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+interface VoiceAssignments {
+    profiles: VoiceProfile[];
+    sites: WordPressSite[];
+}
+
+let cache: { loadedAt: number; assignments: Promise<VoiceAssignments> } | null = null;
+
+const getAssignments = (): Promise<VoiceAssignments> => {
+    if (!cache || Date.now() - cache.loadedAt > CACHE_TTL_MS) {
+        cache = {
+            loadedAt: Date.now(),
+            assignments: Promise.all([fetchVoiceProfiles(), fetchSites()])
+                .then(([profiles, sites]) => ({ profiles, sites }))
+                .catch(error => {
+                    console.error("Failed to load voice profiles, generating without a brand voice", error);
+                    cache = null;
+                    return { profiles: [], sites: [] };
+                }),
+        };
+    }
+    return cache.assignments;
+};
+
+/** Call after profiles or a site's profile change, or when the signed-in team does. */
+export const clearVoiceProfileCache = () => {
+    cache = null;
+};
+
+export const createEmptyVoiceProfile = (name = ''): VoiceProfile => ({
+    id: `voice_${new Date().getTime()}`,
+    name,
+    description: '',
+    dos: [],
+    donts: [],
+    examples: [],
+    bannedWords: [],
+});
+
+/** The profile as prompt text; empty when it has nothing to say. */
+export const formatVoiceProfile = (profile: VoiceProfile): string => {
+    const list = (items: string[]) => items.map(item => `  - ${item}`).join('\n');
+    return [
+        profile.description.trim() && `Voice: ${profile.description.trim()}`,
+        profile.dos.length > 0 && `Do:\n${list(profile.dos)}`,
+        profile.donts.length > 0 && `Don't:\n${list(profile.donts)}`,
+        profile.bannedWords.length > 0 && `Never use these words or phrases: ${profile.bannedWords.map(word => `"${word}"`).join(', ')}`,
+        profile.examples.length > 0 && `Example passages written in this voice (match their style, not their content):\n${profile.examples.map(example => `"""\n${example.trim()}\n"""`).join('\n')}`,
+    ].filter(Boolean).join('\n');
+};
+
+/** The voice profile of a site, if it has one. */
+export const getSiteVoiceProfile = async (siteId?: string): Promise<VoiceProfile | undefined> => {
+    if (!siteId) return undefined;
+    const { profiles, sites } = await getAssignments();
+    const profileId = sites.find(site => site.id === siteId)?.voiceProfileId;
+    return profiles.find(profile => profile.id === profileId);
+};
+
+/** The `brandVoice` prompt variable for content written for `siteId`. */
+export const getBrandVoice = async (siteId?: string): Promise<string> => {
+    const profile = await getSiteVoiceProfile(siteId);
+    return profile ? formatVoiceProfile(profile) : '';
+};
+
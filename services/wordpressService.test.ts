@@ -0,0 +1,395 @@
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ArticleContent, ContentType, ProductContent, PublishingOptions, WordPressSite } from '../types';
+import {
+    WordPressApiError, getPostBodies, getPublishState, getProductCategories, getPublishedPostSummaries, getSitePosts, getSiteStats,
+    publishContent, setWordPressFetch,
+} from './wordpressService';
+
+// --- A mock WordPress, reached through a stand-in for the backend's site proxy (server/routes/sites.ts) ---
+
+interface RecordedRequest {
+    method: string;
+    path: string;
+    query: URLSearchParams;
+    headers: IncomingMessage['headers'];
+    body: Buffer;
+}
+
+interface MockReply {
+    status?: number;
+    json?: unknown;
+    // Sent as-is instead of `json`.
+    text?: string;
+    headers?: Record<string, string>;
+}
+
+type Route = (request: RecordedRequest) => MockReply | undefined;
+
+let server: Server;
+let wordpressOrigin = '';
+let requests: RecordedRequest[] = [];
+let routes: Route[] = [];
+// Set to make the proxy answer for itself, e.g. when the site can't be reached.
+let proxyFailure: { status: number; error: string } | null = null;
+
+const readBody = (req: IncomingMessage): Promise<Buffer> => new Promise(resolve => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+});
+
+const posts = (count: number) => Array.from({ length: count }, (_, index) => ({
+    id: index + 1,
+    title: { rendered: `Post ${index + 1} &#8211; Tips &amp; Tricks` },
+    link: `https://blog.test/post-${index + 1}/`,
+}));
+
+/** A collection endpoint that pages `items` the way WordPress does. */
+const collection = (items: unknown[], totalPagesHeader?: string): Route => request => {
+    const perPage = Number(request.query.get('per_page')) || 10;
+    const page = Number(request.query.get('page')) || 1;
+    return {
+        json: items.slice((page - 1) * perPage, page * perPage),
+        headers: {
+            'X-WP-Total': String(items.length),
+            'X-WP-TotalPages': totalPagesHeader ?? String(Math.max(1, Math.ceil(items.length / perPage))),
+        },
+    };
+};
+
+const on = (method: string, path: string | RegExp, reply: MockReply | Route) => {
+    routes.push(request => {
+        const matches = typeof path === 'string' ? request.path === path : path.test(request.path);
+        if (request.method !== method || !matches) return undefined;
+        return typeof reply === 'function' ? reply(request) : reply;
+    });
+};
+
+const proxy = async (input: string, init: RequestInit = {}): Promise<Response> => {
+    if (proxyFailure) {
+        return Response.json({ error: proxyFailure.error }, { status: proxyFailure.status });
+    }
+    const rest = input.match(/^\/sites\/[^/]+\/wp-json(.*)$/)?.[1];
+    if (rest === undefined) throw new Error(`Not a proxy path: ${input}`);
+    const upstream = await fetch(`${wordpressOrigin}/wp-json${rest}`, init);
+    const headers = new Headers({ 'X-Upstream-Status': String(upstream.status) });
+    ['content-type', 'x-wp-total', 'x-wp-totalpages'].forEach(name => {
+        const value = upstream.headers.get(name);
+        if (value) headers.set(name, value);
+    });
+    return new Response(await upstream.arrayBuffer(), { status: upstream.status, headers });
+};
+
+beforeAll(async () => {
+    server = createServer(async (req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const request: RecordedRequest = {
+            method: req.method || 'GET',
+            path: url.pathname.replace(/^\/wp-json/, ''),
+            query: url.searchParams,
+            headers: req.headers,
+            body: await readBody(req),
+        };
+        requests.push(request);
+        const reply = routes.reduce<MockReply | undefined>((found, route) => found ?? route(request), undefined)
+            ?? { status: 404, json: { code: 'rest_no_route', message: 'No route was found matching the URL and request method.' } };
+        const body = reply.text ?? JSON.stringify(reply.json);
+        res.writeHead(reply.status ?? 200, { 'Content-Type': reply.text ? 'text/html' : 'application/json', ...reply.headers });
+        res.end(body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    wordpressOrigin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+    requests = [];
+    routes = [];
+    proxyFailure = null;
+    setWordPressFetch(proxy);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    setWordPressFetch(null);
+    vi.restoreAllMocks();
+});
+
+const site: WordPressSite = {
+    id: 'https://blog.test',
+    name: 'Blog',
+    url: 'https://blog.test',
+    username: 'editor',
+    hasAppPassword: true,
+    stats: { posts: 0, pages: 0, products: 0 },
+};
+
+const article: ArticleContent = {
+    id: 'a1',
+    type: ContentType.Article,
+    title: 'Ten Composting Tips',
+    metaDescription: 'How to compost at home.',
+    body: '## Start small\n\nUse a **bin**.',
+    status: 'approved',
+    createdAt: new Date('2024-05-01'),
+};
+
+const publishOptions = (overrides: Partial<PublishingOptions> = {}): PublishingOptions => ({
+    siteId: site.id,
+    status: 'publish',
+    action: 'create',
+    categories: [],
+    ...overrides,
+});
+
+const jsonBody = (request: RecordedRequest) => JSON.parse(request.body.toString('utf8'));
+
+describe('pagination', () => {
+    it('follows X-WP-TotalPages until every page is read', async () => {
+        on('GET', '/wp/v2/posts', collection(posts(250)));
+
+        const result = await getSitePosts(site, 'post');
+        expect(result).toHaveLength(250);
+        expect(requests.map(request => request.query.get('page'))).toEqual(['1', '2', '3']);
+        expect(requests.every(request => request.query.get('per_page') === '100')).toBe(true);
+        expect(requests[0].query.get('status')).toBe('publish,future,draft,pending,private');
+        expect(result[0]).toEqual({ id: 1, title: 'Post 1 – Tips & Tricks', link: 'https://blog.test/post-1/', type: 'post' });
+    });
+
+    it('reads a single page when the header is missing', async () => {
+        on('GET', '/wp/v2/posts', { json: posts(3) });
+
+        expect(await getSitePosts(site, 'post')).toHaveLength(3);
+        expect(requests).toHaveLength(1);
+    });
+
+    it('stops after MAX_PAGES pages when the header never ends', async () => {
+        on('GET', '/wc/v3/products/categories', () => ({
+            json: [{ id: requests.length, name: 'Shoes', count: 1 }],
+            headers: { 'X-WP-TotalPages': '100000' },
+        }));
+
+        const categories = await getProductCategories(site);
+        expect(requests).toHaveLength(50);
+        expect(categories).toHaveLength(50);
+    });
+
+    it('counts items from X-WP-Total, and treats a missing WooCommerce as none', async () => {
+        on('GET', '/wp/v2/posts', collection(posts(250)));
+        on('GET', '/wp/v2/pages', collection(posts(4)));
+
+        expect(await getSiteStats(site)).toEqual({ posts: 250, pages: 4, products: 0 });
+        expect(requests.find(request => request.path === '/wp/v2/posts')?.query.get('per_page')).toBe('1');
+    });
+});
+
+describe('posts for the overlap check', () => {
+    it('reads published posts with their excerpts, not their bodies', async () => {
+        on('GET', '/wp/v2/posts', collection([{ ...posts(1)[0], excerpt: { rendered: '<p>Start with a bin &hellip;</p>\n' } }]));
+
+        expect(await getPublishedPostSummaries(site)).toEqual([
+            { id: 1, title: 'Post 1 – Tips & Tricks', link: 'https://blog.test/post-1/', type: 'post', excerpt: 'Start with a bin …' },
+        ]);
+        expect(requests[0].query.get('status')).toBe('publish');
+        expect(requests[0].query.get('_fields')).toBe('id,title,excerpt,link');
+    });
+
+    it('reads the bodies of the given posts only', async () => {
+        on('GET', '/wp/v2/posts', collection([{ ...posts(1)[0], content: { rendered: '<h2>Bins</h2><p>Use a <b>bin</b>.</p>' } }]));
+
+        const [body] = await getPostBodies(site, [1, 7]);
+        expect(body).toMatchObject({ id: 1, html: '<h2>Bins</h2><p>Use a <b>bin</b>.</p>', text: 'Bins\nUse a bin.' });
+        expect(requests[0].query.get('include')).toBe('1,7');
+        expect(requests[0].query.get('_fields')).toBe('id,title,link,content');
+    });
+
+    it('sends no request without posts to read', async () => {
+        expect(await getPostBodies(site, [])).toEqual([]);
+        expect(requests).toHaveLength(0);
+    });
+});
+
+describe('errors from WordPress', () => {
+    const failWith = async (reply: MockReply): Promise<WordPressApiError> => {
+        on('GET', '/wp/v2/posts', reply);
+        return getSitePosts(site, 'post').then(
+            () => { throw new Error('Expected the request to fail'); },
+            error => error,
+        );
+    };
+
+    it('maps 401 to unauthorized, with the code and the message stripped of markup', async () => {
+        const error = await failWith({ status: 401, json: { code: 'rest_not_logged_in', message: 'You are <b>not</b> logged in &amp; can&#8217;t do that.' } });
+        expect(error).toBeInstanceOf(WordPressApiError);
+        expect(error.kind).toBe('unauthorized');
+        expect(error.status).toBe(401);
+        expect(error.code).toBe('rest_not_logged_in');
+        expect(error.message).toBe('Authentication failed (401). Check the username and application password: You are not logged in & can’t do that.');
+    });
+
+    it.each([
+        [403, 'forbidden'],
+        [404, 'not_found'],
+        [500, 'server'],
+        [503, 'server'],
+        [409, 'unknown'],
+    ])('maps %i to %s', async (status, kind) => {
+        const error = await failWith({ status, json: { code: 'some_code', message: 'Nope' } });
+        expect(error.kind).toBe(kind);
+        expect(error.status).toBe(status);
+        expect(error.message).toMatch(/: Nope$/);
+    });
+
+    it('keeps the status when the error page is not JSON', async () => {
+        const error = await failWith({ status: 500, text: '<html>Fatal error</html>' });
+        expect(error.kind).toBe('server');
+        expect(error.code).toBeUndefined();
+        expect(error.message).toBe('The server returned an error (500)');
+    });
+
+    it('reports a success response that is not JSON', async () => {
+        const error = await failWith({ text: '<html>Maintenance</html>' });
+        expect(error.kind).toBe('unknown');
+        expect(error.message).toContain('not valid JSON');
+    });
+});
+
+describe('errors from the proxy', () => {
+    it.each([
+        [502, 'network'],
+        [504, 'network'],
+        [401, 'unauthorized'],
+        [404, 'not_found'],
+        [400, 'unknown'],
+    ])('maps %i to %s, with the proxy message', async (status, kind) => {
+        proxyFailure = { status, error: 'Proxy says no.' };
+
+        const error = await getSitePosts(site, 'post').catch(caught => caught);
+        expect(error).toBeInstanceOf(WordPressApiError);
+        expect(error.kind).toBe(kind);
+        expect(error.status).toBe(status);
+        expect(error.message).toBe('Proxy says no.');
+        expect(requests).toHaveLength(0);
+    });
+
+    it('maps a failed fetch to a network error', async () => {
+        setWordPressFetch(() => Promise.reject(new TypeError('fetch failed')));
+
+        const error = await getSitePosts(site, 'post').catch(caught => caught);
+        expect(error.kind).toBe('network');
+        expect(error.message).toContain('Could not reach https://blog.test');
+    });
+});
+
+describe('publishing', () => {
+    it('creates a post with converted content, slug and excerpt', async () => {
+        on('POST', '/wp/v2/posts', { status: 201, json: { id: 7, link: 'https://blog.test/ten-composting-tips/', title: { rendered: '' } } });
+
+        const result = await publishContent(site, article, publishOptions({ status: 'future', date: '2030-01-02T09:30:00.000Z' }));
+        expect(result).toEqual({ postUrl: 'https://blog.test/ten-composting-tips/', postId: 7, featuredMediaId: undefined });
+
+        const payload = jsonBody(requests[0]);
+        expect(payload).toMatchObject({
+            title: 'Ten Composting Tips',
+            slug: 'ten-composting-tips',
+            status: 'future',
+            date_gmt: '2030-01-02T09:30:00',
+            excerpt: 'How to compost at home.',
+            featured_media: 0,
+        });
+        expect(payload.content).toContain('<!-- wp:heading -->');
+        expect(payload.content).toContain('<strong>bin</strong>');
+        // No explicit categories, so an updated post keeps its own.
+        expect(payload).not.toHaveProperty('categories');
+    });
+
+    it('updates an existing post in place', async () => {
+        on('POST', '/wp/v2/posts/42', { json: { id: 42, link: 'https://blog.test/?p=42', title: { rendered: '' } } });
+
+        const result = await publishContent({ ...site, contentFormat: 'classic' }, article, publishOptions({ action: 'update', postId: 42, categories: [3, 5] }));
+        expect(result.postId).toBe(42);
+        expect(requests.map(request => `${request.method} ${request.path}`)).toEqual(['POST /wp/v2/posts/42']);
+
+        const payload = jsonBody(requests[0]);
+        expect(payload.categories).toEqual([3, 5]);
+        expect(payload.content).toBe('<h2>Start small</h2>\n<p>Use a <strong>bin</strong>.</p>');
+    });
+
+    it('uploads the featured image first and attaches it', async () => {
+        on('POST', '/wp/v2/media', { status: 201, json: { id: 91 } });
+        on('POST', '/wp/v2/media/91', { json: { id: 91 } });
+        on('POST', '/wp/v2/posts', { status: 201, json: { id: 8, link: 'https://blog.test/p8/', title: { rendered: '' } } });
+
+        const withImage: ArticleContent = { ...article, featuredImage: { base64: btoa('jpeg-bytes'), mimeType: 'image/jpeg', altText: 'A bin', caption: 'Compost' } };
+        const result = await publishContent(site, withImage, publishOptions());
+        expect(result.featuredMediaId).toBe(91);
+
+        const [upload, meta, post] = requests;
+        expect(upload.headers['content-type']).toBe('image/jpeg');
+        expect(upload.headers['content-disposition']).toBe('attachment; filename="ten-composting-tips.jpg"');
+        expect(upload.body.toString()).toBe('jpeg-bytes');
+        expect(jsonBody(meta)).toEqual({ alt_text: 'A bin', caption: 'Compost' });
+        expect(jsonBody(post).featured_media).toBe(91);
+    });
+
+    it('reuses an image already uploaded to the same site', async () => {
+        on('POST', '/wp/v2/media/12', { json: { id: 12 } });
+        on('POST', '/wp/v2/posts', { status: 201, json: { id: 9, link: 'https://blog.test/p9/', title: { rendered: '' } } });
+
+        const uploaded: ArticleContent = {
+            ...article,
+            featuredImage: { base64: '', mimeType: 'image/jpeg', altText: '', caption: '', upload: { siteId: site.id, mediaId: 12 } },
+        };
+        await publishContent(site, uploaded, publishOptions());
+        expect(requests.map(request => `${request.method} ${request.path}`)).toEqual(['POST /wp/v2/media/12', 'POST /wp/v2/posts']);
+    });
+
+    it('creates and updates WooCommerce products', async () => {
+        const product: ProductContent = {
+            id: 'p1',
+            type: ContentType.Product,
+            title: 'Garden Bin',
+            metaDescription: '',
+            shortDescription: 'A *sturdy* bin.',
+            longDescription: 'Holds 200 litres.',
+            status: 'approved',
+            createdAt: new Date('2024-05-01'),
+        };
+        on('POST', '/wc/v3/products', { status: 201, json: { id: 5, name: 'Garden Bin', permalink: 'https://blog.test/product/garden-bin/' } });
+        on('PUT', '/wc/v3/products/5', { json: { id: 5, name: 'Garden Bin', permalink: 'https://blog.test/product/garden-bin/' } });
+        const details = { regularPrice: '49.00', manageStock: true, stockQuantity: 3, stockStatus: 'instock' as const };
+
+        const created = await publishContent(site, product, publishOptions({ categories: [4], product: details }));
+        const updated = await publishContent(site, product, publishOptions({ action: 'update', postId: 5, product: details }));
+        expect(created).toEqual({ postUrl: 'https://blog.test/product/garden-bin/', postId: 5, featuredMediaId: undefined });
+        expect(updated.postId).toBe(5);
+        expect(jsonBody(requests[0])).toMatchObject({
+            name: 'Garden Bin',
+            slug: 'garden-bin',
+            short_description: '<p>A <em>sturdy</em> bin.</p>',
+            categories: [{ id: 4 }],
+            regular_price: '49.00',
+            manage_stock: true,
+            stock_quantity: 3,
+        });
+        expect(requests[1].method).toBe('PUT');
+    });
+
+    it('relays publish errors from WordPress', async () => {
+        on('POST', '/wp/v2/posts', { status: 403, json: { code: 'rest_cannot_create', message: 'Sorry, you are not allowed to create posts as this user.' } });
+
+        const error = await publishContent(site, article, publishOptions()).catch(caught => caught);
+        expect(error.kind).toBe('forbidden');
+        expect(error.code).toBe('rest_cannot_create');
+    });
+
+    it('reads the live status of a published post', async () => {
+        on('GET', '/wp/v2/posts/7', { json: { status: 'future', link: 'https://blog.test/?p=7' } });
+
+        expect(await getPublishState(site, article, 7)).toEqual({ status: 'future', link: 'https://blog.test/?p=7' });
+        expect(requests[0].query.get('_fields')).toBe('status,link');
+    });
+});
@@ -1,14 +1,238 @@
 // services/wordpressService.ts
 
-import { WordPressSite, GeneratedContent, PublishingOptions, SiteContext, ContentType, WordPressCategory, WordPressPost } from '../types';
+import { WordPressSite, GeneratedContent, ProductContent, FeaturedImage, PublishingOptions, SiteContext, ContentType, WordPressCategory, WordPressPost, WordPressPostBody, WordPressPostSummary, WordPressPostStatus, WordPressTag, SiteStats, PublishState } from '../types';
+import { convertMarkdown, markdownToHtml } from './markdownConverter';
+import { apiFetch, verifySiteCredentials } from './backendService';
+import { slugify } from './textNormalization';
 
-// Mock function to simulate network delay
-const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
+const PER_PAGE = 100;
+const WC_PRODUCTS = '/wc/v3/products';
+// Safety net so a misbehaving X-WP-TotalPages header can't loop us forever.
+const MAX_PAGES = 50;
 
+export type WordPressErrorKind = 'unauthorized' | 'forbidden' | 'not_found' | 'server' | 'network' | 'unknown';
 
+/**
+ * Raised for any failed call to the WordPress REST API.
+ * `kind` lets callers branch on the failure without parsing the message.
+ */
+export class WordPressApiError extends Error {
+    readonly kind: WordPressErrorKind;
+    readonly status?: number;
+    readonly code?: string;
+
+    constructor(kind: WordPressErrorKind, message: string, status?: number, code?: string) {
+        super(message);
+        this.name = 'WordPressApiError';
+        this.kind = kind;
+        this.status = status;
+        this.code = code;
+    }
+}
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+// Requests go through the backend's site proxy, which adds the stored application password.
+const defaultFetch: FetchLike = (input, init) => apiFetch(input, init);
+let fetchImpl: FetchLike = defaultFetch;
+
+/**
+ * Replaces the fetch implementation used for every WordPress request. It receives proxy
+ * paths such as `/sites/<id>/wp-json/wp/v2/posts`. Pass `null` to restore the default.
+ */
+export const setWordPressFetch = (impl: FetchLike | null) => {
+    fetchImpl = impl ?? defaultFetch;
+};
+
+type QueryValue = string | number | boolean | undefined;
+
+interface WpRequestOptions {
+    method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+    query?: Record<string, QueryValue>;
+    body?: unknown;
+    // Binary payload for /wp/v2/media; sent as-is instead of JSON.
+    file?: { data: Uint8Array; mimeType: string; filename: string };
+}
+
+interface WpResponse<T> {
+    data: T;
+    headers: Headers;
+}
+
+// Raw shapes returned by /wp/v2, trimmed to the fields we request via `_fields`.
+interface WpRenderedPost {
+    id: number;
+    link: string;
+    title: { rendered: string };
+    content?: { rendered: string };
+    excerpt?: { rendered: string };
+}
+
+interface WpTerm {
+    id: number;
+    name: string;
+    count: number;
+}
+
+// Raw shape returned by /wc/v3/products.
+interface WcProduct {
+    id: number;
+    name: string;
+    permalink: string;
+}
+
+export interface PublishResult {
+    postUrl: string;
+    postId: number;
+    // Attachment id of the uploaded featured image, if the content had one.
+    featuredMediaId?: number;
+}
+
+const decodeBase64 = (value: string): Uint8Array => {
+    const binary = atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+const NAMED_ENTITIES: { [key: string]: string } = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', hellip: '…', ndash: '–', mdash: '—',
+};
+
+/** WordPress returns `rendered` titles with HTML entities (e.g. `&#8217;`); turn them back into text. */
+const decodeEntities = (text: string): string =>
+    text
+        .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+        .replace(/&([a-z]+);/gi, (match, name) => NAMED_ENTITIES[name.toLowerCase()] ?? match);
+
+const stripTags = (html: string): string => html.replace(/<[^>]*>/g, '').trim();
+
+// WordPress wants GMT dates without a zone designator, e.g. 2024-05-01T09:00:00.
+const toWpGmtDate = (isoDate: string): string => new Date(isoDate).toISOString().slice(0, 19);
+
+const buildUrl = (site: WordPressSite, path: string, query?: Record<string, QueryValue>): string => {
+    const params = new URLSearchParams();
+    if (query) {
+        Object.entries(query).forEach(([key, value]) => {
+            if (value !== undefined) {
+                params.set(key, String(value));
+            }
+        });
+    }
+    const search = params.toString();
+    return `/sites/${encodeURIComponent(site.id)}/wp-json${path}${search ? `?${search}` : ''}`;
+};
+
+const toApiError = async (response: Response): Promise<WordPressApiError> => {
+    let code: string | undefined;
+    let detail = '';
+    try {
+        const body = await response.json();
+        code = typeof body?.code === 'string' ? body.code : undefined;
+        detail = typeof body?.message === 'string' ? stripTags(decodeEntities(body.message)) : '';
+    } catch {
+        // Non-JSON error page (proxy, PHP fatal, etc.) - the status code is all we have.
+    }
+    const suffix = detail ? `: ${detail}` : '';
+    const { status } = response;
+
+    if (status === 401) {
+        return new WordPressApiError('unauthorized', `Authentication failed (401). Check the username and application password${suffix}`, status, code);
+    }
+    if (status === 403) {
+        return new WordPressApiError('forbidden', `This user is not allowed to perform this action (403)${suffix}`, status, code);
+    }
+    if (status === 404) {
+        return new WordPressApiError('not_found', `The requested resource was not found (404)${suffix}`, status, code);
+    }
+    if (status >= 500) {
+        return new WordPressApiError('server', `The server returned an error (${status})${suffix}`, status, code);
+    }
+    return new WordPressApiError('unknown', `Unexpected response from WordPress (${status})${suffix}`, status, code);
+};
+
+// The proxy itself failed (site unreachable, session expired, site deleted) - not a WordPress response.
+const toProxyError = async (response: Response, site: WordPressSite): Promise<WordPressApiError> => {
+    const body = await response.json().catch(() => ({}));
+    const message = typeof body?.error === 'string' ? body.error : `Could not reach ${site.url} (${response.status}).`;
+    const kind: WordPressErrorKind = response.status === 401 ? 'unauthorized'
+        : response.status === 404 ? 'not_found'
+        : response.status === 502 || response.status === 504 ? 'network'
+        : 'unknown';
+    return new WordPressApiError(kind, message, response.status);
+};
+
+const wpRequest = async <T>(site: WordPressSite, path: string, options: WpRequestOptions = {}): Promise<WpResponse<T>> => {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    let body: BodyInit | undefined;
+    if (options.file) {
+        headers['Content-Type'] = options.file.mimeType;
+        headers['Content-Disposition'] = `attachment; filename="${options.file.filename}"`;
+        body = new Blob([options.file.data], { type: options.file.mimeType });
+    } else if (options.body !== undefined) {
+        headers['Content-Type'] = 'application/json';
+        body = JSON.stringify(options.body);
+    }
+
+    let response: Response;
+    try {
+        response = await fetchImpl(buildUrl(site, path, options.query), {
+            method: options.method || 'GET',
+            headers,
+            body,
+        });
+    } catch (error) {
+        console.error(`Network error calling ${path} on ${site.url}:`, error);
+        throw new WordPressApiError('network', `Could not reach ${site.url}. Check the URL and that the REST API is accessible.`);
+    }
+
+    if (!response.ok) {
+        throw response.headers.has('X-Upstream-Status') ? await toApiError(response) : await toProxyError(response, site);
+    }
+
+    try {
+        return { data: (await response.json()) as T, headers: response.headers };
+    } catch {
+        throw new WordPressApiError('unknown', `WordPress returned a response that is not valid JSON (${path}).`, response.status);
+    }
+};
+
+/** Follows `X-WP-TotalPages` until every page of a collection endpoint has been read. */
+const fetchAllPages = async <T>(site: WordPressSite, path: string, query: Record<string, QueryValue> = {}): Promise<T[]> => {
+    const items: T[] = [];
+    let page = 1;
+    let totalPages = 1;
+    do {
+        const { data, headers } = await wpRequest<T[]>(site, path, { query: { ...query, per_page: PER_PAGE, page } });
+        items.push(...data);
+        totalPages = Number(headers.get('X-WP-TotalPages')) || 1;
+        page++;
+    } while (page <= totalPages && page <= MAX_PAGES);
+    return items;
+};
+
+/** Reads the collection size from `X-WP-Total` without downloading the items. */
+const countItems = async (site: WordPressSite, path: string): Promise<number> => {
+    try {
+        const { headers } = await wpRequest<unknown[]>(site, path, { query: { per_page: 1, _fields: 'id' } });
+        return Number(headers.get('X-WP-Total')) || 0;
+    } catch (error) {
+        // Sites without WooCommerce have no wc/v3 routes.
+        if (error instanceof WordPressApiError && error.kind === 'not_found') {
+            return 0;
+        }
+        throw error;
+    }
+};
+
+/**
+ * Checks the credentials (through the backend) and returns the site to save. The password is
+ * not part of the result; pass it to `createSite` once, after which it stays on the server.
+ */
 export const addSite = async (url: string, username: string, appPassword: string): Promise<WordPressSite> => {
-    await delay(1000);
-    
     // Basic URL validation and cleaning
     let cleanedUrl: string;
     try {
@@ -17,127 +241,272 @@ export const addSite = async (url: string, username: string, appPassword: string
     } catch (err) {
         throw new Error("Invalid URL format provided.");
     }
-    
+
     if (!username || !appPassword) {
         throw new Error("Username and Application Password are required.");
     }
 
-    // Simulate an API check - for demo, we'll just succeed
-    if (url.includes("fail")) {
-        throw new Error("Could not connect to the WordPress site. Please check credentials.");
-    }
+    const index = await verifySiteCredentials(cleanedUrl, username, appPassword);
 
-    // Simulate fetching site name
-    const siteName = new URL(cleanedUrl).hostname.replace('www.', '').split('.')[0];
-    const capitalizedSiteName = siteName.charAt(0).toUpperCase() + siteName.slice(1);
+    const fallbackName = new URL(cleanedUrl).hostname.replace('www.', '').split('.')[0];
+    const name = index.name ? decodeEntities(index.name) : `${fallbackName.charAt(0).toUpperCase()}${fallbackName.slice(1)} Site`;
 
-    const newSite: WordPressSite = {
+    return {
         id: cleanedUrl,
         url: cleanedUrl,
-        name: `${capitalizedSiteName} Site`,
+        name,
         username,
-        appPassword,
-        stats: {
-            posts: Math.floor(Math.random() * 100),
-            pages: Math.floor(Math.random() * 20),
-            products: Math.floor(Math.random() * 50),
-        },
+        hasAppPassword: true,
+        // Filled in once the site is saved and the proxy can reach it.
+        stats: { posts: 0, pages: 0, products: 0 },
     };
-
-    return newSite;
 };
 
 export const testSiteConnection = async (site: WordPressSite): Promise<{ success: boolean; error?: string }> => {
-    await delay(800);
-    if (site.url.includes("fail")) {
-        return { success: false, error: "Authentication failed (401)." };
+    try {
+        await wpRequest(site, '/wp/v2/users/me');
+        return { success: true };
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
-    return { success: true };
 };
 
 export const getSiteContext = async (site: WordPressSite): Promise<SiteContext> => {
-    await delay(1200);
-    
-    // Mock context data
+    const [recentPosts, categories, tags, posts] = await Promise.all([
+        wpRequest<WpRenderedPost[]>(site, '/wp/v2/posts', { query: { per_page: 10, orderby: 'date', order: 'desc', _fields: 'id,title,link' } }),
+        getSiteCategories(site),
+        wpRequest<WpTerm[]>(site, '/wp/v2/tags', { query: { per_page: PER_PAGE, orderby: 'count', order: 'desc', _fields: 'id,name,count' } }),
+        getSitePosts(site, 'post'),
+    ]);
+
     return {
-        recentPosts: [
-            { title: "The Future of Web Design", url: `${site.url}/future-of-web-design` },
-            { title: "10 Tips for Better SEO", url: `${site.url}/10-seo-tips` },
-            { title: "Our Company's New Product Launch", url: `${site.url}/new-product-launch` },
-        ],
-        categories: await getSiteCategories(site),
-        tags: [
-            { id: 10, name: "webdev" },
-            { id: 12, name: "seo" },
-            { id: 15, name: "business" },
-        ],
+        recentPosts: recentPosts.data.map(p => ({ title: decodeEntities(p.title.rendered), url: p.link })),
+        categories,
+        tags: tags.data.map((tag): WordPressTag => ({ id: tag.id, name: decodeEntities(tag.name) })),
+        posts,
     };
 };
 
+// Long enough to write several pieces for a site without refetching every post each time.
+const SITE_CACHE_TTL_MS = 10 * 60 * 1000;
+
+/** Caches `load` per site for a while. Failed loads are not cached. */
+const createSiteCache = <T>(load: (site: WordPressSite) => Promise<T>) => {
+    const entries = new Map<string, { loadedAt: number; value: Promise<T> }>();
+    const get = (site: WordPressSite): Promise<T> => {
+        const cached = entries.get(site.id);
+        if (cached && Date.now() - cached.loadedAt <= SITE_CACHE_TTL_MS) {
+            return cached.value;
+        }
+        const value = load(site);
+        entries.set(site.id, { loadedAt: Date.now(), value });
+        value.catch(() => {
+            if (entries.get(site.id)?.value === value) entries.delete(site.id);
+        });
+        return value;
+    };
+    const clear = (siteId?: string) => {
+        if (siteId) {
+            entries.delete(siteId);
+        } else {
+            entries.clear();
+        }
+    };
+    return { get, clear };
+};
+
+const siteContextCache = createSiteCache(site => getSiteContext(site));
+const postSummariesCache = createSiteCache(site => getPublishedPostSummaries(site));
+
+/** `getSiteContext`, cached per site for a while. */
+export const getCachedSiteContext = (site: WordPressSite): Promise<SiteContext> => siteContextCache.get(site);
+
+/** `getPublishedPostSummaries`, cached per site for a while. */
+export const getCachedPostSummaries = (site: WordPressSite): Promise<WordPressPostSummary[]> => postSummariesCache.get(site);
+
+/** Drops the cached context and posts of one site, or of all sites. */
+export const clearSiteContextCache = (siteId?: string) => {
+    siteContextCache.clear(siteId);
+    postSummariesCache.clear(siteId);
+};
+
 export const getSiteCategories = async (site: WordPressSite): Promise<WordPressCategory[]> => {
-    await delay(700);
-    if (site.url.includes("fail")) {
-        throw new Error("Failed to fetch categories.");
-    }
-    // Mock categories data
-    return [
-        { id: 1, name: "Technology", count: 12 },
-        { id: 2, name: "Marketing", count: 8 },
-        { id: 5, name: "Business Strategy", count: 5 },
-        { id: 8, name: "Uncategorized", count: 2 },
-        { id: 11, name: "Productivity", count: 7 },
-    ];
+    const terms = await fetchAllPages<WpTerm>(site, '/wp/v2/categories', { _fields: 'id,name,count' });
+    return terms.map(term => ({ id: term.id, name: decodeEntities(term.name), count: term.count }));
+};
+
+export const getProductCategories = async (site: WordPressSite): Promise<WordPressCategory[]> => {
+    const terms = await fetchAllPages<WpTerm>(site, `${WC_PRODUCTS}/categories`, { _fields: 'id,name,count' });
+    return terms.map(term => ({ id: term.id, name: decodeEntities(term.name), count: term.count }));
 };
 
 export const getSitePosts = async (site: WordPressSite, type: 'post' | 'product'): Promise<WordPressPost[]> => {
-    await delay(900);
-    if (site.url.includes("fail")) {
-        throw new Error("Failed to fetch existing posts.");
+    if (type === 'product') {
+        const products = await fetchAllPages<WcProduct>(site, WC_PRODUCTS, { status: 'any', _fields: 'id,name,permalink' });
+        return products.map(product => ({ id: product.id, title: decodeEntities(product.name), link: product.permalink, type }));
     }
-    // Mock posts data
-    if (type === 'post') {
-        return [
-            { id: 101, title: "10 AI Tools That Will Change Your Business", link: `${site.url}/10-ai-tools`, type: 'post' },
-            { id: 102, title: "A Guide to Sustainable Web Design", link: `${site.url}/sustainable-web-design`, type: 'post' },
-            { id: 103, title: "Understanding The Stock Market in 2024", link: `${site.url}/stock-market-2024`, type: 'post' },
-        ];
+    const posts = await fetchAllPages<WpRenderedPost>(site, '/wp/v2/posts', {
+        status: 'publish,future,draft,pending,private',
+        _fields: 'id,title,link',
+    });
+    return posts.map(post => ({ id: post.id, title: decodeEntities(post.title.rendered), link: post.link, type }));
+};
+
+const htmlToText = (html: string): string => decodeEntities(stripTags(html.replace(/<\/(p|h\d|li)>/g, '\n')));
+
+const toPostBody = (post: WpRenderedPost): WordPressPostBody => {
+    const html = post.content?.rendered ?? '';
+    return { id: post.id, title: decodeEntities(post.title.rendered), link: post.link, type: 'post', html, text: htmlToText(html) };
+};
+
+/** Published posts with their rendered HTML, for the link index. Drafts have no public URL yet. */
+export const getPublishedPostBodies = async (site: WordPressSite): Promise<WordPressPostBody[]> => {
+    const posts = await fetchAllPages<WpRenderedPost>(site, '/wp/v2/posts', { status: 'publish', _fields: 'id,title,link,content' });
+    return posts.map(toPostBody);
+};
+
+/** Published posts with their excerpts only, for a first pass over a whole site without downloading every body. */
+export const getPublishedPostSummaries = async (site: WordPressSite): Promise<WordPressPostSummary[]> => {
+    const posts = await fetchAllPages<WpRenderedPost>(site, '/wp/v2/posts', { status: 'publish', _fields: 'id,title,excerpt,link' });
+    return posts.map(post => ({ id: post.id, title: decodeEntities(post.title.rendered), link: post.link, type: 'post', excerpt: htmlToText(post.excerpt?.rendered ?? '') }));
+};
+
+/** The published posts with the given ids, with their rendered HTML. */
+export const getPostBodies = async (site: WordPressSite, ids: number[]): Promise<WordPressPostBody[]> => {
+    if (ids.length === 0) return [];
+    const posts = await fetchAllPages<WpRenderedPost>(site, '/wp/v2/posts', { status: 'publish', include: ids.join(','), _fields: 'id,title,link,content' });
+    return posts.map(toPostBody);
+};
+
+/**
+ * Uploads a featured image to the media library, or reuses the attachment from an earlier
+ * publish to the same site. Alt text and caption are (re)applied either way.
+ */
+export const uploadFeaturedImage = async (site: WordPressSite, image: FeaturedImage, slug: string): Promise<number> => {
+    let mediaId = image.upload?.siteId === site.id ? image.upload.mediaId : undefined;
+
+    if (!mediaId) {
+        const { data } = await wpRequest<{ id: number }>(site, '/wp/v2/media', {
+            method: 'POST',
+            // Header values must be ASCII, so non-Latin slugs get a generic file name.
+            file: { data: decodeBase64(image.base64), mimeType: image.mimeType, filename: `${/^[a-z0-9-]+$/.test(slug) ? slug : 'featured-image'}.jpg` },
+        });
+        mediaId = data.id;
     }
-    return [
-        { id: 201, title: "Ergonomic Office Chair Pro", link: `${site.url}/products/ergonomic-chair`, type: 'product' },
-        { id: 202, title: "Mechanical Keyboard X1", link: `${site.url}/products/keyboard-x1`, type: 'product' },
-    ];
+
+    await wpRequest(site, `/wp/v2/media/${mediaId}`, {
+        method: 'POST',
+        body: { alt_text: image.altText, caption: image.caption },
+    });
+    return mediaId;
+};
+
+/** Creates or updates a WooCommerce product; `options.categories` holds `product_cat` term ids. */
+const publishProduct = async (
+    site: WordPressSite,
+    content: ProductContent,
+    options: PublishingOptions,
+    slug: string,
+    featuredMediaId?: number
+): Promise<PublishResult> => {
+    const details = options.product;
+    const payload: Record<string, unknown> = {
+        name: content.title,
+        type: 'simple',
+        status: options.status,
+        slug,
+        // WooCommerce descriptions are edited in the classic editor, so they always get plain HTML.
+        description: markdownToHtml(content.longDescription),
+        short_description: markdownToHtml(content.shortDescription),
+        categories: options.categories.map(id => ({ id })),
+    };
+    if (options.date) {
+        payload.date_created_gmt = toWpGmtDate(options.date);
+    }
+    if (featuredMediaId) {
+        payload.images = [{ id: featuredMediaId }];
+    }
+    if (details) {
+        payload.regular_price = details.regularPrice;
+        payload.sale_price = details.salePrice || '';
+        payload.sku = details.sku || '';
+        payload.manage_stock = details.manageStock;
+        if (details.manageStock) {
+            payload.stock_quantity = details.stockQuantity ?? 0;
+        } else {
+            payload.stock_status = details.stockStatus;
+        }
+    }
+
+    const isUpdate = options.action === 'update' && options.postId;
+    const { data } = await wpRequest<WcProduct>(site, isUpdate ? `${WC_PRODUCTS}/${options.postId}` : WC_PRODUCTS, {
+        method: isUpdate ? 'PUT' : 'POST',
+        body: payload,
+    });
+    return { postUrl: data.permalink, postId: data.id, featuredMediaId };
 };
 
 export const publishContent = async (
-    site: WordPressSite, 
-    content: GeneratedContent, 
+    site: WordPressSite,
+    content: GeneratedContent,
     options: PublishingOptions
-): Promise<{ postUrl: string; postId: number }> => {
-    await delay(1500);
+): Promise<PublishResult> => {
+    const slug = slugify(content.title);
+    const featuredMediaId = content.featuredImage ? await uploadFeaturedImage(site, content.featuredImage, slug) : undefined;
 
-    if (site.url.includes("publish-fail")) {
-        throw new Error("The server returned an error (500).");
+    if (content.type === ContentType.Product) {
+        return publishProduct(site, content, options, slug, featuredMediaId);
     }
 
-    const slug = content.title.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
-    const postType = content.type === ContentType.Product ? 'product' : 'post';
-    
-    if (options.action === 'update' && options.postId) {
-        console.log(`UPDATING post ${options.postId} on ${site.url}`, { content, options });
-        return { postUrl: `${site.url}/${postType}/${slug}`, postId: options.postId };
+    const payload: Record<string, unknown> = {
+        title: content.title,
+        status: options.status,
+        slug,
+        content: convertMarkdown(content.body, site.contentFormat),
+        excerpt: content.metaDescription,
+        featured_media: featuredMediaId ?? 0,
+    };
+    // An empty list would reset an updated post to "Uncategorized", so only send an explicit choice.
+    if (options.categories.length > 0) {
+        payload.categories = options.categories;
+    }
+    if (options.date) {
+        payload.date_gmt = toWpGmtDate(options.date);
     }
-    
-    console.log(`CREATING new content on ${site.url}`, { content, options });
-    const newPostId = Math.floor(Math.random() * 10000) + 1;
-    return { postUrl: `${site.url}/${postType}/${slug}`, postId: newPostId };
+
+    const path = options.action === 'update' && options.postId ? `/wp/v2/posts/${options.postId}` : '/wp/v2/posts';
+
+    const { data } = await wpRequest<WpRenderedPost>(site, path, { method: 'POST', body: payload });
+    // The new or renamed post should count as existing in the next duplicate check.
+    clearSiteContextCache(site.id);
+    return { postUrl: data.link, postId: data.id, featuredMediaId };
 };
 
-export const getSiteStats = async (site: WordPressSite): Promise<{ posts: number; pages: number; products: number; }> => {
-    await delay(500);
-    // Return the stored stats or generate new random ones
-    return site.stats || {
-        posts: Math.floor(Math.random() * 100),
-        pages: Math.floor(Math.random() * 20),
-        products: Math.floor(Math.random() * 50),
-    };
+/** Reads the live status of previously published content, e.g. to see whether a `future` post went out. */
+export const getPublishState = async (site: WordPressSite, content: GeneratedContent, postId: number): Promise<PublishState> => {
+    if (content.type === ContentType.Product) {
+        const { data } = await wpRequest<{ status: WordPressPostStatus; permalink: string }>(site, `${WC_PRODUCTS}/${postId}`, { query: { _fields: 'status,permalink' } });
+        return { status: data.status, link: data.permalink };
+    }
+    const { data } = await wpRequest<PublishState>(site, `/wp/v2/posts/${postId}`, { query: { _fields: 'status,link' } });
+    return data;
+};
+
+/** Changes only the status of existing content, leaving its body and metadata untouched. */
+export const updatePublishStatus = async (site: WordPressSite, content: GeneratedContent, postId: number, status: PublishingOptions['status']): Promise<PublishResult> => {
+    if (content.type === ContentType.Product) {
+        const { data } = await wpRequest<WcProduct>(site, `${WC_PRODUCTS}/${postId}`, { method: 'PUT', body: { status } });
+        return { postUrl: data.permalink, postId: data.id };
+    }
+    const { data } = await wpRequest<WpRenderedPost>(site, `/wp/v2/posts/${postId}`, { method: 'POST', body: { status } });
+    return { postUrl: data.link, postId: data.id };
+};
+
+export const getSiteStats = async (site: WordPressSite): Promise<SiteStats> => {
+    const [posts, pages, products] = await Promise.all([
+        countItems(site, '/wp/v2/posts'),
+        countItems(site, '/wp/v2/pages'),
+        countItems(site, WC_PRODUCTS),
+    ]);
+    return { posts, pages, products };
 };
@@ -68,9 +68,6 @@ export const translations = {
     settingsDescription: 'Manage your application settings.',
     languageSettings: 'Language & Region',
     selectLanguage: 'Application Language',
-    brandVoice: 'Brand Voice',
-    brandVoiceDescription: 'Provide guidelines for the AI to follow, ensuring all generated content matches your brand\'s unique tone and style. This will be applied to all content generation.',
-    brandVoiceLabel: 'Describe your brand voice',
     brandVoicePlaceholder: 'e.g., "Our brand is friendly, approachable, and uses humor. We avoid technical jargon and prefer short, concise sentences. We often use emojis like ✨ and 👍."',
     saveSettings: 'Save Settings',
     settingsSaved: 'Settings saved successfully!',
@@ -132,6 +129,261 @@ export const translations = {
     submitForReview: 'Submit for Review',
     approve: 'Approve',
     reject: 'Reject',
+    productDetails: 'Product Details',
+    regularPrice: 'Regular Price',
+    salePrice: 'Sale Price',
+    sku: 'SKU',
+    manageStock: 'Manage stock',
+    stockQuantity: 'Stock Quantity',
+    stockStatus: 'Stock Status',
+    inStock: 'In stock',
+    outOfStock: 'Out of stock',
+    onBackorder: 'On backorder',
+    contentFormat: 'Content Format',
+    contentFormatGutenberg: 'Block editor (Gutenberg)',
+    contentFormatClassic: 'Classic editor (HTML)',
+    featuredImage: 'Featured Image',
+    altText: 'Alt text',
+    caption: 'Caption',
+    removeImage: 'Remove image',
+    useAsFeaturedImage: 'Click an image to use it as the featured image.',
+    bulkSchedulePartialFail: 'Could not schedule {{count}} items: {{error}}',
+    scheduledPublishFailed: 'Publishing failed and will be retried: {{error}}',
+    scheduledPublishSuccess: '\'{{title}}\' was published as scheduled.',
+    registerTitle: 'Create an Account',
+    nameLabel: 'Full Name',
+    teamNameLabel: 'Team Name (optional)',
+    registerButton: 'Create Account',
+    noAccount: "Don't have an account? Register",
+    haveAccount: 'Already have an account? Log in',
+    loadDataFailed: 'Could not load your sites and content library. Please try again.',
+    saveFailed: 'Could not save your changes, so they were undone.',
+    appPasswordSet: 'Saved (encrypted)',
+    appPasswordNotSet: 'Not set',
+    rotateAppPassword: 'Replace',
+    setAppPassword: 'Set password',
+    newAppPasswordPlaceholder: 'New application password',
+    appPasswordRotated: 'Application password updated.',
+    appPasswordRotateFailed: 'Could not update the application password: {{error}}',
+    team: 'Team',
+    teamMembers: 'Members',
+    teamLoadFailed: 'Could not load your team.',
+    roleWriter: 'Writer',
+    roleEditor: 'Editor',
+    you: 'you',
+    removeMember: 'Remove',
+    roleUpdated: 'Role updated.',
+    memberRemoved: 'Member removed from the team.',
+    inviteMember: 'Invite a member',
+    inviteEmailPlaceholder: 'colleague@example.com',
+    sendInvitation: 'Create invitation',
+    invitationCreated: 'Invitation created. Send this link to {{email}}:',
+    copyLink: 'Copy link',
+    linkCopied: 'Link copied to clipboard.',
+    pendingInvitations: 'Pending invitations',
+    noPendingInvitations: 'No pending invitations.',
+    expiresOn: 'Expires {{date}}',
+    revokeInvitation: 'Revoke',
+    invitationRevoked: 'Invitation revoked.',
+    createTeam: 'Create a new team',
+    createTeamDescription: "You'll leave your current team and become the editor of the new one. Your current team keeps its sites and content.",
+    teamNamePlaceholder: 'Team name',
+    createTeamButton: 'Create team',
+    teamCreated: 'You are now a member of {{name}}.',
+    invitationTitle: 'Team invitation',
+    invitationMessage: '{{inviter}} invited you to join {{team}} as {{role}}.',
+    invitationLeaveWarning: 'Accepting moves you out of your current team. Its sites and content stay with it.',
+    acceptInvitation: 'Accept',
+    declineInvitation: 'Decline',
+    invitationAccepted: 'Welcome to {{team}}!',
+    invitationDeclined: 'Invitation declined.',
+    someone: 'Someone',
+    aiProvider: 'AI Provider',
+    aiProviderDescription: 'Choose which AI service generates content. This setting is saved in this browser only.',
+    aiProviderLabel: 'Provider',
+    aiProviderOpenAiCompatible: 'OpenAI-compatible (OpenAI, Ollama, llama.cpp)',
+    aiProviderFixture: 'Fixture (offline test data)',
+    aiProviderFixtureInfo: 'The fixture provider returns placeholder content without contacting any AI service.',
+    aiBaseUrl: 'API Base URL',
+    aiApiKey: 'API Key',
+    aiApiKeyPlaceholder: 'Leave empty for local servers',
+    aiTextModel: 'Text Model',
+    aiImageModel: 'Image Model',
+    cancelGeneration: 'Cancel',
+    generationCancelled: 'Generation cancelled.',
+    articleModeDirect: 'Write Directly',
+    articleModeOutline: 'Outline First',
+    generateOutline: 'Generate Outline',
+    articleOutline: 'Article Outline',
+    metaDescription: 'Meta Description',
+    outlineSections: 'Sections',
+    sectionHeading: 'H2 heading',
+    sectionSubheadings: 'H3 subheadings (one per line)',
+    sectionKeyPoints: 'Key points (one per line)',
+    addSection: 'Add Section',
+    moveUp: 'Move up',
+    moveDown: 'Move down',
+    discardOutline: 'Discard Outline',
+    approveOutline: 'Approve & Write Article',
+    outlineIncomplete: 'The outline needs a title and at least one section with a heading.',
+    regenerateSection: 'Regenerate Section',
+    sectionNotWritten: 'Not written yet.',
+    backToOutline: 'Back to Outline',
+    writeRemainingSections: 'Write Remaining Sections',
+    useArticle: 'Use This Article',
+    aiActions: 'AI actions…',
+    aiActionsHint: 'Applies to the selected text, or to the current section if nothing is selected',
+    aiRewrite: 'Rewrite',
+    aiExpand: 'Expand',
+    aiShorten: 'Shorten',
+    aiSimplify: 'Simplify',
+    aiChangeTone: 'Change tone',
+    aiTranslate: 'Translate to',
+    aiRewriteTitle: 'Review AI Changes',
+    aiRewriteDiffHint: 'Removed text is struck through in red; added text is highlighted in green.',
+    discard: 'Discard',
+    tryAgain: 'Try Again',
+    acceptRewrite: 'Replace Text',
+    usageTitle: 'AI Usage',
+    usageLoadFailed: 'Could not load AI usage.',
+    month: 'Month',
+    name: 'Name',
+    requests: 'Requests',
+    failedRequests: '{{count}} failed',
+    tokens: 'Tokens',
+    tokensCount: '{{count}} tokens',
+    promptTokens: 'Prompt tokens',
+    outputTokens: 'Output tokens',
+    images: 'Images',
+    estimatedCost: 'Estimated cost',
+    monthlyBudget: 'Monthly budget',
+    noBudget: 'No limit',
+    teamBudget: 'Team monthly budget',
+    budgetHint: 'When the team, a member or a site reaches its monthly budget, AI generation for it stops until the next month. Costs are estimates based on list prices.',
+    budgetSaved: 'Budget updated.',
+    usageByUser: 'By member',
+    usageBySite: 'By site',
+    usageByMonth: 'By month',
+    noUsage: 'No AI usage yet.',
+    formerMember: 'Former member',
+    deletedSite: 'Deleted site',
+    noSite: 'Not tied to a site',
+    promptTemplates: 'Prompt Templates',
+    promptTemplatesDescription: 'The instructions sent to the AI for each kind of content. Override them for the whole team or for one site; every save is kept as a new version.',
+    promptTemplatesLoadFailed: 'Could not load the prompt templates.',
+    promptTemplatesEditorsOnly: 'Only editors can change prompt templates.',
+    promptTemplate: 'Template',
+    promptTemplateScope: 'Applies to',
+    promptTemplateScopeTeam: 'Whole team',
+    promptTemplateDefaultVersion: 'Using the built-in template (v{{version}}).',
+    promptTemplateTeamVersion: 'Using the team override (v{{version}}, {{date}}).',
+    promptTemplateSiteVersion: 'Using the site override (v{{version}}, {{date}}).',
+    promptSystemInstruction: 'System instruction',
+    promptUserPrompt: 'Prompt',
+    promptTemplateVariables: 'Variables',
+    promptTemplateSyntaxHint: 'Insert a variable with {{name}}. Text between {{#name}} and {{/name}} is only used when the variable is set, text between {{^name}} and {{/name}} only when it is empty.',
+    promptTemplateSave: 'Save New Version',
+    promptTemplateResetTeam: 'Reset to Built-in',
+    promptTemplateResetSite: 'Reset to Team Template',
+    promptTemplateSaved: 'Prompt template saved as version {{version}}.',
+    promptTemplateReset: 'Prompt template reset.',
+    promptTemplateEmpty: 'The prompt cannot be empty.',
+    promptTemplateInvalid: 'The template has problems: {{problems}}',
+    voiceProfiles: 'Voice Profiles',
+    voiceProfilesDescription: 'Named brand voices for your sites. Content generated for a site follows its profile: the description, do\'s and don\'ts, banned words and example passages.',
+    voiceProfilesLoadFailed: 'Could not load the voice profiles.',
+    voiceProfileList: 'Profiles',
+    addVoiceProfile: '+ New Profile',
+    noVoiceProfiles: 'No voice profiles yet.',
+    voiceProfileUsedBy: 'Used by {{count}} site(s)',
+    voiceProfileName: 'Name',
+    voiceProfileNamePlaceholder: 'e.g. Friendly tech blog',
+    voiceProfileDescription: 'Describe the voice',
+    voiceProfileDos: 'Do',
+    voiceProfileDonts: 'Don\'t',
+    voiceProfileBannedWords: 'Banned words and phrases',
+    voiceProfileExamples: 'Example passages',
+    voiceProfileExamplesHint: 'Paste a few short passages written in this voice. Separate them with a blank line.',
+    onePerLine: 'One per line',
+    saveVoiceProfile: 'Save Profile',
+    voiceProfileSaved: 'Voice profile "{{name}}" saved.',
+    voiceProfileImportedName: 'Brand voice',
+    legacyBrandVoiceFound: 'This browser still has a brand voice from before voice profiles. Import it as a profile for every site that has none yet.',
+    importLegacyBrandVoice: 'Import as Profile',
+    siteVoices: 'Voice per site',
+    siteVoiceFor: 'Voice profile for {{site}}',
+    noVoiceProfile: 'No voice profile',
+    targetSite: 'Target site',
+    noTargetSite: 'No particular site',
+    loadingSiteContext: 'Loading the site\'s posts, categories and tags...',
+    siteContextFailed: 'Could not load the site\'s content, so it won\'t inform generation: {{error}}',
+    siteContextSummary: 'Articles will take the site\'s {{posts}} posts, {{categories}} categories and {{tags}} tags into account.',
+    virtualSiteNoContext: 'Virtual sites have no WordPress content to learn from; only their voice profile applies.',
+    duplicateTopicWarning: 'This topic looks like it is already covered on the site:',
+    seoPanel: 'SEO Tools',
+    keywordIdeas: 'Keyword Ideas',
+    suggestKeywords: 'Suggest',
+    keywordIdeasNeedTopic: 'Enter a topic to get keyword ideas.',
+    keywordVolume: 'Volume: {{estimate}}',
+    keywordDifficulty: 'Difficulty: {{estimate}}',
+    addKeyword: '+ Add',
+    keywordAdded: 'Added',
+    competitorAnalysis: 'Competitor Analysis',
+    competitorUrlPlaceholder: 'https://competitor.com/article',
+    analyzeCompetitor: 'Analyze',
+    competitorTopics: 'Main topics',
+    competitorKeywords: 'Keywords',
+    competitorUsedInPrompt: 'Used to outrank this page in the next generation.',
+    removeCompetitor: 'Remove',
+    seoScore: 'AI SEO Review',
+    analyzeSeo: 'Analyze',
+    reanalyzeSeo: 'Re-analyze',
+    seoNeedsDraft: 'Generate content to score it.',
+    internalLinks: 'Internal Links',
+    suggestLinks: 'Suggest',
+    internalLinksNeedSite: 'Select a target site to get link suggestions from its link index.',
+    insertSuggestedLink: 'Insert',
+    linkInserted: 'Inserted',
+    anchorTextNotFound: '"{{anchor}}" was not found in the body outside headings and existing links.',
+    seoChecklist: 'SEO Checklist',
+    seoCheckNoKeyword: 'Add a focus keyword (the first keyword) to check its placement and density.',
+    seoCheckKeywordInTitle: 'Focus keyword "{{keyword}}" in the title',
+    seoCheckKeywordInIntro: 'Focus keyword in the first paragraph',
+    seoCheckKeywordInHeadings: 'Focus keyword in {{matches}} of {{headings}} H2 headings',
+    seoCheckKeywordDensity: 'Keyword density {{density}}% ({{occurrences}} uses, aim for 0.5–2.5%)',
+    seoCheckMetaDescriptionLength: 'Meta description is {{length}} characters (aim for 150–160)',
+    seoCheckHeadingHierarchy: '{{h2}} H2 headings, {{skipped}} skipped heading levels, {{h1}} H1 headings in the body',
+    seoCheckParagraphLength: '{{long}} of {{paragraphs}} paragraphs longer than {{max}} words',
+    seoCheckReadability: 'Flesch reading ease {{score}} (aim for 60 or more)',
+    seoCheckLinks: '{{internal}} internal and {{external}} external links',
+    seoCheckArabicReadability: 'Sentences average {{wordsPerSentence}} words and words {{lettersPerWord}} letters (not scored: no reliable readability formula for unvowelled Arabic)',
+    loadingLinkIndex: 'Loading the link index...',
+    linkIndexEmpty: 'This site has no link index yet.',
+    linkIndexSummary: '{{pages}} pages indexed, {{orphans}} orphans (updated {{date}})',
+    rebuildLinkIndex: 'Rebuild index',
+    showLinkReport: 'Link report',
+    hideLinkReport: 'Hide report',
+    linkCandidatesFound: '{{count}} related pages found for this article.',
+    linkReportPage: 'Page',
+    linkReportInbound: 'Links in',
+    linkReportOutbound: 'Links out',
+    orphanPage: 'Orphan',
+    linkReportFromLibrary: 'Library',
+    contentOverlapWarning: 'This content overlaps with other pages. Consider merging them or changing its focus:',
+    overlapDuplicate: 'Near-duplicate',
+    overlapCannibalization: 'Same keywords',
+    overlapInLibrary: 'library',
+    overlapLivePost: 'live post',
+    overlapSimilarity: '{{percent}}% similar',
+    overlapSharedKeywords: 'shared keywords: {{keywords}}',
+    possibleDuplicate: 'Duplicate? ({{count}})',
+    possibleCannibalization: 'Overlap ({{count}})',
+    credentialsChangeNeedsPassword: 'To change the URL or username, enter a new application password for the site.',
+    checkOverlaps: 'Check for overlaps',
+    checkingOverlaps: 'Checking…',
+    noOverlapsFound: 'No duplicates or overlapping pages found.',
+    overlapCheckFailed: 'Could not check for overlaps: {{error}}',
+    scheduledPublishStopped: 'Scheduled publishing stopped: {{error}}',
   },
   ar: {
     dashboard: 'لوحة التحكم',
@@ -201,9 +453,6 @@ export const translations = {
     settingsDescription: 'إدارة إعدادات التطبيق الخاص بك.',
     languageSettings: 'اللغة والمنطقة',
     selectLanguage: 'لغة التطبيق',
-    brandVoice: 'صوت العلامة التجارية',
-    brandVoiceDescription: 'قدم إرشادات ليتبعها الذكاء الاصطناعي، مما يضمن أن كل المحتوى الذي يتم إنشاؤه يتوافق مع النبرة والأسلوب الفريد لعلامتك التجارية. سيتم تطبيق هذا على جميع عمليات إنشاء المحتوى.',
-    brandVoiceLabel: 'صف صوت علامتك التجارية',
     brandVoicePlaceholder: 'مثال: "علامتنا التجارية ودودة ومرحبة وتستخدم الفكاهة. نتجنب المصطلحات التقنية ونفضل الجمل القصيرة والموجزة. غالبًا ما نستخدم الرموز التعبيرية مثل ✨ و 👍."',
     saveSettings: 'حفظ الإعدادات',
     settingsSaved: 'تم حفظ الإعدادات بنجاح!',
@@ -265,5 +514,260 @@ export const translations = {
     submitForReview: 'إرسال للمراجعة',
     approve: 'موافقة',
     reject: 'رفض',
+    productDetails: 'تفاصيل المنتج',
+    regularPrice: 'السعر العادي',
+    salePrice: 'سعر التخفيض',
+    sku: 'رمز المنتج (SKU)',
+    manageStock: 'إدارة المخزون',
+    stockQuantity: 'كمية المخزون',
+    stockStatus: 'حالة المخزون',
+    inStock: 'متوفر',
+    outOfStock: 'غير متوفر',
+    onBackorder: 'متاح للطلب المسبق',
+    contentFormat: 'تنسيق المحتوى',
+    contentFormatGutenberg: 'محرر المكونات (Gutenberg)',
+    contentFormatClassic: 'المحرر الكلاسيكي (HTML)',
+    featuredImage: 'الصورة البارزة',
+    altText: 'النص البديل',
+    caption: 'التعليق',
+    removeImage: 'إزالة الصورة',
+    useAsFeaturedImage: 'انقر على صورة لاستخدامها كصورة بارزة.',
+    bulkSchedulePartialFail: 'تعذرت جدولة {{count}} عنصر: {{error}}',
+    scheduledPublishFailed: 'فشل النشر وستتم إعادة المحاولة: {{error}}',
+    scheduledPublishSuccess: 'تم نشر \'{{title}}\' كما هو مجدول.',
+    registerTitle: 'إنشاء حساب',
+    nameLabel: 'الاسم الكامل',
+    teamNameLabel: 'اسم الفريق (اختياري)',
+    registerButton: 'إنشاء حساب',
+    noAccount: 'ليس لديك حساب؟ سجّل الآن',
+    haveAccount: 'لديك حساب بالفعل؟ سجّل الدخول',
+    loadDataFailed: 'تعذر تحميل مواقعك ومكتبة المحتوى. يرجى المحاولة مرة أخرى.',
+    saveFailed: 'تعذر حفظ تغييراتك، لذلك تم التراجع عنها.',
+    appPasswordSet: 'محفوظة (مشفرة)',
+    appPasswordNotSet: 'غير معيّنة',
+    rotateAppPassword: 'استبدال',
+    setAppPassword: 'تعيين كلمة المرور',
+    newAppPasswordPlaceholder: 'كلمة مرور التطبيق الجديدة',
+    appPasswordRotated: 'تم تحديث كلمة مرور التطبيق.',
+    appPasswordRotateFailed: 'تعذر تحديث كلمة مرور التطبيق: {{error}}',
+    team: 'الفريق',
+    teamMembers: 'الأعضاء',
+    teamLoadFailed: 'تعذر تحميل فريقك.',
+    roleWriter: 'كاتب',
+    roleEditor: 'محرر',
+    you: 'أنت',
+    removeMember: 'إزالة',
+    roleUpdated: 'تم تحديث الدور.',
+    memberRemoved: 'تمت إزالة العضو من الفريق.',
+    inviteMember: 'دعوة عضو',
+    inviteEmailPlaceholder: 'colleague@example.com',
+    sendInvitation: 'إنشاء دعوة',
+    invitationCreated: 'تم إنشاء الدعوة. أرسل هذا الرابط إلى {{email}}:',
+    copyLink: 'نسخ الرابط',
+    linkCopied: 'تم نسخ الرابط.',
+    pendingInvitations: 'الدعوات المعلقة',
+    noPendingInvitations: 'لا توجد دعوات معلقة.',
+    expiresOn: 'تنتهي في {{date}}',
+    revokeInvitation: 'إلغاء',
+    invitationRevoked: 'تم إلغاء الدعوة.',
+    createTeam: 'إنشاء فريق جديد',
+    createTeamDescription: 'ستغادر فريقك الحالي وتصبح محرر الفريق الجديد. يحتفظ فريقك الحالي بمواقعه ومحتواه.',
+    teamNamePlaceholder: 'اسم الفريق',
+    createTeamButton: 'إنشاء الفريق',
+    teamCreated: 'أصبحت الآن عضوًا في {{name}}.',
+    invitationTitle: 'دعوة للانضمام إلى فريق',
+    invitationMessage: 'دعاك {{inviter}} للانضمام إلى {{team}} بدور {{role}}.',
+    invitationLeaveWarning: 'عند القبول ستغادر فريقك الحالي، وتبقى مواقعه ومحتواه معه.',
+    acceptInvitation: 'قبول',
+    declineInvitation: 'رفض',
+    invitationAccepted: 'مرحبًا بك في {{team}}!',
+    invitationDeclined: 'تم رفض الدعوة.',
+    someone: 'شخص ما',
+    aiProvider: 'مزود الذكاء الاصطناعي',
+    aiProviderDescription: 'اختر خدمة الذكاء الاصطناعي التي تنشئ المحتوى. يُحفظ هذا الإعداد في هذا المتصفح فقط.',
+    aiProviderLabel: 'المزود',
+    aiProviderOpenAiCompatible: 'متوافق مع OpenAI (OpenAI، Ollama، llama.cpp)',
+    aiProviderFixture: 'بيانات تجريبية (دون اتصال)',
+    aiProviderFixtureInfo: 'يعيد مزود البيانات التجريبية محتوى مؤقتًا دون الاتصال بأي خدمة ذكاء اصطناعي.',
+    aiBaseUrl: 'عنوان URL الأساسي للواجهة',
+    aiApiKey: 'مفتاح API',
+    aiApiKeyPlaceholder: 'اتركه فارغًا للخوادم المحلية',
+    aiTextModel: 'نموذج النصوص',
+    aiImageModel: 'نموذج الصور',
+    cancelGeneration: 'إلغاء',
+    generationCancelled: 'تم إلغاء الإنشاء.',
+    articleModeDirect: 'كتابة مباشرة',
+    articleModeOutline: 'المخطط أولاً',
+    generateOutline: 'إنشاء المخطط',
+    articleOutline: 'مخطط المقال',
+    metaDescription: 'الوصف التعريفي',
+    outlineSections: 'الأقسام',
+    sectionHeading: 'عنوان H2',
+    sectionSubheadings: 'عناوين H3 الفرعية (عنوان في كل سطر)',
+    sectionKeyPoints: 'النقاط الرئيسية (نقطة في كل سطر)',
+    addSection: 'إضافة قسم',
+    moveUp: 'نقل لأعلى',
+    moveDown: 'نقل لأسفل',
+    discardOutline: 'تجاهل المخطط',
+    approveOutline: 'اعتماد وكتابة المقال',
+    outlineIncomplete: 'يحتاج المخطط إلى عنوان وقسم واحد على الأقل له عنوان.',
+    regenerateSection: 'إعادة إنشاء القسم',
+    sectionNotWritten: 'لم يُكتب بعد.',
+    backToOutline: 'العودة إلى المخطط',
+    writeRemainingSections: 'كتابة الأقسام المتبقية',
+    useArticle: 'استخدام هذا المقال',
+    aiActions: 'إجراءات الذكاء الاصطناعي…',
+    aiActionsHint: 'يُطبق على النص المحدد، أو على القسم الحالي إذا لم يُحدد شيء',
+    aiRewrite: 'إعادة صياغة',
+    aiExpand: 'توسيع',
+    aiShorten: 'اختصار',
+    aiSimplify: 'تبسيط',
+    aiChangeTone: 'تغيير النبرة',
+    aiTranslate: 'ترجمة إلى',
+    aiRewriteTitle: 'مراجعة تغييرات الذكاء الاصطناعي',
+    aiRewriteDiffHint: 'النص المحذوف مشطوب باللون الأحمر؛ والنص المضاف مظلل باللون الأخضر.',
+    discard: 'تجاهل',
+    tryAgain: 'إعادة المحاولة',
+    acceptRewrite: 'استبدال النص',
+    usageTitle: 'استخدام الذكاء الاصطناعي',
+    usageLoadFailed: 'تعذر تحميل بيانات استخدام الذكاء الاصطناعي.',
+    month: 'الشهر',
+    name: 'الاسم',
+    requests: 'الطلبات',
+    failedRequests: '{{count}} فشلت',
+    tokens: 'الرموز',
+    tokensCount: '{{count}} رمز',
+    promptTokens: 'رموز الإدخال',
+    outputTokens: 'رموز الإخراج',
+    images: 'الصور',
+    estimatedCost: 'التكلفة التقديرية',
+    monthlyBudget: 'الميزانية الشهرية',
+    noBudget: 'بلا حد',
+    teamBudget: 'الميزانية الشهرية للفريق',
+    budgetHint: 'عندما يبلغ الفريق أو أحد الأعضاء أو أحد المواقع ميزانيته الشهرية، يتوقف التوليد بالذكاء الاصطناعي له حتى الشهر التالي. التكاليف تقديرية وفق الأسعار المعلنة.',
+    budgetSaved: 'تم تحديث الميزانية.',
+    usageByUser: 'حسب العضو',
+    usageBySite: 'حسب الموقع',
+    usageByMonth: 'حسب الشهر',
+    noUsage: 'لا يوجد استخدام للذكاء الاصطناعي بعد.',
+    formerMember: 'عضو سابق',
+    deletedSite: 'موقع محذوف',
+    noSite: 'غير مرتبط بموقع',
+    promptTemplates: 'قوالب التعليمات',
+    promptTemplatesDescription: 'التعليمات المرسلة إلى الذكاء الاصطناعي لكل نوع من المحتوى. يمكنك استبدالها للفريق بأكمله أو لموقع واحد؛ ويُحفظ كل تعديل كإصدار جديد.',
+    promptTemplatesLoadFailed: 'تعذر تحميل قوالب التعليمات.',
+    promptTemplatesEditorsOnly: 'يمكن للمحررين فقط تغيير قوالب التعليمات.',
+    promptTemplate: 'القالب',
+    promptTemplateScope: 'ينطبق على',
+    promptTemplateScopeTeam: 'الفريق بأكمله',
+    promptTemplateDefaultVersion: 'يُستخدم القالب المدمج (الإصدار {{version}}).',
+    promptTemplateTeamVersion: 'يُستخدم قالب الفريق (الإصدار {{version}}، {{date}}).',
+    promptTemplateSiteVersion: 'يُستخدم قالب الموقع (الإصدار {{version}}، {{date}}).',
+    promptSystemInstruction: 'تعليمات النظام',
+    promptUserPrompt: 'التعليمات',
+    promptTemplateVariables: 'المتغيرات',
+    promptTemplateSyntaxHint: 'أدرج متغيرًا باستخدام {{name}}. يُستخدم النص بين {{#name}} و{{/name}} فقط عند تعيين المتغير، والنص بين {{^name}} و{{/name}} فقط عندما يكون فارغًا.',
+    promptTemplateSave: 'حفظ إصدار جديد',
+    promptTemplateResetTeam: 'إعادة إلى القالب المدمج',
+    promptTemplateResetSite: 'إعادة إلى قالب الفريق',
+    promptTemplateSaved: 'تم حفظ قالب التعليمات كإصدار {{version}}.',
+    promptTemplateReset: 'تمت إعادة تعيين قالب التعليمات.',
+    promptTemplateEmpty: 'لا يمكن أن تكون التعليمات فارغة.',
+    promptTemplateInvalid: 'في القالب مشكلات: {{problems}}',
+    voiceProfiles: 'ملفات صوت العلامة التجارية',
+    voiceProfilesDescription: 'أصوات علامة تجارية مسماة لمواقعك. يتبع المحتوى الذي يُنشأ لموقع ما ملفه: الوصف وما يجب فعله وما يجب تجنبه والكلمات المحظورة والمقاطع النموذجية.',
+    voiceProfilesLoadFailed: 'تعذر تحميل ملفات الصوت.',
+    voiceProfileList: 'الملفات',
+    addVoiceProfile: '+ ملف جديد',
+    noVoiceProfiles: 'لا توجد ملفات صوت بعد.',
+    voiceProfileUsedBy: 'مستخدم في {{count}} موقع',
+    voiceProfileName: 'الاسم',
+    voiceProfileNamePlaceholder: 'مثال: مدونة تقنية ودودة',
+    voiceProfileDescription: 'صف الصوت',
+    voiceProfileDos: 'افعل',
+    voiceProfileDonts: 'لا تفعل',
+    voiceProfileBannedWords: 'الكلمات والعبارات المحظورة',
+    voiceProfileExamples: 'مقاطع نموذجية',
+    voiceProfileExamplesHint: 'الصق بضعة مقاطع قصيرة مكتوبة بهذا الصوت، وافصل بينها بسطر فارغ.',
+    onePerLine: 'عنصر واحد في كل سطر',
+    saveVoiceProfile: 'حفظ الملف',
+    voiceProfileSaved: 'تم حفظ ملف الصوت "{{name}}".',
+    voiceProfileImportedName: 'صوت العلامة التجارية',
+    legacyBrandVoiceFound: 'لا يزال هذا المتصفح يحتفظ بصوت علامة تجارية من قبل ملفات الصوت. استورده كملف لكل موقع ليس له ملف بعد.',
+    importLegacyBrandVoice: 'استيراد كملف',
+    siteVoices: 'الصوت لكل موقع',
+    siteVoiceFor: 'ملف الصوت لـ {{site}}',
+    noVoiceProfile: 'بدون ملف صوت',
+    targetSite: 'الموقع المستهدف',
+    noTargetSite: 'بدون موقع محدد',
+    loadingSiteContext: 'جارٍ تحميل مقالات الموقع وتصنيفاته ووسومه...',
+    siteContextFailed: 'تعذر تحميل محتوى الموقع، لذا لن يُستخدم في الإنشاء: {{error}}',
+    siteContextSummary: 'ستراعي المقالات {{posts}} مقالة و{{categories}} تصنيفًا و{{tags}} وسمًا من الموقع.',
+    virtualSiteNoContext: 'لا تحتوي المواقع الافتراضية على محتوى ووردبريس للتعلم منه؛ يُطبق ملف الصوت فقط.',
+    duplicateTopicWarning: 'يبدو أن هذا الموضوع مغطى بالفعل في الموقع:',
+    seoPanel: 'أدوات تحسين محركات البحث',
+    keywordIdeas: 'أفكار الكلمات المفتاحية',
+    suggestKeywords: 'اقتراح',
+    keywordIdeasNeedTopic: 'أدخل موضوعًا للحصول على أفكار الكلمات المفتاحية.',
+    keywordVolume: 'حجم البحث: {{estimate}}',
+    keywordDifficulty: 'الصعوبة: {{estimate}}',
+    addKeyword: '+ إضافة',
+    keywordAdded: 'أضيفت',
+    competitorAnalysis: 'تحليل المنافسين',
+    competitorUrlPlaceholder: 'https://competitor.com/article',
+    analyzeCompetitor: 'تحليل',
+    competitorTopics: 'المواضيع الرئيسية',
+    competitorKeywords: 'الكلمات المفتاحية',
+    competitorUsedInPrompt: 'سيُستخدم للتفوق على هذه الصفحة في التوليد التالي.',
+    removeCompetitor: 'إزالة',
+    seoScore: 'مراجعة تحسين محركات البحث بالذكاء الاصطناعي',
+    analyzeSeo: 'تحليل',
+    reanalyzeSeo: 'إعادة التحليل',
+    seoNeedsDraft: 'أنشئ محتوى لتقييمه.',
+    internalLinks: 'الروابط الداخلية',
+    suggestLinks: 'اقتراح',
+    internalLinksNeedSite: 'اختر موقعًا مستهدفًا للحصول على اقتراحات الروابط من فهرس روابطه.',
+    insertSuggestedLink: 'إدراج',
+    linkInserted: 'أُدرج',
+    anchorTextNotFound: 'لم يُعثر على "{{anchor}}" في النص خارج العناوين والروابط الموجودة.',
+    seoChecklist: 'قائمة فحص تحسين محركات البحث',
+    seoCheckNoKeyword: 'أضف كلمة مفتاحية رئيسية (الكلمة الأولى) لفحص موضعها وكثافتها.',
+    seoCheckKeywordInTitle: 'الكلمة المفتاحية الرئيسية "{{keyword}}" في العنوان',
+    seoCheckKeywordInIntro: 'الكلمة المفتاحية الرئيسية في الفقرة الأولى',
+    seoCheckKeywordInHeadings: 'الكلمة المفتاحية الرئيسية في {{matches}} من {{headings}} عناوين H2',
+    seoCheckKeywordDensity: 'كثافة الكلمة المفتاحية {{density}}% ({{occurrences}} مرات، الهدف 0.5–2.5%)',
+    seoCheckMetaDescriptionLength: 'طول الوصف التعريفي {{length}} حرفًا (الهدف 150–160)',
+    seoCheckHeadingHierarchy: '{{h2}} عناوين H2، و{{skipped}} مستويات عناوين متخطاة، و{{h1}} عناوين H1 في النص',
+    seoCheckParagraphLength: '{{long}} من {{paragraphs}} فقرات أطول من {{max}} كلمة',
+    seoCheckReadability: 'سهولة القراءة (Flesch) {{score}} (الهدف 60 أو أكثر)',
+    seoCheckLinks: '{{internal}} روابط داخلية و{{external}} روابط خارجية',
+    seoCheckArabicReadability: 'متوسط طول الجملة {{wordsPerSentence}} كلمة وطول الكلمة {{lettersPerWord}} حروف (لا يدخل في النتيجة: لا توجد صيغة موثوقة لقياس سهولة قراءة العربية غير المشكولة)',
+    loadingLinkIndex: 'جارٍ تحميل فهرس الروابط...',
+    linkIndexEmpty: 'لا يوجد فهرس روابط لهذا الموقع بعد.',
+    linkIndexSummary: '{{pages}} صفحات مفهرسة، و{{orphans}} صفحات يتيمة (تحديث {{date}})',
+    rebuildLinkIndex: 'إعادة بناء الفهرس',
+    showLinkReport: 'تقرير الروابط',
+    hideLinkReport: 'إخفاء التقرير',
+    linkCandidatesFound: 'عُثر على {{count}} صفحات ذات صلة بهذه المقالة.',
+    linkReportPage: 'الصفحة',
+    linkReportInbound: 'روابط واردة',
+    linkReportOutbound: 'روابط صادرة',
+    orphanPage: 'يتيمة',
+    linkReportFromLibrary: 'المكتبة',
+    contentOverlapWarning: 'يتداخل هذا المحتوى مع صفحات أخرى. فكّر في دمجها أو تغيير تركيزه:',
+    overlapDuplicate: 'شبه مكرر',
+    overlapCannibalization: 'نفس الكلمات المفتاحية',
+    overlapInLibrary: 'المكتبة',
+    overlapLivePost: 'مقالة منشورة',
+    overlapSimilarity: 'تشابه {{percent}}%',
+    overlapSharedKeywords: 'كلمات مفتاحية مشتركة: {{keywords}}',
+    possibleDuplicate: 'مكرر؟ ({{count}})',
+    possibleCannibalization: 'تداخل ({{count}})',
+    credentialsChangeNeedsPassword: 'لتغيير الرابط أو اسم المستخدم، أدخل كلمة مرور تطبيق جديدة لهذا الموقع.',
+    checkOverlaps: 'التحقق من التداخل',
+    checkingOverlaps: 'جارٍ التحقق…',
+    noOverlapsFound: 'لم يتم العثور على محتوى مكرر أو صفحات متداخلة.',
+    overlapCheckFailed: 'تعذر التحقق من التداخل: {{error}}',
+    scheduledPublishStopped: 'توقف النشر المجدول: {{error}}',
   },
 };
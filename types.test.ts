@@ -0,0 +1,58 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import {
+    ArticleContent, ContentStatus, ContentType, GeneratedContent, ProductContent, PublishState, PublishingOptions, UserRole,
+    WordPressPostStatus,
+} from './types';
+import { CONTENT_STATUS_LABELS, CONTENT_TYPE_LABELS, USER_ROLE_LABELS } from './constants';
+import { translations } from './translations';
+
+// The type-level assertions are checked by `tsc --noEmit`, the runtime ones by Vitest.
+
+describe('enums', () => {
+    // These values are stored on the server and in WordPress, so renaming one breaks saved data.
+    it('keep their stored values', () => {
+        expect(Object.values(UserRole)).toEqual(['writer', 'editor']);
+        expect(Object.values(ContentType)).toEqual(['article', 'product']);
+    });
+});
+
+describe('content', () => {
+    it('goes through the workflow statuses in order', () => {
+        expectTypeOf<ContentStatus>().toEqualTypeOf<'draft' | 'needs-review' | 'approved' | 'scheduled' | 'published'>();
+        expect(Object.keys(CONTENT_STATUS_LABELS)).toEqual(['draft', 'needs-review', 'approved', 'scheduled', 'published']);
+    });
+
+    it('is told apart by its type', () => {
+        expectTypeOf<Extract<GeneratedContent, { type: ContentType.Article }>>().toEqualTypeOf<ArticleContent>();
+        expectTypeOf<Extract<GeneratedContent, { type: ContentType.Product }>>().toEqualTypeOf<ProductContent>();
+        expectTypeOf<ArticleContent>().toHaveProperty('body').toBeString();
+        expectTypeOf<ProductContent>().not.toHaveProperty('body');
+    });
+});
+
+describe('publishing', () => {
+    it('only asks WordPress for statuses it reports back', () => {
+        expectTypeOf<PublishingOptions['status']>().toEqualTypeOf<'publish' | 'draft' | 'pending' | 'future'>();
+        expectTypeOf<PublishingOptions['status']>().toMatchTypeOf<WordPressPostStatus>();
+        expectTypeOf<PublishState['status']>().toEqualTypeOf<WordPressPostStatus>();
+    });
+});
+
+describe('labels', () => {
+    const maps: [string, Record<string, string>, string[]][] = [
+        ['roles', USER_ROLE_LABELS, Object.values(UserRole)],
+        ['content types', CONTENT_TYPE_LABELS, Object.values(ContentType)],
+        ['statuses', CONTENT_STATUS_LABELS, Object.keys(CONTENT_STATUS_LABELS)],
+    ];
+
+    it.each(maps)('cover every one of the %s', (_name, labels, values) => {
+        expect(Object.keys(labels).sort()).toEqual([...values].sort());
+    });
+
+    it.each(maps)('of the %s are translated in every language', (_name, labels) => {
+        Object.entries(translations).forEach(([language, strings]) => {
+            const missing = Object.values(labels).filter(key => !(key in strings));
+            expect(missing, language).toEqual([]);
+        });
+    });
+});
@@ -1,16 +1,29 @@
-export interface Post {
-    id: string;
-    title: string;
-    content: string;
-    status: 'draft' | 'published' | 'needs-review' | 'approved';
-    publishDate?: string;
-    author?: string;
+// --- Localisation ---
+
+export type LanguageCode = 'en' | 'ar';
+
+// The language content is generated in; the app's UI languages double as content languages.
+export type Language = LanguageCode;
+
+export type Translator = (key: string, replacements?: { [key: string]: string | number }) => string;
+
+export interface LanguageContextType {
+    language: LanguageCode;
+    setLanguage: (language: LanguageCode) => void;
+    t: Translator;
+    dir: 'ltr' | 'rtl';
 }
 
-export interface Site {
-    id: string;
-    name: string;
-    url: string;
+export interface Notification {
+    message: string;
+    type: 'success' | 'error' | 'info';
+}
+
+// --- Users and teams ---
+
+export enum UserRole {
+    Writer = 'writer',
+    Editor = 'editor',
 }
 
 export interface User {
@@ -18,6 +31,7 @@ export interface User {
     name: string;
     email: string;
     teamId: string;
+    role: UserRole;
 }
 
 export interface Team {
@@ -25,3 +39,343 @@ export interface Team {
     name: string;
     members: string[];
 }
+
+export interface TeamInvitation {
+    id: string;
+    teamId: string;
+    email: string;
+    role: UserRole;
+    invitedBy: string | null;
+    createdAt: string;
+    expiresAt: string;
+    // Only returned when the invitation is created; it goes into the invite link.
+    token?: string;
+}
+
+// What the invitee sees before accepting.
+export interface InvitationPreview extends TeamInvitation {
+    teamName: string;
+    inviterName: string | null;
+}
+
+// --- Content ---
+
+export enum ContentType {
+    Article = 'article',
+    Product = 'product',
+}
+
+export type ContentStatus = 'draft' | 'needs-review' | 'approved' | 'scheduled' | 'published';
+
+export interface FeaturedImage {
+    // Raw base64 bytes as returned by generateFeaturedImage (no data: prefix).
+    base64: string;
+    mimeType: 'image/jpeg';
+    altText: string;
+    caption: string;
+    // Set after the image has been uploaded, so re-publishing to the same site reuses the attachment.
+    upload?: { siteId: string; mediaId: number };
+}
+
+interface BaseContent {
+    id: string;
+    title: string;
+    metaDescription: string;
+    status: ContentStatus;
+    createdAt: Date;
+    updatedAt?: Date;
+    authorId?: string;
+    siteId?: string;
+    wordpressId?: number;
+    wordpressUrl?: string;
+    scheduledFor?: string;
+    featuredImage?: FeaturedImage;
+    // Bookkeeping for the scheduled-publishing worker when WordPress can't be reached.
+    publishAttempts?: number;
+    nextPublishAttemptAt?: string;
+    publishError?: string;
+    // The prompts that generated the item, e.g. an outline and a section template.
+    promptTemplates?: PromptTemplateRef[];
+}
+
+export interface ArticleContent extends BaseContent {
+    type: ContentType.Article;
+    body: string;
+}
+
+export interface ProductContent extends BaseContent {
+    type: ContentType.Product;
+    longDescription: string;
+    shortDescription: string;
+}
+
+export type GeneratedContent = ArticleContent | ProductContent;
+
+// --- Generation and SEO ---
+
+export type WritingTone = 'Professional' | 'Casual' | 'Enthusiastic' | 'Informative' | 'Humorous';
+
+export type ArticleLength = 'Short (~500 words)' | 'Medium (~1000 words)' | 'Long (~2000 words)';
+
+/** What an AI rewrite in the editor does to the selected text or section. */
+export type RewriteInstruction =
+    | { action: 'rewrite' | 'expand' | 'shorten' | 'simplify' }
+    | { action: 'tone'; tone: WritingTone }
+    | { action: 'translate'; targetLanguage: Language };
+
+export interface OutlineSection {
+    // The section's H2.
+    heading: string;
+    // H3s within the section.
+    subheadings: string[];
+    keyPoints: string[];
+}
+
+/** The editable plan an article is written from in the outline-first workflow. */
+export interface ArticleOutline {
+    titleCandidates: string[];
+    metaDescription: string;
+    // In order; the first is the introduction and the last the conclusion.
+    sections: OutlineSection[];
+    promptTemplate?: PromptTemplateRef;
+}
+
+export interface SeoAnalysis {
+    score: number;
+    suggestions: string[];
+}
+
+export type SeoCheckId =
+    | 'keywordInTitle' | 'keywordInIntro' | 'keywordInHeadings' | 'keywordDensity'
+    | 'metaDescriptionLength' | 'headingHierarchy' | 'paragraphLength' | 'readability' | 'links';
+
+// A warning earns half of the check's points.
+// 'info' checks are shown without counting towards the score.
+export type SeoCheckStatus = 'pass' | 'warn' | 'fail' | 'info';
+
+export interface SeoCheck {
+    id: SeoCheckId;
+    status: SeoCheckStatus;
+    points: number;
+    maxPoints: number;
+    // Measurements behind the status, for the check's message.
+    values: { [key: string]: string | number };
+}
+
+// The local, reproducible counterpart of SeoAnalysis.
+export interface SeoReport {
+    score: number;
+    checks: SeoCheck[];
+}
+
+export type Estimate = 'Low' | 'Medium' | 'High';
+
+export interface KeywordSuggestion {
+    keyword: string;
+    volume: Estimate;
+    difficulty: Estimate;
+}
+
+export interface CompetitorAnalysis {
+    mainTopics: string[];
+    identifiedKeywords: string[];
+    suggestions: string[];
+}
+
+export interface InternalLinkSuggestion {
+    // Exact phrase from the article body to turn into a link.
+    anchorText: string;
+    linkToTitle: string;
+    // Always the URL of a page in the site's link index.
+    url: string;
+    reasoning: string;
+}
+
+// A page of a site in its link index: a published post, or a published library item.
+export interface LinkIndexEntry {
+    url: string;
+    title: string;
+    keywords: string[];
+    // Absolute URLs the page links to, on the site or elsewhere.
+    outboundLinks: string[];
+    source: 'site' | 'library';
+    postId?: number;
+    contentId?: string;
+    // Set by the server when the index is saved.
+    updatedAt?: string;
+}
+
+// --- AI providers ---
+
+export type AiProviderId = 'gemini' | 'openai-compatible' | 'fixture';
+
+export interface AiSettings {
+    provider: AiProviderId;
+    textModel: string;
+    imageModel: string;
+    // Only used by the OpenAI-compatible provider, e.g. http://localhost:11434/v1 for Ollama.
+    baseUrl?: string;
+    apiKey?: string;
+}
+
+/** Which version of which prompt template produced a piece of content. */
+export interface PromptTemplateRef {
+    id: string;
+    version: number;
+    // The built-in template, or the team's or a site's override of it.
+    source: 'default' | 'team' | 'site';
+}
+
+/** A team's or a site's replacement for one of the built-in prompt templates. */
+export interface PromptTemplateOverride {
+    templateId: string;
+    // Null for the team-wide override.
+    siteId: string | null;
+    version: number;
+    systemInstruction: string;
+    userPrompt: string;
+    updatedBy: string | null;
+    updatedAt: string;
+}
+
+/** A named brand voice that sites can share. Lists hold one item each, e.g. one banned word. */
+export interface VoiceProfile {
+    id: string;
+    name: string;
+    description: string;
+    dos: string[];
+    donts: string[];
+    // Short passages written in the voice, shown to the model as examples.
+    examples: string[];
+    bannedWords: string[];
+}
+
+export type BudgetScope = 'team' | 'user' | 'site';
+
+export interface AiUsageTotals {
+    requests: number;
+    failedRequests: number;
+    promptTokens: number;
+    outputTokens: number;
+    images: number;
+    // Estimated from list prices when the request was made.
+    costUsd: number;
+}
+
+/** A team's AI usage for one month, as shown on the Usage page. */
+export interface AiUsageSummary {
+    // YYYY-MM, in UTC.
+    month: string;
+    totals: AiUsageTotals;
+    // `name` is null for deleted users and sites; `siteId` is null for usage not tied to a site.
+    byUser: (AiUsageTotals & { userId: string | null; name: string | null })[];
+    bySite: (AiUsageTotals & { siteId: string | null; name: string | null })[];
+    // The twelve months up to and including `month`, oldest first; months without usage are left out.
+    byMonth: (AiUsageTotals & { month: string })[];
+    budgets: AiBudget[];
+}
+
+export interface AiBudget {
+    scope: BudgetScope;
+    // The team, user or site id.
+    scopeId: string;
+    monthlyLimitUsd: number;
+    // This month so far.
+    spentUsd: number;
+}
+
+// --- WordPress ---
+
+export interface SiteStats {
+    posts: number;
+    pages: number;
+    products: number;
+}
+
+// How markdown is converted before publishing: block markup, or plain HTML for sites on the classic editor.
+export type ContentFormat = 'gutenberg' | 'classic';
+
+export interface WordPressSite {
+    id: string;
+    name: string;
+    url: string;
+    username: string;
+    // The application password is stored encrypted on the server and never sent back.
+    hasAppPassword?: boolean;
+    isVirtual?: boolean;
+    contentFormat?: ContentFormat;
+    // The voice profile generation uses for this site; none when unset.
+    voiceProfileId?: string;
+    stats: SiteStats;
+}
+
+export interface WordPressCategory {
+    id: number;
+    name: string;
+    count: number;
+}
+
+export interface WordPressTag {
+    id: number;
+    name: string;
+}
+
+export interface WordPressPost {
+    id: number;
+    title: string;
+    link: string;
+    type: 'post' | 'product';
+}
+
+// A published post with its excerpt as plain text, light enough to fetch for every post of a site.
+export interface WordPressPostSummary extends WordPressPost {
+    excerpt: string;
+}
+
+// A published post with its content, as rendered HTML and as plain text.
+export interface WordPressPostBody extends WordPressPost {
+    html: string;
+    text: string;
+}
+
+export interface SiteContext {
+    recentPosts: { title: string; url: string }[];
+    categories: WordPressCategory[];
+    tags: WordPressTag[];
+    // Every post in any status, for spotting duplicate topics; only the recent ones go into prompts.
+    posts: WordPressPost[];
+}
+
+export type StockStatus = 'instock' | 'outofstock' | 'onbackorder';
+
+/** WooCommerce-only fields collected in the PublishModal for product content. */
+export interface ProductPublishingDetails {
+    regularPrice: string;
+    salePrice?: string;
+    sku?: string;
+    manageStock: boolean;
+    stockQuantity?: number;
+    stockStatus: StockStatus;
+}
+
+export interface PublishingOptions {
+    siteId: string;
+    // 'future' together with `date` hands scheduling over to WordPress.
+    status: 'publish' | 'draft' | 'pending' | 'future';
+    date?: string;
+    action: 'create' | 'update';
+    postId?: number;
+    // Post category ids for articles, product_cat ids for products.
+    categories: number[];
+    product?: ProductPublishingDetails;
+    featuredImage?: FeaturedImage;
+}
+
+// The statuses WordPress reports for a post or a WooCommerce product.
+export type WordPressPostStatus = 'publish' | 'future' | 'draft' | 'pending' | 'private' | 'trash';
+
+// Published content as WordPress currently has it, e.g. whether a `future` post went out.
+export interface PublishState {
+    status: WordPressPostStatus;
+    link: string;
+}
@@ -6,9 +6,11 @@ export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      server: {
+        proxy: {
+          // The backend in server/ (npm run server)
+          '/api': env.API_PROXY_TARGET || 'http://localhost:3001',
+        },
       },
       resolve: {
         alias: {